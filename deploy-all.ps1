@@ -363,7 +363,7 @@ if ($DeployEnvironment) {
 
     if (-not $NoBuild) {
         Write-Host "Building Environment stack..." -ForegroundColor Cyan
-        sam build -t template.yaml --config-env $Environment
+        sam build -t template.yaml --config-env $Environment --build-in-source
         if ($LASTEXITCODE -ne 0) { 
             Write-Host "❌ Build failed!" -ForegroundColor Red
             exit 1 
@@ -53,7 +53,7 @@ try {
 
     # Step 4: Build environment stack
     Write-Host "Building $Environment stack..." -ForegroundColor Cyan
-    sam build --template-file template.yaml --config-env $Environment
+    sam build --template-file template.yaml --config-env $Environment --build-in-source
     
     if ($LASTEXITCODE -ne 0) {
         throw "Build failed with exit code $LASTEXITCODE"
@@ -66,7 +66,7 @@ $envConfig = @{
     AuthFunction = @{
         COGNITO_USER_POOL_ID = $UserPoolId
         COGNITO_CLIENT_ID = $ClientId
-        CORS_ORIGIN = "*"
+        ALLOWED_ORIGINS = "http://localhost:*"
         STACK_PREFIX = $StackPrefix
         ENVIRONMENT = $Environment
         AWS_REGION = $Region
@@ -0,0 +1,768 @@
+/**
+ * Admin Lambda Function
+ * User management under /secure/admin for the Admins group and the admin role:
+ * search, inspect, set role/company, group membership, disable/enable,
+ * force sign-out and delete, plus company invitations and the audit log
+ * query. Every action is written to the audit log
+ *
+ * The authorizer already denies /secure/admin/* to everyone else; the
+ * handler checks the authorizer context again before any route runs
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  CognitoIdentityProviderClient,
+  ListUsersCommand,
+  AdminCreateUserCommand,
+  AdminSetUserPasswordCommand,
+  AdminGetUserCommand,
+  AdminListGroupsForUserCommand,
+  AdminUpdateUserAttributesCommand,
+  AdminAddUserToGroupCommand,
+  AdminRemoveUserFromGroupCommand,
+  AdminDisableUserCommand,
+  AdminEnableUserCommand,
+  AdminUserGlobalSignOutCommand,
+  AdminDeleteUserCommand,
+  AttributeType
+} from '@aws-sdk/client-cognito-identity-provider';
+import { Middleware, RouteRequest, Router } from '../auth/router';
+import { handleCors, logRequests, mapErrors, parseJsonBody } from '../auth/middleware';
+import { HttpError, ValidationError } from '../auth/errors';
+import { mapCognitoError } from '../auth/cognito-errors';
+import { validateBody, validateQuery } from '../auth/validation';
+import { getAuditStore, recordAuditEvent, toAuditEntry } from '../shared/audit-log';
+import { getHeader } from '../shared/headers';
+import { logger, withLogContext } from '../shared/logger';
+import {
+  getInvitationState,
+  getInvitationStore,
+  Invitation,
+  InvitationState,
+  newInvitation,
+  sendInvitation
+} from '../shared/invitations';
+import { maskPhoneNumber, OtpDeliveryError } from '../shared/otp-delivery';
+import { getRevocationStore, revokeUserTokens } from '../shared/revocation-store';
+import { getUserEventPublisher, publishUserEvent } from '../shared/user-events';
+import {
+  AddGroupBody,
+  addGroupSchema,
+  AuditQuery,
+  auditQuerySchema,
+  CreateInvitationBody,
+  createInvitationSchema,
+  ListInvitationsQuery,
+  listInvitationsQuerySchema,
+  ListUsersQuery,
+  listUsersQuerySchema,
+  UpdateUserBody,
+  updateUserSchema
+} from './validation';
+
+const cognitoClient = new CognitoIdentityProviderClient({});
+
+const COGNITO_USER_POOL_ID = process.env.COGNITO_USER_POOL_ID!;
+
+// Principals allowed in (matches ADMIN_POLICY in the authorizer's permissions)
+const ADMIN_ROLES = ['admin', 'super-admin'];
+const ADMIN_GROUP = 'Admins';
+
+// Principals that manage every company (matches CROSS_TENANT_PRINCIPALS in the authorizer's tenancy)
+const CROSS_TENANT_PRINCIPALS = ['super-admin'];
+
+// Types
+interface Admin {
+  userId: string;        // sub of the admin making the request
+  company: string;       // custom:company of the admin (may be empty)
+  crossTenant: boolean;  // super-admin - not limited to their own company
+}
+
+interface AdminUser {
+  username: string;
+  userId: string;
+  phoneNumber: string;
+  email: string;
+  name: string;
+  role: string;
+  company: string;
+  status: string;
+  enabled: boolean;
+  createdAt?: string;
+  lastModifiedAt?: string;
+  groups?: string[];   // GET /users/{username} only
+}
+
+// The user an action targets, resolved with AdminGetUser
+interface TargetUser {
+  username: string;
+  userId: string;   // sub - keys the audit log and the revocation list
+  company: string;  // custom:company (may be empty)
+  role: string;     // custom:role (may be empty)
+}
+
+// Invitation as returned to admins (the link token is never returned)
+interface InvitationView {
+  inviteId: string;
+  userId: string;
+  phoneNumber: string;
+  company: string;
+  role: string;
+  status: InvitationState;
+  invitedBy: string;
+  createdAt: string;
+  expiresAt: string;
+  acceptedAt?: string;
+  revokedAt?: string;
+}
+
+// ListUsers filter attribute and operator per search field
+const USER_FILTER_ATTRIBUTES: Record<string, { attribute: string; operator: '=' | '^=' }> = {
+  phoneNumber: { attribute: 'phone_number', operator: '^=' },
+  email: { attribute: 'email', operator: '^=' },
+  name: { attribute: 'name', operator: '^=' },
+  status: { attribute: 'cognito:user_status', operator: '=' },
+  enabled: { attribute: 'status', operator: '=' }
+};
+
+const jsonHeaders = {
+  'Content-Type': 'application/json'
+};
+
+/**
+ * Reject callers the authorizer did not mark as admins
+ */
+const requireAdmin: Middleware = async (request, next) => {
+  getAdmin(request.event);
+  return next();
+};
+
+// Routes - same middleware pipeline as the auth lambda, plus the admin check
+const router = new Router('/secure/admin')
+  .use(logRequests)
+  .use(handleCors)
+  .use(mapErrors)
+  .use(requireAdmin)
+  .use(parseJsonBody)
+  .get('/users', validateQuery(listUsersQuerySchema, (request, query) => listUsers(request, query)))
+  .get('/users/{username}', request => getUser(request))
+  .patch('/users/{username}', validateBody(updateUserSchema, request => updateUser(request, request.body)))
+  .delete('/users/{username}', request => deleteUser(request))
+  .post('/users/{username}/groups', validateBody(addGroupSchema, request => addToGroup(request, request.body)))
+  .delete('/users/{username}/groups/{group}', request => removeFromGroup(request))
+  .post('/users/{username}/disable', request => setEnabled(request, false))
+  .post('/users/{username}/enable', request => setEnabled(request, true))
+  .post('/users/{username}/sign-out', request => signOutUser(request))
+  .get('/invitations', validateQuery(listInvitationsQuerySchema, (request, query) => listInvitations(request, query)))
+  .post('/invitations', validateBody(createInvitationSchema, request => createInvitation(request, request.body)))
+  .delete('/invitations/{inviteId}', request => revokeInvitation(request))
+  .get('/audit', validateQuery(auditQuerySchema, (request, query) => queryAuditLog(request, query)));
+
+/**
+ * Main Lambda handler
+ */
+export const handler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  return withLogContext(context, () => router.handle(event));
+};
+
+/**
+ * List or search users, one page at a time
+ * One of phoneNumber, email or name (prefix), status or enabled (exact)
+ * ListUsers cannot filter on custom:company, so admins other than super-admins
+ * get their own company's users from each page - a page may hold fewer than limit
+ */
+async function listUsers(request: RouteRequest, query: ListUsersQuery): Promise<APIGatewayProxyResult> {
+  const admin = getAdmin(request.event);
+  const company = scopeCompany(admin, undefined);
+  const filter = toUserFilter(query);
+
+  const response = await audited(request, 'admin.users.list', admin.userId, { filter }, () =>
+    cognitoClient.send(new ListUsersCommand({
+      UserPoolId: COGNITO_USER_POOL_ID,
+      Limit: query.limit,
+      PaginationToken: query.paginationToken,
+      ...(filter ? { Filter: filter } : {})
+    }))
+  );
+
+  return jsonResponse({
+    users: (response.Users || [])
+      .map(user => toAdminUser(user.Username, user.Attributes, user))
+      .filter(user => company === undefined || user.company === company),
+    paginationToken: response.PaginationToken
+  });
+}
+
+/**
+ * Get one user with their group memberships
+ */
+async function getUser(request: RouteRequest): Promise<APIGatewayProxyResult> {
+  const target = await resolveTarget(request);
+
+  const user = await audited(request, 'admin.user.get', target.userId, undefined, async () => {
+    const [response, groups] = await Promise.all([
+      cognitoClient.send(new AdminGetUserCommand({ UserPoolId: COGNITO_USER_POOL_ID, Username: target.username })),
+      listGroups(target.username)
+    ]);
+
+    return { ...toAdminUser(response.Username, response.UserAttributes, response), groups };
+  });
+
+  return jsonResponse({ user });
+}
+
+/**
+ * Set custom:role and/or custom:company
+ * The user's current tokens are revoked so the new claims apply from their
+ * next refresh rather than when the ID token expires. Only super-admins move
+ * users (themselves included) to another company
+ */
+async function updateUser(request: RouteRequest, body: UpdateUserBody): Promise<APIGatewayProxyResult> {
+  const target = await resolveManagedTarget(request);
+
+  if (body.company !== undefined && !managesCompany(getAdmin(request.event), body.company)) {
+    throw new HttpError('ADMIN_CROSS_TENANT');
+  }
+
+  const attributes: AttributeType[] = [
+    ...(body.role !== undefined ? [{ Name: 'custom:role', Value: body.role }] : []),
+    ...(body.company !== undefined ? [{ Name: 'custom:company', Value: body.company }] : [])
+  ];
+
+  await audited(request, 'admin.user.update', target.userId, { role: body.role, company: body.company }, async () => {
+    await cognitoClient.send(new AdminUpdateUserAttributesCommand({
+      UserPoolId: COGNITO_USER_POOL_ID,
+      Username: target.username,
+      UserAttributes: attributes
+    }));
+    await revokeUserTokens(getRevocationStore(), target.userId);
+  });
+
+  return getUser(request);
+}
+
+/**
+ * Add a user to a Cognito group (e.g. Admins)
+ */
+async function addToGroup(request: RouteRequest, body: AddGroupBody): Promise<APIGatewayProxyResult> {
+  const target = await resolveManagedTarget(request);
+
+  // A cross-tenant group would let the user out of their company
+  if (CROSS_TENANT_PRINCIPALS.includes(body.group) && !getAdmin(request.event).crossTenant) {
+    throw new HttpError('ADMIN_CROSS_TENANT');
+  }
+
+  await audited(request, 'admin.group.add', target.userId, { group: body.group }, async () => {
+    await cognitoClient.send(new AdminAddUserToGroupCommand({
+      UserPoolId: COGNITO_USER_POOL_ID,
+      Username: target.username,
+      GroupName: body.group
+    }));
+    await revokeUserTokens(getRevocationStore(), target.userId);
+  });
+
+  return jsonResponse({ success: true, groups: await listGroups(target.username) });
+}
+
+/**
+ * Remove a user from a Cognito group
+ * Revokes the user's tokens so a removed Admins membership stops working at once
+ */
+async function removeFromGroup(request: RouteRequest): Promise<APIGatewayProxyResult> {
+  const target = await resolveManagedTarget(request);
+  const group = request.params.group;
+
+  await audited(request, 'admin.group.remove', target.userId, { group }, async () => {
+    await cognitoClient.send(new AdminRemoveUserFromGroupCommand({
+      UserPoolId: COGNITO_USER_POOL_ID,
+      Username: target.username,
+      GroupName: group
+    }));
+    await revokeUserTokens(getRevocationStore(), target.userId);
+  });
+
+  return jsonResponse({ success: true, groups: await listGroups(target.username) });
+}
+
+/**
+ * Disable or re-enable a user
+ * Disabled users cannot sign in or refresh; their issued tokens are revoked
+ */
+async function setEnabled(request: RouteRequest, enabled: boolean): Promise<APIGatewayProxyResult> {
+  const target = await resolveManagedTarget(request);
+
+  if (!enabled) {
+    assertNotSelf(request, target);
+  }
+
+  await audited(request, enabled ? 'admin.user.enable' : 'admin.user.disable', target.userId, undefined, async () => {
+    if (enabled) {
+      await cognitoClient.send(new AdminEnableUserCommand({ UserPoolId: COGNITO_USER_POOL_ID, Username: target.username }));
+      return;
+    }
+
+    await cognitoClient.send(new AdminDisableUserCommand({ UserPoolId: COGNITO_USER_POOL_ID, Username: target.username }));
+    await revokeUserTokens(getRevocationStore(), target.userId);
+  });
+
+  return jsonResponse({ success: true, enabled });
+}
+
+/**
+ * Sign a user out of every device
+ */
+async function signOutUser(request: RouteRequest): Promise<APIGatewayProxyResult> {
+  const target = await resolveManagedTarget(request);
+
+  await audited(request, 'admin.user.sign-out', target.userId, undefined, async () => {
+    await cognitoClient.send(new AdminUserGlobalSignOutCommand({ UserPoolId: COGNITO_USER_POOL_ID, Username: target.username }));
+    await revokeUserTokens(getRevocationStore(), target.userId);
+  });
+
+  return jsonResponse({ success: true });
+}
+
+/**
+ * Delete a user - same clean-up as self-service deletion (DELETE /me)
+ */
+async function deleteUser(request: RouteRequest): Promise<APIGatewayProxyResult> {
+  const target = await resolveManagedTarget(request);
+
+  assertNotSelf(request, target);
+
+  await audited(request, 'admin.user.delete', target.userId, undefined, async () => {
+    await cognitoClient.send(new AdminDeleteUserCommand({ UserPoolId: COGNITO_USER_POOL_ID, Username: target.username }));
+    await revokeUserTokens(getRevocationStore(), target.userId);
+  });
+
+  try {
+    await publishUserEvent(getUserEventPublisher(), 'user.deleted', target.userId);
+  } catch (error) {
+    logger.error('Failed to publish user.deleted', { userId: target.userId, error });
+  }
+
+  return jsonResponse({ success: true });
+}
+
+/**
+ * Invite a phone number into a company with a preassigned role
+ * Pre-creates the Cognito user (disabled until the link is followed) and
+ * sends the signed link over the OTP delivery channels. Nothing is left
+ * behind when the invitation cannot be sent
+ */
+async function createInvitation(request: RouteRequest, body: CreateInvitationBody): Promise<APIGatewayProxyResult> {
+  const admin = getAdmin(request.event);
+  const company = scopeCompany(admin, body.company) ?? admin.company;
+
+  if (!company) {
+    throw new ValidationError([{ field: 'company', code: 'required', message: 'Company is required' }]);
+  }
+
+  const inviteId = randomUUID();
+  const details = { inviteId, phoneNumber: maskPhoneNumber(body.phoneNumber), company, role: body.role };
+
+  const { invitation, delivery } = await audited(request, 'admin.invitation.create', admin.userId, details, async () => {
+    const created = await cognitoClient.send(new AdminCreateUserCommand({
+      UserPoolId: COGNITO_USER_POOL_ID,
+      Username: body.phoneNumber,
+      UserAttributes: [
+        { Name: 'phone_number', Value: body.phoneNumber },
+        { Name: 'custom:company', Value: company },
+        { Name: 'custom:role', Value: body.role }
+      ],
+      TemporaryPassword: generatePassword(),
+      MessageAction: 'SUPPRESS'
+    }));
+
+    const username = created.User?.Username || '';
+
+    try {
+      // A permanent password confirms the user - CUSTOM_AUTH never asks for it
+      await cognitoClient.send(new AdminSetUserPasswordCommand({
+        UserPoolId: COGNITO_USER_POOL_ID,
+        Username: username,
+        Password: generatePassword(),
+        Permanent: true
+      }));
+      await cognitoClient.send(new AdminDisableUserCommand({ UserPoolId: COGNITO_USER_POOL_ID, Username: username }));
+
+      const pending = newInvitation({
+        inviteId,
+        username,
+        phoneNumber: body.phoneNumber,
+        company,
+        role: body.role,
+        invitedBy: admin.userId
+      });
+
+      await getInvitationStore().put(pending);
+
+      try {
+        return { invitation: pending, delivery: await sendInvitation(pending, body.channel) };
+      } catch (error) {
+        await getInvitationStore().close(inviteId, 'revoked', new Date().toISOString());
+        throw error instanceof OtpDeliveryError ? new HttpError('INVITATION_DELIVERY_FAILED') : error;
+      }
+    } catch (error) {
+      try {
+        await cognitoClient.send(new AdminDeleteUserCommand({ UserPoolId: COGNITO_USER_POOL_ID, Username: username }));
+      } catch (deleteError) {
+        logger.error('Failed to remove invited user', { username, error: deleteError });
+      }
+      throw error;
+    }
+  });
+
+  return jsonResponse({ invitation: toInvitationView(invitation), delivery }, 201);
+}
+
+/**
+ * List invitations, newest first - optionally for one company or in one state
+ * Admins other than super-admins only see their own company's
+ */
+async function listInvitations(request: RouteRequest, query: ListInvitationsQuery): Promise<APIGatewayProxyResult> {
+  const admin = getAdmin(request.event);
+  const company = scopeCompany(admin, query.company);
+
+  const invitations = await audited(request, 'admin.invitations.list', admin.userId, { ...query, company }, () =>
+    getInvitationStore().list(company)
+  );
+
+  return jsonResponse({
+    invitations: invitations
+      .map(toInvitationView)
+      .filter(invitation => !query.status || invitation.status === query.status)
+  });
+}
+
+/**
+ * Revoke a pending (or expired) invitation
+ * The link stops working and the pre-created user is deleted, freeing the number
+ */
+async function revokeInvitation(request: RouteRequest): Promise<APIGatewayProxyResult> {
+  const admin = getAdmin(request.event);
+  const invitation = await getInvitationStore().get(request.params.inviteId);
+
+  // Another company's invitation is reported like an unknown one
+  if (!invitation || !managesCompany(admin, invitation.company)) {
+    throw new HttpError('INVITATION_NOT_FOUND');
+  }
+
+  await audited(request, 'admin.invitation.revoke', invitation.username, { inviteId: invitation.inviteId }, async () => {
+    if (!await getInvitationStore().close(invitation.inviteId, 'revoked', new Date().toISOString())) {
+      throw new HttpError('INVITATION_NOT_PENDING');
+    }
+
+    try {
+      await cognitoClient.send(new AdminDeleteUserCommand({ UserPoolId: COGNITO_USER_POOL_ID, Username: invitation.username }));
+    } catch (error) {
+      if ((error as { name?: string })?.name !== 'UserNotFoundException') {
+        throw error;
+      }
+    }
+
+    // The link may have been followed already - end any session it started
+    await revokeUserTokens(getRevocationStore(), invitation.username);
+  });
+
+  return jsonResponse({ success: true });
+}
+
+/**
+ * Read a user's audit records (auth events and admin actions), newest first
+ * userId is the user's sub; from/to limit the time range
+ * Other companies' users are reported as AUTH_USER_NOT_FOUND - super-admins
+ * skip the lookup, so they can still read the records of deleted users
+ */
+async function queryAuditLog(request: RouteRequest, query: AuditQuery): Promise<APIGatewayProxyResult> {
+  const { userId, ...range } = query;
+  const admin = getAdmin(request.event);
+
+  if (!admin.crossTenant && !managesCompany(admin, (await findUser(userId)).company)) {
+    throw new HttpError('AUTH_USER_NOT_FOUND');
+  }
+
+  const page = await audited(request, 'admin.audit.query', userId, { from: range.from, to: range.to }, () =>
+    getAuditStore().query(userId, range)
+  );
+
+  return jsonResponse({
+    records: page.records.map(toAuditEntry),
+    nextToken: page.nextToken
+  });
+}
+
+/**
+ * Helper: The admin behind a request, from the authorizer context
+ * Throws ADMIN_FORBIDDEN without the admin role or the Admins group
+ */
+function getAdmin(event: APIGatewayProxyEvent): Admin {
+  const authorizer = event.requestContext?.authorizer || {};
+  const groups = String(authorizer.groups || '').split(',');
+
+  if (!authorizer.userId || (!ADMIN_ROLES.includes(String(authorizer.role)) && !groups.includes(ADMIN_GROUP))) {
+    throw new HttpError('ADMIN_FORBIDDEN');
+  }
+
+  return {
+    userId: String(authorizer.userId),
+    company: String(authorizer.company || ''),
+    crossTenant: [String(authorizer.role), ...groups].some(principal => CROSS_TENANT_PRINCIPALS.includes(principal))
+  };
+}
+
+/**
+ * Helper: The company an admin action is limited to
+ * Super-admins get the requested company (undefined for all); other admins
+ * their own, and ADMIN_CROSS_TENANT for any other or when they have none
+ */
+function scopeCompany(admin: Admin, requested: string | undefined): string | undefined {
+  if (admin.crossTenant) {
+    return requested;
+  }
+
+  if (!managesCompany(admin, requested ?? admin.company)) {
+    throw new HttpError('ADMIN_CROSS_TENANT');
+  }
+
+  return admin.company;
+}
+
+/**
+ * Helper: Whether an admin may act on a company's users and invitations
+ */
+function managesCompany(admin: Admin, company: string): boolean {
+  return admin.crossTenant || (Boolean(admin.company) && company === admin.company);
+}
+
+/**
+ * Helper: Look up the {username} a route targets
+ * Throws AUTH_USER_NOT_FOUND for unknown users (not audited - nothing happened),
+ * and for other companies' users unless the admin is a super-admin
+ */
+async function resolveTarget(request: RouteRequest): Promise<TargetUser> {
+  const target = await findUser(request.params.username);
+
+  if (!managesCompany(getAdmin(request.event), target.company)) {
+    throw new HttpError('AUTH_USER_NOT_FOUND');
+  }
+
+  return target;
+}
+
+/**
+ * Helper: Look up the {username} a change targets
+ * As resolveTarget, and ADMIN_CROSS_TENANT when the target is a super-admin
+ * (by role or group) and the admin is not - sharing a company with one does
+ * not let a company admin demote, disable or delete them
+ */
+async function resolveManagedTarget(request: RouteRequest): Promise<TargetUser> {
+  const target = await resolveTarget(request);
+
+  if (!getAdmin(request.event).crossTenant && await isCrossTenant(target)) {
+    throw new HttpError('ADMIN_CROSS_TENANT');
+  }
+
+  return target;
+}
+
+/**
+ * Helper: Whether a user holds a cross-tenant principal (role or group)
+ */
+async function isCrossTenant(target: TargetUser): Promise<boolean> {
+  if (CROSS_TENANT_PRINCIPALS.includes(target.role)) {
+    return true;
+  }
+
+  const groups = await listGroups(target.username);
+  return groups.some(group => CROSS_TENANT_PRINCIPALS.includes(group));
+}
+
+/**
+ * Helper: Look up a user by username (or sub) with AdminGetUser
+ * Throws AUTH_USER_NOT_FOUND for unknown users
+ */
+async function findUser(username: string): Promise<TargetUser> {
+  try {
+    const response = await cognitoClient.send(new AdminGetUserCommand({
+      UserPoolId: COGNITO_USER_POOL_ID,
+      Username: username
+    }));
+
+    const attributes = toAttributeMap(response.UserAttributes);
+
+    return {
+      username: response.Username || username,
+      userId: attributes.sub || username,
+      company: attributes['custom:company'] || '',
+      role: attributes['custom:role'] || ''
+    };
+  } catch (error) {
+    logger.error('Resolve user failed', { error });
+    throw mapCognitoError(error, 'admin');
+  }
+}
+
+function assertNotSelf(request: RouteRequest, target: TargetUser): void {
+  if (target.userId === getAdmin(request.event).userId) {
+    throw new HttpError('ADMIN_SELF_ACTION');
+  }
+}
+
+/**
+ * Helper: Run an admin action and audit its outcome
+ * Cognito errors are mapped to catalogue codes; failures are audited with the code
+ */
+async function audited<T>(
+  request: RouteRequest,
+  action: string,
+  userId: string,
+  details: Record<string, unknown> | undefined,
+  run: () => Promise<T>
+): Promise<T> {
+  const event = {
+    action,
+    userId,
+    actorId: getAdmin(request.event).userId,
+    sourceIp: request.sourceIp,
+    userAgent: getHeader(request.event.headers, 'User-Agent'),
+    details
+  };
+
+  try {
+    const result = await run();
+    await recordAuditEvent(getAuditStore(), { ...event, outcome: 'success' });
+    return result;
+  } catch (error) {
+    const httpError = toAdminError(error);
+
+    logger.error('Admin action failed', { action, error });
+    await recordAuditEvent(getAuditStore(), { ...event, outcome: 'failure', errorCode: httpError.code });
+    throw httpError;
+  }
+}
+
+/**
+ * Helper: Map an admin action error - a missing group is the only missing resource
+ */
+function toAdminError(error: unknown): HttpError {
+  if ((error as { name?: string })?.name === 'ResourceNotFoundException') {
+    return new HttpError('ADMIN_GROUP_NOT_FOUND');
+  }
+
+  return mapCognitoError(error, 'admin');
+}
+
+/**
+ * Helper: Password for pre-created users - required by Cognito, never used
+ */
+function generatePassword(): string {
+  return `${randomBytes(24).toString('base64url')}Aa1!`;
+}
+
+/**
+ * Helper: Cognito ListUsers filter for the search field in the query
+ */
+function toUserFilter(query: ListUsersQuery): string | undefined {
+  for (const [field, { attribute, operator }] of Object.entries(USER_FILTER_ATTRIBUTES)) {
+    const value = query[field as keyof ListUsersQuery];
+
+    if (value === undefined) {
+      continue;
+    }
+
+    // The status attribute holds "Enabled" / "Disabled"
+    const filterValue = field === 'enabled' ? (value === 'true' ? 'Enabled' : 'Disabled') : String(value);
+
+    return `${attribute} ${operator} "${filterValue.replace(/["\\]/g, '\\$&')}"`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Helper: Every group a user belongs to
+ */
+async function listGroups(username: string): Promise<string[]> {
+  const groups: string[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const response = await cognitoClient.send(new AdminListGroupsForUserCommand({
+      UserPoolId: COGNITO_USER_POOL_ID,
+      Username: username,
+      Limit: 60,
+      NextToken: nextToken
+    }));
+
+    groups.push(...(response.Groups || []).map(group => group.GroupName || ''));
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  return groups;
+}
+
+/**
+ * Helper: Map a Cognito user (ListUsers or AdminGetUser) for admin responses
+ */
+function toAdminUser(
+  username: string | undefined,
+  attributeList: AttributeType[] | undefined,
+  user: { UserStatus?: string; Enabled?: boolean; UserCreateDate?: Date; UserLastModifiedDate?: Date }
+): AdminUser {
+  const attributes = toAttributeMap(attributeList);
+
+  return {
+    username: username || '',
+    userId: attributes.sub || username || '',
+    phoneNumber: attributes.phone_number || '',
+    email: attributes.email || '',
+    name: attributes.name || '',
+    role: attributes['custom:role'] || 'user',
+    company: attributes['custom:company'] || '',
+    status: user.UserStatus || '',
+    enabled: user.Enabled !== false,
+    createdAt: user.UserCreateDate?.toISOString(),
+    lastModifiedAt: user.UserLastModifiedDate?.toISOString()
+  };
+}
+
+function toInvitationView(invitation: Invitation): InvitationView {
+  return {
+    inviteId: invitation.inviteId,
+    userId: invitation.username,
+    phoneNumber: invitation.phoneNumber,
+    company: invitation.company,
+    role: invitation.role,
+    status: getInvitationState(invitation),
+    invitedBy: invitation.invitedBy,
+    createdAt: invitation.createdAt,
+    expiresAt: new Date(invitation.expiresAt * 1000).toISOString(),
+    acceptedAt: invitation.acceptedAt,
+    revokedAt: invitation.revokedAt
+  };
+}
+
+/**
+ * Helper: Convert Cognito attribute list to a name/value map
+ */
+function toAttributeMap(attributes: AttributeType[] = []): Record<string, string> {
+  return attributes.reduce<Record<string, string>>((map, attribute) => {
+    if (attribute.Name) {
+      map[attribute.Name] = attribute.Value || '';
+    }
+    return map;
+  }, {});
+}
+
+function jsonResponse(body: unknown, statusCode = 200): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: jsonHeaders,
+    body: JSON.stringify(body)
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Admin Request Validation
+ * zod schemas for the admin routes - validated with validateBody and
+ * validateQuery from the auth lambda
+ */
+
+import { z } from 'zod';
+import { activityQuerySchema, phoneNumberSchema, sendOtpSchema } from '../auth/validation';
+
+// custom:role values an admin may assign (see ROLE_PERMISSIONS in the authorizer)
+export const ASSIGNABLE_ROLES = ['user', 'admin'] as const;
+
+export const INVITATION_STATES = ['pending', 'accepted', 'revoked', 'expired'] as const;
+
+export const USER_STATUSES = ['UNCONFIRMED', 'CONFIRMED', 'RESET_REQUIRED', 'FORCE_CHANGE_PASSWORD'] as const;
+
+// Search fields - Cognito's ListUsers accepts a single filter per request
+export const USER_FILTERS = ['phoneNumber', 'email', 'name', 'status', 'enabled'] as const;
+
+export const listUsersQuerySchema = z.object({
+  limit: z.coerce
+    .number({ invalid_type_error: 'Limit must be a number' })
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be at least 1')
+    .max(60, 'Limit must be at most 60')
+    .default(20),
+  paginationToken: z.string().min(1).max(4096, 'Pagination token is too long').optional(),
+  // Prefix searches
+  phoneNumber: z.string().trim().regex(/^\+?\d{1,15}$/, 'Phone number prefix must be digits with an optional leading +').optional(),
+  email: z.string().trim().toLowerCase().min(1).max(254, 'Email must be at most 254 characters').optional(),
+  name: z.string().trim().min(1).max(256, 'Name must be at most 256 characters').optional(),
+  // Exact matches
+  status: z.enum(USER_STATUSES, {
+    errorMap: () => ({ message: `Invalid status. Use one of: ${USER_STATUSES.join(', ')}` })
+  }).optional(),
+  enabled: z.enum(['true', 'false'], {
+    errorMap: () => ({ message: 'Enabled must be true or false' })
+  }).optional()
+}).superRefine((query, context) => {
+  const filters = USER_FILTERS.filter(filter => query[filter] !== undefined);
+
+  if (filters.length > 1) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [filters[1]],
+      message: `Search by one field at a time (${filters.join(', ')} given)`,
+      params: { code: 'too_many_filters' }
+    });
+  }
+});
+
+// Strict - every other attribute belongs to the user (PATCH /me) or to Cognito
+export const updateUserSchema = z.object({
+  role: z.enum(ASSIGNABLE_ROLES, {
+    errorMap: () => ({ message: `Invalid role. Use one of: ${ASSIGNABLE_ROLES.join(', ')}` })
+  }).optional(),
+  // An empty string clears the company
+  company: z.string({ invalid_type_error: 'Company must be a string' }).trim().max(128, 'Company must be at most 128 characters').optional()
+}).strict().refine(body => body.role !== undefined || body.company !== undefined, {
+  message: 'Provide role or company',
+  path: ['role'],
+  params: { code: 'required' }
+});
+
+export const addGroupSchema = z.object({
+  group: z
+    .string({ required_error: 'Group is required' })
+    .trim()
+    .min(1, 'Group is required')
+    .max(128, 'Group must be at most 128 characters')
+});
+
+// company defaults to the inviting admin's own company
+export const createInvitationSchema = z.object({
+  phoneNumber: phoneNumberSchema,
+  company: z.string({ invalid_type_error: 'Company must be a string' }).trim().min(1, 'Company must not be empty').max(128, 'Company must be at most 128 characters').optional(),
+  role: z.enum(ASSIGNABLE_ROLES, {
+    errorMap: () => ({ message: `Invalid role. Use one of: ${ASSIGNABLE_ROLES.join(', ')}` })
+  }).default('user'),
+  channel: sendOtpSchema.shape.channel
+});
+
+export const listInvitationsQuerySchema = z.object({
+  company: z.string().trim().min(1).max(128, 'Company must be at most 128 characters').optional(),
+  status: z.enum(INVITATION_STATES, {
+    errorMap: () => ({ message: `Invalid status. Use one of: ${INVITATION_STATES.join(', ')}` })
+  }).optional()
+});
+
+// Same time range and paging as GET /me/activity, for any user
+export const auditQuerySchema = activityQuerySchema.extend({
+  userId: z
+    .string({ required_error: 'User ID is required' })
+    .trim()
+    .min(1, 'User ID is required')
+    .max(128, 'User ID must be at most 128 characters')
+});
+
+export type ListUsersQuery = z.output<typeof listUsersQuerySchema>;
+export type UpdateUserBody = z.output<typeof updateUserSchema>;
+export type AddGroupBody = z.output<typeof addGroupSchema>;
+export type CreateInvitationBody = z.output<typeof createInvitationSchema>;
+export type ListInvitationsQuery = z.output<typeof listInvitationsQuerySchema>;
+export type AuditQuery = z.output<typeof auditQuerySchema>;
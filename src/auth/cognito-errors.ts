@@ -0,0 +1,107 @@
+/**
+ * Cognito Errors
+ * Maps exceptions from Cognito calls to catalogue codes. Callers log the
+ * original error; clients only ever see the mapped code and its message
+ */
+
+import { ErrorCode } from './error-codes';
+import { HttpError } from './errors';
+import { parseOtpSendLimit } from '../shared/otp-send-limits';
+
+// The auth flow a Cognito call belongs to - NotAuthorizedException means something different in each
+export type CognitoFlow = 'register' | 'send-otp' | 'resend-otp' | 'verify-otp' | 'refresh' | 'me' | 'profile' | 'phone-change' | 'step-up' | 'admin';
+
+// Exceptions with the same meaning in every flow
+const EXCEPTION_CODES: Record<string, ErrorCode> = {
+  UsernameExistsException: 'AUTH_USER_EXISTS',
+  AliasExistsException: 'AUTH_USER_EXISTS',
+  UserNotFoundException: 'AUTH_USER_NOT_FOUND',
+  UserNotConfirmedException: 'AUTH_USER_NOT_CONFIRMED',
+  CodeMismatchException: 'AUTH_OTP_INVALID',
+  ExpiredCodeException: 'AUTH_OTP_EXPIRED',
+  TooManyFailedAttemptsException: 'AUTH_TOO_MANY_ATTEMPTS',
+  LimitExceededException: 'AUTH_RATE_LIMITED',
+  TooManyRequestsException: 'AUTH_RATE_LIMITED',
+  // Errors thrown by triggers are wrapped in this - create-auth-challenge is the only trigger that throws
+  // (send limits are told apart by their message in mapCognitoError)
+  UserLambdaValidationException: 'AUTH_OTP_DELIVERY_FAILED',
+  InternalErrorException: 'SERVICE_UNAVAILABLE'
+};
+
+/**
+ * Map an error thrown while calling Cognito to an HttpError
+ * HttpErrors pass through unchanged; unknown errors become INTERNAL_ERROR
+ */
+export function mapCognitoError(error: unknown, flow: CognitoFlow): HttpError {
+  if (error instanceof HttpError) {
+    return error;
+  }
+
+  const { name, message } = describeError(error);
+
+  if (name === 'NotAuthorizedException') {
+    return new HttpError(mapNotAuthorized(message, flow));
+  }
+
+  // create-auth-challenge refused the send under its own rate limits
+  const retryAfter = otpSendLimitRetryAfter(name, message);
+  if (retryAfter !== null) {
+    return new HttpError('AUTH_RATE_LIMITED', {
+      headers: { 'Retry-After': String(retryAfter) },
+      details: { retryAfter }
+    });
+  }
+
+  return new HttpError(EXCEPTION_CODES[name] || 'INTERNAL_ERROR');
+}
+
+/**
+ * Check whether a Cognito error is create-auth-challenge refusing a send
+ * The trigger only runs for users, so the refusal also says the number is one
+ */
+export function isOtpSendLimitError(error: unknown): boolean {
+  const { name, message } = describeError(error);
+  return otpSendLimitRetryAfter(name, message) !== null;
+}
+
+function otpSendLimitRetryAfter(name: string, message: string): number | null {
+  return name === 'UserLambdaValidationException' ? parseOtpSendLimit(message) : null;
+}
+
+/**
+ * NotAuthorizedException covers disabled users, expired sessions, failed
+ * challenges and bad tokens - only the message tells them apart
+ */
+function mapNotAuthorized(message: string, flow: CognitoFlow): ErrorCode {
+  if (/disabled/i.test(message)) {
+    return 'AUTH_USER_DISABLED';
+  }
+
+  switch (flow) {
+    case 'verify-otp':
+      // "Invalid session for the user, session is expired." - otherwise
+      // define-auth-challenge failed the flow after the last wrong code
+      return /session/i.test(message) ? 'AUTH_OTP_EXPIRED' : 'AUTH_TOO_MANY_ATTEMPTS';
+    case 'refresh':
+      return 'AUTH_REFRESH_TOKEN_INVALID';
+    case 'me':
+    case 'profile':
+      return 'AUTH_TOKEN_INVALID';
+    case 'admin':
+      return 'ADMIN_FORBIDDEN';
+    default:
+      return 'AUTH_SIGN_IN_FAILED';
+  }
+}
+
+function describeError(error: unknown): { name: string; message: string } {
+  if (error && typeof error === 'object') {
+    const { name, message } = error as { name?: unknown; message?: unknown };
+    return {
+      name: typeof name === 'string' ? name : '',
+      message: typeof message === 'string' ? message : ''
+    };
+  }
+
+  return { name: '', message: String(error) };
+}
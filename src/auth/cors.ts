@@ -0,0 +1,80 @@
+/**
+ * CORS
+ * Echoes allowlisted request origins (credentials require a concrete origin,
+ * never '*') and answers preflight requests for the auth routes
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { isOriginAllowed } from '../shared/origins';
+import { CSRF_HEADER_NAME } from '../shared/csrf';
+
+const CORS_ALLOWED_METHODS = 'GET,POST,PATCH,DELETE,OPTIONS';
+const CORS_ALLOWED_HEADERS = [
+  'Content-Type',
+  'Authorization',
+  'Cookie',
+  'X-Amz-Date',
+  'X-Api-Key',
+  'X-Amz-Security-Token',
+  CSRF_HEADER_NAME
+].join(',');
+
+// How long browsers may cache a preflight result
+const CORS_MAX_AGE_SECONDS = process.env.CORS_MAX_AGE_SECONDS || '600';
+
+/**
+ * CORS headers for a response to the given request origin
+ * Responses always vary by Origin so shared caches never serve one origin's
+ * headers to another
+ */
+export function getCorsHeaders(origin: string | undefined): Record<string, string> {
+  if (!origin || !isOriginAllowed(origin)) {
+    return { Vary: 'Origin' };
+  }
+
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Credentials': 'true',
+    Vary: 'Origin'
+  };
+}
+
+/**
+ * Add CORS headers to a route response
+ */
+export function withCorsHeaders(response: APIGatewayProxyResult, origin: string | undefined): APIGatewayProxyResult {
+  return {
+    ...response,
+    headers: {
+      ...response.headers,
+      ...getCorsHeaders(origin)
+    }
+  };
+}
+
+/**
+ * Response to an OPTIONS preflight request
+ * Disallowed origins get no Access-Control-Allow-* headers, so the browser blocks the call
+ */
+export function preflightResponse(origin: string | undefined): APIGatewayProxyResult {
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (!corsHeaders['Access-Control-Allow-Origin']) {
+    return {
+      statusCode: 204,
+      headers: corsHeaders,
+      body: ''
+    };
+  }
+
+  return {
+    statusCode: 204,
+    headers: {
+      ...corsHeaders,
+      'Access-Control-Allow-Methods': CORS_ALLOWED_METHODS,
+      'Access-Control-Allow-Headers': CORS_ALLOWED_HEADERS,
+      'Access-Control-Max-Age': CORS_MAX_AGE_SECONDS
+    },
+    body: ''
+  };
+}
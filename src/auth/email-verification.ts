@@ -0,0 +1,95 @@
+/**
+ * Email Verification
+ * PATCH /me stores a new email address as unverified and emails a 6-digit
+ * code to it; /me/email/verify checks the code before email_verified is set.
+ * Codes live in the OTP store under their own key, so they never collide
+ * with sign-in codes, and each new code invalidates the previous one. Each
+ * code records the address it was sent to and only verifies that address
+ */
+
+import { getOtpStore, issueOtp, OtpVerificationResult, verifyOtp } from '../shared/otp-store';
+import { deliverOtp, OtpChannel, OtpDeliveryError, OtpDeliveryResult, resolveChannels } from '../shared/otp-delivery';
+import { logger } from '../shared/logger';
+import { ErrorCode } from './error-codes';
+import { HttpError } from './errors';
+import { enforceEmailVerificationLimit } from './rate-limits';
+
+// Codes other than 'valid' - an unknown or used code means nothing is pending
+const FAILURE_CODES: Record<Exclude<OtpVerificationResult, 'valid'>, ErrorCode> = {
+  invalid: 'AUTH_OTP_INVALID',
+  expired: 'AUTH_OTP_EXPIRED',
+  too_many_attempts: 'AUTH_TOO_MANY_ATTEMPTS',
+  consumed: 'PROFILE_EMAIL_NOT_PENDING',
+  not_found: 'PROFILE_EMAIL_NOT_PENDING'
+};
+
+/**
+ * Count a verification email against the per-user limit
+ * Called before the email attribute changes, so a limited request changes nothing.
+ * Throws AUTH_RATE_LIMITED (429 with Retry-After) when the limit is exceeded
+ */
+export async function assertEmailVerificationAllowed(userName: string): Promise<void> {
+  const exceeded = await enforceEmailVerificationLimit(userName);
+
+  if (exceeded) {
+    throw new HttpError('AUTH_RATE_LIMITED', {
+      headers: { 'Retry-After': String(exceeded.retryAfterSeconds) },
+      details: { retryAfter: exceeded.retryAfterSeconds }
+    });
+  }
+}
+
+/**
+ * Email a verification code to a user's new address
+ * Throws AUTH_OTP_DELIVERY_FAILED when the email cannot be sent
+ */
+export async function sendEmailVerificationCode(userName: string, email: string): Promise<OtpDeliveryResult> {
+  const otp = await issueOtp(getOtpStore(), verificationKey(userName), undefined, email);
+
+  try {
+    // Only the new address proves ownership - no SMS or WhatsApp fallback
+    return await deliverOtp({ email, verifiesEmail: true }, { code: otp.code, ttlSeconds: otp.ttlSeconds }, getEmailChannels());
+  } catch (error) {
+    if (error instanceof OtpDeliveryError) {
+      logger.error('Email verification delivery failed', { failures: error.failures });
+      throw new HttpError('AUTH_OTP_DELIVERY_FAILED');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check a code against the user's pending verification of an address
+ * A code sent to any other address (the email changed since) is not pending.
+ * Throws the matching error code unless the code is valid
+ */
+export async function checkEmailVerificationCode(userName: string, email: string, code: string): Promise<void> {
+  const store = getOtpStore();
+  const key = verificationKey(userName);
+
+  // issueOtp invalidates earlier codes, so at most one is outstanding
+  const [challengeId] = await store.listUnconsumed(key);
+  const record = challengeId ? await store.get(key, challengeId) : null;
+
+  if (!record?.subject || record.subject !== email) {
+    throw new HttpError('PROFILE_EMAIL_NOT_PENDING');
+  }
+
+  const result = await verifyOtp(store, key, record.challengeId, code);
+
+  if (result !== 'valid') {
+    throw new HttpError(FAILURE_CODES[result]);
+  }
+}
+
+/**
+ * Helper: Channels for verification emails
+ * The local sink stands in for SES where it is the default channel
+ */
+function getEmailChannels(): OtpChannel[] {
+  return resolveChannels()[0] === 'sink' ? ['sink'] : ['email'];
+}
+
+function verificationKey(userName: string): string {
+  return `email-verification#${userName}`;
+}
@@ -0,0 +1,234 @@
+/**
+ * User Enumeration Protection
+ * With ENUMERATION_PROTECTION=true the OTP routes answer the same way
+ * whether or not a phone number belongs to a user:
+ * - /send-otp for an unknown or disabled number returns a decoy session
+ *   instead of a 404; /verify-otp treats every answer to it as a wrong code
+ *   and, like Cognito, refuses a session that was already answered
+ * - /register for an existing number sends a login OTP instead of a 409
+ * - a send refused by create-auth-challenge's limits returns a decoy session
+ *   instead of a 429 - the trigger only runs for users, so unknown numbers
+ *   are never refused
+ * - the routes take at least ENUMERATION_MIN_RESPONSE_MS, so the skipped
+ *   Cognito trigger and SMS send don't show in response times
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, randomInt } from 'crypto';
+import { OtpChannel, previewDelivery, resolveChannels } from '../shared/otp-delivery';
+import { getDecoySessionStore } from '../shared/decoy-sessions';
+import { isOtpSendLimitError } from './cognito-errors';
+import { ErrorCode } from './error-codes';
+import { HttpError } from './errors';
+import { RouteHandler } from './router';
+
+// Types
+export interface EnumerationSettings {
+  enabled: boolean;
+  minResponseMs: number;   // Floor for OTP route response times
+  decoySecret: string;     // Seals decoy sessions so only this API recognises them
+}
+
+export interface OtpChallenge {
+  session?: string;
+  challengeName?: string;
+  delivery?: { channel: string; destination: string };
+}
+
+// Mirrors Cognito: sessions last 3 minutes, define-auth-challenge allows 3 answers
+const SESSION_TTL_SECONDS = 180;
+const MAX_ATTEMPTS = 3;
+
+// Errors that would reveal whether a number is registered
+const CONCEALED_ERRORS: ErrorCode[] = ['AUTH_USER_NOT_FOUND', 'AUTH_USER_DISABLED'];
+
+// Decoy layout: iv | sealed(attempts, expiresAt, nonce) | tag | random padding to a Cognito-like length
+const IV_BYTES = 12;
+const NONCE_BYTES = 16;
+const PAYLOAD_BYTES = 5 + NONCE_BYTES;
+const TAG_BYTES = 16;
+const SEALED_BYTES = IV_BYTES + PAYLOAD_BYTES + TAG_BYTES;
+
+// Domains of the made-up address a decoy reports when it is "sent" by email
+const DECOY_EMAIL_DOMAINS = ['gmail.com', 'outlook.com', 'hotmail.com', 'yahoo.com', 'icloud.com'];
+
+let settings: EnumerationSettings | null = null;
+
+/**
+ * Current settings (read from the environment on first use)
+ */
+export function getEnumerationSettings(): EnumerationSettings {
+  if (!settings) {
+    settings = {
+      enabled: process.env.ENUMERATION_PROTECTION === 'true',
+      minResponseMs: parseInt(process.env.ENUMERATION_MIN_RESPONSE_MS || '1500', 10),
+      // Without a configured secret decoys are only recognised by this instance
+      decoySecret: process.env.DECOY_SESSION_SECRET || randomBytes(32).toString('hex')
+    };
+  }
+
+  return settings;
+}
+
+/**
+ * Replace the settings (local development and tests)
+ */
+export function setEnumerationSettings(overrides: Partial<EnumerationSettings>): void {
+  settings = { ...getEnumerationSettings(), ...overrides };
+}
+
+/**
+ * Check whether an error would tell the caller that a number is (not) a user
+ * cause is the Cognito error it was mapped from, for create-auth-challenge's send limits
+ * Only true while protection is enabled
+ */
+export function shouldConceal(error: HttpError, cause?: unknown): boolean {
+  return getEnumerationSettings().enabled && (CONCEALED_ERRORS.includes(error.code) || isOtpSendLimitError(cause));
+}
+
+/**
+ * The channel an OTP route passes on from the request
+ * Dropped under protection - a requested channel only some users can receive
+ * on (email, an unconfigured one) would fail for them but not for decoys
+ */
+export function requestableChannel(channel?: OtpChannel): OtpChannel | undefined {
+  return getEnumerationSettings().enabled ? undefined : channel;
+}
+
+/**
+ * Challenge for a number without an active user - shaped like the real one
+ * Delivery is reported on the channel a real send would have used first
+ */
+export function createDecoyChallenge(phoneNumber: string): OtpChallenge {
+  // Picked like deliverOtp picks for a user with a verified email, which gets
+  // a made-up address that stays the same for the number
+  const delivery = previewDelivery(
+    { phoneNumber, email: decoyEmail(phoneNumber), emailVerified: true },
+    resolveChannels()
+  );
+
+  if (!delivery) {
+    throw new HttpError('AUTH_OTP_DELIVERY_FAILED');
+  }
+
+  return {
+    session: sealDecoySession(0, Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS),
+    challengeName: 'CUSTOM_CHALLENGE',
+    delivery
+  };
+}
+
+/**
+ * Helper: Plausible email address for a number, derived from the decoy secret
+ * Only its masked form (first letter and domain) is ever returned
+ */
+function decoyEmail(phoneNumber: string): string {
+  const digest = createHmac('sha256', getEnumerationSettings().decoySecret).update(phoneNumber).digest();
+  const letter = String.fromCharCode(97 + digest[0] % 26);
+
+  return `${letter}@${DECOY_EMAIL_DOMAINS[digest[1] % DECOY_EMAIL_DOMAINS.length]}`;
+}
+
+/**
+ * Answer an OTP for a decoy session the way Cognito answers a wrong code
+ * Returns null when the session is not a decoy (it goes to Cognito as usual);
+ * otherwise the next challenge, or throws once attempts or time run out.
+ * A replayed session fails like a used Cognito session (AUTH_OTP_EXPIRED)
+ */
+export async function answerDecoyChallenge(session: string): Promise<OtpChallenge | null> {
+  const decoy = openDecoySession(session);
+
+  if (!decoy) {
+    return null;
+  }
+
+  if (decoy.expiresAt < Math.floor(Date.now() / 1000)) {
+    throw new HttpError('AUTH_OTP_EXPIRED');
+  }
+
+  if (!await getDecoySessionStore().markUsed({ nonce: decoy.nonce, expiresAt: decoy.expiresAt })) {
+    throw new HttpError('AUTH_OTP_EXPIRED');
+  }
+
+  const attempts = decoy.attempts + 1;
+
+  if (attempts >= MAX_ATTEMPTS) {
+    throw new HttpError('AUTH_TOO_MANY_ATTEMPTS');
+  }
+
+  return {
+    session: sealDecoySession(attempts, decoy.expiresAt),
+    challengeName: 'CUSTOM_CHALLENGE'
+  };
+}
+
+/**
+ * Wrap a route handler so it never responds faster than minResponseMs
+ * Applies to errors too; a no-op while protection is disabled
+ */
+export function equaliseTiming<TBody>(handler: RouteHandler<TBody>): RouteHandler<TBody> {
+  return async request => {
+    const { enabled, minResponseMs } = getEnumerationSettings();
+
+    if (!enabled) {
+      return handler(request);
+    }
+
+    const startedAt = Date.now();
+
+    try {
+      return await handler(request);
+    } finally {
+      const remaining = minResponseMs - (Date.now() - startedAt);
+      if (remaining > 0) {
+        await new Promise(resolve => setTimeout(resolve, remaining));
+      }
+    }
+  };
+}
+
+function sealDecoySession(attempts: number, expiresAt: number): string {
+  const iv = randomBytes(IV_BYTES);
+  const payload = Buffer.alloc(PAYLOAD_BYTES);
+  payload.writeUInt8(attempts, 0);
+  payload.writeUInt32BE(expiresAt, 1);
+  randomBytes(NONCE_BYTES).copy(payload, 5);
+
+  const cipher = createCipheriv('aes-256-gcm', getDecoyKey(), iv);
+  const sealed = Buffer.concat([iv, cipher.update(payload), cipher.final(), cipher.getAuthTag()]);
+
+  // Cognito sessions are opaque base64 of roughly 900 characters
+  const padding = randomBytes(randomInt(640, 720) - SEALED_BYTES);
+
+  return Buffer.concat([sealed, padding]).toString('base64');
+}
+
+function openDecoySession(session: string): { attempts: number; expiresAt: number; nonce: string } | null {
+  const bytes = Buffer.from(session, 'base64');
+
+  if (bytes.length < SEALED_BYTES) {
+    return null;
+  }
+
+  const iv = bytes.subarray(0, IV_BYTES);
+  const ciphertext = bytes.subarray(IV_BYTES, IV_BYTES + PAYLOAD_BYTES);
+  const tag = bytes.subarray(IV_BYTES + PAYLOAD_BYTES, SEALED_BYTES);
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', getDecoyKey(), iv);
+    decipher.setAuthTag(tag);
+    const payload = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+
+    return {
+      attempts: payload.readUInt8(0),
+      expiresAt: payload.readUInt32BE(1),
+      nonce: payload.subarray(5).toString('hex')
+    };
+  } catch {
+    // Authentication failed - a real Cognito session
+    return null;
+  }
+}
+
+function getDecoyKey(): Buffer {
+  return createHash('sha256').update(getEnumerationSettings().decoySecret).digest();
+}
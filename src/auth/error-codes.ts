@@ -0,0 +1,203 @@
+/**
+ * Error Code Catalogue
+ * Every error the auth API returns has a stable code, an HTTP status, a
+ * message key the frontend translates and a default English message.
+ * Clients branch on code and localise messageKey - message is a fallback
+ * and never carries internal details (SDK messages, stack traces)
+ */
+
+export interface ErrorDefinition {
+  statusCode: number;
+  messageKey: string;
+  message: string;
+}
+
+export const ERROR_CODES = {
+  // Request
+  VALIDATION_FAILED: {
+    statusCode: 400,
+    messageKey: 'errors.validationFailed',
+    message: 'Request validation failed'
+  },
+  INVALID_JSON: {
+    statusCode: 400,
+    messageKey: 'errors.invalidJson',
+    message: 'Request body must be valid JSON'
+  },
+  NOT_FOUND: {
+    statusCode: 404,
+    messageKey: 'errors.notFound',
+    message: 'Endpoint not found'
+  },
+  METHOD_NOT_ALLOWED: {
+    statusCode: 405,
+    messageKey: 'errors.methodNotAllowed',
+    message: 'Method not allowed'
+  },
+
+  // Users
+  AUTH_USER_EXISTS: {
+    statusCode: 409,
+    messageKey: 'errors.auth.userExists',
+    message: 'An account with this phone number already exists. Use /send-otp to sign in or /resend-otp to finish registering.'
+  },
+  AUTH_USER_NOT_FOUND: {
+    statusCode: 404,
+    messageKey: 'errors.auth.userNotFound',
+    message: 'User not found'
+  },
+  AUTH_USER_NOT_CONFIRMED: {
+    statusCode: 403,
+    messageKey: 'errors.auth.userNotConfirmed',
+    message: 'Registration has not been completed. Verify the code sent to your phone.'
+  },
+  AUTH_USER_DISABLED: {
+    statusCode: 403,
+    messageKey: 'errors.auth.userDisabled',
+    message: 'This account has been disabled'
+  },
+
+  // OTP challenge
+  AUTH_OTP_INVALID: {
+    statusCode: 401,
+    messageKey: 'errors.auth.otpInvalid',
+    message: 'The verification code is incorrect'
+  },
+  AUTH_OTP_EXPIRED: {
+    statusCode: 401,
+    messageKey: 'errors.auth.otpExpired',
+    message: 'The verification code has expired. Request a new code.'
+  },
+  AUTH_TOO_MANY_ATTEMPTS: {
+    statusCode: 401,
+    messageKey: 'errors.auth.tooManyAttempts',
+    message: 'Too many incorrect codes. Request a new code.'
+  },
+  AUTH_OTP_DELIVERY_FAILED: {
+    statusCode: 502,
+    messageKey: 'errors.auth.otpDeliveryFailed',
+    message: 'We could not send your verification code. Please try again or choose another channel.'
+  },
+  AUTH_RATE_LIMITED: {
+    statusCode: 429,
+    messageKey: 'errors.auth.rateLimited',
+    message: 'Too many requests. Please try again later.'
+  },
+  AUTH_RESEND_COOLDOWN: {
+    statusCode: 429,
+    messageKey: 'errors.auth.resendCooldown',
+    message: 'A code was sent recently. Please wait before requesting another.'
+  },
+  AUTH_SIGN_IN_FAILED: {
+    statusCode: 401,
+    messageKey: 'errors.auth.signInFailed',
+    message: 'Sign-in could not be completed'
+  },
+
+  // Sessions
+  AUTH_NOT_AUTHENTICATED: {
+    statusCode: 401,
+    messageKey: 'errors.auth.notAuthenticated',
+    message: 'Not authenticated'
+  },
+  AUTH_TOKEN_INVALID: {
+    statusCode: 401,
+    messageKey: 'errors.auth.tokenInvalid',
+    message: 'Invalid token'
+  },
+  AUTH_TOKEN_EXPIRED: {
+    statusCode: 401,
+    messageKey: 'errors.auth.tokenExpired',
+    message: 'Token expired'
+  },
+  AUTH_REFRESH_TOKEN_INVALID: {
+    statusCode: 401,
+    messageKey: 'errors.auth.refreshTokenInvalid',
+    message: 'Invalid or expired refresh token. Please sign in again.'
+  },
+  AUTH_CSRF_FAILED: {
+    statusCode: 403,
+    messageKey: 'errors.auth.csrfFailed',
+    message: 'CSRF validation failed'
+  },
+
+  // Profile
+  PROFILE_EMAIL_NOT_PENDING: {
+    statusCode: 409,
+    messageKey: 'errors.profile.emailNotPending',
+    message: 'No email address is waiting for verification. Update your email to receive a new code.'
+  },
+  PROFILE_PHONE_CHANGE_NOT_PENDING: {
+    statusCode: 409,
+    messageKey: 'errors.profile.phoneChangeNotPending',
+    message: 'No phone number change is waiting for verification. Start the change again.'
+  },
+  PROFILE_PHONE_UNCHANGED: {
+    statusCode: 409,
+    messageKey: 'errors.profile.phoneUnchanged',
+    message: 'This is already your phone number'
+  },
+
+  // Admin
+  ADMIN_FORBIDDEN: {
+    statusCode: 403,
+    messageKey: 'errors.admin.forbidden',
+    message: 'Admin access required'
+  },
+  ADMIN_GROUP_NOT_FOUND: {
+    statusCode: 404,
+    messageKey: 'errors.admin.groupNotFound',
+    message: 'Group not found'
+  },
+  ADMIN_SELF_ACTION: {
+    statusCode: 409,
+    messageKey: 'errors.admin.selfAction',
+    message: 'Admins cannot disable or delete their own account'
+  },
+  ADMIN_CROSS_TENANT: {
+    statusCode: 403,
+    messageKey: 'errors.admin.crossTenant',
+    message: 'Admins can only manage their own company'
+  },
+
+  // Invitations
+  INVITATION_INVALID: {
+    statusCode: 400,
+    messageKey: 'errors.invitation.invalid',
+    message: 'Invitation link is not valid'
+  },
+  INVITATION_EXPIRED: {
+    statusCode: 410,
+    messageKey: 'errors.invitation.expired',
+    message: 'Invitation has expired'
+  },
+  INVITATION_NOT_PENDING: {
+    statusCode: 409,
+    messageKey: 'errors.invitation.notPending',
+    message: 'Invitation was already accepted or revoked'
+  },
+  INVITATION_NOT_FOUND: {
+    statusCode: 404,
+    messageKey: 'errors.invitation.notFound',
+    message: 'Invitation not found'
+  },
+  INVITATION_DELIVERY_FAILED: {
+    statusCode: 502,
+    messageKey: 'errors.invitation.deliveryFailed',
+    message: 'The invitation could not be sent. Please try again or choose another channel.'
+  },
+
+  // Server
+  SERVICE_UNAVAILABLE: {
+    statusCode: 503,
+    messageKey: 'errors.serviceUnavailable',
+    message: 'Service temporarily unavailable. Please try again.'
+  },
+  INTERNAL_ERROR: {
+    statusCode: 500,
+    messageKey: 'errors.internal',
+    message: 'Internal server error'
+  }
+} satisfies Record<string, ErrorDefinition>;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
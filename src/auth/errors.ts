@@ -0,0 +1,98 @@
+/**
+ * Error Responses
+ * Every client error uses the same envelope:
+ *
+ *   {
+ *     "code": "VALIDATION_FAILED",
+ *     "messageKey": "errors.validationFailed",
+ *     "message": "...",
+ *     "fields": [{ "field", "code", "message" }],
+ *     "details": { ... }
+ *   }
+ *
+ * code is stable for clients to branch on and messageKey is the frontend's
+ * translation key (both from error-codes.ts); message is an English fallback.
+ * fields is only present when individual request fields were rejected,
+ * details only when the code carries extra data (retryAfter, reason)
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { ERROR_CODES, ErrorCode } from './error-codes';
+
+// Types
+export interface FieldError {
+  field: string;     // Dotted path into the request body (e.g. phoneNumber)
+  code: string;      // required | invalid_type | invalid_format | invalid_phone_number | ...
+  message: string;
+}
+
+export interface ErrorBody {
+  code: ErrorCode;
+  messageKey: string;
+  message: string;
+  fields?: FieldError[];
+  details?: Record<string, unknown>;
+}
+
+export interface ErrorOptions {
+  message?: string;                   // Overrides the catalogue message
+  fields?: FieldError[];
+  details?: Record<string, unknown>;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Thrown by middleware and handlers to end a request with an error response
+ * The status code comes from the catalogue; the error mapping middleware
+ * turns it into the envelope above
+ */
+export class HttpError extends Error {
+  public readonly statusCode: number;
+  public readonly fields?: FieldError[];
+  public readonly details?: Record<string, unknown>;
+  public readonly headers?: Record<string, string>;
+
+  constructor(public readonly code: ErrorCode, options: ErrorOptions = {}) {
+    super(options.message || ERROR_CODES[code].message);
+    this.name = 'HttpError';
+    this.statusCode = ERROR_CODES[code].statusCode;
+    this.fields = options.fields;
+    this.details = options.details;
+    this.headers = options.headers;
+  }
+}
+
+/**
+ * Raised when a request body does not match its route's schema
+ */
+export class ValidationError extends HttpError {
+  constructor(fields: FieldError[]) {
+    super('VALIDATION_FAILED', { fields });
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Build an error response in the shared envelope
+ */
+export function errorResponse(code: ErrorCode, options: ErrorOptions = {}): APIGatewayProxyResult {
+  const { statusCode, messageKey, message } = ERROR_CODES[code];
+  const body: ErrorBody = { code, messageKey, message: options.message || message };
+
+  if (options.fields && options.fields.length > 0) {
+    body.fields = options.fields;
+  }
+
+  if (options.details) {
+    body.details = options.details;
+  }
+
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers
+    },
+    body: JSON.stringify(body)
+  };
+}
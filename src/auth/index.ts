@@ -1,7 +1,8 @@
 /**
  * Auth Lambda Function
  * Handles phone number + OTP authentication via Cognito
- * Returns HttpOnly cookies for secure token storage
+ * Returns HttpOnly cookies for secure token storage, or tokens in the
+ * response body for native clients (?tokenMode=body)
  */
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
@@ -13,34 +14,100 @@ import {
   AdminRespondToAuthChallengeCommand,
   SignUpCommand,
   GlobalSignOutCommand,
+  RevokeTokenCommand,
   GetUserCommand,
+  AdminGetUserCommand,
+  AdminGetUserCommandOutput,
+  AdminUpdateUserAttributesCommand,
+  AdminUserGlobalSignOutCommand,
+  AdminDeleteUserCommand,
+  AdminEnableUserCommand,
+  AdminListGroupsForUserCommand,
+  AdminListUserAuthEventsCommand,
+  AuthenticationResultType,
+  AttributeType,
+  AuthEventType,
+  GroupType,
   InitiateAuthCommandInput,
   AdminInitiateAuthCommandInput,
   RespondToAuthChallengeCommandInput
 } from '@aws-sdk/client-cognito-identity-provider';
-import * as jwt from 'jsonwebtoken';
+import { enforceOtpRateLimits, enforceResendCooldown } from './rate-limits';
+import { getRevocationStore, revokeOriginTokens, revokeUserTokens } from '../shared/revocation-store';
+import { getUserEventPublisher, publishUserEvent } from '../shared/user-events';
+import { getInvitationState, getInvitationStore, Invitation, readInvitationToken } from '../shared/invitations';
+import { getSignInAttemptStore, saveSignInAttempt, SignInReason } from '../shared/sign-in-attempts';
+import { AuditClient, AuditEvent, getAuditStore, recordAuditEvent, toAuditEntry, toClientMetadata } from '../shared/audit-log';
+import { CognitoTokenPayload, TokenVerificationError, verifyCognitoToken } from '../shared/token-verifier';
+import { extractToken, TokenRequest } from '../shared/token-source';
+import { readCookie, serializeCookie, serializeExpiredCookie } from '../shared/cookies';
+import { getHeader } from '../shared/headers';
+import { logger, withLogContext } from '../shared/logger';
+import { CSRF_COOKIE_NAME, generateCsrfToken, validateCsrf } from '../shared/csrf';
+import { RouteRequest, Router } from './router';
+import { handleCors, logRequests, mapErrors, parseJsonBody } from './middleware';
+import { HttpError, ValidationError } from './errors';
+import { mapCognitoError } from './cognito-errors';
+import {
+  answerDecoyChallenge,
+  createDecoyChallenge,
+  equaliseTiming,
+  getEnumerationSettings,
+  OtpChallenge,
+  requestableChannel,
+  shouldConceal
+} from './enumeration';
+import { maskPhoneNumber, OtpChannel } from '../shared/otp-delivery';
+import { assertEmailVerificationAllowed, checkEmailVerificationCode, sendEmailVerificationCode } from './email-verification';
+import { checkPhoneChangeCode, completePhoneChange, requiresCurrentNumber, sendPhoneChangeCode } from './phone-change';
+import { checkInvitationCode, issueSignInCode, sendInvitationCode } from './invitation-acceptance';
+import {
+  AcceptInvitationBody,
+  acceptInvitationSchema,
+  ActivityQuery,
+  activityQuerySchema,
+  ChangePhoneBody,
+  changePhoneSchema,
+  DeleteAccountBody,
+  deleteAccountSchema,
+  LogoutBody,
+  logoutSchema,
+  RefreshBody,
+  refreshSchema,
+  RegisterBody,
+  registerSchema,
+  ResendOtpBody,
+  resendOtpSchema,
+  SendOtpBody,
+  sendOtpSchema,
+  StepUpBody,
+  stepUpSchema,
+  UpdateProfileBody,
+  updateProfileSchema,
+  validateBody,
+  validateQuery,
+  VerifyEmailBody,
+  verifyEmailSchema,
+  VerifyInvitationBody,
+  verifyInvitationSchema,
+  VerifyOtpBody,
+  verifyOtpSchema,
+  VerifyPhoneChangeBody,
+  verifyPhoneChangeSchema
+} from './validation';
 
 const cognitoClient = new CognitoIdentityProviderClient({});
 
 const COGNITO_USER_POOL_ID = process.env.COGNITO_USER_POOL_ID!;
 const COGNITO_CLIENT_ID = process.env.COGNITO_CLIENT_ID!;
-const CORS_ORIGIN = process.env.CORS_ORIGIN || '*';
-const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
 
 // Types
-interface RegisterBody {
-  phoneNumber: string;
-  name?: string;
-}
-
-interface SendOtpBody {
-  phoneNumber: string;
-}
-
-interface VerifyOtpBody {
-  phoneNumber: string;
-  otp: string;
-  session: string;
+interface TokenBody {
+  idToken: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  tokenType: string;
 }
 
 interface UserInfo {
@@ -54,171 +121,130 @@ interface UserInfo {
   company: string;
 }
 
-interface CognitoTokenPayload {
-  sub: string;
-  phone_number?: string;
-  email?: string;
-  name?: string;
-  email_verified?: boolean;
-  phone_number_verified?: boolean;
-  'custom:role'?: string;
-  'custom:company'?: string;
+// The authenticated user behind a profile request
+interface Caller {
+  userId: string;     // sub
+  userName: string;   // Cognito username for the Admin* APIs
+}
+
+// Everything Cognito stores about a user (GET /me/export)
+interface AccountExport {
+  exportedAt: string;
+  user: {
+    username: string;
+    status: string;
+    enabled: boolean;
+    createdAt?: string;
+    lastModifiedAt?: string;
+    attributes: Record<string, string>;
+  };
+  groups: Array<{ name: string; description?: string }>;
+  authEvents: Array<{
+    eventId?: string;
+    eventType?: string;
+    createdAt?: string;
+    response?: string;
+    riskLevel?: string;
+    riskDecision?: string;
+    ipAddress?: string;
+    deviceName?: string;
+    city?: string;
+    country?: string;
+  }> | null;   // null when the pool does not record auth events (advanced security off)
 }
 
-// CORS headers
-const corsHeaders = {
-  'Access-Control-Allow-Origin': CORS_ORIGIN,
-  'Access-Control-Allow-Credentials': 'true',
+const jsonHeaders = {
   'Content-Type': 'application/json'
 };
 
+// Routes - every request runs the shared middleware pipeline first
+const router = new Router('/secure/auth')
+  .use(logRequests)
+  .use(handleCors)
+  .use(mapErrors)
+  .use(parseJsonBody)
+  .post('/register', validateBody(registerSchema, equaliseTiming(request => registerUser(request.body, getClient(request)))))
+  .post('/send-otp', validateBody(sendOtpSchema, equaliseTiming(request => sendOtp(request.body, getClient(request)))))
+  .post('/resend-otp', validateBody(resendOtpSchema, equaliseTiming(request => resendOtp(request.body, getClient(request)))))
+  .post('/verify-otp', validateBody(verifyOtpSchema, equaliseTiming(request => verifyOtp(request.body, request.query.tokenMode === 'body', getClient(request)))))
+  .post('/refresh', validateBody(refreshSchema, request => refreshToken(request.event, request.body, request.query.tokenMode === 'body', getClient(request))))
+  .post('/logout', validateBody(logoutSchema, request => logout(request.event, request.body, request.query.all === 'true', getClient(request))))
+  .get('/me', ({ event }) => getCurrentUser(event))
+  .patch('/me', validateBody(updateProfileSchema, ({ event, body, query }) => updateProfile(event, body, query.tokenMode === 'body')))
+  .post('/me/email/verify', validateBody(verifyEmailSchema, ({ event, body, query }) => verifyEmail(event, body, query.tokenMode === 'body')))
+  .post('/me/phone', validateBody(changePhoneSchema, request => changePhone(request.event, request.body, getClient(request))))
+  .post('/me/phone/verify', validateBody(verifyPhoneChangeSchema, request => verifyPhoneChange(request.event, request.body, getClient(request))))
+  .post('/me/step-up', validateBody(stepUpSchema, request => startStepUp(request.event, request.body, getClient(request))))
+  .delete('/me', validateBody(deleteAccountSchema, request => deleteAccount(request.event, request.body, getClient(request))))
+  .get('/me/export', ({ event }) => exportAccount(event))
+  .get('/me/activity', validateQuery(activityQuerySchema, ({ event }, query) => getActivity(event, query)))
+  .post('/invitations/accept', validateBody(acceptInvitationSchema, request => acceptInvitation(request.body, getClient(request))))
+  .post('/invitations/verify', validateBody(verifyInvitationSchema, request => verifyInvitation(request.body, request.query.tokenMode === 'body', getClient(request))));
+
 /**
  * Main Lambda handler
- * Routes requests to appropriate auth functions based on path
  */
 export const handler = async (
   event: APIGatewayProxyEvent,
   context: Context
 ): Promise<APIGatewayProxyResult> => {
-  console.log('Auth request:', JSON.stringify(event, null, 2));
-
-  try {
-    const path = event.path || event.resource;
-    const body = event.body ? JSON.parse(event.body) : {};
-    const cookies = event.headers?.Cookie || event.headers?.cookie || '';
-
-    // Route based on endpoint
-    if (path.includes('/register')) {
-      return await registerUser(body);
-    } else if (path.includes('/send-otp')) {
-      return await sendOtp(body);
-    } else if (path.includes('/verify-otp')) {
-      return await verifyOtp(body);
-    } else if (path.includes('/refresh')) {
-      return await refreshToken(cookies);
-    } else if (path.includes('/logout')) {
-      return await logout();
-    } else if (path.includes('/me')) {
-      return await getCurrentUser(cookies);
-    }
-
-    return {
-      statusCode: 404,
-      headers: corsHeaders,
-      body: JSON.stringify({ error: 'Endpoint not found' })
-    };
-
-  } catch (error) {
-    console.error('Error:', error);
-    return {
-      statusCode: 500,
-      headers: corsHeaders,
-      body: JSON.stringify({
-        error: 'Internal server error',
-        message: error instanceof Error ? error.message : String(error)
-      })
-    };
-  }
+  return withLogContext(context, () => router.handle(event));
 };
 
 /**
  * Register a new user
  * Creates user in Cognito and initiates OTP flow
+ * With enumeration protection an existing number is sent a login OTP and
+ * gets the same response as a new registration
  */
-async function registerUser(body: RegisterBody): Promise<APIGatewayProxyResult> {
+async function registerUser(body: RegisterBody, client: AuditClient): Promise<APIGatewayProxyResult> {
+  // phoneNumber is validated and normalized to E.164 by registerSchema
   const { phoneNumber, name } = body;
 
-  if (!phoneNumber) {
-    return {
-      statusCode: 400,
-      headers: corsHeaders,
-      body: JSON.stringify({ error: 'Phone number is required' })
-    };
-  }
-
-  // Validate phone number format (E.164 format: +1234567890)
-  const phoneRegex = /^\+[1-9]\d{1,14}$/;
-  if (!phoneRegex.test(phoneNumber)) {
-    return {
-      statusCode: 400,
-      headers: corsHeaders,
-      body: JSON.stringify({
-        error: 'Invalid phone number format. Use E.164 format (e.g., +12345678900)'
-      })
-    };
-  }
+  // Every path below triggers an SMS - check limits before calling Cognito
+  await checkRateLimits(phoneNumber, client.sourceIp);
 
   try {
     // Create user in Cognito as UNCONFIRMED
+    // phone_number is the username attribute - Cognito sets it from Username,
+    // and the app client may not write it (WriteAttributes in cognito-pool.yaml)
     const signUpParams = {
       ClientId: COGNITO_CLIENT_ID,
       Username: phoneNumber,
       Password: generateTemporaryPassword(), // Cognito requires password even for custom auth
-      UserAttributes: [
-        {
-          Name: 'phone_number',
-          Value: phoneNumber
-        },
-        ...(name ? [{
-          Name: 'name',
-          Value: name
-        }] : [])
-      ]
+      UserAttributes: name ? [{ Name: 'name', Value: name }] : []
     };
 
     const signUpCommand = new SignUpCommand(signUpParams);
-    await cognitoClient.send(signUpCommand);
-
-    // Now initiate OTP flow for verification using AdminInitiateAuth
-    // AdminInitiateAuth allows UNCONFIRMED users to proceed with custom auth
-    // When OTP is verified, Cognito will automatically confirm the user
-    const commandInput: AdminInitiateAuthCommandInput = {
-      AuthFlow: 'CUSTOM_AUTH',
-      UserPoolId: COGNITO_USER_POOL_ID,
-      ClientId: COGNITO_CLIENT_ID,
-      AuthParameters: {
-        USERNAME: phoneNumber
-      }
-    };
-
-    const command = new AdminInitiateAuthCommand(commandInput);
-    const response = await cognitoClient.send(command);
+    const { UserSub } = await cognitoClient.send(signUpCommand);
 
-    return {
-      statusCode: 200,
-      headers: corsHeaders,
-      body: JSON.stringify({
-        message: `Registration initiated. OTP sent to ${phoneNumber}. Please verify OTP to complete registration.`,
-        session: response.Session,
-        challengeName: response.ChallengeName
-      })
-    };
+    await recordAuthEvent('auth.register', UserSub || phoneNumber, phoneNumber, client);
 
   } catch (error) {
-    console.error('Register user error:', error);
-
-    // Check if user already exists
-    if (error && typeof error === 'object' && 'name' in error && error.name === 'UsernameExistsException') {
-      // User exists - could be CONFIRMED (use /send-otp) or UNCONFIRMED (lost OTP, need to resend)
-      return {
-        statusCode: 409,
-        headers: corsHeaders,
-        body: JSON.stringify({ 
-          error: 'User with this phone number already exists',
-          message: 'If you are a registered user, use /send-otp to login. If you did not complete registration, please contact support.'
-        })
-      };
+    const httpError = mapCognitoError(error, 'register');
+
+    // UsernameExistsException - the user could be CONFIRMED (use /send-otp) or UNCONFIRMED (lost OTP)
+    if (!(httpError.code === 'AUTH_USER_EXISTS' && getEnumerationSettings().enabled)) {
+      logger.error('Register user failed', { error });
+      throw httpError;
     }
 
-    return {
-      statusCode: 500,
-      headers: corsHeaders,
-      body: JSON.stringify({
-        error: 'Failed to register user',
-        message: error instanceof Error ? error.message : String(error)
-      })
-    };
+    logger.info('Register for an existing user - sending a login OTP instead');
   }
+
+  // Now initiate OTP flow for verification using AdminInitiateAuth
+  // AdminInitiateAuth allows UNCONFIRMED users to proceed with custom auth
+  // When OTP is verified, Cognito will automatically confirm the user
+  const challenge = await startOtpChallenge(phoneNumber, 'register', client);
+
+  return {
+    statusCode: 200,
+    headers: jsonHeaders,
+    body: JSON.stringify({
+      message: `Registration initiated. OTP sent to ${phoneNumber}. Please verify OTP to complete registration.`,
+      ...challenge
+    })
+  };
 }
 
 /**
@@ -248,89 +274,120 @@ function generateTemporaryPassword(): string {
  * Send OTP to phone number
  * Initiates auth flow with phone number
  */
-async function sendOtp(body: SendOtpBody): Promise<APIGatewayProxyResult> {
+async function sendOtp(body: SendOtpBody, client: AuditClient): Promise<APIGatewayProxyResult> {
+  // phoneNumber is validated and normalized to E.164 by sendOtpSchema
   const { phoneNumber } = body;
+  const channel = requestableChannel(body.channel);
 
-  if (!phoneNumber) {
-    return {
-      statusCode: 400,
-      headers: corsHeaders,
-      body: JSON.stringify({ error: 'Phone number is required' })
-    };
-  }
+  // Every path below triggers an SMS - check limits before calling Cognito
+  await checkRateLimits(phoneNumber, client.sourceIp);
 
-  // Validate phone number format (E.164 format: +1234567890)
-  const phoneRegex = /^\+[1-9]\d{1,14}$/;
-  if (!phoneRegex.test(phoneNumber)) {
-    return {
-      statusCode: 400,
-      headers: corsHeaders,
-      body: JSON.stringify({
-        error: 'Invalid phone number format. Use E.164 format (e.g., +12345678900)'
-      })
-    };
+  const challenge = await startOtpChallenge(phoneNumber, 'send-otp', client, channel);
+
+  return {
+    statusCode: 200,
+    headers: jsonHeaders,
+    body: JSON.stringify({
+      message: 'OTP sent successfully',
+      ...challenge
+    })
+  };
+}
+
+/**
+ * Send a new OTP when the previous one was lost or expired
+ * Works for UNCONFIRMED users too, so an interrupted registration can be
+ * finished. The new code invalidates earlier ones (see issueOtp)
+ */
+async function resendOtp(body: ResendOtpBody, client: AuditClient): Promise<APIGatewayProxyResult> {
+  const { phoneNumber } = body;
+  const channel = requestableChannel(body.channel);
+
+  const cooldown = await enforceResendCooldown(phoneNumber);
+  if (cooldown) {
+    throw new HttpError('AUTH_RESEND_COOLDOWN', {
+      headers: { 'Retry-After': String(cooldown.retryAfterSeconds) },
+      details: { retryAfter: cooldown.retryAfterSeconds }
+    });
   }
 
+  await checkRateLimits(phoneNumber, client.sourceIp);
+
+  const challenge = await startOtpChallenge(phoneNumber, 'resend-otp', client, channel);
+
+  return {
+    statusCode: 200,
+    headers: jsonHeaders,
+    body: JSON.stringify({
+      message: 'OTP resent successfully',
+      ...challenge
+    })
+  };
+}
+
+/**
+ * Start the CUSTOM_AUTH flow - create-auth-challenge sends the OTP
+ * Unknown and disabled users get a decoy challenge under enumeration protection
+ */
+async function startOtpChallenge(
+  phoneNumber: string,
+  flow: SignInReason,
+  client: AuditClient,
+  channel?: OtpChannel
+): Promise<OtpChallenge> {
+  // AdminInitiateAuth does not forward ClientMetadata to the challenge
+  // triggers - they read the route, requested channel and caller details from here
+  await saveSignInAttempt(getSignInAttemptStore(), phoneNumber, {
+    reason: flow,
+    channel,
+    sourceIp: client.sourceIp,
+    userAgent: client.userAgent
+  });
+
   try {
-    // Initiate auth with Cognito using CUSTOM_AUTH flow for phone OTP
-    const commandInput: InitiateAuthCommandInput = {
+    const commandInput: AdminInitiateAuthCommandInput = {
       AuthFlow: 'CUSTOM_AUTH',
+      UserPoolId: COGNITO_USER_POOL_ID,
       ClientId: COGNITO_CLIENT_ID,
       AuthParameters: {
         USERNAME: phoneNumber
       }
     };
 
-    const command = new InitiateAuthCommand(commandInput);
+    const command = new AdminInitiateAuthCommand(commandInput);
     const response = await cognitoClient.send(command);
 
     return {
-      statusCode: 200,
-      headers: corsHeaders,
-      body: JSON.stringify({
-        message: 'OTP sent successfully',
-        session: response.Session,
-        challengeName: response.ChallengeName
-      })
+      session: response.Session,
+      challengeName: response.ChallengeName,
+      delivery: getDeliveryInfo(response.ChallengeParameters)
     };
 
   } catch (error) {
-    console.error('Send OTP error:', error);
-
-    if (error && typeof error === 'object' && 'name' in error && error.name === 'UserNotFoundException') {
-      return {
-        statusCode: 404,
-        headers: corsHeaders,
-        body: JSON.stringify({ error: 'User not found' })
-      };
+    const httpError = mapCognitoError(error, flow);
+
+    if (shouldConceal(httpError, error)) {
+      logger.info('Issuing a decoy OTP session', { reason: httpError.code });
+      return createDecoyChallenge(phoneNumber);
     }
 
-    return {
-      statusCode: 500,
-      headers: corsHeaders,
-      body: JSON.stringify({
-        error: 'Failed to send OTP',
-        message: error instanceof Error ? error.message : String(error)
-      })
-    };
+    logger.error('Start OTP challenge failed', { error });
+    throw httpError;
   }
 }
 
 /**
  * Verify OTP and complete authentication
  * Responds to auth challenge with OTP code
+ * With tokensInBody the tokens are returned as JSON instead of cookies
  */
-async function verifyOtp(body: VerifyOtpBody): Promise<APIGatewayProxyResult> {
+async function verifyOtp(body: VerifyOtpBody, tokensInBody: boolean, client: AuditClient): Promise<APIGatewayProxyResult> {
   const { phoneNumber, otp, session } = body;
 
-  if (!phoneNumber || !otp || !session) {
-    return {
-      statusCode: 400,
-      headers: corsHeaders,
-      body: JSON.stringify({
-        error: 'Phone number, OTP, and session are required'
-      })
-    };
+  // Decoy sessions never reach Cognito - every answer is a wrong code
+  const decoyChallenge = await answerDecoyChallenge(session);
+  if (decoyChallenge) {
+    return additionalChallengeResponse(decoyChallenge);
   }
 
   try {
@@ -342,7 +399,8 @@ async function verifyOtp(body: VerifyOtpBody): Promise<APIGatewayProxyResult> {
       ChallengeResponses: {
         USERNAME: phoneNumber,
         ANSWER: otp
-      }
+      },
+      ClientMetadata: toClientMetadata(client)
     };
 
     const command = new RespondToAuthChallengeCommand(commandInput);
@@ -350,83 +408,49 @@ async function verifyOtp(body: VerifyOtpBody): Promise<APIGatewayProxyResult> {
 
     // Check if authentication was successful
     if (response.AuthenticationResult) {
-      const { IdToken, RefreshToken } = response.AuthenticationResult;
-
-      if (!IdToken || !RefreshToken) {
-        throw new Error('Missing tokens in authentication result');
-      }
+      // Verify the new ID token and read user info from it
+      const userInfo = await verifyIdToken(getIdToken(response.AuthenticationResult));
 
-      // Parse user info from ID token
-      const userInfo = parseIdToken(IdToken);
-
-      // Create HttpOnly cookies
-      const cookieHeaders = createAuthCookies(IdToken, RefreshToken);
-
-      return {
-        statusCode: 200,
-        headers: {
-          ...corsHeaders,
-          'Set-Cookie': cookieHeaders
-        },
-        body: JSON.stringify({
-          success: true,
-          message: 'Authentication successful',
-          user: userInfo
-        })
-      };
+      return signedInResponse('Authentication successful', userInfo, response.AuthenticationResult, tokensInBody);
     }
 
     // If more challenges are needed
-    return {
-      statusCode: 200,
-      headers: corsHeaders,
-      body: JSON.stringify({
-        message: 'Additional challenge required',
-        session: response.Session,
-        challengeName: response.ChallengeName
-      })
-    };
+    return additionalChallengeResponse({
+      session: response.Session,
+      challengeName: response.ChallengeName
+    });
 
   } catch (error) {
-    console.error('Verify OTP error:', error);
-
-    const errorName = error && typeof error === 'object' && 'name' in error ? error.name : '';
-
-    if (errorName === 'NotAuthorizedException' || errorName === 'CodeMismatchException') {
-      return {
-        statusCode: 401,
-        headers: corsHeaders,
-        body: JSON.stringify({ error: 'Invalid OTP code' })
-      };
-    }
-
-    return {
-      statusCode: 500,
-      headers: corsHeaders,
-      body: JSON.stringify({
-        error: 'Failed to verify OTP',
-        message: error instanceof Error ? error.message : String(error)
-      })
-    };
+    logger.error('Verify OTP failed', { error });
+    throw mapCognitoError(error, 'verify-otp');
   }
 }
 
 /**
  * Refresh access token using refresh token from cookies
+ * Native clients send the refresh token in the body instead
  */
-async function refreshToken(cookieHeader: string): Promise<APIGatewayProxyResult> {
-  try {
-    // Extract refresh token from cookies
-    const refreshToken = extractCookie(cookieHeader, 'refreshToken');
-
-    if (!refreshToken) {
-      return {
-        statusCode: 401,
-        headers: corsHeaders,
-        body: JSON.stringify({ error: 'No refresh token provided' })
-      };
-    }
+async function refreshToken(
+  event: APIGatewayProxyEvent,
+  body: RefreshBody,
+  tokensInBody: boolean,
+  client: AuditClient
+): Promise<APIGatewayProxyResult> {
+  // Extract refresh token from cookies, falling back to the request body
+  const cookieRefreshToken = readCookie(event.headers, 'refreshToken');
+  const refreshToken = cookieRefreshToken || body.refreshToken;
+
+  // A cookie-borne refresh token is sent by the browser automatically - the
+  // route has no authorizer, so origin and CSRF token are checked here
+  if (cookieRefreshToken) {
+    assertCsrf(event);
+  }
+
+  if (!refreshToken) {
+    throw new HttpError('AUTH_NOT_AUTHENTICATED', { message: 'No refresh token provided' });
+  }
 
+  try {
     // Initiate auth with refresh token
     const commandInput: InitiateAuthCommandInput = {
       AuthFlow: 'REFRESH_TOKEN_AUTH',
@@ -446,85 +470,209 @@ async function refreshToken(cookieHeader: string): Promise<APIGatewayProxyResult
         throw new Error('Missing ID token in refresh response');
       }
 
-      // Parse user info from new ID token
-      const userInfo = parseIdToken(IdToken);
-
-      // Create new cookies (refresh token remains the same)
-      const cookieHeaders = createAuthCookies(IdToken, refreshToken);
-
-      return {
-        statusCode: 200,
-        headers: {
-          ...corsHeaders,
-          'Set-Cookie': cookieHeaders
-        },
-        body: JSON.stringify({
-          success: true,
-          message: 'Token refreshed successfully',
-          user: userInfo
-        })
-      };
+      // Verify the new ID token and read user info from it
+      const userInfo = await verifyIdToken(IdToken);
+
+      await recordAuthEvent('auth.refresh', userInfo.userId, userInfo.phoneNumber, client);
+
+      return refreshedSessionResponse(event, 'Token refreshed successfully', userInfo, response.AuthenticationResult, refreshToken, tokensInBody);
     }
 
-    return {
-      statusCode: 401,
-      headers: corsHeaders,
-      body: JSON.stringify({ error: 'Failed to refresh token' })
-    };
+    throw new HttpError('AUTH_REFRESH_TOKEN_INVALID');
 
   } catch (error) {
-    console.error('Refresh token error:', error);
+    logger.error('Refresh token failed', { error });
 
-    return {
-      statusCode: 401,
-      headers: corsHeaders,
-      body: JSON.stringify({
-        error: 'Invalid or expired refresh token',
-        message: error instanceof Error ? error.message : String(error)
-      })
-    };
+    if (error instanceof TokenVerificationError) {
+      throw tokenError(error);
+    }
+
+    throw mapCognitoError(error, 'refresh');
   }
 }
 
 /**
- * Logout user by clearing cookies
+ * Logout user - revokes the refresh token server-side and clears cookies
+ * With all=true every session of the user is signed out (all devices)
+ * Native clients send the refresh token in the body and their ID/access token as Bearer
  */
-async function logout(): Promise<APIGatewayProxyResult> {
+async function logout(
+  event: APIGatewayProxyEvent,
+  body: LogoutBody,
+  allDevices: boolean,
+  client: AuditClient
+): Promise<APIGatewayProxyResult> {
+  const cookieRefreshToken = readCookie(event.headers, 'refreshToken');
+  const refreshToken = cookieRefreshToken || body.refreshToken;
+  let revoked = false;
+
+  // Stops other sites from signing the user out (the route has no authorizer)
+  if (cookieRefreshToken) {
+    assertCsrf(event);
+  }
+
+  if (refreshToken) {
+    try {
+      let user: CognitoTokenPayload | null;
+
+      if (allDevices) {
+        user = await signOutAllDevices(refreshToken);
+        revoked = true;
+      } else {
+        // The refresh token is opaque - redeeming it first tells whose it is
+        user = await findRefreshTokenOwner(refreshToken);
+        await revokeRefreshToken(refreshToken);
+        revoked = true;
+
+        if (user) {
+          await revokeSessionTokens(user, extractToken(event)?.token || null);
+        }
+      }
+
+      if (user) {
+        await recordAuthEvent('auth.logout', user.sub, user.phone_number, client, { allDevices });
+      }
+    } catch (error) {
+      // Cookies are still cleared - an already invalid refresh token is not an error for the client
+      logger.error('Logout revocation failed', { error });
+    }
+  }
+
   return {
     statusCode: 200,
-    headers: {
-      ...corsHeaders,
+    headers: jsonHeaders,
+    multiValueHeaders: {
       'Set-Cookie': clearAuthCookies()
     },
     body: JSON.stringify({
       success: true,
-      message: 'Logged out successfully'
+      message: allDevices ? 'Logged out from all devices' : 'Logged out successfully',
+      revoked
     })
   };
 }
 
 /**
- * Get current user info from ID token in cookies
+ * Revoke a single refresh token
+ */
+async function revokeRefreshToken(refreshToken: string): Promise<void> {
+  const command = new RevokeTokenCommand({
+    ClientId: COGNITO_CLIENT_ID,
+    Token: refreshToken
+  });
+  await cognitoClient.send(command);
+}
+
+/**
+ * Claims of an ID token freshly minted from a refresh token, or null when it
+ * cannot be redeemed (the revocation goes ahead regardless)
  */
-async function getCurrentUser(cookieHeader: string): Promise<APIGatewayProxyResult> {
+async function findRefreshTokenOwner(refreshToken: string): Promise<CognitoTokenPayload | null> {
   try {
-    // Extract ID token from cookies
-    const idToken = extractCookie(cookieHeader, 'idToken');
-
-    if (!idToken) {
-      return {
-        statusCode: 401,
-        headers: corsHeaders,
-        body: JSON.stringify({ error: 'Not authenticated' })
-      };
+    const { idToken } = await redeemRefreshToken(refreshToken);
+    return await verifyCognitoToken(idToken);
+  } catch (error) {
+    logger.warn('Refresh token owner lookup failed', { error });
+    return null;
+  }
+}
+
+/**
+ * Revoke the ID/access tokens minted from a revoked refresh token
+ * ID/access tokens stay cryptographically valid until they expire, so the
+ * authorizer is told to reject everything from the caller's session - but only
+ * when the session token belongs to the refresh token's owner and session.
+ * The cookie has usually expired by logout time, so expiry is not enforced here
+ */
+async function revokeSessionTokens(owner: CognitoTokenPayload, sessionToken: string | null): Promise<void> {
+  if (!sessionToken) {
+    return;
+  }
+
+  let claims: CognitoTokenPayload;
+
+  try {
+    claims = await verifyCognitoToken(sessionToken, {
+      tokenUse: ['id', 'access'],
+      allowExpired: true
+    });
+  } catch (error) {
+    logger.warn('Logout session token verification failed', { error });
+    return;
+  }
+
+  if (claims.sub !== owner.sub || !claims.origin_jti || claims.origin_jti !== owner.origin_jti) {
+    logger.warn('Logout session token is not from the revoked refresh token');
+    return;
+  }
+
+  await revokeOriginTokens(getRevocationStore(), claims.origin_jti);
+}
+
+/**
+ * Sign the user out everywhere via GlobalSignOut
+ * The refresh token is exchanged for an access token first - this proves the
+ * caller owns the session and gives us a Cognito-issued subject to revoke
+ */
+async function signOutAllDevices(refreshToken: string): Promise<CognitoTokenPayload> {
+  const { accessToken, idToken } = await redeemRefreshToken(refreshToken);
+
+  // Invalidates every refresh token issued to the user
+  const signOutCommand = new GlobalSignOutCommand({ AccessToken: accessToken });
+  await cognitoClient.send(signOutCommand);
+
+  const claims = await verifyCognitoToken(idToken);
+  await revokeUserTokens(getRevocationStore(), claims.sub);
+
+  return claims;
+}
+
+/**
+ * Exchange a refresh token for new ID and access tokens
+ */
+async function redeemRefreshToken(refreshToken: string): Promise<{ accessToken: string; idToken: string }> {
+  const refreshCommand = new InitiateAuthCommand({
+    AuthFlow: 'REFRESH_TOKEN_AUTH',
+    ClientId: COGNITO_CLIENT_ID,
+    AuthParameters: {
+      REFRESH_TOKEN: refreshToken
     }
+  });
+  const response = await cognitoClient.send(refreshCommand);
+
+  const accessToken = response.AuthenticationResult?.AccessToken;
+  const idToken = response.AuthenticationResult?.IdToken;
+
+  if (!accessToken || !idToken) {
+    throw new Error('Missing tokens in refresh response');
+  }
+
+  return { accessToken, idToken };
+}
+
+/**
+ * Get current user info from the Bearer or cookie token
+ * ID tokens are read directly; access tokens carry no profile claims so the
+ * user is loaded from Cognito with GetUser
+ */
+async function getCurrentUser(request: TokenRequest): Promise<APIGatewayProxyResult> {
+  // Extract token from Authorization header or cookies
+  const extracted = extractToken(request);
+
+  if (!extracted) {
+    throw new HttpError('AUTH_NOT_AUTHENTICATED');
+  }
 
-    // Parse user info from token
-    const userInfo = parseIdToken(idToken);
+  try {
+    // Verify signature, audience, token_use and expiry before trusting any claim
+    const decoded = await verifyCognitoToken(extracted.token, { tokenUse: ['id', 'access'] });
+    const userInfo = decoded.token_use === 'access'
+      ? await getUserFromAccessToken(extracted.token)
+      : await verifyIdToken(extracted.token);
 
     return {
       statusCode: 200,
-      headers: corsHeaders,
+      headers: jsonHeaders,
       body: JSON.stringify({
         success: true,
         user: userInfo
@@ -532,71 +680,1042 @@ async function getCurrentUser(cookieHeader: string): Promise<APIGatewayProxyResu
     };
 
   } catch (error) {
-    console.error('Get current user error:', error);
+    logger.error('Get current user failed', { error });
 
-    return {
-      statusCode: 401,
-      headers: corsHeaders,
-      body: JSON.stringify({
-        error: 'Invalid token',
-        message: error instanceof Error ? error.message : String(error)
-      })
-    };
+    if (error instanceof TokenVerificationError) {
+      throw tokenError(error);
+    }
+
+    throw mapCognitoError(error, 'me');
   }
 }
 
 /**
- * Helper: Extract cookie value by name
+ * Update the caller's own profile - only name and email (see updateProfileSchema)
+ * A new email is stored unverified and a code is emailed to it; sending the
+ * current unverified email again sends a new code. Tokens are refreshed so
+ * cookies and the returned user carry the changed claims
  */
-function extractCookie(cookieHeader: string, name: string): string | null {
-  if (!cookieHeader) return null;
+async function updateProfile(
+  event: APIGatewayProxyEvent,
+  body: UpdateProfileBody,
+  tokensInBody: boolean
+): Promise<APIGatewayProxyResult> {
+  const refreshToken = getProfileRefreshToken(event, body.refreshToken);
+  const caller = await authenticateCaller(event);
+  const { name, email } = body;
+  let emailToVerify: string | undefined;
 
-  const cookies = cookieHeader.split(';').map(c => c.trim());
-  const cookie = cookies.find(c => c.startsWith(`${name}=`));
+  try {
+    const current = await getUserAttributes(caller.userName);
+    const attributes: AttributeType[] = [];
 
-  return cookie ? cookie.split('=')[1] : null;
-}
+    if (name !== undefined && name !== current.name) {
+      attributes.push({ Name: 'name', Value: name });
+    }
 
-/**
- * Helper: Parse user info from ID token JWT
- */
-function parseIdToken(idToken: string): UserInfo {
-  const decoded = jwt.decode(idToken) as CognitoTokenPayload;
+    if (email !== undefined && !(email === current.email && current.email_verified === 'true')) {
+      emailToVerify = email;
+      await assertEmailVerificationAllowed(caller.userName);
 
-  return {
-    userId: decoded.sub,
-    phoneNumber: decoded.phone_number || '',
-    email: decoded.email || '',
-    name: decoded.name || '',
-    emailVerified: decoded.email_verified || false,
-    phoneVerified: decoded.phone_number_verified || false,
-    role: decoded['custom:role'] || 'user',
-    company: decoded['custom:company'] || ''
-  };
+      if (email !== current.email) {
+        attributes.push(
+          { Name: 'email', Value: email },
+          { Name: 'email_verified', Value: 'false' }
+        );
+      }
+    }
+
+    if (attributes.length > 0) {
+      await cognitoClient.send(new AdminUpdateUserAttributesCommand({
+        UserPoolId: COGNITO_USER_POOL_ID,
+        Username: caller.userName,
+        UserAttributes: attributes
+      }));
+    }
+
+  } catch (error) {
+    logger.error('Update profile failed', { error });
+    throw mapCognitoError(error, 'profile');
+  }
+
+  const emailVerification = emailToVerify
+    ? await sendEmailVerificationCode(caller.userName, emailToVerify)
+    : undefined;
+
+  return profileResponse(event, caller, refreshToken, tokensInBody, 'Profile updated', { emailVerification });
 }
 
 /**
- * Helper: Create Set-Cookie headers for authentication
+ * Confirm a new email address with the code sent by PATCH /me
  */
-function createAuthCookies(idToken: string, refreshToken: string): string {
-  const isProduction = ENVIRONMENT === 'prod';
-  const cookieOptions = `HttpOnly; ${isProduction ? 'Secure; ' : ''}SameSite=Lax; Path=/`;
+async function verifyEmail(
+  event: APIGatewayProxyEvent,
+  body: VerifyEmailBody,
+  tokensInBody: boolean
+): Promise<APIGatewayProxyResult> {
+  const refreshToken = getProfileRefreshToken(event, body.refreshToken);
+  const caller = await authenticateCaller(event);
+  let email: string | undefined;
 
-  return [
-    `idToken=${idToken}; ${cookieOptions}; Max-Age=3600`,           // 1 hour
-    `refreshToken=${refreshToken}; ${cookieOptions}; Max-Age=604800` // 7 days
-  ].join(', ');
+  try {
+    email = (await getUserAttributes(caller.userName)).email;
+  } catch (error) {
+    logger.error('Verify email failed', { error });
+    throw mapCognitoError(error, 'profile');
+  }
+
+  if (!email) {
+    throw new HttpError('PROFILE_EMAIL_NOT_PENDING');
+  }
+
+  // The code must have been sent to the address the user has now
+  await checkEmailVerificationCode(caller.userName, email, body.otp);
+
+  try {
+    // The address is written with the flag, so a PATCH /me racing this
+    // request cannot get email_verified onto an address that was never sent a code
+    await cognitoClient.send(new AdminUpdateUserAttributesCommand({
+      UserPoolId: COGNITO_USER_POOL_ID,
+      Username: caller.userName,
+      UserAttributes: [
+        { Name: 'email', Value: email },
+        { Name: 'email_verified', Value: 'true' }
+      ]
+    }));
+  } catch (error) {
+    logger.error('Verify email failed', { error });
+    throw mapCognitoError(error, 'profile');
+  }
+
+  return profileResponse(event, caller, refreshToken, tokensInBody, 'Email verified');
 }
 
 /**
- * Helper: Clear authentication cookies
+ * Start a phone number change
+ * Texts a code to the new number and, when the current number has to confirm
+ * the change too, starts a custom auth challenge that the Cognito triggers
+ * send to it. Nothing changes until /me/phone/verify
  */
-function clearAuthCookies(): string {
-  const isProduction = ENVIRONMENT === 'prod';
-  const cookieOptions = `HttpOnly; ${isProduction ? 'Secure; ' : ''}SameSite=Lax; Path=/`;
+async function changePhone(
+  event: APIGatewayProxyEvent,
+  body: ChangePhoneBody,
+  client: AuditClient
+): Promise<APIGatewayProxyResult> {
+  const caller = await authenticateCaller(event);
+  const { phoneNumber, channel } = body;
+  let current: Record<string, string>;
+
+  try {
+    current = await getUserAttributes(caller.userName);
+  } catch (error) {
+    logger.error('Change phone failed', { error });
+    throw mapCognitoError(error, 'profile');
+  }
+
+  if (phoneNumber === current.phone_number) {
+    throw new HttpError('PROFILE_PHONE_UNCHANGED');
+  }
+
+  // Texts a number the caller may not own - same limits as any other OTP send.
+  // Whether the number is taken is only checked on completion, so this route
+  // cannot be used to find registered numbers
+  await checkRateLimits(phoneNumber, client.sourceIp);
+
+  const delivery = await sendPhoneChangeCode(caller.userName, phoneNumber, channel);
+
+  // By SMS whatever the user's otp_channel - an email code would not prove the current number
+  const currentNumber = requiresCurrentNumber()
+    ? await startOtpChallenge(caller.userName, 'phone-change', client, 'sms')
+    : undefined;
 
+  return {
+    statusCode: 200,
+    headers: jsonHeaders,
+    body: JSON.stringify({
+      success: true,
+      message: 'Verification code sent to the new phone number',
+      delivery,
+      currentNumber
+    })
+  };
+}
+
+/**
+ * Complete a phone number change
+ * Checks the new number's code and (when required) the current number's
+ * challenge, moves phone_number - and with it the sign-in alias - to the new
+ * number, then signs the user out everywhere
+ */
+async function verifyPhoneChange(
+  event: APIGatewayProxyEvent,
+  body: VerifyPhoneChangeBody,
+  client: AuditClient
+): Promise<APIGatewayProxyResult> {
+  const caller = await authenticateCaller(event);
+  const { otp, currentOtp, session } = body;
+
+  if (requiresCurrentNumber() && (!currentOtp || !session)) {
+    throw new ValidationError([
+      ...(!currentOtp ? [{ field: 'currentOtp', code: 'required', message: 'Code sent to the current number is required' }] : []),
+      ...(!session ? [{ field: 'session', code: 'required', message: 'Session is required' }] : [])
+    ]);
+  }
+
+  const change = await checkPhoneChangeCode(caller.userName, otp);
+
+  if (currentOtp && session) {
+    await answerCallerChallenge(caller, session, currentOtp, client);
+  }
+
+  try {
+    // Fails with AliasExistsException when the number belongs to another user
+    await cognitoClient.send(new AdminUpdateUserAttributesCommand({
+      UserPoolId: COGNITO_USER_POOL_ID,
+      Username: caller.userName,
+      UserAttributes: [
+        { Name: 'phone_number', Value: change.phoneNumber },
+        { Name: 'phone_number_verified', Value: 'true' }
+      ]
+    }));
+  } catch (error) {
+    // The change stays pending - its code is only used up once the number is set
+    logger.error('Verify phone change failed', { error });
+    throw mapCognitoError(error, 'profile');
+  }
+
+  await completePhoneChange(caller.userName, change);
+
+  try {
+    // Every existing session was issued for the old number
+    await cognitoClient.send(new AdminUserGlobalSignOutCommand({
+      UserPoolId: COGNITO_USER_POOL_ID,
+      Username: caller.userName
+    }));
+  } catch (error) {
+    logger.error('Verify phone change failed', { error });
+    throw mapCognitoError(error, 'profile');
+  }
+
+  await revokeUserTokens(getRevocationStore(), caller.userId);
+
+  return {
+    statusCode: 200,
+    headers: jsonHeaders,
+    multiValueHeaders: {
+      'Set-Cookie': clearAuthCookies()
+    },
+    body: JSON.stringify({
+      success: true,
+      message: 'Phone number changed. Sign in again with the new number.',
+      phoneNumber: change.phoneNumber
+    })
+  };
+}
+
+/**
+ * Send a fresh code to the caller's own number
+ * The session answers a sensitive action (DELETE /me) - a stolen token alone
+ * is not enough to perform it
+ */
+async function startStepUp(
+  event: APIGatewayProxyEvent,
+  body: StepUpBody,
+  client: AuditClient
+): Promise<APIGatewayProxyResult> {
+  const caller = await authenticateCaller(event);
+  let attributes: Record<string, string>;
+
+  try {
+    attributes = await getUserAttributes(caller.userName);
+  } catch (error) {
+    logger.error('Step-up failed', { error });
+    throw mapCognitoError(error, 'profile');
+  }
+
+  await checkRateLimits(attributes.phone_number, client.sourceIp);
+
+  const challenge = await startOtpChallenge(caller.userName, 'step-up', client, body.channel);
+
+  return {
+    statusCode: 200,
+    headers: jsonHeaders,
+    body: JSON.stringify({
+      success: true,
+      message: 'Verification code sent to your phone number',
+      ...challenge
+    })
+  };
+}
+
+/**
+ * Delete the caller's account
+ * Requires the code from /me/step-up. Deletes the Cognito user, revokes the
+ * tokens already issued and publishes user.deleted so downstream services
+ * erase their data too
+ */
+async function deleteAccount(
+  event: APIGatewayProxyEvent,
+  body: DeleteAccountBody,
+  client: AuditClient
+): Promise<APIGatewayProxyResult> {
+  const caller = await authenticateCaller(event);
+
+  await answerCallerChallenge(caller, body.session, body.otp, client);
+
+  try {
+    await cognitoClient.send(new AdminDeleteUserCommand({
+      UserPoolId: COGNITO_USER_POOL_ID,
+      Username: caller.userName
+    }));
+  } catch (error) {
+    logger.error('Delete account failed', { error });
+    throw mapCognitoError(error, 'profile');
+  }
+
+  // ID tokens stay valid until they expire unless the authorizer is told otherwise
+  await revokeUserTokens(getRevocationStore(), caller.userId);
+
+  try {
+    await publishUserEvent(getUserEventPublisher(), 'user.deleted', caller.userId);
+  } catch (error) {
+    // The account is gone either way - log enough to republish the event by hand
+    logger.error('Failed to publish user.deleted', { userId: caller.userId, error });
+  }
+
+  return {
+    statusCode: 200,
+    headers: jsonHeaders,
+    multiValueHeaders: {
+      'Set-Cookie': clearAuthCookies()
+    },
+    body: JSON.stringify({
+      success: true,
+      message: 'Account deleted'
+    })
+  };
+}
+
+/**
+ * Export everything stored about the caller as a JSON download
+ * Attributes, group memberships and the auth event history Cognito records
+ */
+async function exportAccount(request: TokenRequest): Promise<APIGatewayProxyResult> {
+  const caller = await authenticateCaller(request);
+  let accountExport: AccountExport;
+
+  try {
+    const [user, groups, authEvents] = await Promise.all([
+      cognitoClient.send(new AdminGetUserCommand({ UserPoolId: COGNITO_USER_POOL_ID, Username: caller.userName })),
+      listUserGroups(caller.userName),
+      listUserAuthEvents(caller.userName)
+    ]);
+
+    accountExport = toAccountExport(user, groups, authEvents);
+  } catch (error) {
+    logger.error('Export account failed', { error });
+    throw mapCognitoError(error, 'me');
+  }
+
+  return {
+    statusCode: 200,
+    headers: {
+      ...jsonHeaders,
+      'Cache-Control': 'no-store',
+      'Content-Disposition': 'attachment; filename="account-export.json"'
+    },
+    body: JSON.stringify(accountExport)
+  };
+}
+
+/**
+ * List the caller's auth activity from the audit log, newest first
+ * Admin actions on the account are included without the admin's identity
+ */
+async function getActivity(request: TokenRequest, query: ActivityQuery): Promise<APIGatewayProxyResult> {
+  const caller = await authenticateCaller(request);
+  const page = await getAuditStore().query(caller.userId, query);
+
+  return {
+    statusCode: 200,
+    headers: {
+      ...jsonHeaders,
+      'Cache-Control': 'no-store'
+    },
+    body: JSON.stringify({
+      activity: page.records.map(record => {
+        const { actorId, ...entry } = toAuditEntry(record);
+        return entry;
+      }),
+      nextToken: page.nextToken
+    })
+  };
+}
+
+/**
+ * Start accepting an invitation from its signed link
+ * Texts a code to the invited number; the pre-created user stays disabled
+ * until /invitations/verify accepts the code
+ */
+async function acceptInvitation(body: AcceptInvitationBody, client: AuditClient): Promise<APIGatewayProxyResult> {
+  const invitation = await getPendingInvitation(body.token);
+
+  await checkRateLimits(invitation.phoneNumber, client.sourceIp);
+
+  const delivery = await sendInvitationCode(invitation, body.channel);
+
+  return {
+    statusCode: 200,
+    headers: jsonHeaders,
+    body: JSON.stringify({
+      message: 'OTP sent successfully',
+      invitation: { company: invitation.company, role: invitation.role },
+      delivery
+    })
+  };
+}
+
+/**
+ * Finish accepting an invitation - checks the code, enables the invited
+ * user and signs them in
+ * The invitation is marked accepted in the same step, so a link works once
+ */
+async function verifyInvitation(
+  body: VerifyInvitationBody,
+  tokensInBody: boolean,
+  client: AuditClient
+): Promise<APIGatewayProxyResult> {
+  const invitation = await getPendingInvitation(body.token);
+
+  await checkInvitationCode(invitation, body.otp);
+
+  try {
+    // Invited users stay disabled until they prove they own the number
+    await cognitoClient.send(new AdminEnableUserCommand({
+      UserPoolId: COGNITO_USER_POOL_ID,
+      Username: invitation.username
+    }));
+  } catch (error) {
+    logger.error('Verify invitation failed', { error });
+    throw mapCognitoError(error, 'send-otp');
+  }
+
+  if (!await getInvitationStore().close(invitation.inviteId, 'accepted', new Date().toISOString())) {
+    throw new HttpError('INVITATION_NOT_PENDING');
+  }
+
+  let result: AuthenticationResultType | undefined;
+
+  try {
+    // The number is already proven - the auth lambda answers a challenge
+    // it issued itself, so no second code is sent
+    const answer = await issueSignInCode(invitation, client);
+
+    const started = await cognitoClient.send(new AdminInitiateAuthCommand({
+      AuthFlow: 'CUSTOM_AUTH',
+      UserPoolId: COGNITO_USER_POOL_ID,
+      ClientId: COGNITO_CLIENT_ID,
+      AuthParameters: {
+        USERNAME: invitation.username
+      }
+    }));
+
+    const response = await cognitoClient.send(new AdminRespondToAuthChallengeCommand({
+      ChallengeName: 'CUSTOM_CHALLENGE',
+      UserPoolId: COGNITO_USER_POOL_ID,
+      ClientId: COGNITO_CLIENT_ID,
+      Session: started.Session,
+      ChallengeResponses: {
+        USERNAME: invitation.username,
+        ANSWER: answer
+      },
+      ClientMetadata: toClientMetadata(client)
+    }));
+
+    result = response.AuthenticationResult;
+  } catch (error) {
+    logger.error('Verify invitation failed', { error });
+    throw mapCognitoError(error, 'send-otp');
+  }
+
+  if (!result) {
+    logger.error('Invited user sign-in did not complete');
+    throw new HttpError('AUTH_SIGN_IN_FAILED');
+  }
+
+  const userInfo = await verifyIdToken(getIdToken(result));
+
+  return signedInResponse('Invitation accepted', userInfo, result, tokensInBody);
+}
+
+/**
+ * Helper: The pending invitation a signed link token refers to
+ * Throws INVITATION_INVALID, INVITATION_EXPIRED or INVITATION_NOT_PENDING
+ */
+async function getPendingInvitation(token: string): Promise<Invitation> {
+  const inviteId = readInvitationToken(token);
+  const invitation = inviteId ? await getInvitationStore().get(inviteId) : null;
+
+  if (!invitation) {
+    throw new HttpError('INVITATION_INVALID');
+  }
+
+  switch (getInvitationState(invitation)) {
+    case 'pending':
+      return invitation;
+    case 'expired':
+      throw new HttpError('INVITATION_EXPIRED');
+    default:
+      throw new HttpError('INVITATION_NOT_PENDING');
+  }
+}
+
+/**
+ * Helper: Answer a challenge sent to the caller's own number
+ * (the current number in a phone change, /me/step-up before deletion)
+ * A wrong code returns AUTH_OTP_INVALID with the session for the next try.
+ * The tokens Cognito issues on success are dropped - the caller already has a
+ * session and every flow using this signs it out afterwards
+ */
+async function answerCallerChallenge(caller: Caller, session: string, otp: string, client: AuditClient): Promise<void> {
+  let result: AuthenticationResultType | undefined;
+  let nextSession: string | undefined;
+
+  try {
+    const response = await cognitoClient.send(new RespondToAuthChallengeCommand({
+      ChallengeName: 'CUSTOM_CHALLENGE',
+      ClientId: COGNITO_CLIENT_ID,
+      Session: session,
+      ChallengeResponses: {
+        USERNAME: caller.userName,
+        ANSWER: otp
+      },
+      ClientMetadata: toClientMetadata(client)
+    }));
+
+    result = response.AuthenticationResult;
+    nextSession = response.Session;
+  } catch (error) {
+    logger.error('Caller challenge failed', { error });
+    throw mapCognitoError(error, 'verify-otp');
+  }
+
+  if (!result?.IdToken) {
+    throw new HttpError('AUTH_OTP_INVALID', { details: { session: nextSession } });
+  }
+
+  // The session must have been started for the caller
+  const { sub } = await verifyCognitoToken(result.IdToken, { tokenUse: 'id' });
+
+  if (sub !== caller.userId) {
+    throw new HttpError('AUTH_OTP_INVALID');
+  }
+}
+
+/**
+ * Helper: The caller's IP and user agent for the audit log
+ */
+function getClient(request: RouteRequest): AuditClient {
+  return {
+    sourceIp: request.sourceIp,
+    userAgent: getHeader(request.event.headers, 'User-Agent')
+  };
+}
+
+/**
+ * Helper: Audit a successful auth event (OTP sends and answers are audited by the triggers)
+ */
+async function recordAuthEvent(
+  action: string,
+  userId: string,
+  phoneNumber: string | undefined,
+  client: AuditClient,
+  details?: AuditEvent['details']
+): Promise<void> {
+  await recordAuditEvent(getAuditStore(), {
+    action,
+    userId,
+    outcome: 'success',
+    ...(phoneNumber && { phoneNumber: maskPhoneNumber(phoneNumber) }),
+    ...client,
+    details
+  });
+}
+
+/**
+ * Helper: Verify the caller's Bearer or cookie token (ID or access)
+ */
+async function authenticateCaller(request: TokenRequest): Promise<Caller> {
+  const extracted = extractToken(request);
+
+  if (!extracted) {
+    throw new HttpError('AUTH_NOT_AUTHENTICATED');
+  }
+
+  try {
+    const decoded = await verifyCognitoToken(extracted.token, { tokenUse: ['id', 'access'] });
+
+    return {
+      userId: decoded.sub,
+      userName: decoded['cognito:username'] || decoded.username || decoded.sub
+    };
+  } catch (error) {
+    if (error instanceof TokenVerificationError) {
+      throw tokenError(error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Helper: Refresh token for reissuing tokens after a profile change
+ * A cookie-borne refresh token means a browser request - CSRF is checked first
+ */
+function getProfileRefreshToken(event: APIGatewayProxyEvent, bodyRefreshToken?: string): string | undefined {
+  const cookieRefreshToken = readCookie(event.headers, 'refreshToken');
+
+  if (cookieRefreshToken) {
+    assertCsrf(event);
+  }
+
+  return cookieRefreshToken || bodyRefreshToken;
+}
+
+/**
+ * Helper: Response after a profile change
+ * With a refresh token new tokens are issued so they carry the changed claims;
+ * without one (Bearer-only clients) the user is read from Cognito
+ */
+async function profileResponse(
+  event: APIGatewayProxyEvent,
+  caller: Caller,
+  refreshToken: string | undefined,
+  tokensInBody: boolean,
+  message: string,
+  extra: Record<string, unknown> = {}
+): Promise<APIGatewayProxyResult> {
+  if (!refreshToken) {
+    let userInfo: UserInfo;
+
+    try {
+      userInfo = toUserInfo(await getUserAttributes(caller.userName), caller.userId);
+    } catch (error) {
+      logger.error('Load profile failed', { error });
+      throw mapCognitoError(error, 'profile');
+    }
+
+    return {
+      statusCode: 200,
+      headers: jsonHeaders,
+      body: JSON.stringify({
+        success: true,
+        message,
+        user: userInfo,
+        ...extra
+      })
+    };
+  }
+
+  try {
+    const response = await cognitoClient.send(new InitiateAuthCommand({
+      AuthFlow: 'REFRESH_TOKEN_AUTH',
+      ClientId: COGNITO_CLIENT_ID,
+      AuthParameters: {
+        REFRESH_TOKEN: refreshToken
+      }
+    }));
+
+    const result = response.AuthenticationResult;
+
+    if (!result?.IdToken) {
+      throw new HttpError('AUTH_REFRESH_TOKEN_INVALID');
+    }
+
+    const userInfo = await verifyIdToken(result.IdToken);
+
+    // The refresh token must belong to the user whose profile was changed
+    if (userInfo.userId !== caller.userId) {
+      throw new HttpError('AUTH_REFRESH_TOKEN_INVALID');
+    }
+
+    return refreshedSessionResponse(event, message, userInfo, result, refreshToken, tokensInBody, extra);
+
+  } catch (error) {
+    logger.error('Profile token refresh failed', { error });
+
+    if (error instanceof TokenVerificationError) {
+      throw tokenError(error);
+    }
+
+    throw mapCognitoError(error, 'refresh');
+  }
+}
+
+/**
+ * Helper: Load a user's attributes with AdminGetUser
+ */
+async function getUserAttributes(userName: string): Promise<Record<string, string>> {
+  const response = await cognitoClient.send(new AdminGetUserCommand({
+    UserPoolId: COGNITO_USER_POOL_ID,
+    Username: userName
+  }));
+
+  return toAttributeMap(response.UserAttributes);
+}
+
+/**
+ * Helper: Every group a user belongs to
+ */
+async function listUserGroups(userName: string): Promise<GroupType[]> {
+  const groups: GroupType[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const response = await cognitoClient.send(new AdminListGroupsForUserCommand({
+      UserPoolId: COGNITO_USER_POOL_ID,
+      Username: userName,
+      Limit: 60,
+      NextToken: nextToken
+    }));
+
+    groups.push(...(response.Groups || []));
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  return groups;
+}
+
+/**
+ * Helper: A user's auth event history
+ * Returns null when the pool does not record it (advanced security off)
+ */
+async function listUserAuthEvents(userName: string): Promise<AuthEventType[] | null> {
+  const events: AuthEventType[] = [];
+  let nextToken: string | undefined;
+
+  try {
+    do {
+      const response = await cognitoClient.send(new AdminListUserAuthEventsCommand({
+        UserPoolId: COGNITO_USER_POOL_ID,
+        Username: userName,
+        MaxResults: 60,
+        NextToken: nextToken
+      }));
+
+      events.push(...(response.AuthEvents || []));
+      nextToken = response.NextToken;
+    } while (nextToken);
+  } catch (error) {
+    if ((error as { name?: string })?.name === 'UserPoolAddOnNotEnabledException') {
+      return null;
+    }
+    throw error;
+  }
+
+  return events;
+}
+
+/**
+ * Helper: Shape Cognito's view of a user for GET /me/export
+ */
+function toAccountExport(
+  user: AdminGetUserCommandOutput,
+  groups: GroupType[],
+  authEvents: AuthEventType[] | null
+): AccountExport {
+  return {
+    exportedAt: new Date().toISOString(),
+    user: {
+      username: user.Username || '',
+      status: user.UserStatus || '',
+      enabled: user.Enabled !== false,
+      createdAt: user.UserCreateDate?.toISOString(),
+      lastModifiedAt: user.UserLastModifiedDate?.toISOString(),
+      attributes: toAttributeMap(user.UserAttributes)
+    },
+    groups: groups.map(group => ({
+      name: group.GroupName || '',
+      description: group.Description
+    })),
+    authEvents: authEvents && authEvents.map(event => ({
+      eventId: event.EventId,
+      eventType: event.EventType,
+      createdAt: event.CreationDate?.toISOString(),
+      response: event.EventResponse,
+      riskLevel: event.EventRisk?.RiskLevel,
+      riskDecision: event.EventRisk?.RiskDecision,
+      ipAddress: event.EventContextData?.IpAddress,
+      deviceName: event.EventContextData?.DeviceName,
+      city: event.EventContextData?.City,
+      country: event.EventContextData?.Country
+    }))
+  };
+}
+
+/**
+ * Helper: Delivery details published by create-auth-challenge
+ */
+function getDeliveryInfo(challengeParameters?: Record<string, string>): { channel: string; destination: string } | undefined {
+  if (!challengeParameters?.deliveryChannel) {
+    return undefined;
+  }
+
+  return {
+    channel: challengeParameters.deliveryChannel,
+    destination: challengeParameters.destination || ''
+  };
+}
+
+/**
+ * Helper: Response asking for another answer (after a wrong OTP)
+ */
+function additionalChallengeResponse(challenge: OtpChallenge): APIGatewayProxyResult {
+  return {
+    statusCode: 200,
+    headers: jsonHeaders,
+    body: JSON.stringify({
+      message: 'Additional challenge required',
+      session: challenge.session,
+      challengeName: challenge.challengeName
+    })
+  };
+}
+
+/**
+ * Helper: Enforce OTP send limits (phone number, source IP, country)
+ * Throws AUTH_RATE_LIMITED (429 with Retry-After) when a limit is exceeded
+ */
+async function checkRateLimits(phoneNumber: string, sourceIp?: string): Promise<void> {
+  const exceeded = await enforceOtpRateLimits({ phoneNumber, sourceIp });
+
+  if (!exceeded) {
+    return;
+  }
+
+  logger.warn('OTP rate limit exceeded', { sourceIp, retryAfter: exceeded.retryAfterSeconds });
+
+  throw new HttpError('AUTH_RATE_LIMITED', {
+    headers: { 'Retry-After': String(exceeded.retryAfterSeconds) },
+    details: { retryAfter: exceeded.retryAfterSeconds }
+  });
+}
+
+/**
+ * Helper: Verify an ID token JWT and map its claims to user info
+ */
+async function verifyIdToken(idToken: string): Promise<UserInfo> {
+  const decoded = await verifyCognitoToken(idToken, { tokenUse: 'id' });
+
+  return {
+    userId: decoded.sub,
+    phoneNumber: decoded.phone_number || '',
+    email: decoded.email || '',
+    name: decoded.name || '',
+    emailVerified: decoded.email_verified || false,
+    phoneVerified: decoded.phone_number_verified || false,
+    role: decoded['custom:role'] || 'user',
+    company: decoded['custom:company'] || ''
+  };
+}
+
+/**
+ * Helper: Load user info for an access token from Cognito
+ */
+async function getUserFromAccessToken(accessToken: string): Promise<UserInfo> {
+  const command = new GetUserCommand({ AccessToken: accessToken });
+  const response = await cognitoClient.send(command);
+  return toUserInfo(toAttributeMap(response.UserAttributes), response.Username || '');
+}
+
+/**
+ * Helper: Map Cognito attributes to user info
+ */
+function toUserInfo(attributes: Record<string, string>, fallbackUserId: string): UserInfo {
+  return {
+    userId: attributes.sub || fallbackUserId,
+    phoneNumber: attributes.phone_number || '',
+    email: attributes.email || '',
+    name: attributes.name || '',
+    emailVerified: attributes.email_verified === 'true',
+    phoneVerified: attributes.phone_number_verified === 'true',
+    role: attributes['custom:role'] || 'user',
+    company: attributes['custom:company'] || ''
+  };
+}
+
+/**
+ * Helper: Convert Cognito attribute list to a name/value map
+ */
+function toAttributeMap(attributes: AttributeType[] = []): Record<string, string> {
+  return attributes.reduce<Record<string, string>>((map, attribute) => {
+    if (attribute.Name) {
+      map[attribute.Name] = attribute.Value || '';
+    }
+    return map;
+  }, {});
+}
+
+/**
+ * Helper: Success response carrying tokens in the body (tokenMode=body)
+ * No cookies are set - native clients store the tokens themselves
+ */
+function tokenBodyResponse(
+  message: string,
+  userInfo: UserInfo,
+  result: AuthenticationResultType,
+  refreshToken: string,
+  extra: Record<string, unknown> = {}
+): APIGatewayProxyResult {
+  if (!result.IdToken || !result.AccessToken) {
+    throw new Error('Missing tokens in authentication result');
+  }
+
+  const tokens: TokenBody = {
+    idToken: result.IdToken,
+    accessToken: result.AccessToken,
+    refreshToken,
+    expiresIn: result.ExpiresIn || 3600,
+    tokenType: result.TokenType || 'Bearer'
+  };
+
+  return {
+    statusCode: 200,
+    headers: {
+      ...jsonHeaders,
+      'Cache-Control': 'no-store'
+    },
+    body: JSON.stringify({
+      success: true,
+      message,
+      user: userInfo,
+      tokens,
+      ...extra
+    })
+  };
+}
+
+/**
+ * Helper: ID token of a completed sign-in (Cognito always returns all three tokens)
+ */
+function getIdToken(result: AuthenticationResultType): string {
+  if (!result.IdToken || !result.RefreshToken) {
+    throw new Error('Missing tokens in authentication result');
+  }
+
+  return result.IdToken;
+}
+
+/**
+ * Helper: Success response for a completed OTP sign-in
+ * HttpOnly cookies plus a fresh CSRF token, or JSON tokens with tokensInBody
+ */
+function signedInResponse(
+  message: string,
+  userInfo: UserInfo,
+  result: AuthenticationResultType,
+  tokensInBody: boolean,
+  extra: Record<string, unknown> = {}
+): APIGatewayProxyResult {
+  if (tokensInBody) {
+    return tokenBodyResponse(message, userInfo, result, result.RefreshToken!, extra);
+  }
+
+  const csrfToken = generateCsrfToken();
+  const cookieHeaders = createAuthCookies(result.IdToken!, result.RefreshToken!, csrfToken);
+
+  return {
+    statusCode: 200,
+    headers: jsonHeaders,
+    multiValueHeaders: {
+      'Set-Cookie': cookieHeaders
+    },
+    body: JSON.stringify({
+      success: true,
+      message,
+      user: userInfo,
+      csrfToken,
+      ...extra
+    })
+  };
+}
+
+/**
+ * Helper: Success response for tokens reissued from a refresh token
+ * Cookie clients get a new ID token cookie (refresh and CSRF tokens stay the
+ * same); with tokensInBody the tokens are returned as JSON
+ */
+function refreshedSessionResponse(
+  event: APIGatewayProxyEvent,
+  message: string,
+  userInfo: UserInfo,
+  result: AuthenticationResultType,
+  refreshToken: string,
+  tokensInBody: boolean,
+  extra: Record<string, unknown> = {}
+): APIGatewayProxyResult {
+  if (tokensInBody) {
+    return tokenBodyResponse(message, userInfo, result, refreshToken, extra);
+  }
+
+  const csrfToken = readCookie(event.headers, CSRF_COOKIE_NAME) || generateCsrfToken();
+  const cookieHeaders = createAuthCookies(result.IdToken!, refreshToken, csrfToken);
+
+  return {
+    statusCode: 200,
+    headers: jsonHeaders,
+    multiValueHeaders: {
+      'Set-Cookie': cookieHeaders
+    },
+    body: JSON.stringify({
+      success: true,
+      message,
+      user: userInfo,
+      csrfToken,
+      ...extra
+    })
+  };
+}
+
+/**
+ * Helper: Reject a cookie-authenticated request failing CSRF checks (403)
+ */
+function assertCsrf(event: APIGatewayProxyEvent): void {
+  const csrf = validateCsrf(event);
+
+  if (!csrf.valid) {
+    logger.warn('CSRF validation failed', { reason: csrf.reason });
+    throw new HttpError('AUTH_CSRF_FAILED', { details: { reason: csrf.reason } });
+  }
+}
+
+/**
+ * Helper: 401 error for a token that failed verification
+ */
+function tokenError(error: TokenVerificationError): HttpError {
+  return new HttpError(error.reason === 'expired' ? 'AUTH_TOKEN_EXPIRED' : 'AUTH_TOKEN_INVALID', {
+    details: { reason: error.reason }
+  });
+}
+
+/**
+ * Helper: Create Set-Cookie headers for authentication
+ * The CSRF cookie is not HttpOnly - the frontend copies it into X-CSRF-Token
+ */
+function createAuthCookies(idToken: string, refreshToken: string, csrfToken: string): string[] {
+  return [
+    serializeCookie('idToken', idToken, { maxAge: 3600 }),              // 1 hour
+    serializeCookie('refreshToken', refreshToken, { maxAge: 604800 }),  // 7 days
+    serializeCookie(CSRF_COOKIE_NAME, csrfToken, { maxAge: 604800, httpOnly: false })
+  ];
+}
+
+/**
+ * Helper: Clear authentication cookies
+ */
+function clearAuthCookies(): string[] {
   return [
-    `idToken=; ${cookieOptions}; Max-Age=0`,
-    `refreshToken=; ${cookieOptions}; Max-Age=0`
-  ].join(', ');
+    serializeExpiredCookie('idToken'),
+    serializeExpiredCookie('refreshToken'),
+    serializeExpiredCookie(CSRF_COOKIE_NAME, { httpOnly: false })
+  ];
 }
@@ -0,0 +1,86 @@
+/**
+ * Invitation Acceptance
+ * /invitations/accept texts a code to the invited number while the
+ * pre-created user stays disabled - Cognito cannot run a challenge for a
+ * disabled user, and enabling it first would let plain /send-otp sign it in
+ * with the invitation still pending. /invitations/verify checks the code
+ * before the user is enabled, then signs them in without a second code.
+ * Codes live in the OTP store under their own key with the number as the
+ * record subject, as phone change codes do
+ */
+
+import { getOtpStore, issueOtp, OtpVerificationResult, verifyOtp } from '../shared/otp-store';
+import { deliverOtp, OtpChannel, OtpDeliveryError, OtpDeliveryResult, resolveChannels } from '../shared/otp-delivery';
+import { Invitation } from '../shared/invitations';
+import { getSignInAttemptStore, saveSignInAttempt } from '../shared/sign-in-attempts';
+import { AuditClient } from '../shared/audit-log';
+import { logger } from '../shared/logger';
+import { ErrorCode } from './error-codes';
+import { HttpError } from './errors';
+
+// Codes other than 'valid' - an unknown or used code means a new one is needed
+const FAILURE_CODES: Record<Exclude<OtpVerificationResult, 'valid'>, ErrorCode> = {
+  invalid: 'AUTH_OTP_INVALID',
+  expired: 'AUTH_OTP_EXPIRED',
+  too_many_attempts: 'AUTH_TOO_MANY_ATTEMPTS',
+  consumed: 'AUTH_OTP_EXPIRED',
+  not_found: 'AUTH_OTP_EXPIRED'
+};
+
+/**
+ * Text a code to the invited number
+ * Replaces any earlier code for the invitation; throws AUTH_OTP_DELIVERY_FAILED
+ * when no phone channel can send it
+ */
+export async function sendInvitationCode(invitation: Invitation, channel?: OtpChannel): Promise<OtpDeliveryResult> {
+  const otp = await issueOtp(getOtpStore(), invitationKey(invitation), undefined, invitation.phoneNumber);
+
+  try {
+    // No email in the recipient - only a message to the number itself proves ownership
+    const recipient = { phoneNumber: invitation.phoneNumber };
+    return await deliverOtp(recipient, { code: otp.code, ttlSeconds: otp.ttlSeconds }, resolveChannels(channel));
+  } catch (error) {
+    if (error instanceof OtpDeliveryError) {
+      logger.error('Invitation code delivery failed', { failures: error.failures });
+      throw new HttpError('AUTH_OTP_DELIVERY_FAILED');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check and use up the code sent for an invitation
+ * Throws the matching error code unless the code is valid
+ */
+export async function checkInvitationCode(invitation: Invitation, code: string): Promise<void> {
+  const store = getOtpStore();
+  const key = invitationKey(invitation);
+
+  // issueOtp invalidates earlier codes, so at most one is outstanding
+  const [challengeId] = await store.listUnconsumed(key);
+  const result = challengeId ? await verifyOtp(store, key, challengeId, code) : 'not_found';
+
+  if (result !== 'valid') {
+    throw new HttpError(FAILURE_CODES[result]);
+  }
+}
+
+/**
+ * Issue the code the auth lambda answers itself to sign a verified invitee in
+ * create-auth-challenge finds the challenge in the sign-in attempt and sends nothing
+ */
+export async function issueSignInCode(invitation: Invitation, client: AuditClient): Promise<string> {
+  const otp = await issueOtp(getOtpStore(), invitation.username);
+
+  await saveSignInAttempt(getSignInAttemptStore(), invitation.username, {
+    challengeId: otp.challengeId,
+    sourceIp: client.sourceIp,
+    userAgent: client.userAgent
+  });
+
+  return otp.code;
+}
+
+function invitationKey(invitation: Invitation): string {
+  return `invitation#${invitation.inviteId}`;
+}
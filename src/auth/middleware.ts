@@ -0,0 +1,89 @@
+/**
+ * Middleware
+ * Shared request pipeline for every auth route:
+ * logging -> CORS -> error mapping -> JSON body parsing -> route
+ */
+
+import { getHeader } from '../shared/headers';
+import { logger } from '../shared/logger';
+import { preflightResponse, withCorsHeaders } from './cors';
+import { errorResponse, HttpError } from './errors';
+import { Middleware } from './router';
+
+/**
+ * Log the method, path, status and duration of every request
+ * Headers and bodies are not logged - they carry tokens and phone numbers
+ */
+export const logRequests: Middleware = async (request, next) => {
+  const startedAt = Date.now();
+  const response = await next();
+
+  logger.info('Request completed', {
+    method: request.method,
+    path: request.path,
+    statusCode: response.statusCode,
+    durationMs: Date.now() - startedAt
+  });
+  return response;
+};
+
+/**
+ * Answer preflight requests and add CORS headers for allowlisted origins
+ * Runs outside error mapping so error responses carry CORS headers too
+ */
+export const handleCors: Middleware = async (request, next) => {
+  const origin = getHeader(request.event.headers, 'Origin');
+
+  if (request.method === 'OPTIONS') {
+    return preflightResponse(origin);
+  }
+
+  return withCorsHeaders(await next(), origin);
+};
+
+/**
+ * Turn thrown errors into error envelope responses
+ * HttpError keeps its catalogue code, anything else is a 500 INTERNAL_ERROR
+ */
+export const mapErrors: Middleware = async (request, next) => {
+  try {
+    return await next();
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return errorResponse(error.code, error);
+    }
+
+    // Internal details are logged, never returned
+    logger.error('Request failed', { method: request.method, path: request.path, error });
+    return errorResponse('INTERNAL_ERROR');
+  }
+};
+
+/**
+ * Parse the JSON request body into request.body ({} when there is none)
+ */
+export const parseJsonBody: Middleware = async (request, next) => {
+  const { body, isBase64Encoded } = request.event;
+
+  if (!body) {
+    request.body = {};
+    return next();
+  }
+
+  const text = isBase64Encoded ? Buffer.from(body, 'base64').toString('utf8') : body;
+
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new HttpError('INVALID_JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new HttpError('INVALID_JSON', { message: 'Request body must be a JSON object' });
+  }
+
+  request.body = parsed;
+  return next();
+};
@@ -0,0 +1,106 @@
+/**
+ * Phone Number Change
+ * POST /me/phone texts a code to the new number; with
+ * PHONE_CHANGE_VERIFY_CURRENT=true the current number must also answer a
+ * regular custom auth challenge (sent by the Cognito triggers).
+ * /me/phone/verify checks both before phone_number is changed.
+ * New-number codes live in the OTP store under their own key with the
+ * number as the record subject, so the code only confirms that number
+ */
+
+import { getOtpStore, issueOtp, OtpVerificationResult, verifyOtp } from '../shared/otp-store';
+import { deliverOtp, OtpChannel, OtpDeliveryError, OtpDeliveryResult, resolveChannels } from '../shared/otp-delivery';
+import { logger } from '../shared/logger';
+import { ErrorCode } from './error-codes';
+import { HttpError } from './errors';
+
+// Types
+export interface PendingPhoneChange {
+  phoneNumber: string;    // The new number
+  challengeId: string;
+}
+
+const PHONE_CHANGE_VERIFY_CURRENT = process.env.PHONE_CHANGE_VERIFY_CURRENT !== 'false';
+
+// Codes other than 'valid' - an unknown or used code means nothing is pending
+const FAILURE_CODES: Record<Exclude<OtpVerificationResult, 'valid'>, ErrorCode> = {
+  invalid: 'AUTH_OTP_INVALID',
+  expired: 'AUTH_OTP_EXPIRED',
+  too_many_attempts: 'AUTH_TOO_MANY_ATTEMPTS',
+  consumed: 'PROFILE_PHONE_CHANGE_NOT_PENDING',
+  not_found: 'PROFILE_PHONE_CHANGE_NOT_PENDING'
+};
+
+/**
+ * Check whether the current number must confirm a change too
+ */
+export function requiresCurrentNumber(): boolean {
+  return PHONE_CHANGE_VERIFY_CURRENT;
+}
+
+/**
+ * Text a code to the number a user is changing to
+ * Replaces any earlier pending change; throws AUTH_OTP_DELIVERY_FAILED
+ * when no phone channel can send it
+ */
+export async function sendPhoneChangeCode(
+  userName: string,
+  phoneNumber: string,
+  channel?: OtpChannel
+): Promise<OtpDeliveryResult> {
+  const otp = await issueOtp(getOtpStore(), changeKey(userName), undefined, phoneNumber);
+
+  try {
+    // No email in the recipient - only a message to the number itself proves ownership
+    return await deliverOtp({ phoneNumber }, { code: otp.code, ttlSeconds: otp.ttlSeconds }, resolveChannels(channel));
+  } catch (error) {
+    if (error instanceof OtpDeliveryError) {
+      logger.error('Phone change delivery failed', { failures: error.failures });
+      throw new HttpError('AUTH_OTP_DELIVERY_FAILED');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check a code against the user's pending change without using it up
+ * The code stays valid until completePhoneChange, so a wrong answer for the
+ * current number does not cost the new number's code.
+ * Throws the matching error code unless the code is valid
+ */
+export async function checkPhoneChangeCode(userName: string, code: string): Promise<PendingPhoneChange> {
+  const store = getOtpStore();
+  const key = changeKey(userName);
+
+  // issueOtp invalidates earlier codes, so at most one change is pending
+  const [challengeId] = await store.listUnconsumed(key);
+  const record = challengeId ? await store.get(key, challengeId) : null;
+
+  if (!record?.subject) {
+    throw new HttpError('PROFILE_PHONE_CHANGE_NOT_PENDING');
+  }
+
+  const result = await verifyOtp(store, key, record.challengeId, code, undefined, false);
+
+  if (result !== 'valid') {
+    throw new HttpError(FAILURE_CODES[result]);
+  }
+
+  return { phoneNumber: record.subject, challengeId: record.challengeId };
+}
+
+/**
+ * Use up the new number's code once the number has been set
+ * Throws PROFILE_PHONE_CHANGE_NOT_PENDING if a concurrent request got there first
+ */
+export async function completePhoneChange(userName: string, change: PendingPhoneChange): Promise<void> {
+  const consumed = await getOtpStore().consume(changeKey(userName), change.challengeId);
+
+  if (!consumed) {
+    throw new HttpError('PROFILE_PHONE_CHANGE_NOT_PENDING');
+  }
+}
+
+function changeKey(userName: string): string {
+  return `phone-change#${userName}`;
+}
@@ -0,0 +1,141 @@
+/**
+ * OTP Rate Limits
+ * Caps how often an SMS can be triggered per phone number, per source IP
+ * and per destination country to protect against SMS pumping, and how
+ * often profile changes can email a verification code
+ */
+
+import {
+  consumeRateLimit,
+  getRateLimitStore,
+  parseRateLimitRule,
+  RateLimitResult,
+  RateLimitRule
+} from '../shared/rate-limiter';
+import { logger } from '../shared/logger';
+
+// "limit/windowSeconds" specs, overridable per environment
+const PHONE_RULE = parseRateLimitRule('otp-phone', process.env.RATE_LIMIT_PER_PHONE, '5/900');
+const IP_RULE = parseRateLimitRule('otp-ip', process.env.RATE_LIMIT_PER_IP, '20/3600');
+const COUNTRY_RULES = parseCountryCaps(process.env.RATE_LIMIT_PER_COUNTRY);
+
+// One /resend-otp per phone number per cooldown window
+const RESEND_COOLDOWN_RULE: RateLimitRule = {
+  name: 'otp-resend',
+  limit: 1,
+  windowSeconds: parseInt(process.env.RESEND_OTP_COOLDOWN_SECONDS || '60', 10)
+};
+
+// Verification codes sent to new email addresses (PATCH /me) per user
+const EMAIL_VERIFICATION_RULE = parseRateLimitRule('email-verification', process.env.RATE_LIMIT_EMAIL_VERIFICATION, '5/3600');
+
+// Two-digit ITU calling codes; 1 and 7 are single digit, everything else is three
+const TWO_DIGIT_CALLING_CODES = new Set([
+  '20', '27', '30', '31', '32', '33', '34', '36', '39', '40', '41', '43', '44', '45', '46',
+  '47', '48', '49', '51', '52', '53', '54', '55', '56', '57', '58', '60', '61', '62', '63',
+  '64', '65', '66', '81', '82', '84', '86', '90', '91', '92', '93', '94', '95', '98'
+]);
+
+export interface OtpRateLimitContext {
+  phoneNumber: string;  // E.164
+  sourceIp?: string;
+}
+
+/**
+ * Count an OTP send against every applicable limit
+ * Returns the first exceeded limit, or null when the send may proceed
+ */
+export async function enforceOtpRateLimits(context: OtpRateLimitContext): Promise<RateLimitResult | null> {
+  const store = getRateLimitStore();
+  const callingCode = getCallingCode(context.phoneNumber);
+  const countryRule = COUNTRY_RULES[callingCode] || COUNTRY_RULES.default;
+
+  const checks: Array<[RateLimitRule, string]> = [
+    [PHONE_RULE, context.phoneNumber],
+    [countryRule, callingCode]
+  ];
+
+  if (context.sourceIp) {
+    checks.push([IP_RULE, context.sourceIp]);
+  }
+
+  const results = await Promise.all(
+    checks.map(([rule, subject]) => consumeRateLimit(store, rule, subject))
+  );
+
+  const exceeded = results.filter(result => !result.allowed);
+
+  if (exceeded.length === 0) {
+    return null;
+  }
+
+  // Report the longest wait so the client doesn't retry into another limit
+  return exceeded.reduce((longest, result) =>
+    result.retryAfterSeconds > longest.retryAfterSeconds ? result : longest
+  );
+}
+
+/**
+ * Count a resend against the per-phone cooldown
+ * Returns the limit result when the cooldown is still running, otherwise null
+ */
+export async function enforceResendCooldown(phoneNumber: string): Promise<RateLimitResult | null> {
+  const result = await consumeRateLimit(getRateLimitStore(), RESEND_COOLDOWN_RULE, phoneNumber);
+
+  return result.allowed ? null : result;
+}
+
+/**
+ * Count an email verification code against the per-user limit
+ * Returns the limit result when the limit is exceeded, otherwise null
+ */
+export async function enforceEmailVerificationLimit(userName: string): Promise<RateLimitResult | null> {
+  const result = await consumeRateLimit(getRateLimitStore(), EMAIL_VERIFICATION_RULE, userName);
+
+  return result.allowed ? null : result;
+}
+
+/**
+ * Helper: Extract the ITU calling code from an E.164 number
+ */
+export function getCallingCode(phoneNumber: string): string {
+  const digits = phoneNumber.replace(/^\+/, '');
+
+  if (digits.startsWith('1') || digits.startsWith('7')) {
+    return digits.slice(0, 1);
+  }
+
+  if (TWO_DIGIT_CALLING_CODES.has(digits.slice(0, 2))) {
+    return digits.slice(0, 2);
+  }
+
+  return digits.slice(0, 3);
+}
+
+/**
+ * Helper: Parse per-country caps from JSON, e.g. {"27":"1000/3600","default":"200/3600"}
+ * Every country has its own counter; "default" sets the cap for unlisted ones
+ */
+function parseCountryCaps(json: string | undefined): Record<string, RateLimitRule> {
+  let specs: Record<string, string> = {};
+
+  if (json) {
+    try {
+      specs = JSON.parse(json);
+    } catch (error) {
+      logger.error('Invalid RATE_LIMIT_PER_COUNTRY, using defaults', { error });
+    }
+  }
+
+  const rules: Record<string, RateLimitRule> = {
+    default: parseRateLimitRule('otp-country', specs.default, '200/3600')
+  };
+
+  for (const [callingCode, spec] of Object.entries(specs)) {
+    if (callingCode !== 'default') {
+      rules[callingCode] = parseRateLimitRule('otp-country', spec, '200/3600');
+    }
+  }
+
+  return rules;
+}
@@ -0,0 +1,189 @@
+/**
+ * Router
+ * Exact method + path matching for the auth and admin lambdas; a {name}
+ * segment matches any single path segment and is passed as params.name.
+ * Every request runs through the same middleware pipeline before its route
+ * handler; unknown paths get 404 and known paths with the wrong method get
+ * 405 with an Allow header
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { errorResponse } from './errors';
+
+// Types
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RouteRequest<TBody = unknown> {
+  event: APIGatewayProxyEvent;
+  method: string;
+  path: string;                      // Normalized request path
+  params: Record<string, string>;    // Values of the route's {name} segments
+  body: TBody;                       // Set by the body parsing middleware
+  query: Record<string, string>;
+  sourceIp?: string;
+}
+
+export type RouteHandler<TBody = unknown> = (request: RouteRequest<TBody>) => Promise<APIGatewayProxyResult>;
+
+export type Next = () => Promise<APIGatewayProxyResult>;
+
+export type Middleware = (request: RouteRequest, next: Next) => Promise<APIGatewayProxyResult>;
+
+export class Router {
+  private readonly routes = new Map<string, Map<HttpMethod, RouteHandler>>();
+  private readonly middleware: Middleware[] = [];
+
+  constructor(private readonly basePath = '') {}
+
+  /**
+   * Add a middleware - they run in registration order, outermost first
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  get<TBody = unknown>(path: string, handler: RouteHandler<TBody>): this {
+    return this.route('GET', path, handler);
+  }
+
+  post<TBody = unknown>(path: string, handler: RouteHandler<TBody>): this {
+    return this.route('POST', path, handler);
+  }
+
+  put<TBody = unknown>(path: string, handler: RouteHandler<TBody>): this {
+    return this.route('PUT', path, handler);
+  }
+
+  patch<TBody = unknown>(path: string, handler: RouteHandler<TBody>): this {
+    return this.route('PATCH', path, handler);
+  }
+
+  delete<TBody = unknown>(path: string, handler: RouteHandler<TBody>): this {
+    return this.route('DELETE', path, handler);
+  }
+
+  route<TBody = unknown>(method: HttpMethod, path: string, handler: RouteHandler<TBody>): this {
+    const key = normalizePath(`${this.basePath}/${path}`);
+    const methods = this.routes.get(key) || new Map<HttpMethod, RouteHandler>();
+
+    if (methods.has(method)) {
+      throw new Error(`Route ${method} ${key} is already registered`);
+    }
+
+    methods.set(method, handler as RouteHandler);
+    this.routes.set(key, methods);
+    return this;
+  }
+
+  /**
+   * Run the middleware pipeline and the matching route for an event
+   */
+  async handle(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    const request = this.toRouteRequest(event);
+
+    const pipeline = this.middleware.reduceRight<Next>(
+      (next, middleware) => () => middleware(request, next),
+      () => this.dispatch(request)
+    );
+
+    return pipeline();
+  }
+
+  private async dispatch(request: RouteRequest): Promise<APIGatewayProxyResult> {
+    const match = this.match(request.path);
+
+    if (!match) {
+      return errorResponse('NOT_FOUND');
+    }
+
+    const { methods, params } = match;
+    request.params = params;
+
+    const handler = methods.get(request.method as HttpMethod);
+
+    if (!handler) {
+      // OPTIONS is answered for every route by the CORS middleware
+      return errorResponse('METHOD_NOT_ALLOWED', {
+        headers: { Allow: [...methods.keys(), 'OPTIONS'].join(', ') }
+      });
+    }
+
+    return handler(request);
+  }
+
+  /**
+   * Find the routes for a path - exact paths win over {name} templates
+   */
+  private match(path: string): { methods: Map<HttpMethod, RouteHandler>; params: Record<string, string> } | undefined {
+    const exact = this.routes.get(path);
+
+    if (exact) {
+      return { methods: exact, params: {} };
+    }
+
+    for (const [template, methods] of this.routes) {
+      const params = matchTemplate(template, path);
+
+      if (params) {
+        return { methods, params };
+      }
+    }
+
+    return undefined;
+  }
+
+  private toRouteRequest(event: APIGatewayProxyEvent): RouteRequest {
+    return {
+      event,
+      method: (event.httpMethod || 'GET').toUpperCase(),
+      path: normalizePath(event.path || event.resource || '/'),
+      params: {},
+      body: undefined,
+      query: { ...event.queryStringParameters } as Record<string, string>,
+      sourceIp: event.requestContext?.identity?.sourceIp
+    };
+  }
+}
+
+/**
+ * Collapse duplicate slashes and drop the trailing slash ('/me/' -> '/me')
+ */
+function normalizePath(path: string): string {
+  const collapsed = `/${path}`.replace(/\/{2,}/g, '/');
+  return collapsed.length > 1 ? collapsed.replace(/\/$/, '') : collapsed;
+}
+
+/**
+ * Match a path against a route template, returning the {name} segment values
+ */
+function matchTemplate(template: string, path: string): Record<string, string> | undefined {
+  if (!template.includes('{')) {
+    return undefined;
+  }
+
+  const templateSegments = template.split('/');
+  const pathSegments = path.split('/');
+
+  if (templateSegments.length !== pathSegments.length) {
+    return undefined;
+  }
+
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < templateSegments.length; i++) {
+    const name = /^\{(\w+)\}$/.exec(templateSegments[i])?.[1];
+
+    if (name && pathSegments[i]) {
+      try {
+        params[name] = decodeURIComponent(pathSegments[i]);
+      } catch {
+        return undefined;
+      }
+    } else if (templateSegments[i] !== pathSegments[i]) {
+      return undefined;
+    }
+  }
+
+  return params;
+}
@@ -0,0 +1,248 @@
+/**
+ * Request Validation
+ * zod schemas for the auth route bodies and wrappers that validate the
+ * parsed body (or query string) before the route handler runs. Handlers
+ * receive the parsed output - phone numbers are already normalized to E.164
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { z, ZodError, ZodIssue } from 'zod';
+import { REQUESTABLE_OTP_CHANNELS } from '../shared/otp-delivery';
+import { normalizePhoneNumber } from '../shared/phone';
+import { FieldError, ValidationError } from './errors';
+import { RouteHandler, RouteRequest } from './router';
+
+const OTP_PATTERN = /^\d{6}$/;
+
+/**
+ * Phone number in any format the default region understands, output as E.164
+ */
+export const phoneNumberSchema = z
+  .string({ required_error: 'Phone number is required', invalid_type_error: 'Phone number must be a string' })
+  .transform((value, context) => {
+    const normalized = normalizePhoneNumber(value);
+
+    if (!normalized) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Invalid phone number. Use international format (e.g. +12345678900)',
+        params: { code: 'invalid_phone_number' }
+      });
+      return z.NEVER;
+    }
+
+    return normalized;
+  });
+
+const nameSchema = z.string().trim().min(1, 'Name must not be empty').max(256, 'Name must be at most 256 characters');
+
+const otpSchema = z
+  .string({ required_error: 'OTP is required' })
+  .trim()
+  .regex(OTP_PATTERN, 'OTP must be 6 digits');
+
+// Native clients send the refresh token in the body, browsers use the cookie
+const refreshTokenSchema = z.string().min(1, 'Refresh token must not be empty').optional();
+
+export const registerSchema = z.object({
+  phoneNumber: phoneNumberSchema,
+  name: nameSchema.optional()
+});
+
+export const sendOtpSchema = z.object({
+  phoneNumber: phoneNumberSchema,
+  channel: z.enum(REQUESTABLE_OTP_CHANNELS, {
+    errorMap: () => ({ message: `Invalid channel. Use one of: ${REQUESTABLE_OTP_CHANNELS.join(', ')}` })
+  }).optional()
+});
+
+export const resendOtpSchema = sendOtpSchema;
+
+const channelSchema = sendOtpSchema.shape.channel;
+
+const sessionSchema = z
+  .string({ required_error: 'Session is required' })
+  .min(1, 'Session is required')
+  .max(4096, 'Session is too long');
+
+export const verifyOtpSchema = z.object({
+  phoneNumber: phoneNumberSchema,
+  otp: otpSchema,
+  session: sessionSchema
+});
+
+export const refreshSchema = z.object({
+  refreshToken: refreshTokenSchema
+});
+
+export const logoutSchema = refreshSchema;
+
+// Strict - only self-editable attributes; role and company are changed by admins
+export const updateProfileSchema = z.object({
+  name: nameSchema.optional(),
+  email: z
+    .string({ invalid_type_error: 'Email must be a string' })
+    .trim()
+    .toLowerCase()
+    .max(254, 'Email must be at most 254 characters')
+    .email('Invalid email address')
+    .optional(),
+  refreshToken: refreshTokenSchema
+}).strict();
+
+export const verifyEmailSchema = z.object({
+  otp: otpSchema,
+  refreshToken: refreshTokenSchema
+});
+
+// New number (and delivery channel) for a phone number change
+export const changePhoneSchema = sendOtpSchema;
+
+// otp is the new number's code; currentOtp and session answer the current number's challenge
+export const verifyPhoneChangeSchema = z.object({
+  otp: otpSchema,
+  currentOtp: otpSchema.optional(),
+  session: sessionSchema.optional()
+});
+
+// Sends a fresh code to the caller's own number before a sensitive action
+export const stepUpSchema = z.object({
+  channel: channelSchema
+});
+
+// otp and session answer the challenge started by /me/step-up
+export const deleteAccountSchema = z.object({
+  otp: otpSchema,
+  session: sessionSchema
+});
+
+// token is the signed value from the invitation link (?token=)
+const invitationTokenSchema = z
+  .string({ required_error: 'Invitation token is required' })
+  .min(1, 'Invitation token is required')
+  .max(256, 'Invitation token is too long');
+
+export const acceptInvitationSchema = z.object({
+  token: invitationTokenSchema,
+  channel: channelSchema
+});
+
+// otp is the code /invitations/accept sent - no Cognito session is involved
+export const verifyInvitationSchema = z.object({
+  token: invitationTokenSchema,
+  otp: otpSchema
+});
+
+/**
+ * ISO 8601 timestamp, output in the audit log's UTC form so it compares with
+ * the stored sort keys
+ */
+const timestampSchema = z
+  .string()
+  .datetime({ offset: true, message: 'Must be an ISO 8601 timestamp (e.g. 2024-01-31T00:00:00Z)' })
+  .transform(value => new Date(value).toISOString());
+
+// GET /me/activity - time range and page of the caller's audit records
+export const activityQuerySchema = z.object({
+  from: timestampSchema.optional(),
+  to: timestampSchema.optional(),
+  limit: z.coerce
+    .number({ invalid_type_error: 'Limit must be a number' })
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit must be at most 100')
+    .default(50),
+  nextToken: z.string().min(1).max(256, 'Next token is too long').optional()
+});
+
+export type RegisterBody = z.output<typeof registerSchema>;
+export type SendOtpBody = z.output<typeof sendOtpSchema>;
+export type ResendOtpBody = z.output<typeof resendOtpSchema>;
+export type VerifyOtpBody = z.output<typeof verifyOtpSchema>;
+export type RefreshBody = z.output<typeof refreshSchema>;
+export type LogoutBody = z.output<typeof logoutSchema>;
+export type UpdateProfileBody = z.output<typeof updateProfileSchema>;
+export type VerifyEmailBody = z.output<typeof verifyEmailSchema>;
+export type ChangePhoneBody = z.output<typeof changePhoneSchema>;
+export type VerifyPhoneChangeBody = z.output<typeof verifyPhoneChangeSchema>;
+export type StepUpBody = z.output<typeof stepUpSchema>;
+export type DeleteAccountBody = z.output<typeof deleteAccountSchema>;
+export type AcceptInvitationBody = z.output<typeof acceptInvitationSchema>;
+export type VerifyInvitationBody = z.output<typeof verifyInvitationSchema>;
+export type ActivityQuery = z.output<typeof activityQuerySchema>;
+
+/**
+ * Validate request.body against a schema before calling the handler
+ * Throws ValidationError (400 with per-field errors) on mismatch
+ */
+export function validateBody<S extends z.ZodTypeAny>(schema: S, handler: RouteHandler<z.output<S>>): RouteHandler {
+  return async request => {
+    const result = schema.safeParse(request.body);
+
+    if (!result.success) {
+      throw new ValidationError(toFieldErrors(result.error));
+    }
+
+    return handler({ ...request, body: result.data });
+  };
+}
+
+/**
+ * Validate request.query against a schema before calling the handler
+ * The handler receives the parsed output as request.query
+ */
+export function validateQuery<S extends z.ZodTypeAny>(
+  schema: S,
+  handler: (request: RouteRequest, query: z.output<S>) => Promise<APIGatewayProxyResult>
+): RouteHandler {
+  return async request => {
+    const result = schema.safeParse(request.query);
+
+    if (!result.success) {
+      throw new ValidationError(toFieldErrors(result.error));
+    }
+
+    return handler(request, result.data);
+  };
+}
+
+/**
+ * Map zod issues to the error envelope's field list
+ */
+export function toFieldErrors(error: ZodError): FieldError[] {
+  return error.issues.flatMap(issue => {
+    // Strict schemas reject unknown keys in one issue - report each key as a field
+    if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+      return issue.keys.map(key => ({
+        field: [...issue.path, key].join('.'),
+        code: 'not_editable',
+        message: `${key} cannot be changed`
+      }));
+    }
+
+    return [{
+      field: issue.path.join('.'),
+      code: toFieldErrorCode(issue),
+      message: issue.message
+    }];
+  });
+}
+
+function toFieldErrorCode(issue: ZodIssue): string {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return issue.received === 'undefined' ? 'required' : 'invalid_type';
+    case z.ZodIssueCode.invalid_string:
+      return 'invalid_format';
+    case z.ZodIssueCode.invalid_enum_value:
+      return 'invalid_value';
+    case z.ZodIssueCode.too_small:
+      return 'too_short';
+    case z.ZodIssueCode.too_big:
+      return 'too_long';
+    case z.ZodIssueCode.custom:
+      return issue.params?.code || 'invalid';
+    default:
+      return 'invalid';
+  }
+}
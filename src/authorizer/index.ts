@@ -1,44 +1,23 @@
 /**
  * Lambda Authorizer for API Gateway
- * Validates JWT tokens from HttpOnly cookies and returns IAM policy
+ * Validates Cognito ID/access tokens (Bearer header, HttpOnly cookie or
+ * opt-in query parameter), enforces tenant isolation on company-scoped
+ * routes and returns IAM policy
  */
 
-import { APIGatewayRequestAuthorizerEvent, APIGatewayAuthorizerResult, Context } from 'aws-lambda';
-import * as jwt from 'jsonwebtoken';
-import * as jwkToPem from 'jwk-to-pem';
-import axios from 'axios';
+import { APIGatewayRequestAuthorizerEvent, APIGatewayAuthorizerResult, Context, Statement } from 'aws-lambda';
+import { getPrincipals, resolvePermissions, RoutePermission } from './permissions';
+import { resolveTenant } from './tenancy';
+import { getRevocationStore, isTokenRevoked } from '../shared/revocation-store';
+import { getTokenScopes, TokenVerificationError, verifyCognitoToken } from '../shared/token-verifier';
+import { extractToken } from '../shared/token-source';
+import { validateCsrf } from '../shared/csrf';
+import { logger, withLogContext } from '../shared/logger';
 
-const COGNITO_REGION = process.env.AWS_REGION || 'eu-west-1';
-const COGNITO_USER_POOL_ID = process.env.COGNITO_USER_POOL_ID!;
-const JWKS_URL = `https://cognito-idp.${COGNITO_REGION}.amazonaws.com/${COGNITO_USER_POOL_ID}/.well-known/jwks.json`;
+// Websocket clients can't send headers, so ?access_token= is opt-in per environment
+const ALLOW_QUERY_TOKEN = process.env.ALLOW_QUERY_TOKEN === 'true';
 
 // Types
-interface JWK {
-  kid: string;
-  alg: string;
-  kty: string;
-  e: string;
-  n: string;
-  use: string;
-}
-
-interface JWKS {
-  keys: JWK[];
-}
-
-interface CognitoTokenPayload {
-  sub: string;
-  phone_number?: string;
-  email?: string;
-  name?: string;
-  email_verified?: boolean;
-  phone_number_verified?: boolean;
-  'custom:role'?: string;
-  'custom:company'?: string;
-  iss: string;
-  exp: number;
-}
-
 interface UserContext {
   userId: string;
   phoneNumber: string;
@@ -46,188 +25,157 @@ interface UserContext {
   name: string;
   role: string;
   company: string;
+  tenantId: string;    // Company the request acts on (see tenancy.ts)
+  groups: string[];
+  tokenUse: string;
+  scopes?: string[];   // Access tokens only
 }
 
-// Cache JWKS for 1 hour to reduce API calls
-let jwksCache: JWKS | null = null;
-let jwksCacheTime = 0;
-const JWKS_CACHE_DURATION = 3600000; // 1 hour in milliseconds
-
 /**
  * Main Lambda Authorizer handler
- * Validates JWT from Cookie header and returns IAM policy
  */
 export const handler = async (
   event: APIGatewayRequestAuthorizerEvent,
   context: Context
 ): Promise<APIGatewayAuthorizerResult> => {
-  console.log('Authorizer invoked for:', {
+  return withLogContext(context, () => authorize(event));
+};
+
+/**
+ * Validate the JWT from the token source chain and return IAM policy
+ */
+async function authorize(event: APIGatewayRequestAuthorizerEvent): Promise<APIGatewayAuthorizerResult> {
+  logger.info('Authorizer invoked', {
     methodArn: event.methodArn,
     path: event.path,
     httpMethod: event.httpMethod
   });
 
   try {
-    // Extract token from Cookie header
-    const token = extractTokenFromCookies(event.headers);
+    // Extract token from Authorization header, Cookie header or query string
+    const extracted = extractToken(event, { allowQuery: ALLOW_QUERY_TOKEN });
     
-    if (!token) {
-      console.log('No idToken found in cookies');
+    if (!extracted) {
+      logger.info('No token found in Authorization header or cookies');
       throw new Error('No authentication token provided');
     }
 
-    // Validate JWT signature and claims
-    const decoded = await validateJwt(token);
-    console.log('Token validated successfully for user:', decoded.sub);
+    // Validate JWT signature and claims (issuer, audience, token_use, expiry)
+    const decoded = await verifyCognitoToken(extracted.token, { tokenUse: ['id', 'access'] });
+    logger.info('Token validated', {
+      userId: decoded.sub,
+      source: extracted.source,
+      tokenUse: decoded.token_use
+    });
+
+    // Reject tokens signed out via /logout before they expire
+    if (await isTokenRevoked(getRevocationStore(), decoded)) {
+      logger.info('Token has been revoked', { userId: decoded.sub });
+      throw new Error('Token revoked');
+    }
+
+    // Cookies are sent by the browser automatically - mutating requests must
+    // prove they came from our frontend (double-submit token + Origin allowlist)
+    if (extracted.source === 'cookie') {
+      const csrf = validateCsrf(event);
+
+      if (!csrf.valid) {
+        logger.warn('CSRF validation failed', { reason: csrf.reason, httpMethod: event.httpMethod, path: event.path });
+        return generateDenyPolicy(decoded.sub, event.methodArn);
+      }
+    }
+
+    // Company-scoped routes must name the caller's own company (super-admins excepted)
+    const company = decoded['custom:company'] || '';
+    const groups = decoded['cognito:groups'] || [];
+    const tenant = resolveTenant(event.path, company, getPrincipals(decoded['custom:role'], groups));
+
+    if (!tenant.allowed) {
+      logger.warn('Tenant check failed', { reason: tenant.reason, userId: decoded.sub, path: event.path });
+      return generateDenyPolicy(decoded.sub, event.methodArn);
+    }
 
     // Extract user context from token claims
+    // Access tokens carry no profile claims - backends look the user up by userId
     const userContext: UserContext = {
       userId: decoded.sub,
       phoneNumber: decoded.phone_number || '',
       email: decoded.email || '',
       name: decoded.name || '',
       role: decoded['custom:role'] || 'user',
-      company: decoded['custom:company'] || ''
+      company,
+      tenantId: tenant.tenantId,
+      groups,
+      tokenUse: decoded.token_use,
+      scopes: decoded.token_use === 'access' ? getTokenScopes(decoded) : undefined
     };
 
-    // Generate IAM policy allowing access
+    // Generate IAM policy from the caller's role and group permissions
     return generatePolicy(
       decoded.sub,      // principalId (unique user identifier)
-      'Allow',          // effect
       event.methodArn,  // resource
       userContext       // context passed to backend Lambda
     );
 
   } catch (error) {
-    console.error('Authorization failed:', error instanceof Error ? error.message : String(error));
+    const reason = error instanceof TokenVerificationError ? error.reason : 'error';
+    logger.error('Authorization failed', { reason, message: error instanceof Error ? error.message : String(error) });
     
     // Return 401 Unauthorized by throwing error
     // API Gateway will return 401 to the client
     throw new Error('Unauthorized');
   }
-};
-
-/**
- * Extract idToken from Cookie header
- * Supports both single and multi-value cookie headers
- */
-function extractTokenFromCookies(headers: { [name: string]: string | undefined }): string | null {
-  if (!headers) {
-    return null;
-  }
-
-  // Headers can be lowercase or capitalized
-  const cookieHeader = headers.Cookie || headers.cookie || '';
-  
-  if (!cookieHeader) {
-    return null;
-  }
-
-  // Parse cookies (format: "cookie1=value1; cookie2=value2")
-  const cookies = cookieHeader.split(';').map(c => c.trim());
-  const idTokenCookie = cookies.find(c => c.startsWith('idToken='));
-  
-  if (!idTokenCookie) {
-    return null;
-  }
-
-  // Extract token value
-  const token = idTokenCookie.split('=')[1];
-  return token;
-}
-
-/**
- * Validate JWT signature using Cognito JWKS
- * Fetches public keys from Cognito and verifies RS256 signature
- */
-async function validateJwt(token: string): Promise<CognitoTokenPayload> {
-  // Fetch JWKS (cached)
-  const jwks = await fetchJwks();
-  
-  // Decode token header to get 'kid' (key ID)
-  const decoded = jwt.decode(token, { complete: true });
-  
-  if (!decoded || !decoded.header) {
-    throw new Error('Invalid token format');
-  }
-
-  const kid = decoded.header.kid;
-  
-  if (!kid) {
-    throw new Error('No kid found in token header');
-  }
-
-  // Find matching public key
-  const jwk = jwks.keys.find(key => key.kid === kid);
-  
-  if (!jwk) {
-    throw new Error('Public key not found in JWKS');
-  }
-
-  // Convert JWK to PEM format
-  const pem = jwkToPem(jwk);
-
-  // Verify JWT signature and claims
-  const verified = jwt.verify(token, pem, {
-    algorithms: ['RS256'],
-    issuer: `https://cognito-idp.${COGNITO_REGION}.amazonaws.com/${COGNITO_USER_POOL_ID}`
-  }) as CognitoTokenPayload;
-
-  return verified;
-}
-
-/**
- * Fetch JWKS from Cognito (with caching)
- * Caches for 1 hour to improve performance and reduce API calls
- */
-async function fetchJwks(): Promise<JWKS> {
-  const now = Date.now();
-
-  // Return cached JWKS if still valid
-  if (jwksCache && (now - jwksCacheTime) < JWKS_CACHE_DURATION) {
-    console.log('Using cached JWKS');
-    return jwksCache;
-  }
-
-  // Fetch fresh JWKS from Cognito
-  console.log('Fetching JWKS from:', JWKS_URL);
-  const response = await axios.get<JWKS>(JWKS_URL);
-  
-  jwksCache = response.data;
-  jwksCacheTime = now;
-
-  console.log('JWKS fetched and cached');
-  return jwksCache;
 }
 
 /**
  * Generate IAM policy for API Gateway
- * Returns policy document allowing/denying access to API resources
+ * Allows/denies every route in the caller's permission map. The policy must
+ * never be cached (AuthorizerResultTtlInSeconds stays 0): the tenant and CSRF
+ * checks above only judge the request being authorized, so a cached /secure/*
+ * Allow would let later requests skip them
  */
 function generatePolicy(
   principalId: string,
-  effect: 'Allow' | 'Deny',
   resource: string,
   context: UserContext
 ): APIGatewayAuthorizerResult {
-  // Extract API Gateway ARN parts
+  // Extract API Gateway ARN parts (arn:aws:execute-api:region:account:apiId/stage)
   const resourceParts = resource.split('/');
   const apiGatewayArnPart = resourceParts.slice(0, 2).join('/');
-  
-  // Create wildcard resource to allow all methods under this API
-  const wildcardResource = `${apiGatewayArnPart}/*`;
+
+  const principals = getPrincipals(context.role, context.groups);
+  const permissions = resolvePermissions(principals, context.scopes);
+
+  const statements: Statement[] = [];
+
+  if (permissions.allow.length > 0) {
+    statements.push({
+      Action: 'execute-api:Invoke',
+      Effect: 'Allow',
+      Resource: permissions.allow.map(route => toResourceArn(apiGatewayArnPart, route))
+    });
+  } else {
+    statements.push({
+      Action: 'execute-api:Invoke',
+      Effect: 'Deny',
+      Resource: `${apiGatewayArnPart}/*`
+    });
+  }
+
+  // Explicit denies override any overlapping wildcard allow
+  if (permissions.deny.length > 0) {
+    statements.push({
+      Action: 'execute-api:Invoke',
+      Effect: 'Deny',
+      Resource: permissions.deny.map(route => toResourceArn(apiGatewayArnPart, route))
+    });
+  }
 
   const policy: APIGatewayAuthorizerResult = {
     principalId: principalId,
     policyDocument: {
       Version: '2012-10-17',
-      Statement: [
-        {
-          Action: 'execute-api:Invoke',
-          Effect: effect,
-          Resource: wildcardResource  // Once authorized, allow all API endpoints
-        }
-      ]
+      Statement: statements
     },
     context: {
       // Context values are passed to backend Lambda as strings
@@ -237,15 +185,47 @@ function generatePolicy(
       email: String(context.email || ''),
       name: String(context.name || ''),
       role: String(context.role || ''),
-      company: String(context.company || '')
+      company: String(context.company || ''),
+      tenantId: String(context.tenantId || ''),
+      groups: context.groups.join(','),
+      tokenUse: context.tokenUse,
+      scopes: (context.scopes || []).join(' ')
     }
   };
 
-  console.log('Generated IAM policy:', {
+  logger.info('Generated IAM policy', {
     principalId: policy.principalId,
-    effect: effect,
-    resource: wildcardResource
+    principals: principals,
+    allow: permissions.allow.length,
+    deny: permissions.deny.length
   });
 
   return policy;
 }
+
+/**
+ * Generate an explicit Deny for this request (API Gateway returns 403)
+ */
+function generateDenyPolicy(principalId: string, resource: string): APIGatewayAuthorizerResult {
+  return {
+    principalId: principalId,
+    policyDocument: {
+      Version: '2012-10-17',
+      Statement: [
+        {
+          Action: 'execute-api:Invoke',
+          Effect: 'Deny',
+          Resource: resource
+        }
+      ]
+    }
+  };
+}
+
+/**
+ * Convert a route permission into an execute-api resource ARN
+ * Format: arn:aws:execute-api:region:account:apiId/stage/METHOD/path
+ */
+function toResourceArn(apiGatewayArnPart: string, route: RoutePermission): string {
+  return `${apiGatewayArnPart}/${route.method}${route.path}`;
+}
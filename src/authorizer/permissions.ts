@@ -0,0 +1,122 @@
+/**
+ * Route Permissions
+ * Declarative map of which API routes each role or Cognito group may invoke
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS' | '*';
+
+export interface RoutePermission {
+  method: HttpMethod;
+  path: string;  // Resource path under the stage, '*' matches any characters
+  scopes?: string[];  // OAuth scopes an access token must hold (default: DEFAULT_ACCESS_SCOPES)
+}
+
+export interface RolePolicy {
+  allow: RoutePermission[];
+  deny?: RoutePermission[];
+}
+
+export interface ResolvedPermissions {
+  allow: RoutePermission[];
+  deny: RoutePermission[];
+}
+
+// Role assumed when the token carries no custom:role claim
+export const DEFAULT_ROLE = 'user';
+
+// Scope Cognito grants to access tokens from USER_SRP/CUSTOM_AUTH sign-ins
+// Routes without explicit scopes require it so client_credentials tokens stay out
+export const DEFAULT_ACCESS_SCOPES = ['aws.cognito.signin.user.admin'];
+
+// Admin-only routes - denied to everyone not explicitly granted them
+const ADMIN_ROUTES: RoutePermission[] = [
+  { method: '*', path: '/secure/admin/*' }
+];
+
+const USER_POLICY: RolePolicy = {
+  allow: [
+    { method: '*', path: '/secure/*' }
+  ],
+  deny: ADMIN_ROUTES
+};
+
+const ADMIN_POLICY: RolePolicy = {
+  allow: [
+    { method: '*', path: '/secure/*' },
+    ...ADMIN_ROUTES
+  ]
+};
+
+/**
+ * Permission map keyed by principal
+ * Keys are matched against the custom:role claim and every cognito:groups entry
+ * (groups are defined in cognito-pool.yaml)
+ */
+export const ROLE_PERMISSIONS: Record<string, RolePolicy> = {
+  // custom:role values
+  user: USER_POLICY,
+  admin: ADMIN_POLICY,
+  'super-admin': ADMIN_POLICY,   // Also crosses tenants (tenancy.ts)
+
+  // Cognito groups
+  Users: USER_POLICY,
+  Admins: ADMIN_POLICY
+};
+
+/**
+ * Merge the policies of every principal the caller holds
+ * A deny is lifted when another of the caller's principals explicitly
+ * allows the same method and path (e.g. role "user" in group "Admins")
+ *
+ * When scopes are given (access tokens) allows are limited to routes whose
+ * required scopes the token holds; ID tokens pass no scopes and skip the check
+ */
+export function resolvePermissions(principals: string[], scopes?: string[]): ResolvedPermissions {
+  const allow: RoutePermission[] = [];
+  const deny: RoutePermission[] = [];
+
+  for (const principal of principals) {
+    const policy = ROLE_PERMISSIONS[principal];
+
+    if (!policy) {
+      continue;
+    }
+
+    addUnique(allow, policy.allow);
+    addUnique(deny, policy.deny || []);
+  }
+
+  const scoped = scopes ? allow.filter(route => hasRequiredScopes(route, scopes)) : allow;
+
+  return {
+    allow: scoped,
+    deny: deny.filter(route => !allow.some(granted => isSameRoute(granted, route)))
+  };
+}
+
+/**
+ * Collect the principals (role + groups) carried by a token
+ * Falls back to the default role when no known principal is present
+ */
+export function getPrincipals(role: string | undefined, groups: string[] = []): string[] {
+  const principals = [role || DEFAULT_ROLE, ...groups];
+  const known = principals.filter(principal => principal in ROLE_PERMISSIONS);
+
+  return known.length > 0 ? Array.from(new Set(known)) : [DEFAULT_ROLE];
+}
+
+function hasRequiredScopes(route: RoutePermission, scopes: string[]): boolean {
+  return (route.scopes || DEFAULT_ACCESS_SCOPES).every(scope => scopes.includes(scope));
+}
+
+function addUnique(target: RoutePermission[], routes: RoutePermission[]): void {
+  for (const route of routes) {
+    if (!target.some(existing => isSameRoute(existing, route))) {
+      target.push(route);
+    }
+  }
+}
+
+function isSameRoute(a: RoutePermission, b: RoutePermission): boolean {
+  return a.method === b.method && a.path === b.path;
+}
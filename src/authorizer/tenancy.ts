@@ -0,0 +1,89 @@
+/**
+ * Tenant Isolation
+ * Company-scoped routes carry the company in the path. The authorizer checks
+ * it against the caller's custom:company claim so backends get requests for
+ * their own tenant only; cross-tenant access is reserved for super-admins
+ */
+
+// Path templates of company-scoped routes - {companyId} is the tenant, '*' any remainder
+export const TENANT_ROUTES = [
+  '/secure/companies/{companyId}/*'
+];
+
+// Principals (custom:role values or Cognito groups) that may act on any tenant
+export const CROSS_TENANT_PRINCIPALS = ['super-admin'];
+
+// Header API Gateway sets from the authorizer context on every authorized method
+export const TENANT_ID_HEADER = 'X-Tenant-Id';
+
+export type TenantDenyReason = 'no_company' | 'cross_tenant';
+
+export interface TenantDecision {
+  allowed: boolean;
+  tenantId: string;          // Tenant the request acts on ('' when none)
+  reason?: TenantDenyReason;
+}
+
+const TENANT_PATTERNS = TENANT_ROUTES.map(toPattern);
+
+/**
+ * Decide which tenant a request acts on and whether the caller may
+ * Routes outside TENANT_ROUTES act on the caller's own company
+ */
+export function resolveTenant(path: string, company: string, principals: string[]): TenantDecision {
+  const requested = getRequestedTenant(path);
+
+  if (requested === null) {
+    return { allowed: true, tenantId: company };
+  }
+
+  if (isCrossTenant(principals)) {
+    return { allowed: true, tenantId: requested };
+  }
+
+  if (!company) {
+    return { allowed: false, tenantId: '', reason: 'no_company' };
+  }
+
+  if (requested !== company) {
+    return { allowed: false, tenantId: '', reason: 'cross_tenant' };
+  }
+
+  return { allowed: true, tenantId: company };
+}
+
+/**
+ * The {companyId} of a company-scoped path, or null for other routes
+ */
+export function getRequestedTenant(path: string): string | null {
+  for (const pattern of TENANT_PATTERNS) {
+    const match = pattern.exec(path);
+
+    if (match) {
+      try {
+        return decodeURIComponent(match[1]);
+      } catch {
+        return match[1];
+      }
+    }
+  }
+
+  return null;
+}
+
+function isCrossTenant(principals: string[]): boolean {
+  return principals.some(principal => CROSS_TENANT_PRINCIPALS.includes(principal));
+}
+
+/**
+ * Compile a path template - {companyId} matches one segment, a trailing /* any remainder
+ */
+function toPattern(template: string): RegExp {
+  const source = template
+    .replace(/\/\*$/, '')
+    .split('/')
+    .map(segment => segment === '{companyId}' ? '([^/]+)' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('/');
+
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
@@ -0,0 +1,161 @@
+/**
+ * Unconfirmed User Cleanup
+ * Scheduled job that deletes users who started registration but never
+ * verified an OTP, once they are older than UNCONFIRMED_USER_MAX_AGE_HOURS,
+ * and the still-disabled users pre-created for invitations that expired.
+ * Frees the phone number for a fresh registration or invitation
+ */
+
+import { Context, ScheduledEvent } from 'aws-lambda';
+import {
+  AdminDeleteUserCommand,
+  AdminGetUserCommand,
+  CognitoIdentityProviderClient,
+  ListUsersCommand,
+  UserType
+} from '@aws-sdk/client-cognito-identity-provider';
+import { getInvitationState, getInvitationStore, Invitation } from '../shared/invitations';
+import { logger, withLogContext } from '../shared/logger';
+
+const cognitoClient = new CognitoIdentityProviderClient({});
+
+const COGNITO_USER_POOL_ID = process.env.COGNITO_USER_POOL_ID!;
+const MAX_AGE_HOURS = parseFloat(process.env.UNCONFIRMED_USER_MAX_AGE_HOURS || '24');
+const DRY_RUN = process.env.CLEANUP_DRY_RUN === 'true';
+
+// Types
+export interface CleanupResult {
+  unconfirmed: number;   // UNCONFIRMED users found
+  expired: number;       // ...of which older than the max age
+  invitees: number;      // Disabled users of expired invitations
+  deleted: number;       // Expired unconfirmed users and invitees
+  failed: number;
+  dryRun: boolean;
+}
+
+/**
+ * Main Lambda handler (EventBridge schedule)
+ */
+export const handler = async (event?: ScheduledEvent, context?: Context): Promise<CleanupResult> => {
+  return withLogContext(context, () => cleanUpUnconfirmedUsers(event));
+};
+
+/**
+ * Delete UNCONFIRMED users older than the max age and the invitees of
+ * expired invitations (CLEANUP_DRY_RUN only logs them)
+ */
+async function cleanUpUnconfirmedUsers(event?: ScheduledEvent): Promise<CleanupResult> {
+  const cutoff = Date.now() - MAX_AGE_HOURS * 3600 * 1000;
+
+  // Collect first - deleting while paging could invalidate the pagination token
+  const unconfirmed = await listUnconfirmedUsers();
+  const expired = unconfirmed.filter(user => (user.UserCreateDate?.getTime() ?? Date.now()) < cutoff);
+
+  const result: CleanupResult = {
+    unconfirmed: unconfirmed.length,
+    expired: expired.length,
+    invitees: 0,
+    deleted: 0,
+    failed: 0,
+    dryRun: DRY_RUN
+  };
+
+  for (const user of expired) {
+    if (DRY_RUN) {
+      logger.info('Would delete unconfirmed user', { username: user.Username, createdAt: user.UserCreateDate });
+      continue;
+    }
+
+    try {
+      await cognitoClient.send(new AdminDeleteUserCommand({
+        UserPoolId: COGNITO_USER_POOL_ID,
+        Username: user.Username
+      }));
+      result.deleted++;
+    } catch (error) {
+      // Keep going - the next run retries whatever is left
+      logger.error('Failed to delete unconfirmed user', { username: user.Username, error });
+      result.failed++;
+    }
+  }
+
+  await cleanUpExpiredInvitees(result);
+
+  logger.info('Unconfirmed user cleanup finished', { ...result, maxAgeHours: MAX_AGE_HOURS, time: event?.time });
+  return result;
+}
+
+/**
+ * Delete the users pre-created for expired invitations
+ * They stay disabled until the invitee verifies a code, so one that is still
+ * disabled was never claimed. Expired invitations stay listed until their
+ * record is purged - already deleted users are skipped on later runs
+ */
+async function cleanUpExpiredInvitees(result: CleanupResult): Promise<void> {
+  const invitations = (await getInvitationStore().list()).filter(invitation => getInvitationState(invitation) === 'expired');
+
+  for (const invitation of invitations) {
+    try {
+      if (!await isUnclaimed(invitation)) {
+        continue;
+      }
+
+      result.invitees++;
+
+      if (DRY_RUN) {
+        logger.info('Would delete expired invitee', { username: invitation.username, inviteId: invitation.inviteId });
+        continue;
+      }
+
+      await cognitoClient.send(new AdminDeleteUserCommand({
+        UserPoolId: COGNITO_USER_POOL_ID,
+        Username: invitation.username
+      }));
+      result.deleted++;
+    } catch (error) {
+      // Keep going - the next run retries whatever is left
+      logger.error('Failed to delete expired invitee', { username: invitation.username, error });
+      result.failed++;
+    }
+  }
+}
+
+/**
+ * Helper: Whether an invitation's user still exists and is disabled
+ */
+async function isUnclaimed(invitation: Invitation): Promise<boolean> {
+  try {
+    const user = await cognitoClient.send(new AdminGetUserCommand({
+      UserPoolId: COGNITO_USER_POOL_ID,
+      Username: invitation.username
+    }));
+    return user.Enabled === false;
+  } catch (error) {
+    if ((error as { name?: string })?.name === 'UserNotFoundException') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Helper: Page through every UNCONFIRMED user in the pool
+ */
+async function listUnconfirmedUsers(): Promise<UserType[]> {
+  const users: UserType[] = [];
+  let paginationToken: string | undefined;
+
+  do {
+    const response = await cognitoClient.send(new ListUsersCommand({
+      UserPoolId: COGNITO_USER_POOL_ID,
+      Filter: 'cognito:user_status = "UNCONFIRMED"',
+      Limit: 60,
+      PaginationToken: paginationToken
+    }));
+
+    users.push(...(response.Users || []));
+    paginationToken = response.PaginationToken;
+  } while (paginationToken);
+
+  return users;
+}
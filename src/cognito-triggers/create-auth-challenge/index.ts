@@ -1,67 +1,147 @@
 /**
  * Create Auth Challenge Lambda Trigger
- * Generates and sends the OTP code to the user's phone
+ * Generates the OTP code and sends it over the user's chosen delivery channel
+ * and records the send (or failed send) in the audit log
+ * Sends are rate limited here as well as in the auth lambda - the app client
+ * is public, so InitiateAuth can be called without going through its routes
  */
 
-import { CreateAuthChallengeTriggerEvent, CreateAuthChallengeTriggerHandler } from 'aws-lambda';
-import { SNS } from 'aws-sdk';
-
-const sns = new SNS();
-
-/**
- * Generate a random 6-digit OTP
- */
-function generateOTP(): string {
-  return Math.floor(100000 + Math.random() * 900000).toString();
-}
+import { Context, CreateAuthChallengeTriggerEvent, CreateAuthChallengeTriggerHandler } from 'aws-lambda';
+import { getOtpStore, issueOtp } from '../../shared/otp-store';
+import { deliverOtp, maskPhoneNumber, OtpDeliveryResult, resolveChannels } from '../../shared/otp-delivery';
+import { fromClientMetadata, getAuditStore, recordAuditEvent } from '../../shared/audit-log';
+import { logger, withLogContext } from '../../shared/logger';
+import { findSignInAttempt, getSignInAttemptStore, SignInAttempt } from '../../shared/sign-in-attempts';
+import { enforceOtpSendLimits, OtpSendLimitError } from '../../shared/otp-send-limits';
 
 export const handler: CreateAuthChallengeTriggerHandler = async (
-  event: CreateAuthChallengeTriggerEvent
+  event: CreateAuthChallengeTriggerEvent,
+  context: Context
 ): Promise<CreateAuthChallengeTriggerEvent> => {
-  console.log('CreateAuthChallenge event:', JSON.stringify(event, null, 2));
+  return withLogContext(context, () => createChallenge(event));
+};
 
+async function createChallenge(event: CreateAuthChallengeTriggerEvent): Promise<CreateAuthChallengeTriggerEvent> {
   const { request, response } = event;
 
-  // Generate OTP on first attempt, reuse on subsequent attempts
-  let otp: string;
-  if (request.session.length === 0) {
-    // First attempt - generate new OTP
-    otp = generateOTP();
-    console.log('Generated new OTP for first attempt');
-  } else {
-    // Subsequent attempt - get OTP from previous session
+  // Retries reuse the code already delivered - the challenge ID travels in
+  // the session metadata, the code itself stays in the OTP store
+  if (request.session.length > 0) {
     const previousChallenge = request.session[request.session.length - 1];
-    otp = previousChallenge.challengeMetadata || generateOTP();
-    console.log('Reusing OTP from previous attempt');
+
+    if (previousChallenge.challengeMetadata) {
+      response.privateChallengeParameters = {
+        challengeId: previousChallenge.challengeMetadata
+      };
+      response.challengeMetadata = previousChallenge.challengeMetadata;
+      logger.info('Reusing OTP challenge from previous attempt');
+      return event;
+    }
   }
 
-  // Store OTP in challenge metadata (Cognito will pass this to verify function)
+  const attempt = await findAttempt(event);
+
+  // The auth lambda already proved the number (an accepted invitation) and
+  // answers with the code it issued - nothing is sent
+  if (attempt?.challengeId) {
+    response.privateChallengeParameters = {
+      challengeId: attempt.challengeId
+    };
+    response.challengeMetadata = attempt.challengeId;
+    logger.info('Using OTP challenge issued by the auth lambda');
+    return event;
+  }
+
+  const audit = {
+    action: 'auth.otp.sent',
+    userId: request.userAttributes.sub || event.userName,
+    phoneNumber: maskPhoneNumber(request.userAttributes.phone_number || ''),
+    ...fromClientMetadata(request.clientMetadata, attempt || {})
+  };
+
+  // Checked before a code is issued, so a refused send leaves the last code valid
+  const exceeded = await enforceOtpSendLimits(request.userAttributes.phone_number || event.userName, attempt?.reason);
+  if (exceeded) {
+    logger.warn('OTP send limit exceeded', { retryAfter: exceeded.retryAfterSeconds });
+    await recordAuditEvent(getAuditStore(), {
+      ...audit,
+      outcome: 'failure',
+      errorCode: 'AUTH_RATE_LIMITED',
+      details: { retryAfter: exceeded.retryAfterSeconds }
+    });
+    throw new OtpSendLimitError(exceeded.retryAfterSeconds);
+  }
+
+  // First attempt - generate a new OTP and store its hash server-side
+  const otp = await issueOtp(getOtpStore(), event.userName);
+  logger.info('Generated new OTP challenge');
+
+  // Only the challenge ID is passed to the verify function
   response.privateChallengeParameters = {
-    otp: otp
+    challengeId: otp.challengeId
   };
 
-  // Store OTP in public metadata (optional, for debugging)
-  response.challengeMetadata = otp;
+  // Challenge ID (not the code) is kept in the session for retries
+  response.challengeMetadata = otp.challengeId;
+
+  // Channel comes from the request (saved by the auth lambda), then the user's preference
+  const channels = resolveChannels(
+    attempt?.channel,
+    request.userAttributes['custom:otp_channel']
+  );
+
+  // Delivery failures are thrown so Cognito fails the auth call and the
+  // auth Lambda can report them, rather than leaving the user waiting
+  let delivery: OtpDeliveryResult;
 
-  // Send OTP via SMS
   try {
-    const phoneNumber = request.userAttributes.phone_number;
-    console.log(`Sending OTP to phone number: ${phoneNumber}`);
-
-    // Send SMS via SNS
-    await sns
-      .publish({
-        Message: `Your WyzeSecure verification code is: ${otp}. This code expires in 5 minutes.`,
-        PhoneNumber: phoneNumber
-      })
-      .promise();
-
-    console.log('OTP sent successfully via SMS');
+    // A phone change proves the current number - no email, so a fallback cannot send it there
+    delivery = await deliverOtp(
+      attempt?.reason === 'phone-change'
+        ? { phoneNumber: request.userAttributes.phone_number }
+        : {
+          phoneNumber: request.userAttributes.phone_number,
+          email: request.userAttributes.email,
+          emailVerified: request.userAttributes.email_verified === 'true'
+        },
+      { code: otp.code, ttlSeconds: otp.ttlSeconds },
+      channels
+    );
   } catch (error) {
-    console.error('Failed to send SMS:', error);
-    // Don't throw error - allow process to continue
-    // The OTP is still stored and can be verified
+    await recordAuditEvent(getAuditStore(), {
+      ...audit,
+      outcome: 'failure',
+      errorCode: 'AUTH_OTP_DELIVERY_FAILED',
+      details: { channels }
+    });
+    throw error;
   }
 
+  await recordAuditEvent(getAuditStore(), { ...audit, outcome: 'success', details: { channel: delivery.channel } });
+
+  logger.info('OTP sent', { channel: delivery.channel });
+
+  // Returned to the client as ChallengeParameters
+  response.publicChallengeParameters = {
+    deliveryChannel: delivery.channel,
+    destination: delivery.destination
+  };
+
   return event;
-};
+}
+
+/**
+ * The sign-in the auth lambda started for this user, if it can be read
+ * Without it the code still goes out on the user's preferred channel
+ */
+async function findAttempt(event: CreateAuthChallengeTriggerEvent): Promise<SignInAttempt | null> {
+  try {
+    return await findSignInAttempt(getSignInAttemptStore(), [
+      event.request.userAttributes.phone_number,
+      event.userName
+    ]);
+  } catch (error) {
+    logger.warn('Sign-in attempt lookup failed', { error });
+    return null;
+  }
+}
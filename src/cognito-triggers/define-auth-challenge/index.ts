@@ -1,15 +1,23 @@
 /**
  * Define Auth Challenge Lambda Trigger
  * Determines which challenge to present to the user during authentication
+ * and records a lockout in the audit log when the attempts run out
  */
 
-import { DefineAuthChallengeTriggerEvent, DefineAuthChallengeTriggerHandler } from 'aws-lambda';
+import { Context, DefineAuthChallengeTriggerEvent, DefineAuthChallengeTriggerHandler } from 'aws-lambda';
+import { maskPhoneNumber } from '../../shared/otp-delivery';
+import { fromClientMetadata, getAuditStore, recordAuditEvent } from '../../shared/audit-log';
+import { logger, withLogContext } from '../../shared/logger';
+import { findSignInAttempt, getSignInAttemptStore, SignInAttempt } from '../../shared/sign-in-attempts';
 
 export const handler: DefineAuthChallengeTriggerHandler = async (
-  event: DefineAuthChallengeTriggerEvent
+  event: DefineAuthChallengeTriggerEvent,
+  context: Context
 ): Promise<DefineAuthChallengeTriggerEvent> => {
-  console.log('DefineAuthChallenge event:', JSON.stringify(event, null, 2));
+  return withLogContext(context, () => defineChallenge(event));
+};
 
+async function defineChallenge(event: DefineAuthChallengeTriggerEvent): Promise<DefineAuthChallengeTriggerEvent> {
   const { request, response } = event;
 
   // If this is the first attempt, issue CUSTOM_CHALLENGE (send OTP)
@@ -36,8 +44,43 @@ export const handler: DefineAuthChallengeTriggerHandler = async (
   else {
     response.issueTokens = false;
     response.failAuthentication = true;
+
+    // Caller details come from the RespondToAuthChallenge ClientMetadata,
+    // or the sign-in attempt when the auth lambda sent none
+    const attempt = await findAttempt(event);
+
+    await recordAuditEvent(getAuditStore(), {
+      action: 'auth.lockout',
+      userId: request.userAttributes.sub || event.userName,
+      outcome: 'failure',
+      errorCode: 'AUTH_TOO_MANY_ATTEMPTS',
+      phoneNumber: maskPhoneNumber(request.userAttributes.phone_number || ''),
+      ...fromClientMetadata(request.clientMetadata, attempt || {}),
+      details: { attempts: request.session.length }
+    });
   }
 
-  console.log('DefineAuthChallenge response:', JSON.stringify(response, null, 2));
+  logger.info('Auth challenge defined', {
+    attempts: request.session.length,
+    challengeName: response.challengeName,
+    issueTokens: response.issueTokens,
+    failAuthentication: response.failAuthentication
+  });
   return event;
-};
+}
+
+/**
+ * The sign-in the auth lambda started for this user, if it can be read
+ * Without it the lockout is still audited, without caller details
+ */
+async function findAttempt(event: DefineAuthChallengeTriggerEvent): Promise<SignInAttempt | null> {
+  try {
+    return await findSignInAttempt(getSignInAttemptStore(), [
+      event.request.userAttributes.phone_number,
+      event.userName
+    ]);
+  } catch (error) {
+    logger.warn('Sign-in attempt lookup failed', { error });
+    return null;
+  }
+}
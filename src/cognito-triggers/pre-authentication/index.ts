@@ -4,13 +4,17 @@
  * This enables OTP verification to confirm new users
  */
 
-import { PreAuthenticationTriggerEvent, PreAuthenticationTriggerHandler } from 'aws-lambda';
+import { Context, PreAuthenticationTriggerEvent, PreAuthenticationTriggerHandler } from 'aws-lambda';
+import { logger, withLogContext } from '../../shared/logger';
 
 export const handler: PreAuthenticationTriggerHandler = async (
-  event: PreAuthenticationTriggerEvent
+  event: PreAuthenticationTriggerEvent,
+  context: Context
 ): Promise<PreAuthenticationTriggerEvent> => {
-  console.log('PreAuthentication event:', JSON.stringify(event, null, 2));
+  return withLogContext(context, async () => allowAuthentication(event));
+};
 
+function allowAuthentication(event: PreAuthenticationTriggerEvent): PreAuthenticationTriggerEvent {
   // Allow UNCONFIRMED users to proceed with CUSTOM_AUTH flow
   // This is necessary because we use OTP verification to confirm new users
   // The user will be confirmed automatically by Cognito when they pass the auth challenge
@@ -19,12 +23,12 @@ export const handler: PreAuthenticationTriggerHandler = async (
   
   // Only allow for CUSTOM_AUTH flow (not for password-based auth)
   if (request.userNotFound === false) {
-    console.log('User found, allowing authentication to proceed');
+    logger.info('User found, allowing authentication to proceed');
   } else {
-    console.log('User not found');
+    logger.info('User not found');
   }
 
   // By not throwing an error, we allow the authentication flow to continue
   // even for UNCONFIRMED users
   return event;
-};
+}
@@ -1,35 +1,55 @@
 /**
  * Verify Auth Challenge Lambda Trigger
- * Validates the OTP code entered by the user
+ * Validates the OTP code entered by the user and records the result in the audit log
  */
 
-import { VerifyAuthChallengeResponseTriggerEvent, VerifyAuthChallengeResponseTriggerHandler } from 'aws-lambda';
+import { Context, VerifyAuthChallengeResponseTriggerEvent, VerifyAuthChallengeResponseTriggerHandler } from 'aws-lambda';
+import { getOtpStore, verifyOtp } from '../../shared/otp-store';
+import { maskPhoneNumber } from '../../shared/otp-delivery';
+import { fromClientMetadata, getAuditStore, recordAuditEvent } from '../../shared/audit-log';
+import { logger, withLogContext } from '../../shared/logger';
 
 export const handler: VerifyAuthChallengeResponseTriggerHandler = async (
-  event: VerifyAuthChallengeResponseTriggerEvent
+  event: VerifyAuthChallengeResponseTriggerEvent,
+  context: Context
 ): Promise<VerifyAuthChallengeResponseTriggerEvent> => {
-  console.log('VerifyAuthChallenge event:', JSON.stringify(event, null, 2));
+  return withLogContext(context, () => verifyChallenge(event));
+};
 
+async function verifyChallenge(event: VerifyAuthChallengeResponseTriggerEvent): Promise<VerifyAuthChallengeResponseTriggerEvent> {
   const { request, response } = event;
 
-  // Get the expected OTP from the challenge
-  const expectedAnswer = request.privateChallengeParameters?.otp;
+  // Get the challenge ID issued by create-auth-challenge
+  const challengeId = request.privateChallengeParameters?.challengeId;
 
-  // Get the answer provided by the user
+  // Get the answer provided by the user (never logged)
   const userAnswer = request.challengeAnswer;
 
-  console.log('Expected OTP:', expectedAnswer);
-  console.log('User provided OTP:', userAnswer);
+  if (!challengeId) {
+    response.answerCorrect = false;
+    logger.info('OTP verification failed', { reason: 'no_challenge_id' });
+    return event;
+  }
+
+  // Verify against the stored hash (rejects expired and already-used codes)
+  const result = await verifyOtp(getOtpStore(), event.userName, challengeId, userAnswer);
 
-  // Verify the OTP matches
-  if (userAnswer === expectedAnswer) {
+  if (result === 'valid') {
     response.answerCorrect = true;
-    console.log('OTP verification successful');
+    logger.info('OTP verification succeeded');
   } else {
     response.answerCorrect = false;
-    console.log('OTP verification failed - incorrect code');
+    logger.info('OTP verification failed', { reason: result });
   }
 
-  console.log('VerifyAuthChallenge response:', JSON.stringify(response, null, 2));
+  await recordAuditEvent(getAuditStore(), {
+    action: result === 'valid' ? 'auth.otp.verified' : 'auth.otp.failed',
+    userId: request.userAttributes.sub || event.userName,
+    outcome: result === 'valid' ? 'success' : 'failure',
+    phoneNumber: maskPhoneNumber(request.userAttributes.phone_number || ''),
+    ...fromClientMetadata(request.clientMetadata),
+    ...(result !== 'valid' && { details: { reason: result } })
+  });
+
   return event;
-};
+}
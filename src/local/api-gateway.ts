@@ -0,0 +1,252 @@
+/**
+ * Local API Gateway
+ * Turns Node HTTP requests into REST API proxy events, runs the REQUEST
+ * authorizer before protected routes and evaluates its IAM policy the way
+ * API Gateway does (explicit Deny wins, otherwise an Allow must match)
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import {
+  APIGatewayAuthorizerResult,
+  APIGatewayProxyEvent,
+  APIGatewayProxyResult,
+  APIGatewayRequestAuthorizerEvent,
+  Context
+} from 'aws-lambda';
+import { TENANT_ID_HEADER } from '../authorizer/tenancy';
+
+const ACCOUNT_ID = '000000000000';
+const API_ID = 'local';
+
+// Routes deployed with AuthorizationType: NONE in template.yaml
+// Everything else under /secure runs the authorizer first
+const PUBLIC_ROUTES = [
+  'POST /secure/auth/register',
+  'POST /secure/auth/send-otp',
+  'POST /secure/auth/resend-otp',
+  'POST /secure/auth/verify-otp',
+  'POST /secure/auth/refresh',
+  'POST /secure/auth/logout',
+  'POST /secure/auth/invitations/accept',
+  'POST /secure/auth/invitations/verify'
+];
+
+// Types
+export type ProxyHandler = (event: APIGatewayProxyEvent, context: Context) => Promise<APIGatewayProxyResult>;
+export type AuthorizerHandler = (event: APIGatewayRequestAuthorizerEvent, context: Context) => Promise<APIGatewayAuthorizerResult>;
+
+export interface LocalApiOptions {
+  region: string;
+  stage: string;
+  authHandler: ProxyHandler;
+  adminHandler: ProxyHandler;
+  authorizerHandler: AuthorizerHandler;
+}
+
+const LOCAL_CONTEXT = {
+  functionName: 'local',
+  awsRequestId: 'local'
+} as Context;
+
+/**
+ * Handle one HTTP request against the /secure/auth and /secure/admin routes
+ */
+export async function handleApiRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  body: string,
+  options: LocalApiOptions
+): Promise<void> {
+  const url = new URL(request.url || '/', 'http://localhost');
+  const method = (request.method || 'GET').toUpperCase();
+  const event = toProxyEvent(request, url, method, body, options.stage);
+
+  const handler = url.pathname.startsWith('/secure/auth/') ? options.authHandler
+    : url.pathname.startsWith('/secure/admin/') ? options.adminHandler
+    : undefined;
+
+  if (!handler) {
+    writeResult(response, jsonResult(404, { message: 'Missing Authentication Token' }));
+    return;
+  }
+
+  if (method !== 'OPTIONS' && !PUBLIC_ROUTES.includes(`${method} ${url.pathname}`)) {
+    const denied = await authorize(event, options);
+
+    if (denied) {
+      writeResult(response, denied);
+      return;
+    }
+  }
+
+  writeResult(response, await handler(event, LOCAL_CONTEXT));
+}
+
+/**
+ * Run the authorizer and attach its context to the event
+ * Returns the gateway error response when the request is rejected
+ */
+async function authorize(event: APIGatewayProxyEvent, options: LocalApiOptions): Promise<APIGatewayProxyResult | null> {
+  const methodArn = `arn:aws:execute-api:${options.region}:${ACCOUNT_ID}:${API_ID}/${options.stage}/${event.httpMethod}${event.path}`;
+
+  const authorizerEvent = {
+    type: 'REQUEST',
+    methodArn,
+    resource: event.resource,
+    path: event.path,
+    httpMethod: event.httpMethod,
+    headers: event.headers,
+    multiValueHeaders: event.multiValueHeaders,
+    pathParameters: event.pathParameters,
+    queryStringParameters: event.queryStringParameters,
+    multiValueQueryStringParameters: event.multiValueQueryStringParameters,
+    stageVariables: null,
+    requestContext: event.requestContext
+  } as APIGatewayRequestAuthorizerEvent;
+
+  let result: APIGatewayAuthorizerResult;
+
+  try {
+    result = await options.authorizerHandler(authorizerEvent, LOCAL_CONTEXT);
+  } catch {
+    // A thrown 'Unauthorized' maps to 401, as in API Gateway
+    return jsonResult(401, { message: 'Unauthorized' });
+  }
+
+  if (!isAllowed(result, methodArn)) {
+    return jsonResult(403, { message: 'User is not authorized to access this resource with an explicit deny' });
+  }
+
+  event.requestContext.authorizer = {
+    ...result.context,
+    principalId: result.principalId
+  };
+
+  // Integration request mapping - replaces any tenant header the client sent
+  setHeader(event, TENANT_ID_HEADER, String(result.context?.tenantId ?? ''));
+
+  return null;
+}
+
+/**
+ * Evaluate an authorizer policy for the invoked method ARN
+ */
+function isAllowed(result: APIGatewayAuthorizerResult, methodArn: string): boolean {
+  let allowed = false;
+
+  for (const statement of result.policyDocument.Statement) {
+    const resources = 'Resource' in statement ? ([] as string[]).concat(statement.Resource || []) : [];
+
+    if (!resources.some(resource => matchesArn(resource, methodArn))) {
+      continue;
+    }
+
+    if (statement.Effect === 'Deny') {
+      return false;
+    }
+
+    allowed = true;
+  }
+
+  return allowed;
+}
+
+function matchesArn(pattern: string, arn: string): boolean {
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(arn);
+}
+
+function setHeader(event: APIGatewayProxyEvent, name: string, value: string): void {
+  for (const existing of Object.keys(event.headers)) {
+    if (existing.toLowerCase() === name.toLowerCase()) {
+      delete event.headers[existing];
+      delete event.multiValueHeaders[existing];
+    }
+  }
+
+  event.headers[name] = value;
+  event.multiValueHeaders[name] = [value];
+}
+
+function toProxyEvent(
+  request: IncomingMessage,
+  url: URL,
+  method: string,
+  body: string,
+  stage: string
+): APIGatewayProxyEvent {
+  const headers: Record<string, string> = {};
+  const multiValueHeaders: Record<string, string[]> = {};
+
+  for (const [name, value] of Object.entries(request.headers)) {
+    if (value === undefined) {
+      continue;
+    }
+    const values = Array.isArray(value) ? value : [value];
+    headers[name] = values.join(', ');
+    multiValueHeaders[name] = values;
+  }
+
+  const query: Record<string, string> = {};
+  const multiValueQuery: Record<string, string[]> = {};
+
+  url.searchParams.forEach((value, name) => {
+    query[name] = value;
+    multiValueQuery[name] = [...(multiValueQuery[name] || []), value];
+  });
+
+  const hasQuery = Object.keys(query).length > 0;
+
+  return {
+    resource: url.pathname,
+    path: url.pathname,
+    httpMethod: method,
+    headers,
+    multiValueHeaders,
+    queryStringParameters: hasQuery ? query : null,
+    multiValueQueryStringParameters: hasQuery ? multiValueQuery : null,
+    pathParameters: null,
+    stageVariables: null,
+    body: body || null,
+    isBase64Encoded: false,
+    requestContext: {
+      accountId: ACCOUNT_ID,
+      apiId: API_ID,
+      authorizer: null,
+      httpMethod: method,
+      identity: {
+        sourceIp: request.socket.remoteAddress || '127.0.0.1',
+        userAgent: request.headers['user-agent'] || null
+      },
+      path: `/${stage}${url.pathname}`,
+      protocol: 'HTTP/1.1',
+      requestId: `local-${Date.now()}`,
+      requestTimeEpoch: Date.now(),
+      resourceId: 'local',
+      resourcePath: url.pathname,
+      stage
+    }
+  } as APIGatewayProxyEvent;
+}
+
+function jsonResult(statusCode: number, body: unknown): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+function writeResult(response: ServerResponse, result: APIGatewayProxyResult): void {
+  for (const [name, value] of Object.entries(result.headers || {})) {
+    response.setHeader(name, String(value));
+  }
+
+  // Multi-value headers (Set-Cookie) are written as repeated headers
+  for (const [name, values] of Object.entries(result.multiValueHeaders || {})) {
+    response.setHeader(name, values.map(String));
+  }
+
+  response.statusCode = result.statusCode;
+  response.end(result.body);
+}
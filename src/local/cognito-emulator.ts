@@ -0,0 +1,867 @@
+/**
+ * Cognito Emulator
+ * In-memory user pool implementing the subset of the Cognito Identity Provider
+ * API used by the auth and admin lambdas. Custom auth runs the real trigger handlers from
+ * src/cognito-triggers, and tokens are signed by the local JWKS signer.
+ *
+ * Served over Cognito's JSON protocol (X-Amz-Target) so the unmodified AWS SDK
+ * client talks to it via AWS_ENDPOINT_URL_COGNITO_IDENTITY_PROVIDER.
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import {
+  Context,
+  CreateAuthChallengeTriggerEvent,
+  CreateAuthChallengeTriggerHandler,
+  DefineAuthChallengeTriggerEvent,
+  DefineAuthChallengeTriggerHandler,
+  PreAuthenticationTriggerEvent,
+  PreAuthenticationTriggerHandler,
+  VerifyAuthChallengeResponseTriggerEvent,
+  VerifyAuthChallengeResponseTriggerHandler
+} from 'aws-lambda';
+import type {
+  AdminAddUserToGroupCommandInput,
+  AdminCreateUserCommandInput,
+  AdminDeleteUserCommandInput,
+  AdminDisableUserCommandInput,
+  AdminEnableUserCommandInput,
+  AdminGetUserCommandInput,
+  AdminInitiateAuthCommandInput,
+  AdminListGroupsForUserCommandInput,
+  AdminListUserAuthEventsCommandInput,
+  AdminRemoveUserFromGroupCommandInput,
+  AdminSetUserPasswordCommandInput,
+  AdminUpdateUserAttributesCommandInput,
+  AdminUserGlobalSignOutCommandInput,
+  AttributeType,
+  AuthenticationResultType,
+  GetUserCommandInput,
+  GlobalSignOutCommandInput,
+  InitiateAuthCommandInput,
+  ListUsersCommandInput,
+  RespondToAuthChallengeCommandInput,
+  RevokeTokenCommandInput,
+  SignUpCommandInput
+} from '@aws-sdk/client-cognito-identity-provider';
+import { LocalJwtSigner, TokenClaims } from './jwt-signer';
+
+const TOKEN_TTL_SECONDS = 3600;
+const SESSION_TTL_SECONDS = 180;
+const ACCESS_TOKEN_SCOPE = 'aws.cognito.signin.user.admin';
+
+// Attributes Cognito puts in ID tokens as booleans rather than strings
+const BOOLEAN_ATTRIBUTES = ['email_verified', 'phone_number_verified'];
+
+// Groups defined in cognito-pool.yaml
+const POOL_GROUPS = ['Admins', 'Users'];
+
+// App client WriteAttributes in cognito-pool.yaml
+const CLIENT_WRITE_ATTRIBUTES = ['phone_number', 'name'];
+
+// ListUsers filter - attribute, = or ^=, and a quoted value
+const LIST_USERS_FILTER = /^\s*([\w:]+)\s*(\^?=)\s*"((?:[^"\\]|\\.)*)"\s*$/;
+
+// Types
+export interface CognitoTriggers {
+  preAuthentication?: PreAuthenticationTriggerHandler;
+  defineAuthChallenge: DefineAuthChallengeTriggerHandler;
+  createAuthChallenge: CreateAuthChallengeTriggerHandler;
+  verifyAuthChallenge: VerifyAuthChallengeResponseTriggerHandler;
+}
+
+export interface CognitoEmulatorOptions {
+  region: string;
+  userPoolId: string;
+  clientId: string;
+  signer: LocalJwtSigner;
+  triggers: CognitoTriggers;
+  adminPhoneNumbers?: string[];         // Added to the Admins group at sign-up
+}
+
+export type UserStatus = 'UNCONFIRMED' | 'CONFIRMED' | 'FORCE_CHANGE_PASSWORD';
+
+export interface EmulatedUser {
+  username: string;                     // Cognito username (the sub - phone_number is an alias)
+  attributes: Record<string, string>;
+  status: UserStatus;
+  enabled: boolean;
+  groups: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  tokensValidAfter: number;             // Epoch seconds - set by GlobalSignOut
+}
+
+interface ChallengeResult {
+  challengeName: 'CUSTOM_CHALLENGE';
+  challengeResult: boolean;
+  challengeMetadata?: string;
+}
+
+interface AuthSession {
+  username: string;
+  clientId: string;
+  challenges: ChallengeResult[];
+  privateChallengeParameters: Record<string, string>;
+  challengeMetadata?: string;
+  expiresAt: number;
+}
+
+interface RefreshTokenRecord {
+  username: string;
+  clientId: string;
+  originJti: string;
+  revoked: boolean;
+}
+
+/**
+ * Cognito service error - serialized with __type so the SDK raises the named exception
+ */
+export class CognitoError extends Error {
+  constructor(public readonly type: string, message: string) {
+    super(message);
+    this.name = type;
+  }
+}
+
+const LOCAL_CONTEXT = {
+  functionName: 'local',
+  awsRequestId: 'local'
+} as Context;
+
+export class CognitoEmulator {
+  private readonly users = new Map<string, EmulatedUser>();
+  private readonly sessions = new Map<string, AuthSession>();
+  private readonly refreshTokens = new Map<string, RefreshTokenRecord>();
+  private readonly revokedOrigins = new Set<string>();
+
+  constructor(private readonly options: CognitoEmulatorOptions) {}
+
+  /**
+   * Dispatch a JSON protocol call (X-Amz-Target: AWSCognitoIdentityProviderService.<Operation>)
+   * The body is typed by the SDK input for the named operation
+   */
+  async dispatch(operation: string, input: unknown): Promise<unknown> {
+    switch (operation) {
+      case 'SignUp':
+        return this.signUp(input as SignUpCommandInput);
+      case 'AdminInitiateAuth':
+        return this.adminInitiateAuth(input as AdminInitiateAuthCommandInput);
+      case 'InitiateAuth':
+        return this.initiateAuth(input as InitiateAuthCommandInput);
+      case 'RespondToAuthChallenge':
+      case 'AdminRespondToAuthChallenge':
+        return this.respondToAuthChallenge(input as RespondToAuthChallengeCommandInput);
+      case 'GetUser':
+        return this.getUser(input as GetUserCommandInput);
+      case 'GlobalSignOut':
+        return this.globalSignOut(input as GlobalSignOutCommandInput);
+      case 'RevokeToken':
+        return this.revokeToken(input as RevokeTokenCommandInput);
+      case 'AdminCreateUser':
+        return this.adminCreateUser(input as AdminCreateUserCommandInput);
+      case 'AdminSetUserPassword':
+        return this.adminSetUserPassword(input as AdminSetUserPasswordCommandInput);
+      case 'AdminGetUser':
+        return this.adminGetUser(input as AdminGetUserCommandInput);
+      case 'AdminUpdateUserAttributes':
+        return this.adminUpdateUserAttributes(input as AdminUpdateUserAttributesCommandInput);
+      case 'AdminUserGlobalSignOut':
+        return this.adminUserGlobalSignOut(input as AdminUserGlobalSignOutCommandInput);
+      case 'AdminDeleteUser':
+        return this.adminDeleteUser(input as AdminDeleteUserCommandInput);
+      case 'AdminListGroupsForUser':
+        return this.adminListGroupsForUser(input as AdminListGroupsForUserCommandInput);
+      case 'AdminListUserAuthEvents':
+        return this.adminListUserAuthEvents(input as AdminListUserAuthEventsCommandInput);
+      case 'AdminAddUserToGroup':
+        return this.adminAddUserToGroup(input as AdminAddUserToGroupCommandInput);
+      case 'AdminRemoveUserFromGroup':
+        return this.adminRemoveUserFromGroup(input as AdminRemoveUserFromGroupCommandInput);
+      case 'AdminDisableUser':
+        return this.adminSetEnabled(input as AdminDisableUserCommandInput, false);
+      case 'AdminEnableUser':
+        return this.adminSetEnabled(input as AdminEnableUserCommandInput, true);
+      case 'ListUsers':
+        return this.listUsersPage(input as ListUsersCommandInput);
+      default:
+        throw new CognitoError('InvalidParameterException', `Operation ${operation} is not supported by the local emulator`);
+    }
+  }
+
+  /**
+   * Look up a user by username (sub) or phone number alias
+   */
+  findUser(usernameOrAlias: string): EmulatedUser | undefined {
+    return this.users.get(usernameOrAlias) ||
+      Array.from(this.users.values()).find(user => user.attributes.phone_number === usernameOrAlias);
+  }
+
+  /**
+   * All users in the pool (local inspection)
+   */
+  listUsers(): EmulatedUser[] {
+    return Array.from(this.users.values());
+  }
+
+  private async signUp(input: SignUpCommandInput): Promise<unknown> {
+    this.assertClient(input.ClientId);
+
+    const attributes = toAttributeMap(input.UserAttributes);
+
+    if (Object.keys(attributes).some(name => !CLIENT_WRITE_ATTRIBUTES.includes(name))) {
+      throw new CognitoError('NotAuthorizedException', 'A client attempted to write unauthorized attribute');
+    }
+
+    // phone_number is the username attribute - Cognito sets it from Username
+    const phoneNumber = input.Username || '';
+
+    if (this.findUser(phoneNumber)) {
+      throw new CognitoError('UsernameExistsException', 'An account with the given phone_number already exists.');
+    }
+
+    const now = new Date();
+    const username = randomUUID();
+    const user: EmulatedUser = {
+      username,
+      attributes: {
+        ...attributes,
+        sub: username,
+        phone_number: phoneNumber,
+        phone_number_verified: 'false'
+      },
+      status: 'UNCONFIRMED',
+      enabled: true,
+      groups: (this.options.adminPhoneNumbers || []).includes(phoneNumber) ? ['Admins'] : [],
+      createdAt: now,
+      updatedAt: now,
+      tokensValidAfter: 0
+    };
+
+    this.users.set(username, user);
+    console.log(`[cognito] SignUp ${phoneNumber} -> ${username} (UNCONFIRMED)`);
+
+    return {
+      UserConfirmed: false,
+      UserSub: username
+    };
+  }
+
+  private async adminInitiateAuth(input: AdminInitiateAuthCommandInput): Promise<unknown> {
+    if (input.UserPoolId !== this.options.userPoolId) {
+      throw new CognitoError('ResourceNotFoundException', 'User pool does not exist.');
+    }
+
+    return this.initiateAuth(input);
+  }
+
+  private async initiateAuth(input: InitiateAuthCommandInput): Promise<unknown> {
+    this.assertClient(input.ClientId);
+
+    switch (input.AuthFlow) {
+      case 'CUSTOM_AUTH':
+        return this.startCustomAuth(input.AuthParameters?.USERNAME || '', input.ClientId!, input.ClientMetadata);
+      case 'REFRESH_TOKEN_AUTH':
+      case 'REFRESH_TOKEN':
+        return this.refreshSession(input.AuthParameters?.REFRESH_TOKEN || '', input.ClientId!);
+      default:
+        throw new CognitoError('InvalidParameterException', `Auth flow ${input.AuthFlow} is not enabled for this client.`);
+    }
+  }
+
+  private async startCustomAuth(
+    usernameOrAlias: string,
+    clientId: string,
+    clientMetadata?: Record<string, string>
+  ): Promise<unknown> {
+    const user = this.findUser(usernameOrAlias);
+
+    if (!user) {
+      throw new CognitoError('UserNotFoundException', 'User does not exist.');
+    }
+
+    if (!user.enabled) {
+      throw new CognitoError('NotAuthorizedException', 'User is disabled.');
+    }
+
+    if (this.options.triggers.preAuthentication) {
+      await this.invokeTrigger('PreAuthentication', this.options.triggers.preAuthentication, {
+        ...this.baseEvent(user, clientId, 'PreAuthentication_Authentication'),
+        request: {
+          userAttributes: this.triggerAttributes(user),
+          validationData: clientMetadata,
+          userNotFound: false
+        },
+        response: {}
+      } as PreAuthenticationTriggerEvent);
+    }
+
+    const session: AuthSession = {
+      username: user.username,
+      clientId,
+      challenges: [],
+      privateChallengeParameters: {},
+      expiresAt: nowSeconds() + SESSION_TTL_SECONDS
+    };
+
+    // Like Cognito, initiate ClientMetadata reaches pre-authentication only
+    return this.nextStep(user, session);
+  }
+
+  private async respondToAuthChallenge(input: RespondToAuthChallengeCommandInput): Promise<unknown> {
+    this.assertClient(input.ClientId);
+
+    const session = input.Session ? this.sessions.get(input.Session) : undefined;
+
+    if (!input.Session || !session || session.expiresAt < nowSeconds()) {
+      throw new CognitoError('NotAuthorizedException', 'Invalid session for the user, session is expired.');
+    }
+
+    // Sessions are single use - every response issues a new one
+    this.sessions.delete(input.Session);
+
+    const user = this.users.get(session.username);
+
+    if (!user || input.ChallengeName !== 'CUSTOM_CHALLENGE') {
+      throw new CognitoError('NotAuthorizedException', 'Incorrect username or password.');
+    }
+
+    const verifyEvent = await this.invokeTrigger('VerifyAuthChallengeResponse', this.options.triggers.verifyAuthChallenge, {
+      ...this.baseEvent(user, session.clientId, 'VerifyAuthChallengeResponse_Authentication'),
+      request: {
+        userAttributes: this.triggerAttributes(user),
+        privateChallengeParameters: session.privateChallengeParameters,
+        challengeAnswer: input.ChallengeResponses?.ANSWER || '',
+        clientMetadata: input.ClientMetadata
+      },
+      response: {
+        answerCorrect: false
+      }
+    } as VerifyAuthChallengeResponseTriggerEvent);
+
+    session.challenges.push({
+      challengeName: 'CUSTOM_CHALLENGE',
+      challengeResult: verifyEvent.response.answerCorrect === true,
+      challengeMetadata: session.challengeMetadata
+    });
+
+    return this.nextStep(user, session, input.ClientMetadata);
+  }
+
+  /**
+   * Ask define-auth-challenge what happens next: tokens, failure or another challenge
+   * clientMetadata is the RespondToAuthChallenge input - Cognito never forwards
+   * the initiate call's metadata to these triggers
+   */
+  private async nextStep(user: EmulatedUser, session: AuthSession, clientMetadata?: Record<string, string>): Promise<unknown> {
+    const defineEvent = await this.invokeTrigger('DefineAuthChallenge', this.options.triggers.defineAuthChallenge, {
+      ...this.baseEvent(user, session.clientId, 'DefineAuthChallenge_Authentication'),
+      request: {
+        userAttributes: this.triggerAttributes(user),
+        session: session.challenges,
+        clientMetadata,
+        userNotFound: false
+      },
+      response: {
+        challengeName: '',
+        failAuthentication: false,
+        issueTokens: false
+      }
+    } as DefineAuthChallengeTriggerEvent);
+
+    if (defineEvent.response.failAuthentication) {
+      throw new CognitoError('NotAuthorizedException', 'Incorrect username or password.');
+    }
+
+    if (defineEvent.response.issueTokens) {
+      // A successful custom auth confirms the user and their phone number
+      if (user.status === 'UNCONFIRMED') {
+        user.status = 'CONFIRMED';
+        user.attributes.phone_number_verified = 'true';
+        user.updatedAt = new Date();
+        console.log(`[cognito] ${user.username} confirmed`);
+      }
+
+      return {
+        ChallengeParameters: {},
+        AuthenticationResult: this.issueTokens(user, session.clientId, true)
+      };
+    }
+
+    const createEvent = await this.invokeTrigger('CreateAuthChallenge', this.options.triggers.createAuthChallenge, {
+      ...this.baseEvent(user, session.clientId, 'CreateAuthChallenge_Authentication'),
+      request: {
+        userAttributes: this.triggerAttributes(user),
+        challengeName: defineEvent.response.challengeName,
+        session: session.challenges,
+        clientMetadata,
+        userNotFound: false
+      },
+      response: {
+        publicChallengeParameters: {},
+        privateChallengeParameters: {},
+        challengeMetadata: ''
+      }
+    } as CreateAuthChallengeTriggerEvent);
+
+    session.privateChallengeParameters = createEvent.response.privateChallengeParameters || {};
+    session.challengeMetadata = createEvent.response.challengeMetadata;
+    session.expiresAt = nowSeconds() + SESSION_TTL_SECONDS;
+
+    const sessionId = randomBytes(48).toString('base64');
+    this.sessions.set(sessionId, session);
+
+    return {
+      ChallengeName: defineEvent.response.challengeName,
+      Session: sessionId,
+      ChallengeParameters: {
+        ...createEvent.response.publicChallengeParameters,
+        USERNAME: user.username
+      }
+    };
+  }
+
+  private async refreshSession(refreshToken: string, clientId: string): Promise<unknown> {
+    const record = this.refreshTokens.get(refreshToken);
+    const user = record ? this.users.get(record.username) : undefined;
+
+    if (!record || record.revoked || record.clientId !== clientId || !user || !user.enabled) {
+      throw new CognitoError('NotAuthorizedException', 'Invalid Refresh Token');
+    }
+
+    return {
+      ChallengeParameters: {},
+      AuthenticationResult: this.issueTokens(user, clientId, false, record.originJti)
+    };
+  }
+
+  private async getUser(input: GetUserCommandInput): Promise<unknown> {
+    const user = this.authenticateAccessToken(input.AccessToken);
+
+    return {
+      Username: user.username,
+      UserAttributes: toAttributeList(user.attributes)
+    };
+  }
+
+  private async globalSignOut(input: GlobalSignOutCommandInput): Promise<unknown> {
+    const user = this.authenticateAccessToken(input.AccessToken);
+
+    this.signOutEverywhere(user);
+    return {};
+  }
+
+  /**
+   * Revoke every refresh token and reject access tokens issued until now
+   */
+  private signOutEverywhere(user: EmulatedUser): void {
+    user.tokensValidAfter = nowSeconds();
+
+    for (const record of this.refreshTokens.values()) {
+      if (record.username === user.username) {
+        record.revoked = true;
+      }
+    }
+
+    console.log(`[cognito] GlobalSignOut ${user.username}`);
+  }
+
+  private async revokeToken(input: RevokeTokenCommandInput): Promise<unknown> {
+    this.assertClient(input.ClientId);
+
+    const record = input.Token ? this.refreshTokens.get(input.Token) : undefined;
+
+    if (!record) {
+      throw new CognitoError('UnsupportedTokenTypeException', 'The token provided is not a refresh token.');
+    }
+
+    record.revoked = true;
+    this.revokedOrigins.add(record.originJti);
+    return {};
+  }
+
+  /**
+   * AdminCreateUser - invited users start in FORCE_CHANGE_PASSWORD; no message is sent
+   */
+  private async adminCreateUser(input: AdminCreateUserCommandInput): Promise<unknown> {
+    if (input.UserPoolId !== this.options.userPoolId) {
+      throw new CognitoError('ResourceNotFoundException', 'User pool does not exist.');
+    }
+
+    const attributes = toAttributeMap(input.UserAttributes);
+    const phoneNumber = attributes.phone_number || input.Username || '';
+
+    if (this.findUser(phoneNumber)) {
+      throw new CognitoError('UsernameExistsException', 'An account with the given phone_number already exists.');
+    }
+
+    const now = new Date();
+    const username = randomUUID();
+    const user: EmulatedUser = {
+      username,
+      attributes: {
+        phone_number_verified: 'false',
+        ...attributes,
+        sub: username,
+        phone_number: phoneNumber
+      },
+      status: 'FORCE_CHANGE_PASSWORD',
+      enabled: true,
+      groups: (this.options.adminPhoneNumbers || []).includes(phoneNumber) ? ['Admins'] : [],
+      createdAt: now,
+      updatedAt: now,
+      tokensValidAfter: 0
+    };
+
+    this.users.set(username, user);
+    console.log(`[cognito] AdminCreateUser ${phoneNumber} -> ${username} (FORCE_CHANGE_PASSWORD)`);
+
+    return {
+      User: {
+        Username: username,
+        Attributes: toAttributeList(user.attributes),
+        UserStatus: user.status,
+        Enabled: user.enabled,
+        UserCreateDate: now.getTime() / 1000,
+        UserLastModifiedDate: now.getTime() / 1000
+      }
+    };
+  }
+
+  /**
+   * AdminSetUserPassword - passwords are not stored; a permanent one confirms the user
+   */
+  private async adminSetUserPassword(input: AdminSetUserPasswordCommandInput): Promise<unknown> {
+    const user = this.adminFindUser(input.UserPoolId, input.Username);
+
+    user.status = input.Permanent ? 'CONFIRMED' : 'FORCE_CHANGE_PASSWORD';
+    user.updatedAt = new Date();
+    return {};
+  }
+
+  private async adminGetUser(input: AdminGetUserCommandInput): Promise<unknown> {
+    const user = this.adminFindUser(input.UserPoolId, input.Username);
+
+    return {
+      Username: user.username,
+      UserAttributes: toAttributeList(user.attributes),
+      UserStatus: user.status,
+      Enabled: user.enabled,
+      UserCreateDate: user.createdAt.getTime() / 1000,
+      UserLastModifiedDate: user.updatedAt.getTime() / 1000
+    };
+  }
+
+  private async adminUpdateUserAttributes(input: AdminUpdateUserAttributesCommandInput): Promise<unknown> {
+    const user = this.adminFindUser(input.UserPoolId, input.Username);
+    const attributes = toAttributeMap(input.UserAttributes);
+
+    if ('sub' in attributes) {
+      throw new CognitoError('InvalidParameterException', 'Cannot modify an immutable attribute.');
+    }
+
+    // phone_number is the sign-in alias - it must stay unique
+    const owner = attributes.phone_number ? this.findUser(attributes.phone_number) : undefined;
+
+    if (owner && owner !== user) {
+      throw new CognitoError('AliasExistsException', 'An account with the given phone_number already exists.');
+    }
+
+    Object.assign(user.attributes, attributes);
+    user.updatedAt = new Date();
+    console.log(`[cognito] AdminUpdateUserAttributes ${user.username}: ${Object.keys(attributes).join(', ')}`);
+
+    return {};
+  }
+
+  private async adminUserGlobalSignOut(input: AdminUserGlobalSignOutCommandInput): Promise<unknown> {
+    const user = this.adminFindUser(input.UserPoolId, input.Username);
+
+    this.signOutEverywhere(user);
+    return {};
+  }
+
+  private async adminDeleteUser(input: AdminDeleteUserCommandInput): Promise<unknown> {
+    const user = this.adminFindUser(input.UserPoolId, input.Username);
+
+    this.signOutEverywhere(user);
+    this.users.delete(user.username);
+    console.log(`[cognito] AdminDeleteUser ${user.username}`);
+
+    return {};
+  }
+
+  private async adminListGroupsForUser(input: AdminListGroupsForUserCommandInput): Promise<unknown> {
+    const user = this.adminFindUser(input.UserPoolId, input.Username);
+
+    return {
+      Groups: user.groups.map(group => ({ GroupName: group, UserPoolId: this.options.userPoolId }))
+    };
+  }
+
+  /**
+   * Auth events are not recorded locally - every user has an empty history
+   */
+  private async adminListUserAuthEvents(input: AdminListUserAuthEventsCommandInput): Promise<unknown> {
+    this.adminFindUser(input.UserPoolId, input.Username);
+
+    return { AuthEvents: [] };
+  }
+
+  private async adminAddUserToGroup(input: AdminAddUserToGroupCommandInput): Promise<unknown> {
+    const user = this.adminFindUser(input.UserPoolId, input.Username);
+    const group = assertGroup(input.GroupName);
+
+    if (!user.groups.includes(group)) {
+      user.groups.push(group);
+    }
+
+    console.log(`[cognito] AdminAddUserToGroup ${user.username} -> ${group}`);
+    return {};
+  }
+
+  private async adminRemoveUserFromGroup(input: AdminRemoveUserFromGroupCommandInput): Promise<unknown> {
+    const user = this.adminFindUser(input.UserPoolId, input.Username);
+    const group = assertGroup(input.GroupName);
+
+    user.groups = user.groups.filter(name => name !== group);
+    console.log(`[cognito] AdminRemoveUserFromGroup ${user.username} -> ${group}`);
+
+    return {};
+  }
+
+  /**
+   * AdminDisableUser / AdminEnableUser - disabling also ends every session
+   */
+  private async adminSetEnabled(input: AdminDisableUserCommandInput | AdminEnableUserCommandInput, enabled: boolean): Promise<unknown> {
+    const user = this.adminFindUser(input.UserPoolId, input.Username);
+
+    if (!enabled) {
+      this.signOutEverywhere(user);
+    }
+
+    user.enabled = enabled;
+    user.updatedAt = new Date();
+    console.log(`[cognito] ${enabled ? 'AdminEnableUser' : 'AdminDisableUser'} ${user.username}`);
+
+    return {};
+  }
+
+  /**
+   * ListUsers with a single attribute filter; the pagination token is the offset
+   */
+  private async listUsersPage(input: ListUsersCommandInput): Promise<unknown> {
+    if (input.UserPoolId !== this.options.userPoolId) {
+      throw new CognitoError('ResourceNotFoundException', 'User pool does not exist.');
+    }
+
+    const matches = this.listUsers().filter(toUserFilter(input.Filter));
+    const offset = parseInt(input.PaginationToken || '0', 10) || 0;
+    const limit = input.Limit || 60;
+    const page = matches.slice(offset, offset + limit);
+
+    return {
+      Users: page.map(user => ({
+        Username: user.username,
+        Attributes: toAttributeList(user.attributes),
+        UserStatus: user.status,
+        Enabled: user.enabled,
+        UserCreateDate: user.createdAt.getTime() / 1000,
+        UserLastModifiedDate: user.updatedAt.getTime() / 1000
+      })),
+      PaginationToken: offset + limit < matches.length ? String(offset + limit) : undefined
+    };
+  }
+
+  /**
+   * Look up a user for an Admin* API call
+   */
+  private adminFindUser(userPoolId: string | undefined, usernameOrAlias: string | undefined): EmulatedUser {
+    if (userPoolId !== this.options.userPoolId) {
+      throw new CognitoError('ResourceNotFoundException', 'User pool does not exist.');
+    }
+
+    const user = this.findUser(usernameOrAlias || '');
+
+    if (!user) {
+      throw new CognitoError('UserNotFoundException', 'User does not exist.');
+    }
+
+    return user;
+  }
+
+  /**
+   * Verify an access token passed to a user-authenticated API (GetUser, GlobalSignOut)
+   */
+  private authenticateAccessToken(accessToken: string | undefined): EmulatedUser {
+    let claims: TokenClaims;
+
+    try {
+      claims = this.options.signer.verify(accessToken || '');
+    } catch {
+      throw new CognitoError('NotAuthorizedException', 'Invalid Access Token');
+    }
+
+    const user = this.users.get(String(claims.sub));
+
+    if (
+      claims.token_use !== 'access' ||
+      !user ||
+      Number(claims.iat) < user.tokensValidAfter ||
+      this.revokedOrigins.has(String(claims.origin_jti))
+    ) {
+      throw new CognitoError('NotAuthorizedException', 'Access Token has been revoked');
+    }
+
+    return user;
+  }
+
+  private issueTokens(
+    user: EmulatedUser,
+    clientId: string,
+    withRefreshToken: boolean,
+    originJti: string = randomUUID()
+  ): AuthenticationResultType {
+    const authTime = nowSeconds();
+    const eventId = randomUUID();
+    const groups = user.groups.length > 0 ? { 'cognito:groups': user.groups } : {};
+
+    const idClaims: TokenClaims = {
+      ...toIdTokenAttributes(user.attributes),
+      ...groups,
+      sub: user.username,
+      'cognito:username': user.username,
+      aud: clientId,
+      event_id: eventId,
+      origin_jti: originJti,
+      token_use: 'id',
+      auth_time: authTime
+    };
+
+    const accessClaims: TokenClaims = {
+      ...groups,
+      sub: user.username,
+      client_id: clientId,
+      event_id: eventId,
+      origin_jti: originJti,
+      token_use: 'access',
+      scope: ACCESS_TOKEN_SCOPE,
+      auth_time: authTime,
+      username: user.username
+    };
+
+    const result: AuthenticationResultType = {
+      IdToken: this.options.signer.sign(idClaims, TOKEN_TTL_SECONDS),
+      AccessToken: this.options.signer.sign(accessClaims, TOKEN_TTL_SECONDS),
+      ExpiresIn: TOKEN_TTL_SECONDS,
+      TokenType: 'Bearer'
+    };
+
+    if (withRefreshToken) {
+      const refreshToken = randomBytes(64).toString('base64url');
+      this.refreshTokens.set(refreshToken, { username: user.username, clientId, originJti, revoked: false });
+      result.RefreshToken = refreshToken;
+    }
+
+    return result;
+  }
+
+  /**
+   * Run a trigger handler the way Cognito does - thrown errors fail the API call
+   */
+  private async invokeTrigger<E>(
+    name: string,
+    handler: (event: E, context: Context, callback: () => void) => void | Promise<E>,
+    event: E
+  ): Promise<E> {
+    try {
+      const result = await handler(event, LOCAL_CONTEXT, () => undefined);
+      return result || event;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new CognitoError('UserLambdaValidationException', `${name} failed with error ${message}.`);
+    }
+  }
+
+  private baseEvent(user: EmulatedUser, clientId: string, triggerSource: string) {
+    return {
+      version: '1',
+      region: this.options.region,
+      userPoolId: this.options.userPoolId,
+      userName: user.username,
+      callerContext: {
+        awsSdkVersion: 'local',
+        clientId
+      },
+      triggerSource
+    };
+  }
+
+  private triggerAttributes(user: EmulatedUser): Record<string, string> {
+    return {
+      ...user.attributes,
+      'cognito:user_status': user.status
+    };
+  }
+
+  private assertClient(clientId: string | undefined): void {
+    if (clientId !== this.options.clientId) {
+      throw new CognitoError('ResourceNotFoundException', 'User pool client does not exist.');
+    }
+  }
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function toAttributeMap(attributes: AttributeType[] = []): Record<string, string> {
+  return attributes.reduce<Record<string, string>>((map, attribute) => {
+    if (attribute.Name) {
+      map[attribute.Name] = attribute.Value || '';
+    }
+    return map;
+  }, {});
+}
+
+function assertGroup(groupName: string | undefined): string {
+  if (!groupName || !POOL_GROUPS.includes(groupName)) {
+    throw new CognitoError('ResourceNotFoundException', 'Group not found.');
+  }
+
+  return groupName;
+}
+
+function toUserFilter(filter: string | undefined): (user: EmulatedUser) => boolean {
+  if (!filter) {
+    return () => true;
+  }
+
+  const match = LIST_USERS_FILTER.exec(filter);
+
+  if (!match) {
+    throw new CognitoError('InvalidParameterException', `Invalid filter: ${filter}`);
+  }
+
+  const [, attribute, operator, quoted] = match;
+  const value = quoted.replace(/\\(.)/g, '$1');
+
+  return user => {
+    const actual = attribute === 'cognito:user_status' ? user.status
+      : attribute === 'status' ? (user.enabled ? 'Enabled' : 'Disabled')
+      : user.attributes[attribute] || '';
+
+    return operator === '^=' ? actual.startsWith(value) : actual === value;
+  };
+}
+
+function toAttributeList(attributes: Record<string, string>): AttributeType[] {
+  return Object.keys(attributes).map(name => ({ Name: name, Value: attributes[name] }));
+}
+
+function toIdTokenAttributes(attributes: Record<string, string>): TokenClaims {
+  return Object.keys(attributes).reduce<TokenClaims>((claims, name) => {
+    claims[name] = BOOLEAN_ATTRIBUTES.includes(name) ? attributes[name] === 'true' : attributes[name];
+    return claims;
+  }, {});
+}
@@ -0,0 +1,63 @@
+/**
+ * Local Environment
+ * Defaults that point the lambdas at the emulator instead of AWS
+ * Must be applied before any handler module is loaded - they read process.env at import time
+ */
+
+// Types
+export interface LocalConfig {
+  port: number;
+  region: string;
+  stage: string;
+  userPoolId: string;
+  clientId: string;
+  issuer: string;
+  cognitoEndpoint: string;
+  adminPhoneNumbers: string[];   // LOCAL_ADMIN_PHONE_NUMBERS - comma-separated, joined to Admins at sign-up
+}
+
+const DEFAULTS: Record<string, string> = {
+  ENVIRONMENT: 'dev',
+  AWS_REGION: 'eu-west-1',
+  // The SDK signs every request - the emulator ignores the signature
+  AWS_ACCESS_KEY_ID: 'local',
+  AWS_SECRET_ACCESS_KEY: 'local',
+  COGNITO_USER_POOL_ID: 'eu-west-1_local',
+  COGNITO_CLIENT_ID: 'localclient',
+  ALLOWED_ORIGINS: 'http://localhost:*,http://127.0.0.1:*',
+  // Codes are printed to the console (and OTP_SINK_FILE when set)
+  OTP_SINK_ENABLED: 'true',
+  OTP_DEFAULT_CHANNEL: 'sink',
+  OTP_FALLBACK_CHANNEL: 'sink'
+};
+
+/**
+ * Fill in unset environment variables and return the resolved local config
+ * Table names are left unset so every store runs in memory
+ */
+export function applyLocalEnvironment(): LocalConfig {
+  const port = parseInt(process.env.LOCAL_PORT || '3001', 10);
+
+  for (const [name, value] of Object.entries(DEFAULTS)) {
+    if (!process.env[name]) {
+      process.env[name] = value;
+    }
+  }
+
+  const cognitoEndpoint = `http://localhost:${port}/local-cognito`;
+  const issuer = `${cognitoEndpoint}/${process.env.COGNITO_USER_POOL_ID}`;
+
+  process.env.COGNITO_ISSUER = process.env.COGNITO_ISSUER || issuer;
+  process.env.AWS_ENDPOINT_URL_COGNITO_IDENTITY_PROVIDER = cognitoEndpoint;
+
+  return {
+    port,
+    region: process.env.AWS_REGION!,
+    stage: process.env.ENVIRONMENT!,
+    userPoolId: process.env.COGNITO_USER_POOL_ID!,
+    clientId: process.env.COGNITO_CLIENT_ID!,
+    issuer: process.env.COGNITO_ISSUER,
+    cognitoEndpoint,
+    adminPhoneNumbers: (process.env.LOCAL_ADMIN_PHONE_NUMBERS || '').split(',').map(number => number.trim()).filter(Boolean)
+  };
+}
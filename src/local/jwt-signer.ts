@@ -0,0 +1,72 @@
+/**
+ * Local JWT Signer
+ * RS256 key pair generated at startup; publishes its JWKS so the shared
+ * token verifier validates emulator tokens exactly like Cognito's
+ */
+
+import { generateKeyPairSync, KeyObject, randomUUID } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+
+// Types
+export interface Jwk {
+  kid: string;
+  alg: string;
+  kty: string;
+  e: string;
+  n: string;
+  use: string;
+}
+
+export type TokenClaims = Record<string, unknown>;
+
+export class LocalJwtSigner {
+  private readonly kid = randomUUID();
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+  private readonly publicJwk: Jwk;
+
+  constructor(private readonly issuer: string) {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const { n, e } = publicKey.export({ format: 'jwk' });
+
+    this.privateKey = privateKey;
+    this.publicKey = publicKey;
+    this.publicJwk = {
+      kid: this.kid,
+      alg: 'RS256',
+      kty: 'RSA',
+      e: e || '',
+      n: n || '',
+      use: 'sig'
+    };
+  }
+
+  /**
+   * JWKS document served at <issuer>/.well-known/jwks.json
+   */
+  getJwks(): { keys: Jwk[] } {
+    return { keys: [this.publicJwk] };
+  }
+
+  /**
+   * Sign claims as a Cognito-style token (iss, iat, exp and jti are added)
+   */
+  sign(claims: TokenClaims, expiresInSeconds: number): string {
+    return jwt.sign({ ...claims, jti: randomUUID() }, this.privateKey, {
+      algorithm: 'RS256',
+      keyid: this.kid,
+      issuer: this.issuer,
+      expiresIn: expiresInSeconds
+    });
+  }
+
+  /**
+   * Verify a token this signer issued (emulator APIs taking an AccessToken)
+   */
+  verify(token: string): TokenClaims {
+    return jwt.verify(token, this.publicKey, {
+      algorithms: ['RS256'],
+      issuer: this.issuer
+    }) as TokenClaims;
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Local Development Server
+ * Runs the auth and admin APIs, the authorizer and an in-memory Cognito emulator
+ * in one process so the whole OTP flow works offline:
+ *
+ *   /secure/auth/*                                   auth lambda (authorizer first on protected routes)
+ *   /secure/admin/*                                  admin lambda (authorizer first)
+ *   /local-cognito                                   Cognito JSON API used by the AWS SDK
+ *   /local-cognito/<pool>/.well-known/jwks.json      JWKS for the local token signer
+ *
+ * Usage: npm start (from src/local), LOCAL_PORT to change the port (default 3001),
+ * LOCAL_ADMIN_PHONE_NUMBERS to make the accounts registered with those numbers admins
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { applyLocalEnvironment, LocalConfig } from './env';
+import { LocalJwtSigner } from './jwt-signer';
+import { CognitoEmulator, CognitoError } from './cognito-emulator';
+import { handleApiRequest, LocalApiOptions } from './api-gateway';
+
+const COGNITO_TARGET_PREFIX = 'AWSCognitoIdentityProviderService.';
+
+async function main(): Promise<void> {
+  const config = applyLocalEnvironment();
+
+  // Handlers read their configuration from process.env at import time
+  const [auth, admin, authorizer, defineAuthChallenge, createAuthChallenge, verifyAuthChallenge, preAuthentication] =
+    await Promise.all([
+      import('../auth/index'),
+      import('../admin/index'),
+      import('../authorizer/index'),
+      import('../cognito-triggers/define-auth-challenge/index'),
+      import('../cognito-triggers/create-auth-challenge/index'),
+      import('../cognito-triggers/verify-auth-challenge/index'),
+      import('../cognito-triggers/pre-authentication/index')
+    ]);
+
+  const signer = new LocalJwtSigner(config.issuer);
+  const emulator = new CognitoEmulator({
+    region: config.region,
+    userPoolId: config.userPoolId,
+    clientId: config.clientId,
+    signer,
+    triggers: {
+      preAuthentication: preAuthentication.handler,
+      defineAuthChallenge: defineAuthChallenge.handler,
+      createAuthChallenge: createAuthChallenge.handler,
+      verifyAuthChallenge: verifyAuthChallenge.handler
+    },
+    adminPhoneNumbers: config.adminPhoneNumbers
+  });
+
+  const apiOptions: LocalApiOptions = {
+    region: config.region,
+    stage: config.stage,
+    authHandler: auth.handler,
+    adminHandler: admin.handler,
+    authorizerHandler: authorizer.handler
+  };
+
+  const server = createServer((request, response) => {
+    readBody(request)
+      .then(body => route(request, response, body, config, signer, emulator, apiOptions))
+      .catch(error => {
+        console.error('Local server error:', error);
+        response.statusCode = 500;
+        response.setHeader('Content-Type', 'application/json');
+        response.end(JSON.stringify({ message: 'Internal server error' }));
+      });
+  });
+
+  server.listen(config.port, () => {
+    console.log(`Local API listening on http://localhost:${config.port}/secure/auth`);
+    console.log(`Cognito emulator: ${config.cognitoEndpoint} (pool ${config.userPoolId}, client ${config.clientId})`);
+    console.log('OTP codes are printed by the sink channel below');
+  });
+}
+
+async function route(
+  request: IncomingMessage,
+  response: ServerResponse,
+  body: string,
+  config: LocalConfig,
+  signer: LocalJwtSigner,
+  emulator: CognitoEmulator,
+  apiOptions: LocalApiOptions
+): Promise<void> {
+  const path = new URL(request.url || '/', 'http://localhost').pathname;
+
+  if (request.method === 'GET' && path === new URL(`${config.issuer}/.well-known/jwks.json`).pathname) {
+    writeJson(response, 200, signer.getJwks());
+    return;
+  }
+
+  if (request.method === 'POST' && path.replace(/\/+$/, '') === '/local-cognito') {
+    await handleCognitoRequest(request, response, body, emulator);
+    return;
+  }
+
+  await handleApiRequest(request, response, body, apiOptions);
+}
+
+/**
+ * Cognito JSON 1.1 protocol - errors are returned as { __type, message }
+ */
+async function handleCognitoRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  body: string,
+  emulator: CognitoEmulator
+): Promise<void> {
+  const target = String(request.headers['x-amz-target'] || '');
+  const operation = target.startsWith(COGNITO_TARGET_PREFIX) ? target.slice(COGNITO_TARGET_PREFIX.length) : target;
+
+  try {
+    const output = await emulator.dispatch(operation, body ? JSON.parse(body) : {});
+    writeJson(response, 200, output, 'application/x-amz-json-1.1');
+  } catch (error) {
+    const type = error instanceof CognitoError ? error.type : 'InternalErrorException';
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (!(error instanceof CognitoError)) {
+      console.error(`[cognito] ${operation} failed:`, error);
+    }
+
+    response.setHeader('x-amzn-ErrorType', type);
+    writeJson(response, type === 'InternalErrorException' ? 500 : 400, { __type: type, message }, 'application/x-amz-json-1.1');
+  }
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+function writeJson(response: ServerResponse, statusCode: number, body: unknown, contentType = 'application/json'): void {
+  response.statusCode = statusCode;
+  response.setHeader('Content-Type', contentType);
+  response.end(JSON.stringify(body));
+}
+
+main().catch(error => {
+  console.error('Failed to start local server:', error);
+  process.exit(1);
+});
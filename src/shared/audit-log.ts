@@ -0,0 +1,223 @@
+/**
+ * Audit Log
+ * Append-only record of security-relevant actions, kept per user with a TTL
+ *
+ * Records are keyed by the user they concern:
+ * - userId     partition key - the target of an admin action, or the actor
+ *              themselves when there is no single target (e.g. a user search)
+ * - eventKey   sort key - "<ISO timestamp>#<id>" so a user's records sort by time
+ *
+ * Auth events (auth.*) are written by the auth lambda and the Cognito
+ * triggers; admin actions (admin.*) by the admin lambda
+ */
+
+import { randomUUID } from 'crypto';
+import { PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { getDocumentClient } from './dynamo';
+import { logger } from './logger';
+
+const AUDIT_TABLE_NAME = process.env.AUDIT_TABLE_NAME || '';
+const AUDIT_RETENTION_DAYS = parseInt(process.env.AUDIT_RETENTION_DAYS || '365', 10);
+
+// Types
+export type AuditOutcome = 'success' | 'failure';
+
+export interface AuditEvent {
+  action: string;                     // e.g. admin.user.disable
+  userId: string;                     // User the event concerns
+  actorId?: string;                   // Who performed it, when not the user
+  outcome: AuditOutcome;
+  errorCode?: string;                 // Catalogue code of a failed action
+  phoneNumber?: string;               // Masked - last 4 digits only
+  sourceIp?: string;
+  userAgent?: string;
+  details?: Record<string, unknown>;  // Action parameters - never tokens or codes
+}
+
+export interface AuditRecord extends AuditEvent {
+  eventKey: string;    // Sort key - "<timestamp>#<id>"
+  eventId: string;
+  timestamp: string;   // ISO 8601
+  expiresAt: number;   // Epoch seconds (DynamoDB TTL attribute)
+}
+
+// A record as returned by the query endpoints
+export type AuditEntry = Omit<AuditRecord, 'eventKey' | 'expiresAt'>;
+
+// Time range and page of a user's records - from/to are inclusive ISO 8601 timestamps
+export interface AuditQuery {
+  from?: string;
+  to?: string;
+  limit: number;
+  nextToken?: string;   // eventKey of the last record of the previous page
+}
+
+export interface AuditPage {
+  records: AuditRecord[];   // Newest first
+  nextToken?: string;
+}
+
+// Caller details - the auth lambda saves them with the sign-in attempt for the
+// first challenge and passes them in RespondToAuthChallenge ClientMetadata
+export interface AuditClient {
+  sourceIp?: string;
+  userAgent?: string;
+}
+
+/**
+ * Storage backend for audit records
+ */
+export interface AuditStore {
+  put(record: AuditRecord): Promise<void>;
+  query(userId: string, query: AuditQuery): Promise<AuditPage>;
+}
+
+/**
+ * DynamoDB-backed audit store (used in deployed environments)
+ */
+export class DynamoAuditStore implements AuditStore {
+  constructor(private readonly tableName: string) {}
+
+  async put(record: AuditRecord): Promise<void> {
+    await getDocumentClient().send(new PutCommand({
+      TableName: this.tableName,
+      Item: record
+    }));
+  }
+
+  async query(userId: string, query: AuditQuery): Promise<AuditPage> {
+    const response = await getDocumentClient().send(new QueryCommand({
+      TableName: this.tableName,
+      KeyConditionExpression: 'userId = :userId AND eventKey BETWEEN :from AND :to',
+      ExpressionAttributeValues: { ':userId': userId, ...toKeyRange(query) },
+      ScanIndexForward: false,
+      Limit: query.limit,
+      ExclusiveStartKey: query.nextToken ? { userId, eventKey: query.nextToken } : undefined
+    }));
+
+    return {
+      records: (response.Items || []) as AuditRecord[],
+      nextToken: response.LastEvaluatedKey?.eventKey as string | undefined
+    };
+  }
+}
+
+/**
+ * In-memory audit store (local development and tests)
+ */
+export class InMemoryAuditStore implements AuditStore {
+  readonly records: AuditRecord[] = [];
+
+  async put(record: AuditRecord): Promise<void> {
+    this.records.push({ ...record });
+  }
+
+  async query(userId: string, query: AuditQuery): Promise<AuditPage> {
+    const { ':from': from, ':to': to } = toKeyRange(query);
+    const matches = this.records
+      .filter(record => record.userId === userId && record.eventKey >= from && record.eventKey <= to)
+      .filter(record => !query.nextToken || record.eventKey < query.nextToken)
+      .sort((a, b) => b.eventKey.localeCompare(a.eventKey));
+    const records = matches.slice(0, query.limit).map(record => ({ ...record }));
+
+    return {
+      records,
+      nextToken: matches.length > query.limit ? records[records.length - 1].eventKey : undefined
+    };
+  }
+
+  clear(): void {
+    this.records.length = 0;
+  }
+}
+
+let defaultStore: AuditStore | null = null;
+
+/**
+ * Get the audit store for this environment
+ * Uses DynamoDB when AUDIT_TABLE_NAME is set, otherwise an in-memory store
+ */
+export function getAuditStore(): AuditStore {
+  if (!defaultStore) {
+    if (AUDIT_TABLE_NAME) {
+      defaultStore = new DynamoAuditStore(AUDIT_TABLE_NAME);
+    } else {
+      logger.warn('AUDIT_TABLE_NAME not set - using in-memory audit store');
+      defaultStore = new InMemoryAuditStore();
+    }
+  }
+
+  return defaultStore;
+}
+
+/**
+ * Replace the audit store (local development and tests)
+ */
+export function setAuditStore(store: AuditStore): void {
+  defaultStore = store;
+}
+
+/**
+ * Append an event to the audit log
+ * Never throws - a failed write is logged with the event so the action it
+ * describes is not failed after it already happened
+ */
+export async function recordAuditEvent(store: AuditStore, event: AuditEvent): Promise<void> {
+  const eventId = randomUUID();
+  const now = new Date();
+
+  const record: AuditRecord = {
+    ...event,
+    eventKey: `${now.toISOString()}#${eventId}`,
+    eventId,
+    timestamp: now.toISOString(),
+    expiresAt: Math.floor(now.getTime() / 1000) + AUDIT_RETENTION_DAYS * 86400
+  };
+
+  try {
+    await store.put(record);
+  } catch (error) {
+    logger.error('Failed to write audit record', { record, error });
+  }
+}
+
+/**
+ * Drop the storage keys from a record
+ */
+export function toAuditEntry(record: AuditRecord): AuditEntry {
+  const { eventKey, expiresAt, ...entry } = record;
+  return entry;
+}
+
+/**
+ * ClientMetadata entries carrying the caller's IP and user agent to the triggers
+ * (Cognito only forwards string values, and only on RespondToAuthChallenge)
+ */
+export function toClientMetadata(client: AuditClient): Record<string, string> {
+  return {
+    ...(client.sourceIp && { sourceIp: client.sourceIp }),
+    ...(client.userAgent && { userAgent: client.userAgent })
+  };
+}
+
+/**
+ * Caller details from a trigger event's clientMetadata
+ * The fallback (the saved sign-in attempt) covers events Cognito sends without it
+ */
+export function fromClientMetadata(metadata: Record<string, string> | undefined, fallback: AuditClient = {}): AuditClient {
+  return {
+    sourceIp: metadata?.sourceIp || fallback.sourceIp || undefined,
+    userAgent: metadata?.userAgent || fallback.userAgent || undefined
+  };
+}
+
+/**
+ * Sort key bounds for a time range - '~' sorts after the "#<id>" suffix so
+ * records at exactly `to` are included
+ */
+function toKeyRange(query: AuditQuery): { ':from': string; ':to': string } {
+  return {
+    ':from': query.from || '0',
+    ':to': `${query.to || '9'}~`
+  };
+}
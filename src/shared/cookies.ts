@@ -0,0 +1,163 @@
+/**
+ * Cookies
+ * Parses and serializes the auth cookies shared by the auth lambda and the authorizer
+ *
+ * Attributes are configured per environment:
+ * - COOKIE_DOMAIN       Domain attribute (host-only when unset)
+ * - COOKIE_PATH         Path attribute (default: /)
+ * - COOKIE_SAME_SITE    lax | strict | none (default: lax)
+ * - COOKIE_SECURE       true | false (default: true outside dev)
+ * - COOKIE_HOST_PREFIX  true to name cookies __Host-<name> (forces Secure, Path=/, no Domain)
+ *
+ * Responses must send each cookie as its own Set-Cookie header via
+ * multiValueHeaders - a single comma-joined header is parsed unreliably.
+ */
+
+import { parse, serialize, SerializeOptions } from 'cookie';
+import { getHeader, RequestHeaders } from './headers';
+import { logger } from './logger';
+
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+
+const HOST_PREFIX = '__Host-';
+
+// Types
+export type SameSite = 'lax' | 'strict' | 'none';
+
+export interface CookieSettings {
+  domain?: string;
+  path: string;
+  sameSite: SameSite;
+  secure: boolean;
+  hostPrefix: boolean;
+}
+
+export interface CookieOptions {
+  maxAge: number;      // Seconds, 0 deletes the cookie
+  httpOnly?: boolean;  // Default: true
+}
+
+let settings: CookieSettings | null = null;
+
+/**
+ * Cookie attributes for this environment (read once from env)
+ */
+export function getCookieSettings(): CookieSettings {
+  if (!settings) {
+    settings = loadCookieSettings();
+  }
+
+  return settings;
+}
+
+/**
+ * Replace the cookie settings (local development and tests)
+ */
+export function setCookieSettings(overrides: Partial<CookieSettings>): void {
+  settings = normalizeSettings({ ...getCookieSettings(), ...overrides });
+}
+
+/**
+ * Name a cookie is stored under (adds the __Host- prefix when enabled)
+ */
+export function getCookieName(name: string): string {
+  return getCookieSettings().hostPrefix ? `${HOST_PREFIX}${name}` : name;
+}
+
+/**
+ * Serialize a Set-Cookie header value using the environment's attributes
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions): string {
+  const { domain, path, sameSite, secure } = getCookieSettings();
+
+  const attributes: SerializeOptions = {
+    domain,
+    path,
+    sameSite,
+    secure,
+    httpOnly: options.httpOnly !== false,
+    maxAge: options.maxAge
+  };
+
+  // Tokens are already URL-safe (base64url / JWT), so skip percent-encoding
+  return serialize(getCookieName(name), value, { ...attributes, encode: (v: string) => v });
+}
+
+/**
+ * Serialize a Set-Cookie header value that deletes a cookie
+ */
+export function serializeExpiredCookie(name: string, options: Pick<CookieOptions, 'httpOnly'> = {}): string {
+  return serializeCookie(name, '', { ...options, maxAge: 0 });
+}
+
+/**
+ * Parse a Cookie header into a name/value map
+ */
+export function parseCookies(cookieHeader: string | undefined | null): Record<string, string> {
+  if (!cookieHeader) {
+    return {};
+  }
+
+  const parsed = parse(cookieHeader);
+
+  return Object.keys(parsed).reduce<Record<string, string>>((cookies, name) => {
+    const value = parsed[name];
+    if (value !== undefined) {
+      cookies[name] = value;
+    }
+    return cookies;
+  }, {});
+}
+
+/**
+ * Read one of our cookies from request headers (Cookie header, any casing)
+ */
+export function readCookie(headers: RequestHeaders, name: string): string | null {
+  const cookies = parseCookies(getHeader(headers, 'Cookie'));
+
+  return cookies[getCookieName(name)] || null;
+}
+
+function loadCookieSettings(): CookieSettings {
+  return normalizeSettings({
+    domain: process.env.COOKIE_DOMAIN || undefined,
+    path: process.env.COOKIE_PATH || '/',
+    sameSite: parseSameSite(process.env.COOKIE_SAME_SITE),
+    secure: process.env.COOKIE_SECURE ? process.env.COOKIE_SECURE === 'true' : ENVIRONMENT !== 'dev',
+    hostPrefix: process.env.COOKIE_HOST_PREFIX === 'true'
+  });
+}
+
+/**
+ * Enforce attribute combinations browsers require
+ */
+function normalizeSettings(candidate: CookieSettings): CookieSettings {
+  const normalized = { ...candidate };
+
+  // __Host- cookies are rejected unless Secure, Path=/ and host-only
+  if (normalized.hostPrefix && (normalized.domain || normalized.path !== '/' || !normalized.secure)) {
+    logger.warn('__Host- cookie prefix requires Secure, Path=/ and no Domain - overriding cookie settings');
+    normalized.domain = undefined;
+    normalized.path = '/';
+    normalized.secure = true;
+  }
+
+  // SameSite=None cookies are rejected unless Secure
+  if (normalized.sameSite === 'none' && !normalized.secure) {
+    logger.warn('SameSite=None requires Secure - enabling Secure cookies');
+    normalized.secure = true;
+  }
+
+  return normalized;
+}
+
+function parseSameSite(value: string | undefined): SameSite {
+  const sameSite = (value || 'lax').toLowerCase();
+
+  if (sameSite === 'lax' || sameSite === 'strict' || sameSite === 'none') {
+    return sameSite;
+  }
+
+  logger.warn('Invalid COOKIE_SAME_SITE value, using lax', { value });
+  return 'lax';
+}
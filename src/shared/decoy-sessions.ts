@@ -0,0 +1,97 @@
+/**
+ * Decoy Sessions
+ * Nonces of decoy OTP sessions that have been answered, so a decoy session
+ * is single use like a Cognito session (see src/auth/enumeration.ts)
+ */
+
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { getDocumentClient, isConditionalCheckFailed } from './dynamo';
+import { logger } from './logger';
+
+const DECOY_SESSION_TABLE_NAME = process.env.DECOY_SESSION_TABLE_NAME || '';
+
+// Types
+export interface UsedDecoySession {
+  nonce: string;       // Partition key - random per decoy session
+  expiresAt: number;   // Epoch seconds, when the session expires anyway (DynamoDB TTL attribute)
+}
+
+/**
+ * Storage backend for used decoy sessions
+ */
+export interface DecoySessionStore {
+  /** Record a session as used. Resolves false if it was used before. */
+  markUsed(session: UsedDecoySession): Promise<boolean>;
+}
+
+/**
+ * DynamoDB-backed decoy session store (used in deployed environments)
+ */
+export class DynamoDecoySessionStore implements DecoySessionStore {
+  constructor(private readonly tableName: string) {}
+
+  async markUsed(session: UsedDecoySession): Promise<boolean> {
+    try {
+      await getDocumentClient().send(new PutCommand({
+        TableName: this.tableName,
+        Item: session,
+        ConditionExpression: 'attribute_not_exists(nonce)'
+      }));
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * In-memory decoy session store (local development and tests)
+ */
+export class InMemoryDecoySessionStore implements DecoySessionStore {
+  private readonly sessions = new Map<string, UsedDecoySession>();
+
+  async markUsed(session: UsedDecoySession): Promise<boolean> {
+    const now = Math.floor(Date.now() / 1000);
+    const existing = this.sessions.get(session.nonce);
+
+    if (existing && existing.expiresAt > now) {
+      return false;
+    }
+
+    this.sessions.set(session.nonce, { ...session });
+    return true;
+  }
+
+  clear(): void {
+    this.sessions.clear();
+  }
+}
+
+let defaultStore: DecoySessionStore | null = null;
+
+/**
+ * Get the decoy session store for this environment
+ * Uses DynamoDB when DECOY_SESSION_TABLE_NAME is set, otherwise an in-memory store
+ */
+export function getDecoySessionStore(): DecoySessionStore {
+  if (!defaultStore) {
+    if (DECOY_SESSION_TABLE_NAME) {
+      defaultStore = new DynamoDecoySessionStore(DECOY_SESSION_TABLE_NAME);
+    } else {
+      logger.warn('DECOY_SESSION_TABLE_NAME not set - using in-memory decoy session store');
+      defaultStore = new InMemoryDecoySessionStore();
+    }
+  }
+
+  return defaultStore;
+}
+
+/**
+ * Replace the decoy session store (local development and tests)
+ */
+export function setDecoySessionStore(store: DecoySessionStore): void {
+  defaultStore = store;
+}
@@ -0,0 +1,35 @@
+/**
+ * DynamoDB Document Client
+ * Single lazily-created client shared by all DynamoDB-backed stores
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+
+let documentClient: DynamoDBDocumentClient | null = null;
+
+/**
+ * Get the shared DynamoDB document client
+ * Created on first use so Lambdas without a table never construct it
+ */
+export function getDocumentClient(): DynamoDBDocumentClient {
+  if (!documentClient) {
+    documentClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+      marshallOptions: { removeUndefinedValues: true }
+    });
+  }
+
+  return documentClient;
+}
+
+/**
+ * Helper: Check for a failed DynamoDB condition expression
+ */
+export function isConditionalCheckFailed(error: unknown): boolean {
+  return Boolean(
+    error &&
+    typeof error === 'object' &&
+    'name' in error &&
+    error.name === 'ConditionalCheckFailedException'
+  );
+}
@@ -0,0 +1,20 @@
+/**
+ * Request Headers
+ * API Gateway passes headers through with the casing the client used
+ */
+
+export type RequestHeaders = { [name: string]: string | undefined } | null | undefined;
+
+/**
+ * Read a header regardless of casing
+ */
+export function getHeader(headers: RequestHeaders, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const lowerName = name.toLowerCase();
+  const key = Object.keys(headers).find(header => header.toLowerCase() === lowerName);
+
+  return key ? headers[key] : undefined;
+}
@@ -0,0 +1,281 @@
+/**
+ * Invitations
+ * Admin-issued invites that onboard a phone number into a company with a
+ * preassigned role. The admin lambda pre-creates the (disabled) Cognito user
+ * and sends a signed link; the auth lambda accepts it with an OTP
+ *
+ * Links carry "<inviteId>.<signature>" - the HMAC proves the link was issued
+ * by this API, the record's status makes it single-use
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { GetCommand, PutCommand, QueryCommand, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { getDocumentClient, isConditionalCheckFailed } from './dynamo';
+import { logger } from './logger';
+import { deliverOtp, OtpChannel, OtpDeliveryResult, resolveChannels } from './otp-delivery';
+
+const INVITATION_TABLE_NAME = process.env.INVITATION_TABLE_NAME || '';
+const INVITATION_TTL_HOURS = parseInt(process.env.INVITATION_TTL_HOURS || '72', 10);
+const INVITATION_ACCEPT_URL = process.env.INVITATION_ACCEPT_URL || 'http://localhost:3000/invite';
+
+// Records stay listable this long after they expire, then TTL removes them
+const INVITATION_RETENTION_SECONDS = 30 * 86400;
+
+// Types
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked';
+
+// Status as shown to admins - a pending invitation past expiresAt is expired
+export type InvitationState = InvitationStatus | 'expired';
+
+export interface Invitation {
+  inviteId: string;      // Partition key
+  username: string;      // Pre-created Cognito user
+  phoneNumber: string;   // E.164
+  company: string;
+  role: string;
+  status: InvitationStatus;
+  invitedBy: string;     // sub of the admin who sent it
+  createdAt: string;     // ISO 8601 - sort key of the company index
+  expiresAt: number;     // Epoch seconds - the link stops working
+  acceptedAt?: string;
+  revokedAt?: string;
+  purgeAt: number;       // Epoch seconds (DynamoDB TTL attribute)
+}
+
+/**
+ * Storage backend for invitations
+ */
+export interface InvitationStore {
+  put(invitation: Invitation): Promise<void>;
+  get(inviteId: string): Promise<Invitation | null>;
+  list(company?: string): Promise<Invitation[]>;
+  // Move a pending invitation to accepted/revoked; false when it is no longer pending
+  close(inviteId: string, status: Exclude<InvitationStatus, 'pending'>, at: string): Promise<boolean>;
+}
+
+/**
+ * DynamoDB-backed invitation store (used in deployed environments)
+ * Company listings read the company-index GSI; unfiltered listings scan
+ */
+export class DynamoInvitationStore implements InvitationStore {
+  constructor(private readonly tableName: string) {}
+
+  async put(invitation: Invitation): Promise<void> {
+    await getDocumentClient().send(new PutCommand({
+      TableName: this.tableName,
+      Item: invitation,
+      ConditionExpression: 'attribute_not_exists(inviteId)'
+    }));
+  }
+
+  async get(inviteId: string): Promise<Invitation | null> {
+    const response = await getDocumentClient().send(new GetCommand({
+      TableName: this.tableName,
+      Key: { inviteId },
+      ConsistentRead: true
+    }));
+
+    return (response.Item as Invitation) || null;
+  }
+
+  async list(company?: string): Promise<Invitation[]> {
+    const invitations: Invitation[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const response = await getDocumentClient().send(company
+        ? new QueryCommand({
+          TableName: this.tableName,
+          IndexName: 'company-index',
+          KeyConditionExpression: 'company = :company',
+          ExpressionAttributeValues: { ':company': company },
+          ScanIndexForward: false,
+          ExclusiveStartKey: exclusiveStartKey
+        })
+        : new ScanCommand({
+          TableName: this.tableName,
+          ExclusiveStartKey: exclusiveStartKey
+        }));
+
+      invitations.push(...(response.Items || []) as Invitation[]);
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return company ? invitations : sortNewestFirst(invitations);
+  }
+
+  async close(inviteId: string, status: Exclude<InvitationStatus, 'pending'>, at: string): Promise<boolean> {
+    try {
+      await getDocumentClient().send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { inviteId },
+        UpdateExpression: `SET #status = :status, ${status === 'accepted' ? 'acceptedAt' : 'revokedAt'} = :at`,
+        ConditionExpression: '#status = :pending',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':status': status, ':at': at, ':pending': 'pending' }
+      }));
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * In-memory invitation store (local development and tests)
+ */
+export class InMemoryInvitationStore implements InvitationStore {
+  private readonly invitations = new Map<string, Invitation>();
+
+  async put(invitation: Invitation): Promise<void> {
+    this.invitations.set(invitation.inviteId, { ...invitation });
+  }
+
+  async get(inviteId: string): Promise<Invitation | null> {
+    const invitation = this.invitations.get(inviteId);
+    return invitation ? { ...invitation } : null;
+  }
+
+  async list(company?: string): Promise<Invitation[]> {
+    return sortNewestFirst(Array.from(this.invitations.values())
+      .filter(invitation => company === undefined || invitation.company === company)
+      .map(invitation => ({ ...invitation })));
+  }
+
+  async close(inviteId: string, status: Exclude<InvitationStatus, 'pending'>, at: string): Promise<boolean> {
+    const invitation = this.invitations.get(inviteId);
+
+    if (!invitation || invitation.status !== 'pending') {
+      return false;
+    }
+
+    invitation.status = status;
+    invitation[status === 'accepted' ? 'acceptedAt' : 'revokedAt'] = at;
+    return true;
+  }
+
+  clear(): void {
+    this.invitations.clear();
+  }
+}
+
+let defaultStore: InvitationStore | null = null;
+let signingSecret: string | null = null;
+
+/**
+ * Get the invitation store for this environment
+ * Uses DynamoDB when INVITATION_TABLE_NAME is set, otherwise an in-memory store
+ */
+export function getInvitationStore(): InvitationStore {
+  if (!defaultStore) {
+    if (INVITATION_TABLE_NAME) {
+      defaultStore = new DynamoInvitationStore(INVITATION_TABLE_NAME);
+    } else {
+      logger.warn('INVITATION_TABLE_NAME not set - using in-memory invitation store');
+      defaultStore = new InMemoryInvitationStore();
+    }
+  }
+
+  return defaultStore;
+}
+
+/**
+ * Replace the invitation store (local development and tests)
+ */
+export function setInvitationStore(store: InvitationStore): void {
+  defaultStore = store;
+}
+
+/**
+ * Build a new pending invitation expiring INVITATION_TTL_HOURS from now
+ */
+export function newInvitation(fields: Pick<Invitation, 'inviteId' | 'username' | 'phoneNumber' | 'company' | 'role' | 'invitedBy'>): Invitation {
+  const now = new Date();
+  const expiresAt = Math.floor(now.getTime() / 1000) + INVITATION_TTL_HOURS * 3600;
+
+  return {
+    ...fields,
+    status: 'pending',
+    createdAt: now.toISOString(),
+    expiresAt,
+    purgeAt: expiresAt + INVITATION_RETENTION_SECONDS
+  };
+}
+
+/**
+ * Status including expiry
+ */
+export function getInvitationState(invitation: Invitation, nowSeconds = Math.floor(Date.now() / 1000)): InvitationState {
+  return invitation.status === 'pending' && invitation.expiresAt <= nowSeconds ? 'expired' : invitation.status;
+}
+
+/**
+ * Signed link token for an invitation
+ */
+export function createInvitationToken(inviteId: string): string {
+  return `${inviteId}.${sign(inviteId)}`;
+}
+
+/**
+ * The inviteId a link token was issued for, or null when the signature does not match
+ */
+export function readInvitationToken(token: string): string | null {
+  const separator = token.lastIndexOf('.');
+
+  if (separator <= 0) {
+    return null;
+  }
+
+  const inviteId = token.slice(0, separator);
+  const expected = Buffer.from(sign(inviteId));
+  const actual = Buffer.from(token.slice(separator + 1));
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? inviteId : null;
+}
+
+/**
+ * Send the invitation link over the OTP delivery channels
+ * Throws OtpDeliveryError when no channel could deliver it
+ */
+export async function sendInvitation(invitation: Invitation, channel?: OtpChannel): Promise<OtpDeliveryResult> {
+  const url = new URL(INVITATION_ACCEPT_URL);
+  url.searchParams.set('token', createInvitationToken(invitation.inviteId));
+
+  return deliverOtp(
+    { phoneNumber: invitation.phoneNumber },
+    {
+      code: '',
+      ttlSeconds: invitation.expiresAt - Math.floor(Date.now() / 1000),
+      invitation: { company: invitation.company, url: url.toString() }
+    },
+    resolveChannels(channel)
+  );
+}
+
+function sign(inviteId: string): string {
+  return createHmac('sha256', getSigningSecret()).update(`invitation:${inviteId}`).digest('base64url');
+}
+
+/**
+ * INVITATION_SIGNING_SECRET must be shared by the admin and auth lambdas
+ * Without it links only verify in the process that issued them (local server)
+ */
+function getSigningSecret(): string {
+  if (!signingSecret) {
+    signingSecret = process.env.INVITATION_SIGNING_SECRET || '';
+
+    if (!signingSecret) {
+      logger.warn('INVITATION_SIGNING_SECRET not set - using a random per-instance secret');
+      signingSecret = randomBytes(32).toString('hex');
+    }
+  }
+
+  return signingSecret;
+}
+
+function sortNewestFirst(invitations: Invitation[]): Invitation[] {
+  return invitations.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
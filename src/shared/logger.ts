@@ -0,0 +1,189 @@
+/**
+ * Structured Logger
+ * Every lambda logs through this module: one JSON line per entry with the
+ * level, message and the Lambda request ID, so CloudWatch Logs Insights can
+ * filter and correlate without parsing free text
+ *
+ * Entries are redacted before they are written - tokens, OTPs, cookies and
+ * secrets are replaced and phone numbers masked to their last 4 digits,
+ * whether they appear as fields or inside strings (error messages, paths)
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export const REDACTED = '[REDACTED]';
+
+// Field names whose values are never logged (matched case-insensitively, anywhere in the name)
+const SECRET_KEY = /token|secret|password|cookie|authorization|session|otp|answer|signature/i;
+
+// Error codes (AUTH_RATE_LIMITED) stay readable - only a numeric "code" is an OTP
+const CODE_KEY = /^code$/i;
+const OTP_VALUE = /^\s*\d{4,8}\s*$/;
+
+const PHONE_KEY = /phone/i;
+
+// JWTs and E.164 numbers inside free text. Cognito ID/access tokens are
+// three-segment JWS, refresh tokens five-segment JWE (segments may be empty)
+const JWT_PATTERN = /eyJ[\w-]+(?:\.[\w-]*){1,4}/g;
+const PHONE_PATTERN = /\+\d{4,11}(\d{4})\b/g;
+
+// Deeper structures are cut off rather than walked
+const MAX_DEPTH = 6;
+
+export interface LogContext {
+  requestId?: string;
+  functionName?: string;
+}
+
+// Fields logged alongside the message - Errors anywhere in them keep name, message and stack
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+// The local server runs handlers concurrently - each invocation keeps its own context
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run a handler with the invocation's request ID attached to every entry it logs
+ * Shared modules called from the handler pick the context up without it being passed in
+ */
+export function withLogContext<T>(context: { awsRequestId?: string; functionName?: string } | undefined, run: () => Promise<T>): Promise<T> {
+  return contextStorage.run({ requestId: context?.awsRequestId, functionName: context?.functionName }, run);
+}
+
+export const logger: Logger = {
+  debug: (message, fields) => write('debug', message, fields),
+  info: (message, fields) => write('info', message, fields),
+  warn: (message, fields) => write('warn', message, fields),
+  error: (message, fields) => write('error', message, fields)
+};
+
+/**
+ * Redact a value before it is logged
+ * Returns a copy - the value passed in is not modified
+ */
+export function redact(value: unknown, key = '', depth = 0): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  if (key && isSecretField(key, value)) {
+    return REDACTED;
+  }
+
+  if (typeof value === 'string') {
+    return key && PHONE_KEY.test(key) ? maskPhone(value) : redactString(value);
+  }
+
+  if (typeof value !== 'object') {
+    return value;
+  }
+
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+
+  if (value instanceof Error) {
+    return serializeError(value, depth);
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, key, depth + 1));
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, redact(item, name, depth + 1)]));
+}
+
+/**
+ * Redact tokens and mask phone numbers inside free text
+ */
+export function redactString(text: string): string {
+  return text
+    .replace(JWT_PATTERN, REDACTED)
+    .replace(PHONE_PATTERN, '***$1');
+}
+
+function write(level: LogLevel, message: string, fields?: LogFields): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(getMinLevel())) {
+    return;
+  }
+
+  const context = contextStorage.getStore();
+  const entry = {
+    timestamp: new Date().toISOString(),
+    level,
+    message: redactString(message),
+    ...(context?.requestId && { requestId: context.requestId }),
+    ...(context?.functionName && { functionName: context.functionName }),
+    ...(fields && redact(fields) as LogFields)
+  };
+
+  // console.* is still the transport - Lambda ships stdout/stderr to CloudWatch
+  const line = JSON.stringify(entry);
+
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Errors do not serialise to JSON - keep name, message, code and stack
+ * AWS SDK errors carry the service's error name; messages may quote input
+ */
+function serializeError(error: Error, depth: number): Record<string, unknown> {
+  const { code, statusCode, failures } = error as Error & { code?: unknown; statusCode?: unknown; failures?: unknown };
+
+  return {
+    name: error.name,
+    message: redactString(error.message),
+    ...(code !== undefined && { code: redact(code, 'code', depth + 1) }),
+    ...(statusCode !== undefined && { statusCode }),
+    ...(failures !== undefined && { failures: redact(failures, 'failures', depth + 1) }),
+    ...(error.stack && { stack: redactString(error.stack) })
+  };
+}
+
+function isSecretField(key: string, value: unknown): boolean {
+  if (SECRET_KEY.test(key)) {
+    return true;
+  }
+
+  return CODE_KEY.test(key) && (typeof value === 'number' || (typeof value === 'string' && OTP_VALUE.test(value)));
+}
+
+/**
+ * Last 4 digits only - same shape as maskPhoneNumber in otp-delivery.ts
+ * Already-masked values pass through unchanged
+ */
+function maskPhone(value: string): string {
+  if (value.startsWith('***')) {
+    return value;
+  }
+
+  const digits = value.replace(/\D/g, '');
+  return digits ? `***${digits.slice(-4)}` : value;
+}
+
+/**
+ * LOG_LEVEL is read per entry so tests and the local server can change it at runtime
+ */
+function getMinLevel(): LogLevel {
+  const level = (process.env.LOG_LEVEL || 'info').toLowerCase();
+  return (LOG_LEVELS as readonly string[]).includes(level) ? level as LogLevel : 'info';
+}
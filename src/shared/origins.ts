@@ -0,0 +1,88 @@
+/**
+ * Origin Allowlist
+ * Matches request origins against ALLOWED_ORIGINS for CORS and CSRF checks
+ *
+ * Supported patterns (comma-separated):
+ * - https://app.example.com       exact origin
+ * - https://*.example.com         any subdomain (not the apex domain)
+ * - http://localhost:*            any port
+ * - *                             any origin (ignored in prod)
+ */
+
+import { logger } from './logger';
+
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+
+const PATTERN_FORMAT = /^(https?):\/\/(\*\.)?([a-z0-9.-]+)(?::(\d+|\*))?$/i;
+
+// Types
+export interface OriginPattern {
+  pattern: string;
+  matcher: RegExp;
+}
+
+const ALLOWED_ORIGINS = parseOriginPatterns(process.env.ALLOWED_ORIGINS || '');
+
+/**
+ * Parse a comma-separated allowlist into matchers
+ * Invalid entries are skipped with a warning rather than failing cold start
+ */
+export function parseOriginPatterns(spec: string): OriginPattern[] {
+  return spec
+    .split(',')
+    .map(entry => entry.trim().replace(/\/+$/, ''))
+    .filter(Boolean)
+    .map(toOriginPattern)
+    .filter((pattern): pattern is OriginPattern => pattern !== null);
+}
+
+/**
+ * Check whether any allowlist is configured
+ */
+export function hasOriginAllowlist(patterns: OriginPattern[] = ALLOWED_ORIGINS): boolean {
+  return patterns.length > 0;
+}
+
+/**
+ * Check an origin (scheme://host[:port]) against the allowlist
+ */
+export function isOriginAllowed(origin: string, patterns: OriginPattern[] = ALLOWED_ORIGINS): boolean {
+  const normalized = origin.trim().replace(/\/+$/, '').toLowerCase();
+
+  return patterns.some(pattern => pattern.matcher.test(normalized));
+}
+
+function toOriginPattern(entry: string): OriginPattern | null {
+  if (entry === '*') {
+    if (ENVIRONMENT === 'prod') {
+      logger.warn('Ignoring wildcard "*" in ALLOWED_ORIGINS for prod');
+      return null;
+    }
+    return { pattern: entry, matcher: /^https?:\/\/[^/]+$/ };
+  }
+
+  const match = PATTERN_FORMAT.exec(entry);
+
+  if (!match) {
+    logger.warn('Ignoring invalid ALLOWED_ORIGINS entry', { entry });
+    return null;
+  }
+
+  const [, scheme, subdomainWildcard, host, port] = match;
+
+  const source = [
+    '^',
+    escapeRegExp(scheme.toLowerCase()),
+    ':\\/\\/',
+    subdomainWildcard ? '([a-z0-9-]+\\.)+' : '',
+    escapeRegExp(host.toLowerCase()),
+    port === '*' ? '(:\\d+)?' : port ? `:${port}` : '',
+    '$'
+  ].join('');
+
+  return { pattern: entry, matcher: new RegExp(source) };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
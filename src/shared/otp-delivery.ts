@@ -0,0 +1,335 @@
+/**
+ * OTP Delivery
+ * Pluggable channels for sending one-time passcodes (SMS, email, WhatsApp,
+ * local sink) with ordered fallback when a channel fails. Invitation links
+ * (src/shared/invitations.ts) go out the same way
+ */
+
+import { appendFile } from 'fs/promises';
+import { SNSClient, PublishCommand } from '@aws-sdk/client-sns';
+import { SESv2Client, SendEmailCommand } from '@aws-sdk/client-sesv2';
+import axios from 'axios';
+import { logger } from './logger';
+
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+const OTP_DEFAULT_CHANNEL = process.env.OTP_DEFAULT_CHANNEL || 'sms';
+const OTP_FALLBACK_CHANNEL = process.env.OTP_FALLBACK_CHANNEL || '';
+const OTP_EMAIL_FROM = process.env.OTP_EMAIL_FROM || '';
+// Set by the local server only - deployed stacks never turn the sink on
+const OTP_SINK_ENABLED = process.env.OTP_SINK_ENABLED === 'true';
+const OTP_SINK_FILE = process.env.OTP_SINK_FILE || '';
+const WHATSAPP_PHONE_NUMBER_ID = process.env.WHATSAPP_PHONE_NUMBER_ID || '';
+const WHATSAPP_ACCESS_TOKEN = process.env.WHATSAPP_ACCESS_TOKEN || '';
+const WHATSAPP_TEMPLATE_NAME = process.env.WHATSAPP_TEMPLATE_NAME || 'otp_code';
+const WHATSAPP_INVITATION_TEMPLATE_NAME = process.env.WHATSAPP_INVITATION_TEMPLATE_NAME || 'company_invitation';
+
+// Types
+export const OTP_CHANNELS = ['sms', 'email', 'whatsapp', 'sink'] as const;
+export type OtpChannel = typeof OTP_CHANNELS[number];
+
+// Channels a request may ask for - the sink is only ever a configured default
+export const REQUESTABLE_OTP_CHANNELS = ['sms', 'email', 'whatsapp'] as const;
+
+export interface OtpRecipient {
+  phoneNumber?: string;
+  email?: string;
+  emailVerified?: boolean;    // The user's email_verified attribute
+  verifiesEmail?: boolean;    // The code confirms this (not yet verified) address
+}
+
+export interface OtpMessage {
+  code: string;                // Empty for invitations
+  ttlSeconds: number;
+  invitation?: {               // Sends an invitation link instead of a code
+    company: string;
+    url: string;
+  };
+}
+
+export interface OtpDeliveryResult {
+  channel: OtpChannel;
+  destination: string;  // Masked, safe to return to the client
+}
+
+/**
+ * A channel capable of delivering a code to a recipient
+ */
+export interface OtpDeliveryProvider {
+  readonly channel: OtpChannel;
+  canDeliver(recipient: OtpRecipient): boolean;
+  send(recipient: OtpRecipient, message: OtpMessage): Promise<void>;
+  mask(recipient: OtpRecipient): string;
+}
+
+/**
+ * Raised when no channel could deliver the code
+ */
+export class OtpDeliveryError extends Error {
+  constructor(public readonly failures: Array<{ channel: OtpChannel; reason: string }>) {
+    super(`OTP delivery failed on all channels: ${failures.map(f => `${f.channel} (${f.reason})`).join(', ')}`);
+    this.name = 'OtpDeliveryError';
+  }
+}
+
+/**
+ * SMS via Amazon SNS
+ */
+export class SnsSmsProvider implements OtpDeliveryProvider {
+  readonly channel = 'sms' as const;
+  private readonly client = new SNSClient({});
+
+  canDeliver(recipient: OtpRecipient): boolean {
+    return Boolean(recipient.phoneNumber);
+  }
+
+  async send(recipient: OtpRecipient, message: OtpMessage): Promise<void> {
+    await this.client.send(new PublishCommand({
+      Message: formatOtpText(message),
+      PhoneNumber: recipient.phoneNumber,
+      MessageAttributes: {
+        'AWS.SNS.SMS.SMSType': { DataType: 'String', StringValue: 'Transactional' }
+      }
+    }));
+  }
+
+  mask(recipient: OtpRecipient): string {
+    return maskPhoneNumber(recipient.phoneNumber || '');
+  }
+}
+
+/**
+ * Email via Amazon SES (uses the user's email attribute)
+ */
+export class SesEmailProvider implements OtpDeliveryProvider {
+  readonly channel = 'email' as const;
+  private readonly client = new SESv2Client({});
+
+  canDeliver(recipient: OtpRecipient): boolean {
+    return canEmail(recipient) && Boolean(OTP_EMAIL_FROM);
+  }
+
+  async send(recipient: OtpRecipient, message: OtpMessage): Promise<void> {
+    await this.client.send(new SendEmailCommand({
+      FromEmailAddress: OTP_EMAIL_FROM,
+      Destination: { ToAddresses: [recipient.email!] },
+      Content: {
+        Simple: {
+          Subject: { Data: message.invitation ? `You're invited to join ${message.invitation.company} on WyzeSecure` : 'Your WyzeSecure verification code' },
+          Body: { Text: { Data: formatOtpText(message) } }
+        }
+      }
+    }));
+  }
+
+  mask(recipient: OtpRecipient): string {
+    return maskEmail(recipient.email || '');
+  }
+}
+
+/**
+ * WhatsApp via the Meta Cloud API (authentication template message)
+ */
+export class WhatsAppProvider implements OtpDeliveryProvider {
+  readonly channel = 'whatsapp' as const;
+
+  canDeliver(recipient: OtpRecipient): boolean {
+    return Boolean(recipient.phoneNumber && WHATSAPP_PHONE_NUMBER_ID && WHATSAPP_ACCESS_TOKEN);
+  }
+
+  async send(recipient: OtpRecipient, message: OtpMessage): Promise<void> {
+    await axios.post(
+      `https://graph.facebook.com/v20.0/${WHATSAPP_PHONE_NUMBER_ID}/messages`,
+      {
+        messaging_product: 'whatsapp',
+        to: recipient.phoneNumber!.replace(/^\+/, ''),
+        type: 'template',
+        template: message.invitation ? {
+          name: WHATSAPP_INVITATION_TEMPLATE_NAME,
+          language: { code: 'en' },
+          components: [
+            {
+              type: 'body',
+              parameters: [
+                { type: 'text', text: message.invitation.company },
+                { type: 'text', text: message.invitation.url }
+              ]
+            }
+          ]
+        } : {
+          name: WHATSAPP_TEMPLATE_NAME,
+          language: { code: 'en' },
+          components: [
+            { type: 'body', parameters: [{ type: 'text', text: message.code }] },
+            {
+              type: 'button',
+              sub_type: 'url',
+              index: '0',
+              parameters: [{ type: 'text', text: message.code }]
+            }
+          ]
+        }
+      },
+      {
+        headers: { Authorization: `Bearer ${WHATSAPP_ACCESS_TOKEN}` },
+        timeout: 5000
+      }
+    );
+  }
+
+  mask(recipient: OtpRecipient): string {
+    return maskPhoneNumber(recipient.phoneNumber || '');
+  }
+}
+
+/**
+ * Local development sink - writes codes to the console and optionally a file
+ * Only available with OTP_SINK_ENABLED=true (set by src/local), never in prod
+ */
+export class SinkProvider implements OtpDeliveryProvider {
+  readonly channel = 'sink' as const;
+
+  canDeliver(recipient: OtpRecipient): boolean {
+    return OTP_SINK_ENABLED && ENVIRONMENT !== 'prod' && Boolean(recipient.phoneNumber || canEmail(recipient));
+  }
+
+  async send(recipient: OtpRecipient, message: OtpMessage): Promise<void> {
+    const entry = {
+      timestamp: new Date().toISOString(),
+      recipient: recipient.phoneNumber || recipient.email,
+      ...(message.invitation ? { invitation: message.invitation.url } : { code: message.code })
+    };
+
+    // The sink is the delivery channel itself (local server only) - it bypasses the redacting logger
+    console.log('[otp-sink]', JSON.stringify(entry));
+
+    if (OTP_SINK_FILE) {
+      await appendFile(OTP_SINK_FILE, `${JSON.stringify(entry)}\n`);
+    }
+  }
+
+  mask(recipient: OtpRecipient): string {
+    return recipient.phoneNumber ? maskPhoneNumber(recipient.phoneNumber) : maskEmail(recipient.email || '');
+  }
+}
+
+let providers: Record<OtpChannel, OtpDeliveryProvider> | null = null;
+
+function getProviders(): Record<OtpChannel, OtpDeliveryProvider> {
+  if (!providers) {
+    providers = {
+      sms: new SnsSmsProvider(),
+      email: new SesEmailProvider(),
+      whatsapp: new WhatsAppProvider(),
+      sink: new SinkProvider()
+    };
+  }
+
+  return providers;
+}
+
+/**
+ * Replace the provider for a channel (local development and tests)
+ */
+export function setOtpDeliveryProvider(provider: OtpDeliveryProvider): void {
+  getProviders()[provider.channel] = provider;
+}
+
+/**
+ * Check whether a value names a known channel
+ */
+export function isOtpChannel(value: unknown): value is OtpChannel {
+  return typeof value === 'string' && (OTP_CHANNELS as readonly string[]).includes(value);
+}
+
+/**
+ * Decide the channel order for a delivery
+ * Request parameter wins over the user's stored preference, which wins over
+ * the environment default; the configured fallback is always tried last
+ */
+export function resolveChannels(requested?: string, preferred?: string): OtpChannel[] {
+  const candidates = [requested, preferred, OTP_DEFAULT_CHANNEL];
+  const primary = candidates.find(isOtpChannel) || 'sms';
+  const channels: OtpChannel[] = [primary];
+
+  if (isOtpChannel(OTP_FALLBACK_CHANNEL) && OTP_FALLBACK_CHANNEL !== primary) {
+    channels.push(OTP_FALLBACK_CHANNEL);
+  }
+
+  return channels;
+}
+
+/**
+ * Send a code over the first channel that succeeds
+ * Throws OtpDeliveryError (never swallows) when every channel fails
+ */
+export async function deliverOtp(
+  recipient: OtpRecipient,
+  message: OtpMessage,
+  channels: OtpChannel[]
+): Promise<OtpDeliveryResult> {
+  const failures: Array<{ channel: OtpChannel; reason: string }> = [];
+
+  for (const channel of channels) {
+    const provider = getProviders()[channel];
+
+    if (!provider.canDeliver(recipient)) {
+      failures.push({ channel, reason: 'not available for recipient' });
+      continue;
+    }
+
+    try {
+      await provider.send(recipient, message);
+      return { channel, destination: provider.mask(recipient) };
+    } catch (error) {
+      logger.error('OTP delivery failed', { channel, error });
+      failures.push({ channel, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  throw new OtpDeliveryError(failures);
+}
+
+/**
+ * What deliverOtp would report if its first possible send succeeded, or null
+ * when no channel can reach the recipient - nothing is sent
+ */
+export function previewDelivery(recipient: OtpRecipient, channels: OtpChannel[]): OtpDeliveryResult | null {
+  const channel = channels.find(candidate => getProviders()[candidate].canDeliver(recipient));
+  return channel ? { channel, destination: getProviders()[channel].mask(recipient) } : null;
+}
+
+/**
+ * Email is only used for verified addresses - anyone holding a session can
+ * set the email attribute, so an unverified one must never receive sign-in codes
+ */
+export function canEmail(recipient: OtpRecipient): boolean {
+  return Boolean(recipient.email && (recipient.emailVerified || recipient.verifiesEmail));
+}
+
+/**
+ * Helper: Message body shared by text-based channels
+ */
+function formatOtpText(message: OtpMessage): string {
+  if (message.invitation) {
+    const hours = Math.max(1, Math.round(message.ttlSeconds / 3600));
+    return `You've been invited to join ${message.invitation.company} on WyzeSecure. Accept within ${hours} hours: ${message.invitation.url}`;
+  }
+
+  const minutes = Math.max(1, Math.round(message.ttlSeconds / 60));
+  return `Your WyzeSecure verification code is: ${message.code}. This code expires in ${minutes} minutes.`;
+}
+
+/**
+ * Helper: Mask a phone number to its last 4 digits
+ */
+export function maskPhoneNumber(phoneNumber: string): string {
+  return phoneNumber.length > 4 ? `***${phoneNumber.slice(-4)}` : '***';
+}
+
+/**
+ * Helper: Mask an email address to its first character and domain
+ */
+export function maskEmail(email: string): string {
+  const [local, domain] = email.split('@');
+  return domain ? `${local.charAt(0)}***@${domain}` : '***';
+}
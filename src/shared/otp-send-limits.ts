@@ -0,0 +1,67 @@
+/**
+ * OTP Send Limits
+ * Caps enforced by create-auth-challenge on every code it delivers, so a
+ * CUSTOM_AUTH flow started straight against Cognito (the app client is
+ * public) cannot send more codes than the auth lambda's routes allow
+ */
+
+import { consumeRateLimit, getRateLimitStore, parseRateLimitRule, RateLimitResult, RateLimitRule } from './rate-limiter';
+import { SignInReason } from './sign-in-attempts';
+
+// Own counters, so sends already counted by the auth lambda are not counted twice
+const DELIVERY_RULE = parseRateLimitRule('otp-delivery-phone', process.env.RATE_LIMIT_PER_PHONE, '5/900');
+
+// Half the resend cooldown: the sliding window can still weigh a send made
+// one window ago, so a /resend-otp allowed after the full cooldown is never refused
+const INTERVAL_RULE: RateLimitRule = {
+  name: 'otp-delivery-interval',
+  limit: 1,
+  windowSeconds: Math.max(1, Math.floor(parseInt(process.env.RESEND_OTP_COOLDOWN_SECONDS || '60', 10) / 2))
+};
+
+// Challenges for a user who just signed in (deleting the account, changing the
+// number) follow a sign-in code within seconds - only the per-number cap applies
+const SIGNED_IN_REASONS: SignInReason[] = ['phone-change', 'step-up'];
+
+const LIMITED_MESSAGE = /OTP send limit reached, retry after (\d+)s/;
+
+/**
+ * Raised by create-auth-challenge when a send would exceed a limit
+ * Cognito wraps it in a UserLambdaValidationException with this message
+ */
+export class OtpSendLimitError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super(`OTP send limit reached, retry after ${retryAfterSeconds}s`);
+    this.name = 'OtpSendLimitError';
+  }
+}
+
+/**
+ * Count a delivery against the per-number window and, for sign-in codes, the minimum interval
+ * reason comes from the sign-in attempt - a flow started outside the auth lambda has none
+ * Returns the longest exceeded limit, or null when the code may be sent
+ */
+export async function enforceOtpSendLimits(recipient: string, reason?: SignInReason): Promise<RateLimitResult | null> {
+  const store = getRateLimitStore();
+  const rules = reason && SIGNED_IN_REASONS.includes(reason) ? [DELIVERY_RULE] : [DELIVERY_RULE, INTERVAL_RULE];
+  const results = await Promise.all(rules.map(rule => consumeRateLimit(store, rule, recipient)));
+
+  const exceeded = results.filter(result => !result.allowed);
+
+  if (exceeded.length === 0) {
+    return null;
+  }
+
+  return exceeded.reduce((longest, result) =>
+    result.retryAfterSeconds > longest.retryAfterSeconds ? result : longest
+  );
+}
+
+/**
+ * Seconds to wait when a Cognito error message carries an OtpSendLimitError
+ * Returns null for any other message
+ */
+export function parseOtpSendLimit(message: string): number | null {
+  const match = LIMITED_MESSAGE.exec(message);
+  return match ? parseInt(match[1], 10) : null;
+}
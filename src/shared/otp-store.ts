@@ -0,0 +1,329 @@
+/**
+ * OTP Store
+ * Server-side storage for one-time passcodes
+ * Codes are kept hashed with an expiry, a consumed flag and an attempt counter
+ * so they never need to travel through the Cognito session
+ */
+
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { GetCommand, PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { getDocumentClient, isConditionalCheckFailed } from './dynamo';
+import { logger } from './logger';
+
+const OTP_TABLE_NAME = process.env.OTP_TABLE_NAME || '';
+const OTP_TTL_SECONDS = parseInt(process.env.OTP_TTL_SECONDS || '300', 10);
+const OTP_MAX_ATTEMPTS = parseInt(process.env.OTP_MAX_ATTEMPTS || '3', 10);
+
+// Types
+export interface OtpRecord {
+  userName: string;      // Partition key - Cognito username
+  challengeId: string;   // Sort key - one per issued code
+  codeHash: string;
+  salt: string;
+  createdAt: number;     // Epoch milliseconds
+  expiresAt: number;     // Epoch seconds (also the DynamoDB TTL attribute)
+  consumed: boolean;
+  attempts: number;
+  subject?: string;      // What the code confirms when it is not a sign-in (e.g. a new phone number)
+}
+
+export interface IssuedOtp {
+  challengeId: string;
+  code: string;
+  expiresAt: number;
+  ttlSeconds: number;
+}
+
+export type OtpVerificationResult =
+  | 'valid'
+  | 'invalid'
+  | 'expired'
+  | 'consumed'
+  | 'too_many_attempts'
+  | 'not_found';
+
+/**
+ * Storage backend for OTP records
+ */
+export interface OtpStore {
+  save(record: OtpRecord): Promise<void>;
+  get(userName: string, challengeId: string): Promise<OtpRecord | null>;
+  /**
+   * Count a guess against the code. Resolves false, without counting it, if
+   * the code is consumed or has already used up its attempts
+   */
+  recordAttempt(userName: string, challengeId: string, maxAttempts: number): Promise<boolean>;
+  /** Mark a code as used. Resolves false if it was already consumed. */
+  consume(userName: string, challengeId: string): Promise<boolean>;
+  /** Challenge IDs of the user's codes that are not consumed yet (expired ones included) */
+  listUnconsumed(userName: string): Promise<string[]>;
+}
+
+/**
+ * DynamoDB-backed OTP store (used in deployed environments)
+ */
+export class DynamoOtpStore implements OtpStore {
+  constructor(private readonly tableName: string) {}
+
+  async save(record: OtpRecord): Promise<void> {
+    await getDocumentClient().send(new PutCommand({
+      TableName: this.tableName,
+      Item: record
+    }));
+  }
+
+  async get(userName: string, challengeId: string): Promise<OtpRecord | null> {
+    const response = await getDocumentClient().send(new GetCommand({
+      TableName: this.tableName,
+      Key: { userName, challengeId },
+      ConsistentRead: true
+    }));
+
+    return (response.Item as OtpRecord) || null;
+  }
+
+  async recordAttempt(userName: string, challengeId: string, maxAttempts: number): Promise<boolean> {
+    try {
+      await getDocumentClient().send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { userName, challengeId },
+        UpdateExpression: 'ADD attempts :one',
+        ConditionExpression: 'attribute_exists(challengeId) AND attempts < :max AND consumed = :false',
+        ExpressionAttributeValues: { ':one': 1, ':max': maxAttempts, ':false': false }
+      }));
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async consume(userName: string, challengeId: string): Promise<boolean> {
+    try {
+      await getDocumentClient().send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { userName, challengeId },
+        UpdateExpression: 'SET consumed = :true',
+        ConditionExpression: 'attribute_exists(challengeId) AND consumed = :false',
+        ExpressionAttributeValues: { ':true': true, ':false': false }
+      }));
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async listUnconsumed(userName: string): Promise<string[]> {
+    const challengeIds: string[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const response = await getDocumentClient().send(new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: 'userName = :userName',
+        FilterExpression: 'consumed = :false',
+        ExpressionAttributeValues: { ':userName': userName, ':false': false },
+        ProjectionExpression: 'challengeId',
+        ConsistentRead: true,
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+
+      for (const item of response.Items || []) {
+        challengeIds.push(item.challengeId as string);
+      }
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return challengeIds;
+  }
+}
+
+/**
+ * In-memory OTP store (local development and tests)
+ */
+export class InMemoryOtpStore implements OtpStore {
+  private readonly records = new Map<string, OtpRecord>();
+
+  async save(record: OtpRecord): Promise<void> {
+    this.records.set(this.key(record.userName, record.challengeId), { ...record });
+  }
+
+  async get(userName: string, challengeId: string): Promise<OtpRecord | null> {
+    const record = this.records.get(this.key(userName, challengeId));
+    return record ? { ...record } : null;
+  }
+
+  async recordAttempt(userName: string, challengeId: string, maxAttempts: number): Promise<boolean> {
+    const record = this.records.get(this.key(userName, challengeId));
+    if (!record || record.consumed || record.attempts >= maxAttempts) {
+      return false;
+    }
+    record.attempts += 1;
+    return true;
+  }
+
+  async consume(userName: string, challengeId: string): Promise<boolean> {
+    const record = this.records.get(this.key(userName, challengeId));
+    if (!record || record.consumed) {
+      return false;
+    }
+    record.consumed = true;
+    return true;
+  }
+
+  async listUnconsumed(userName: string): Promise<string[]> {
+    return [...this.records.values()]
+      .filter(record => record.userName === userName && !record.consumed)
+      .map(record => record.challengeId);
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+
+  private key(userName: string, challengeId: string): string {
+    return `${userName}#${challengeId}`;
+  }
+}
+
+let defaultStore: OtpStore | null = null;
+
+/**
+ * Get the OTP store for this environment
+ * Uses DynamoDB when OTP_TABLE_NAME is set, otherwise an in-memory store
+ */
+export function getOtpStore(): OtpStore {
+  if (!defaultStore) {
+    if (OTP_TABLE_NAME) {
+      defaultStore = new DynamoOtpStore(OTP_TABLE_NAME);
+    } else {
+      logger.warn('OTP_TABLE_NAME not set - using in-memory OTP store');
+      defaultStore = new InMemoryOtpStore();
+    }
+  }
+
+  return defaultStore;
+}
+
+/**
+ * Replace the OTP store (local development and tests)
+ */
+export function setOtpStore(store: OtpStore): void {
+  defaultStore = store;
+}
+
+/**
+ * Generate a new 6-digit code, store its hash and return the plaintext
+ * The plaintext is only ever handed to the delivery channel. Codes issued
+ * earlier are invalidated first, so only the latest code sent can be used
+ */
+export async function issueOtp(
+  store: OtpStore,
+  userName: string,
+  ttlSeconds: number = OTP_TTL_SECONDS,
+  subject?: string
+): Promise<IssuedOtp> {
+  await invalidateOtps(store, userName);
+
+  const code = randomInt(100000, 1000000).toString();
+  const challengeId = randomBytes(16).toString('hex');
+  const salt = randomBytes(16).toString('hex');
+  const now = Date.now();
+  const expiresAt = Math.floor(now / 1000) + ttlSeconds;
+
+  await store.save({
+    userName,
+    challengeId,
+    codeHash: hashOtp(code, salt),
+    salt,
+    createdAt: now,
+    expiresAt,
+    consumed: false,
+    attempts: 0,
+    ...(subject ? { subject } : {})
+  });
+
+  return { challengeId, code, expiresAt, ttlSeconds };
+}
+
+/**
+ * Invalidate every outstanding code for a user (a new code was requested)
+ * Invalidated codes are marked consumed and verify as 'consumed'
+ */
+export async function invalidateOtps(store: OtpStore, userName: string): Promise<number> {
+  const challengeIds = await store.listUnconsumed(userName);
+  const results = await Promise.all(challengeIds.map(challengeId => store.consume(userName, challengeId)));
+
+  return results.filter(Boolean).length;
+}
+
+/**
+ * Check a submitted code against the stored record
+ * A matching code is consumed so it can never be used twice - unless consume
+ * is false, when the caller consumes it once its other checks have passed
+ */
+export async function verifyOtp(
+  store: OtpStore,
+  userName: string,
+  challengeId: string,
+  answer: string,
+  maxAttempts: number = OTP_MAX_ATTEMPTS,
+  consume: boolean = true
+): Promise<OtpVerificationResult> {
+  const record = await store.get(userName, challengeId);
+
+  if (!record) {
+    return 'not_found';
+  }
+
+  if (record.consumed) {
+    return 'consumed';
+  }
+
+  if (Math.floor(Date.now() / 1000) >= record.expiresAt) {
+    return 'expired';
+  }
+
+  if (record.attempts >= maxAttempts) {
+    return 'too_many_attempts';
+  }
+
+  // The record above may be stale by now: the conditional increment is what
+  // enforces the limit, so parallel guesses cannot all slip past the check
+  if (!await store.recordAttempt(userName, challengeId, maxAttempts)) {
+    return 'too_many_attempts';
+  }
+
+  if (!hashMatches(hashOtp(answer, record.salt), record.codeHash)) {
+    return 'invalid';
+  }
+
+  if (!consume) {
+    return 'valid';
+  }
+
+  // Conditional consume guards against two concurrent verifications
+  const consumed = await store.consume(userName, challengeId);
+  return consumed ? 'valid' : 'consumed';
+}
+
+/**
+ * Helper: Hash a code with its per-record salt
+ */
+function hashOtp(code: string, salt: string): string {
+  return createHash('sha256').update(`${salt}:${code}`).digest('hex');
+}
+
+/**
+ * Helper: Constant-time comparison of two hex digests
+ */
+function hashMatches(actual: string, expected: string): boolean {
+  const a = Buffer.from(actual, 'hex');
+  const b = Buffer.from(expected, 'hex');
+  return a.length === b.length && timingSafeEqual(a, b);
+}
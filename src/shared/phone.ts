@@ -0,0 +1,42 @@
+/**
+ * Phone Numbers
+ * Normalizes user-entered phone numbers to E.164, the format Cognito stores
+ * phone_number in. Numbers without a +country code are read in the
+ * DEFAULT_PHONE_REGION (ISO 3166 alpha-2, default: US)
+ */
+
+import { CountryCode, isSupportedCountry, parsePhoneNumberFromString } from 'libphonenumber-js';
+
+const DEFAULT_PHONE_REGION = (process.env.DEFAULT_PHONE_REGION || 'US').toUpperCase();
+
+/**
+ * Region used for national-format numbers
+ */
+export function getDefaultPhoneRegion(): CountryCode | undefined {
+  return isSupportedCountry(DEFAULT_PHONE_REGION) ? DEFAULT_PHONE_REGION : undefined;
+}
+
+/**
+ * Convert a phone number to E.164 (+447700900123)
+ * Accepts international and national formats with spaces, dashes, dots and
+ * brackets. Returns null for anything that is not a valid number
+ */
+export function normalizePhoneNumber(
+  input: string,
+  defaultRegion: CountryCode | undefined = getDefaultPhoneRegion()
+): string | null {
+  const trimmed = input.trim();
+
+  // Reject letters up front - the parser would otherwise map vanity numbers (1-800-FLOWERS)
+  if (!trimmed || /[a-z]/i.test(trimmed)) {
+    return null;
+  }
+
+  const parsed = parsePhoneNumberFromString(trimmed, defaultRegion);
+
+  if (!parsed || !parsed.isValid()) {
+    return null;
+  }
+
+  return parsed.number;
+}
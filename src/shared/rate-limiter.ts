@@ -0,0 +1,203 @@
+/**
+ * Rate Limiter
+ * Sliding window counters (weighted current + previous fixed window)
+ * backed by DynamoDB in deployed environments and memory locally
+ */
+
+import { GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { getDocumentClient } from './dynamo';
+import { logger } from './logger';
+
+const RATE_LIMIT_TABLE_NAME = process.env.RATE_LIMIT_TABLE_NAME || '';
+
+// Types
+export interface RateLimitRule {
+  name: string;           // Namespace for the counter, e.g. "send-otp-phone"
+  limit: number;          // Requests allowed per window
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;  // 0 when allowed
+}
+
+/**
+ * Storage backend for window counters
+ */
+export interface RateLimitStore {
+  /** Increment a window counter and return its new value */
+  increment(key: string, expiresAt: number): Promise<number>;
+  get(key: string): Promise<number>;
+}
+
+/**
+ * DynamoDB-backed counter store (used in deployed environments)
+ */
+export class DynamoRateLimitStore implements RateLimitStore {
+  constructor(private readonly tableName: string) {}
+
+  async increment(key: string, expiresAt: number): Promise<number> {
+    const response = await getDocumentClient().send(new UpdateCommand({
+      TableName: this.tableName,
+      Key: { key },
+      UpdateExpression: 'ADD #count :one SET expiresAt = :expiresAt',
+      ExpressionAttributeNames: { '#count': 'count' },
+      ExpressionAttributeValues: { ':one': 1, ':expiresAt': expiresAt },
+      ReturnValues: 'UPDATED_NEW'
+    }));
+
+    return Number(response.Attributes?.count || 0);
+  }
+
+  async get(key: string): Promise<number> {
+    const response = await getDocumentClient().send(new GetCommand({
+      TableName: this.tableName,
+      Key: { key }
+    }));
+
+    return Number(response.Item?.count || 0);
+  }
+}
+
+/**
+ * In-memory counter store (local development and tests)
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly counters = new Map<string, { count: number; expiresAt: number }>();
+
+  async increment(key: string, expiresAt: number): Promise<number> {
+    const counter = this.counters.get(key) || { count: 0, expiresAt };
+    counter.count += 1;
+    counter.expiresAt = expiresAt;
+    this.counters.set(key, counter);
+    return counter.count;
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+
+    if (!counter || counter.expiresAt <= Math.floor(Date.now() / 1000)) {
+      return 0;
+    }
+
+    return counter.count;
+  }
+
+  clear(): void {
+    this.counters.clear();
+  }
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+/**
+ * Get the rate limit store for this environment
+ * Uses DynamoDB when RATE_LIMIT_TABLE_NAME is set, otherwise an in-memory store
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!defaultStore) {
+    if (RATE_LIMIT_TABLE_NAME) {
+      defaultStore = new DynamoRateLimitStore(RATE_LIMIT_TABLE_NAME);
+    } else {
+      logger.warn('RATE_LIMIT_TABLE_NAME not set - using in-memory rate limit store');
+      defaultStore = new InMemoryRateLimitStore();
+    }
+  }
+
+  return defaultStore;
+}
+
+/**
+ * Replace the rate limit store (local development and tests)
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  defaultStore = store;
+}
+
+/**
+ * Count a request against a rule and report whether it is within the limit
+ * Every call is counted, so callers that keep hammering stay limited
+ */
+export async function consumeRateLimit(
+  store: RateLimitStore,
+  rule: RateLimitRule,
+  subject: string,
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  const windowMs = rule.windowSeconds * 1000;
+  const currentWindow = Math.floor(now / windowMs);
+  const elapsedFraction = (now % windowMs) / windowMs;
+
+  // Counters live for two windows so the next window can weight this one
+  const expiresAt = Math.floor(((currentWindow + 2) * windowMs) / 1000);
+
+  const [current, previous] = await Promise.all([
+    store.increment(windowKey(rule, subject, currentWindow), expiresAt),
+    store.get(windowKey(rule, subject, currentWindow - 1))
+  ]);
+
+  const estimated = previous * (1 - elapsedFraction) + current;
+
+  if (estimated <= rule.limit) {
+    return {
+      allowed: true,
+      limit: rule.limit,
+      remaining: Math.max(0, Math.floor(rule.limit - estimated)),
+      retryAfterSeconds: 0
+    };
+  }
+
+  return {
+    allowed: false,
+    limit: rule.limit,
+    remaining: 0,
+    retryAfterSeconds: computeRetryAfter(rule, current, previous, elapsedFraction)
+  };
+}
+
+/**
+ * Parse a rule from a "limit/windowSeconds" string, e.g. "5/900"
+ * Falls back to the default spec when the value is missing or malformed
+ */
+export function parseRateLimitRule(name: string, spec: string | undefined, fallback: string): RateLimitRule {
+  const match = /^(\d+)\/(\d+)$/.exec((spec || '').trim()) || /^(\d+)\/(\d+)$/.exec(fallback);
+
+  if (!match) {
+    throw new Error(`Invalid rate limit spec for ${name}: ${spec}`);
+  }
+
+  return {
+    name,
+    limit: parseInt(match[1], 10),
+    windowSeconds: parseInt(match[2], 10)
+  };
+}
+
+/**
+ * Helper: Seconds until the weighted estimate drops back under the limit
+ */
+function computeRetryAfter(
+  rule: RateLimitRule,
+  current: number,
+  previous: number,
+  elapsedFraction: number
+): number {
+  let waitFraction: number;
+
+  if (current <= rule.limit && previous > 0) {
+    // Previous window's weight decays enough within this window
+    waitFraction = (1 - (rule.limit - current) / previous) - elapsedFraction;
+  } else {
+    // Wait for this window to roll over and decay as the previous one
+    waitFraction = (1 - elapsedFraction) + Math.max(0, 1 - rule.limit / current);
+  }
+
+  return Math.max(1, Math.ceil(waitFraction * rule.windowSeconds));
+}
+
+function windowKey(rule: RateLimitRule, subject: string, window: number): string {
+  return `${rule.name}#${subject}#${window}`;
+}
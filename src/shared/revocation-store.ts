@@ -0,0 +1,155 @@
+/**
+ * Revocation Store
+ * Small deny-list consulted by the authorizer so signed-out tokens stop
+ * working before they expire
+ *
+ * Two kinds of entries:
+ * - user#<sub>        every token issued at or before revokedAt (sign out all devices)
+ * - origin#<jti>      every token minted from one refresh token (single device logout)
+ */
+
+import { BatchGetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { getDocumentClient } from './dynamo';
+import { logger } from './logger';
+
+const REVOCATION_TABLE_NAME = process.env.REVOCATION_TABLE_NAME || '';
+
+// Entries only need to outlive the longest-lived ID/access token (60 minutes)
+const REVOCATION_TTL_SECONDS = parseInt(process.env.REVOCATION_TTL_SECONDS || '86400', 10);
+
+// Types
+export interface RevocationEntry {
+  subject: string;     // Partition key - "user#<sub>" or "origin#<origin_jti>"
+  revokedAt: number;   // Epoch seconds
+  expiresAt: number;   // Epoch seconds (DynamoDB TTL attribute)
+}
+
+export interface RevocableToken {
+  sub: string;
+  iat: number;
+  origin_jti?: string;
+}
+
+/**
+ * Storage backend for revocation entries
+ */
+export interface RevocationStore {
+  put(entry: RevocationEntry): Promise<void>;
+  getMany(subjects: string[]): Promise<RevocationEntry[]>;
+}
+
+/**
+ * DynamoDB-backed revocation store (used in deployed environments)
+ */
+export class DynamoRevocationStore implements RevocationStore {
+  constructor(private readonly tableName: string) {}
+
+  async put(entry: RevocationEntry): Promise<void> {
+    await getDocumentClient().send(new PutCommand({
+      TableName: this.tableName,
+      Item: entry
+    }));
+  }
+
+  async getMany(subjects: string[]): Promise<RevocationEntry[]> {
+    const response = await getDocumentClient().send(new BatchGetCommand({
+      RequestItems: {
+        [this.tableName]: {
+          Keys: subjects.map(subject => ({ subject }))
+        }
+      }
+    }));
+
+    return (response.Responses?.[this.tableName] || []) as RevocationEntry[];
+  }
+}
+
+/**
+ * In-memory revocation store (local development and tests)
+ */
+export class InMemoryRevocationStore implements RevocationStore {
+  private readonly entries = new Map<string, RevocationEntry>();
+
+  async put(entry: RevocationEntry): Promise<void> {
+    this.entries.set(entry.subject, { ...entry });
+  }
+
+  async getMany(subjects: string[]): Promise<RevocationEntry[]> {
+    const now = Math.floor(Date.now() / 1000);
+
+    return subjects
+      .map(subject => this.entries.get(subject))
+      .filter((entry): entry is RevocationEntry => Boolean(entry && entry.expiresAt > now));
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+let defaultStore: RevocationStore | null = null;
+
+/**
+ * Get the revocation store for this environment
+ * Uses DynamoDB when REVOCATION_TABLE_NAME is set, otherwise an in-memory store
+ */
+export function getRevocationStore(): RevocationStore {
+  if (!defaultStore) {
+    if (REVOCATION_TABLE_NAME) {
+      defaultStore = new DynamoRevocationStore(REVOCATION_TABLE_NAME);
+    } else {
+      logger.warn('REVOCATION_TABLE_NAME not set - using in-memory revocation store');
+      defaultStore = new InMemoryRevocationStore();
+    }
+  }
+
+  return defaultStore;
+}
+
+/**
+ * Replace the revocation store (local development and tests)
+ */
+export function setRevocationStore(store: RevocationStore): void {
+  defaultStore = store;
+}
+
+/**
+ * Revoke every token issued to a user up to now (sign out all devices)
+ */
+export async function revokeUserTokens(store: RevocationStore, sub: string): Promise<void> {
+  await store.put(createEntry(`user#${sub}`));
+}
+
+/**
+ * Revoke the tokens minted from a single refresh token (this device only)
+ */
+export async function revokeOriginTokens(store: RevocationStore, originJti: string): Promise<void> {
+  await store.put(createEntry(`origin#${originJti}`));
+}
+
+/**
+ * Check a verified token against the revocation list
+ */
+export async function isTokenRevoked(store: RevocationStore, token: RevocableToken): Promise<boolean> {
+  const subjects = [`user#${token.sub}`];
+
+  if (token.origin_jti) {
+    subjects.push(`origin#${token.origin_jti}`);
+  }
+
+  const entries = await store.getMany(subjects);
+
+  return entries.some(entry =>
+    entry.subject.startsWith('origin#') || token.iat <= entry.revokedAt
+  );
+}
+
+function createEntry(subject: string): RevocationEntry {
+  const now = Math.floor(Date.now() / 1000);
+
+  return {
+    subject,
+    revokedAt: now,
+    expiresAt: now + REVOCATION_TTL_SECONDS
+  };
+}
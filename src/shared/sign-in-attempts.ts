@@ -0,0 +1,158 @@
+/**
+ * Sign-in Attempts
+ * What the auth lambda knows about a sign-in it starts (the requested OTP
+ * channel, a challenge it issued itself and the caller's IP and user agent)
+ * kept server-side for the challenge triggers
+ *
+ * AdminInitiateAuth only forwards ClientMetadata to the pre-signup,
+ * pre-authentication and user-migration triggers, so the challenge triggers
+ * of the first step cannot receive it from the request. Entries are keyed by
+ * the USERNAME the auth lambda passed (E.164 number or Cognito username)
+ */
+
+import { BatchGetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { getDocumentClient } from './dynamo';
+import { logger } from './logger';
+import { OtpChannel } from './otp-delivery';
+
+const SIGN_IN_ATTEMPT_TABLE_NAME = process.env.SIGN_IN_ATTEMPT_TABLE_NAME || '';
+
+// Long enough for a whole sign-in: the 3 minute Cognito session plus retries
+const SIGN_IN_ATTEMPT_TTL_SECONDS = 900;
+
+// Types
+// Auth lambda route that started the sign-in - phone-change and step-up run for a signed-in user
+export type SignInReason = 'register' | 'send-otp' | 'resend-otp' | 'phone-change' | 'step-up';
+
+export interface SignInAttempt {
+  username: string;      // Partition key - USERNAME passed to AdminInitiateAuth
+  reason?: SignInReason;
+  channel?: OtpChannel;  // Requested delivery channel
+  challengeId?: string;  // OTP the auth lambda issued and answers itself - nothing is sent
+  sourceIp?: string;     // Caller details for the audit log
+  userAgent?: string;
+  createdAt: number;     // Epoch milliseconds
+  expiresAt: number;     // Epoch seconds (DynamoDB TTL attribute)
+}
+
+/**
+ * Storage backend for sign-in attempts
+ */
+export interface SignInAttemptStore {
+  put(attempt: SignInAttempt): Promise<void>;
+  getMany(usernames: string[]): Promise<SignInAttempt[]>;
+}
+
+/**
+ * DynamoDB-backed sign-in attempt store (used in deployed environments)
+ */
+export class DynamoSignInAttemptStore implements SignInAttemptStore {
+  constructor(private readonly tableName: string) {}
+
+  async put(attempt: SignInAttempt): Promise<void> {
+    await getDocumentClient().send(new PutCommand({
+      TableName: this.tableName,
+      Item: attempt
+    }));
+  }
+
+  async getMany(usernames: string[]): Promise<SignInAttempt[]> {
+    const response = await getDocumentClient().send(new BatchGetCommand({
+      RequestItems: {
+        [this.tableName]: {
+          Keys: usernames.map(username => ({ username })),
+          ConsistentRead: true
+        }
+      }
+    }));
+
+    // TTL deletion lags - expired entries can still be read
+    const now = Math.floor(Date.now() / 1000);
+    return ((response.Responses?.[this.tableName] || []) as SignInAttempt[]).filter(attempt => attempt.expiresAt > now);
+  }
+}
+
+/**
+ * In-memory sign-in attempt store (local development and tests)
+ */
+export class InMemorySignInAttemptStore implements SignInAttemptStore {
+  private readonly attempts = new Map<string, SignInAttempt>();
+
+  async put(attempt: SignInAttempt): Promise<void> {
+    this.attempts.set(attempt.username, { ...attempt });
+  }
+
+  async getMany(usernames: string[]): Promise<SignInAttempt[]> {
+    const now = Math.floor(Date.now() / 1000);
+
+    return usernames
+      .map(username => this.attempts.get(username))
+      .filter((attempt): attempt is SignInAttempt => Boolean(attempt && attempt.expiresAt > now))
+      .map(attempt => ({ ...attempt }));
+  }
+
+  clear(): void {
+    this.attempts.clear();
+  }
+}
+
+let defaultStore: SignInAttemptStore | null = null;
+
+/**
+ * Get the sign-in attempt store for this environment
+ * Uses DynamoDB when SIGN_IN_ATTEMPT_TABLE_NAME is set, otherwise an in-memory store
+ */
+export function getSignInAttemptStore(): SignInAttemptStore {
+  if (!defaultStore) {
+    if (SIGN_IN_ATTEMPT_TABLE_NAME) {
+      defaultStore = new DynamoSignInAttemptStore(SIGN_IN_ATTEMPT_TABLE_NAME);
+    } else {
+      logger.warn('SIGN_IN_ATTEMPT_TABLE_NAME not set - using in-memory sign-in attempt store');
+      defaultStore = new InMemorySignInAttemptStore();
+    }
+  }
+
+  return defaultStore;
+}
+
+/**
+ * Replace the sign-in attempt store (local development and tests)
+ */
+export function setSignInAttemptStore(store: SignInAttemptStore): void {
+  defaultStore = store;
+}
+
+/**
+ * Record a sign-in the auth lambda is about to start
+ * Replaces any earlier attempt for the same USERNAME
+ */
+export async function saveSignInAttempt(
+  store: SignInAttemptStore,
+  username: string,
+  details: Pick<SignInAttempt, 'reason' | 'channel' | 'challengeId' | 'sourceIp' | 'userAgent'>
+): Promise<void> {
+  const now = Date.now();
+
+  await store.put({
+    username,
+    ...details,
+    createdAt: now,
+    expiresAt: Math.floor(now / 1000) + SIGN_IN_ATTEMPT_TTL_SECONDS
+  });
+}
+
+/**
+ * The latest attempt saved under any of the user's names, or null
+ * Triggers pass the Cognito username and the phone number - the auth lambda
+ * starts sign-ins with either
+ */
+export async function findSignInAttempt(store: SignInAttemptStore, usernames: Array<string | undefined>): Promise<SignInAttempt | null> {
+  const keys = Array.from(new Set(usernames.filter((username): username is string => Boolean(username))));
+
+  if (keys.length === 0) {
+    return null;
+  }
+
+  const attempts = await store.getMany(keys);
+  return attempts.sort((a, b) => b.createdAt - a.createdAt)[0] || null;
+}
@@ -0,0 +1,76 @@
+/**
+ * Token Source Chain
+ * Finds the caller's token in (order of precedence):
+ * 1. Authorization: Bearer <token> header (mobile apps, server-to-server)
+ * 2. idToken cookie (browsers)
+ * 3. access_token query parameter (websocket handshakes, opt-in only)
+ */
+
+import { getHeader, RequestHeaders } from './headers';
+import { readCookie } from './cookies';
+
+export type TokenSourceName = 'header' | 'cookie' | 'query';
+
+export interface ExtractedToken {
+  token: string;
+  source: TokenSourceName;
+}
+
+export interface TokenRequest {
+  headers?: RequestHeaders;
+  queryStringParameters?: { [name: string]: string | undefined } | null;
+}
+
+export interface TokenSourceOptions {
+  allowQuery?: boolean;   // Browsers can't set headers on websocket upgrades
+  cookieName?: string;    // Default: idToken
+  queryParam?: string;    // Default: access_token
+}
+
+type TokenSource = (request: TokenRequest, options: Required<TokenSourceOptions>) => string | null;
+
+const TOKEN_SOURCES: Array<[TokenSourceName, TokenSource]> = [
+  ['header', fromAuthorizationHeader],
+  ['cookie', fromCookie],
+  ['query', fromQueryParameter]
+];
+
+/**
+ * Extract the first token found in the source chain
+ */
+export function extractToken(request: TokenRequest, options: TokenSourceOptions = {}): ExtractedToken | null {
+  const resolved: Required<TokenSourceOptions> = {
+    allowQuery: options.allowQuery === true,
+    cookieName: options.cookieName || 'idToken',
+    queryParam: options.queryParam || 'access_token'
+  };
+
+  for (const [source, read] of TOKEN_SOURCES) {
+    const token = read(request, resolved);
+
+    if (token) {
+      return { token, source };
+    }
+  }
+
+  return null;
+}
+
+function fromAuthorizationHeader(request: TokenRequest): string | null {
+  const authorization = getHeader(request.headers, 'Authorization');
+  const match = authorization ? /^Bearer\s+(\S+)$/i.exec(authorization.trim()) : null;
+
+  return match ? match[1] : null;
+}
+
+function fromCookie(request: TokenRequest, options: Required<TokenSourceOptions>): string | null {
+  return readCookie(request.headers, options.cookieName);
+}
+
+function fromQueryParameter(request: TokenRequest, options: Required<TokenSourceOptions>): string | null {
+  if (!options.allowQuery) {
+    return null;
+  }
+
+  return request.queryStringParameters?.[options.queryParam] || null;
+}
@@ -0,0 +1,237 @@
+/**
+ * Token Verifier
+ * Verifies Cognito JWTs against the user pool JWKS
+ * Checks signature (RS256), issuer, expiry, token_use and audience/client_id
+ */
+
+import * as jwt from 'jsonwebtoken';
+import jwkToPem from 'jwk-to-pem';
+import axios from 'axios';
+import { logger } from './logger';
+
+const COGNITO_REGION = process.env.AWS_REGION || 'eu-west-1';
+const COGNITO_USER_POOL_ID = process.env.COGNITO_USER_POOL_ID || '';
+const COGNITO_CLIENT_ID = process.env.COGNITO_CLIENT_ID || '';
+// COGNITO_ISSUER overrides the user pool issuer (local Cognito emulator in src/local)
+const COGNITO_ISSUER = process.env.COGNITO_ISSUER ||
+  `https://cognito-idp.${COGNITO_REGION}.amazonaws.com/${COGNITO_USER_POOL_ID}`;
+const JWKS_URL = `${COGNITO_ISSUER}/.well-known/jwks.json`;
+
+// Extra app clients (e.g. mobile, server-to-server) whose tokens are accepted
+const ALLOWED_CLIENT_IDS = [COGNITO_CLIENT_ID, ...(process.env.COGNITO_ADDITIONAL_CLIENT_IDS || '').split(',')]
+  .map(id => id.trim())
+  .filter(Boolean);
+
+// Cache JWKS for 1 hour to reduce API calls
+const JWKS_CACHE_DURATION = 3600000; // 1 hour in milliseconds
+
+// Unknown key IDs refetch at most this often - anyone can send a token with a
+// made-up kid, and each would otherwise cost a request to Cognito
+const JWKS_REFETCH_INTERVAL = 60000; // 1 minute in milliseconds
+
+// Types
+interface JWK {
+  kid: string;
+  alg: string;
+  kty: 'RSA';
+  e: string;
+  n: string;
+  use: string;
+}
+
+interface JWKS {
+  keys: JWK[];
+}
+
+export type TokenUse = 'id' | 'access';
+
+export interface CognitoTokenPayload {
+  sub: string;
+  token_use: TokenUse;
+  phone_number?: string;
+  email?: string;
+  name?: string;
+  email_verified?: boolean;
+  phone_number_verified?: boolean;
+  'custom:role'?: string;
+  'custom:company'?: string;
+  'cognito:groups'?: string[];
+  'cognito:username'?: string;  // ID tokens
+  aud?: string;          // ID tokens
+  client_id?: string;    // Access tokens
+  scope?: string;        // Access tokens - space separated
+  username?: string;     // Access tokens
+  origin_jti?: string;
+  iss: string;
+  exp: number;
+  iat: number;
+}
+
+export interface VerifyOptions {
+  tokenUse?: TokenUse | TokenUse[];  // Accepted token_use values (default: 'id')
+  allowExpired?: boolean;     // Accept expired tokens (e.g. to identify a session at logout)
+}
+
+export type TokenErrorReason =
+  | 'malformed'
+  | 'expired'
+  | 'invalid_signature'
+  | 'unknown_key'
+  | 'wrong_issuer'
+  | 'wrong_audience'
+  | 'wrong_token_use';
+
+/**
+ * Raised when a token fails verification
+ * Callers map every reason to 401 Unauthorized
+ */
+export class TokenVerificationError extends Error {
+  constructor(public readonly reason: TokenErrorReason, message: string) {
+    super(message);
+    this.name = 'TokenVerificationError';
+  }
+}
+
+let jwksCache: JWKS | null = null;
+let jwksCacheTime = 0;
+let jwksRequest: Promise<JWKS> | null = null;
+
+/**
+ * Verify a Cognito token and return its claims
+ * Throws TokenVerificationError describing why a token was rejected
+ */
+export async function verifyCognitoToken(
+  token: string,
+  options: VerifyOptions = {}
+): Promise<CognitoTokenPayload> {
+  const acceptedUses = ([] as TokenUse[]).concat(options.tokenUse || 'id');
+
+  // Decode token header to get 'kid' (key ID)
+  const decoded = jwt.decode(token, { complete: true });
+
+  if (!decoded || !decoded.header) {
+    throw new TokenVerificationError('malformed', 'Invalid token format');
+  }
+
+  const kid = decoded.header.kid;
+
+  if (!kid) {
+    throw new TokenVerificationError('malformed', 'No kid found in token header');
+  }
+
+  const jwk = await findSigningKey(kid);
+
+  let verified: CognitoTokenPayload;
+
+  try {
+    verified = jwt.verify(token, jwkToPem(jwk), {
+      algorithms: ['RS256'],
+      issuer: COGNITO_ISSUER,
+      ignoreExpiration: options.allowExpired === true
+    }) as CognitoTokenPayload;
+  } catch (error) {
+    throw toVerificationError(error);
+  }
+
+  if (!acceptedUses.includes(verified.token_use)) {
+    throw new TokenVerificationError('wrong_token_use', `Expected ${acceptedUses.join('/')} token, got ${verified.token_use}`);
+  }
+
+  // ID tokens carry the app client in aud, access tokens in client_id
+  const clientId = verified.token_use === 'id' ? verified.aud : verified.client_id;
+
+  // An empty allowlist is a misconfiguration - it rejects every token rather
+  // than accepting tokens from any app client in the pool
+  if (ALLOWED_CLIENT_IDS.length === 0) {
+    logger.error('COGNITO_CLIENT_ID not set - rejecting every token');
+    throw new TokenVerificationError('wrong_audience', 'No app client is configured');
+  }
+
+  if (!ALLOWED_CLIENT_IDS.includes(clientId || '')) {
+    throw new TokenVerificationError('wrong_audience', 'Token was not issued for this app client');
+  }
+
+  return verified;
+}
+
+/**
+ * Scopes granted to an access token (ID tokens carry none)
+ */
+export function getTokenScopes(payload: CognitoTokenPayload): string[] {
+  return payload.scope ? payload.scope.split(' ').filter(Boolean) : [];
+}
+
+/**
+ * Find the JWK for a key ID
+ * Refetches the JWKS on a miss in case Cognito rotated its keys, unless it
+ * was fetched within the last JWKS_REFETCH_INTERVAL
+ */
+async function findSigningKey(kid: string): Promise<JWK> {
+  let jwk = (await fetchJwks()).keys.find(key => key.kid === kid);
+
+  if (!jwk && Date.now() - jwksCacheTime >= JWKS_REFETCH_INTERVAL) {
+    jwk = (await fetchJwks(true)).keys.find(key => key.kid === kid);
+  }
+
+  if (!jwk) {
+    throw new TokenVerificationError('unknown_key', 'Public key not found in JWKS');
+  }
+
+  return jwk;
+}
+
+/**
+ * Fetch JWKS from Cognito (with caching)
+ * Caches for 1 hour to improve performance and reduce API calls; concurrent
+ * callers share one request
+ */
+async function fetchJwks(forceRefresh = false): Promise<JWKS> {
+  const now = Date.now();
+
+  // Return cached JWKS if still valid
+  if (!forceRefresh && jwksCache && (now - jwksCacheTime) < JWKS_CACHE_DURATION) {
+    return jwksCache;
+  }
+
+  if (!jwksRequest) {
+    jwksRequest = requestJwks().finally(() => {
+      jwksRequest = null;
+    });
+  }
+
+  return jwksRequest;
+}
+
+/**
+ * Helper: Fetch fresh JWKS from Cognito into the cache
+ */
+async function requestJwks(): Promise<JWKS> {
+  logger.info('Fetching JWKS', { url: JWKS_URL });
+  const response = await axios.get<JWKS>(JWKS_URL);
+
+  jwksCache = response.data;
+  jwksCacheTime = Date.now();
+
+  return jwksCache;
+}
+
+/**
+ * Helper: Translate jsonwebtoken errors into verification reasons
+ */
+function toVerificationError(error: unknown): TokenVerificationError {
+  if (error instanceof jwt.TokenExpiredError) {
+    return new TokenVerificationError('expired', 'Token has expired');
+  }
+
+  if (error instanceof jwt.JsonWebTokenError) {
+    if (error.message.startsWith('jwt issuer invalid')) {
+      return new TokenVerificationError('wrong_issuer', 'Token issuer is not this user pool');
+    }
+    if (error.message === 'invalid signature') {
+      return new TokenVerificationError('invalid_signature', 'Token signature is invalid');
+    }
+    return new TokenVerificationError('malformed', error.message);
+  }
+
+  return new TokenVerificationError('malformed', error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,107 @@
+/**
+ * User Events
+ * Account lifecycle events for downstream services (e.g. account deletion,
+ * so every service can erase what it holds about the user). Published to the
+ * USER_EVENTS_TOPIC_ARN SNS topic; subscribers filter on the eventType
+ * message attribute
+ */
+
+import { PublishCommand, SNSClient } from '@aws-sdk/client-sns';
+import { logger } from './logger';
+
+const USER_EVENTS_TOPIC_ARN = process.env.USER_EVENTS_TOPIC_ARN || '';
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+
+// Types
+export type UserEventType = 'user.deleted';
+
+export interface UserEvent {
+  eventType: UserEventType;
+  userId: string;       // sub - the identifier downstream services key their data on
+  occurredAt: string;   // ISO 8601
+  environment: string;
+}
+
+/**
+ * Destination for user events
+ */
+export interface UserEventPublisher {
+  publish(event: UserEvent): Promise<void>;
+}
+
+/**
+ * SNS-backed publisher (used in deployed environments)
+ */
+export class SnsUserEventPublisher implements UserEventPublisher {
+  private readonly client = new SNSClient({});
+
+  constructor(private readonly topicArn: string) {}
+
+  async publish(event: UserEvent): Promise<void> {
+    await this.client.send(new PublishCommand({
+      TopicArn: this.topicArn,
+      Message: JSON.stringify(event),
+      MessageAttributes: {
+        eventType: { DataType: 'String', StringValue: event.eventType }
+      }
+    }));
+  }
+}
+
+/**
+ * In-memory publisher (local development and tests)
+ */
+export class InMemoryUserEventPublisher implements UserEventPublisher {
+  readonly events: UserEvent[] = [];
+
+  async publish(event: UserEvent): Promise<void> {
+    logger.info('User event published (in-memory)', { eventType: event.eventType, userId: event.userId });
+    this.events.push({ ...event });
+  }
+
+  clear(): void {
+    this.events.length = 0;
+  }
+}
+
+let defaultPublisher: UserEventPublisher | null = null;
+
+/**
+ * Get the user event publisher for this environment
+ * Uses SNS when USER_EVENTS_TOPIC_ARN is set, otherwise an in-memory publisher
+ */
+export function getUserEventPublisher(): UserEventPublisher {
+  if (!defaultPublisher) {
+    if (USER_EVENTS_TOPIC_ARN) {
+      defaultPublisher = new SnsUserEventPublisher(USER_EVENTS_TOPIC_ARN);
+    } else {
+      logger.warn('USER_EVENTS_TOPIC_ARN not set - using in-memory user event publisher');
+      defaultPublisher = new InMemoryUserEventPublisher();
+    }
+  }
+
+  return defaultPublisher;
+}
+
+/**
+ * Replace the user event publisher (local development and tests)
+ */
+export function setUserEventPublisher(publisher: UserEventPublisher): void {
+  defaultPublisher = publisher;
+}
+
+/**
+ * Publish an event about a user, stamped with the time and environment
+ */
+export async function publishUserEvent(
+  publisher: UserEventPublisher,
+  eventType: UserEventType,
+  userId: string
+): Promise<void> {
+  await publisher.publish({
+    eventType,
+    userId,
+    occurredAt: new Date().toISOString(),
+    environment: ENVIRONMENT
+  });
+}
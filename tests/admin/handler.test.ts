@@ -0,0 +1,612 @@
+/**
+ * Admin handler routes against a mocked Cognito client
+ * The authorizer context is passed on the event, as API Gateway does after
+ * the authorizer allows the request
+ */
+
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  AdminAddUserToGroupCommand,
+  AdminCreateUserCommand,
+  AdminDeleteUserCommand,
+  AdminDisableUserCommand,
+  AdminEnableUserCommand,
+  AdminGetUserCommand,
+  AdminListGroupsForUserCommand,
+  AdminRemoveUserFromGroupCommand,
+  AdminSetUserPasswordCommand,
+  AdminUpdateUserAttributesCommand,
+  AdminUserGlobalSignOutCommand,
+  CognitoIdentityProviderClient,
+  ListUsersCommand,
+  ResourceNotFoundException,
+  UserNotFoundException,
+  UsernameExistsException
+} from '@aws-sdk/client-cognito-identity-provider';
+import { handler } from '../../src/admin/index';
+import { InMemoryAuditStore, setAuditStore } from '../../src/shared/audit-log';
+import { InMemoryInvitationStore, newInvitation, setInvitationStore } from '../../src/shared/invitations';
+import { InMemoryRevocationStore, isTokenRevoked, setRevocationStore } from '../../src/shared/revocation-store';
+import { InMemoryUserEventPublisher, setUserEventPublisher } from '../../src/shared/user-events';
+import { TEST_CONTEXT, apiEvent, parseBody } from '../harness/api';
+import { TEST_USER_POOL_ID } from '../harness/env';
+import { captureOtps, CapturingOtpProvider } from '../harness/otp-capture';
+import { TEST_PHONE_NUMBER, TEST_USERNAME } from '../harness/triggers';
+
+const cognitoMock = mockClient(CognitoIdentityProviderClient);
+const metadata = { $metadata: {} };
+
+const ADMIN_ID = 'a1d2m3i4-0000-4000-8000-000000000001';
+const ADMIN_CONTEXT = { userId: ADMIN_ID, role: 'user', groups: 'Admins', company: 'Acme' };
+const SUPER_ADMIN_CONTEXT = { userId: ADMIN_ID, role: 'super-admin', groups: '' };
+
+let auditStore: InMemoryAuditStore;
+let revocationStore: InMemoryRevocationStore;
+
+beforeEach(() => {
+  cognitoMock.reset();
+  auditStore = new InMemoryAuditStore();
+  setAuditStore(auditStore);
+  revocationStore = new InMemoryRevocationStore();
+  setRevocationStore(revocationStore);
+});
+
+function invoke(method: string, path: string, request: Parameters<typeof apiEvent>[2] = {}) {
+  return handler(apiEvent(method, path, { authorizer: ADMIN_CONTEXT, ...request }), TEST_CONTEXT);
+}
+
+function mockUser(sub = TEST_USERNAME, attributes: Record<string, string> = {}): void {
+  cognitoMock.on(AdminGetUserCommand).resolves({
+    ...metadata,
+    Username: sub,
+    UserStatus: 'CONFIRMED',
+    Enabled: true,
+    UserAttributes: Object.entries({ sub, phone_number: TEST_PHONE_NUMBER, 'custom:company': 'Acme', ...attributes })
+      .map(([Name, Value]) => ({ Name, Value }))
+  });
+  cognitoMock.on(AdminListGroupsForUserCommand).resolves({ ...metadata, Groups: [] });
+}
+
+describe('access', () => {
+  it('rejects callers without the Admins group or admin role', async () => {
+    const result = await invoke('GET', '/secure/admin/users', {
+      authorizer: { userId: TEST_USERNAME, role: 'user', groups: 'Users' }
+    });
+
+    expect(result.statusCode).toBe(403);
+    expect(parseBody(result).code).toBe('ADMIN_FORBIDDEN');
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+
+  it.each(['admin', 'super-admin'])('accepts the %s role without the Admins group', async role => {
+    cognitoMock.on(ListUsersCommand).resolves({ ...metadata, Users: [] });
+
+    const result = await invoke('GET', '/secure/admin/users', {
+      authorizer: { userId: ADMIN_ID, role, groups: '', company: 'Acme' }
+    });
+
+    expect(result.statusCode).toBe(200);
+  });
+});
+
+describe('GET /users', () => {
+  it('searches by one field and passes the page through', async () => {
+    cognitoMock.on(ListUsersCommand).resolves({
+      ...metadata,
+      Users: [{
+        Username: TEST_USERNAME,
+        UserStatus: 'CONFIRMED',
+        Enabled: true,
+        Attributes: [
+          { Name: 'sub', Value: TEST_USERNAME },
+          { Name: 'phone_number', Value: TEST_PHONE_NUMBER },
+          { Name: 'custom:company', Value: 'Acme' }
+        ]
+      }],
+      PaginationToken: 'page-2'
+    });
+
+    const result = await invoke('GET', '/secure/admin/users', { query: { phoneNumber: '+4479', limit: '10' } });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toMatchObject({
+      users: [{ username: TEST_USERNAME, phoneNumber: TEST_PHONE_NUMBER, role: 'user', status: 'CONFIRMED', enabled: true }],
+      paginationToken: 'page-2'
+    });
+    expect(cognitoMock.commandCalls(ListUsersCommand)[0].args[0].input).toEqual({
+      UserPoolId: TEST_USER_POOL_ID,
+      Limit: 10,
+      PaginationToken: undefined,
+      Filter: 'phone_number ^= "+4479"'
+    });
+    expect(auditStore.records).toEqual([
+      expect.objectContaining({ action: 'admin.users.list', userId: ADMIN_ID, actorId: ADMIN_ID, outcome: 'success' })
+    ]);
+  });
+
+  it("only returns the admin's own company unless they are a super-admin", async () => {
+    const user = (sub: string, company: string) => ({
+      Username: sub,
+      Attributes: [{ Name: 'sub', Value: sub }, { Name: 'custom:company', Value: company }]
+    });
+    cognitoMock.on(ListUsersCommand).resolves({ ...metadata, Users: [user('user-1', 'Acme'), user('user-2', 'Globex')] });
+
+    const own = await invoke('GET', '/secure/admin/users');
+    const all = await invoke('GET', '/secure/admin/users', { authorizer: SUPER_ADMIN_CONTEXT });
+
+    expect(parseBody(own).users).toEqual([expect.objectContaining({ userId: 'user-1' })]);
+    expect(parseBody(all).users).toHaveLength(2);
+  });
+
+  it('rejects more than one search field', async () => {
+    const result = await invoke('GET', '/secure/admin/users', { query: { email: 'a@example.com', enabled: 'false' } });
+
+    expect(result.statusCode).toBe(400);
+    expect(parseBody(result).fields).toEqual([expect.objectContaining({ field: 'enabled', code: 'too_many_filters' })]);
+    expect(cognitoMock.commandCalls(ListUsersCommand)).toHaveLength(0);
+  });
+});
+
+describe('/users/{username}', () => {
+  it('returns the user with their groups', async () => {
+    mockUser(TEST_USERNAME, { 'custom:company': 'Acme' });
+    cognitoMock.on(AdminListGroupsForUserCommand).resolves({ ...metadata, Groups: [{ GroupName: 'Users' }] });
+
+    const result = await invoke('GET', `/secure/admin/users/${TEST_USERNAME}`);
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result).user).toMatchObject({ userId: TEST_USERNAME, company: 'Acme', groups: ['Users'] });
+  });
+
+  it('returns 404 for unknown users without auditing', async () => {
+    cognitoMock.on(AdminGetUserCommand).rejects(new UserNotFoundException({ message: 'User does not exist.', ...metadata }));
+
+    const result = await invoke('GET', '/secure/admin/users/nobody');
+
+    expect(result.statusCode).toBe(404);
+    expect(parseBody(result).code).toBe('AUTH_USER_NOT_FOUND');
+    expect(auditStore.records).toHaveLength(0);
+  });
+
+  it('sets the role and revokes the user tokens so it applies at the next refresh', async () => {
+    mockUser();
+    cognitoMock.on(AdminUpdateUserAttributesCommand).resolves(metadata);
+
+    const result = await invoke('PATCH', `/secure/admin/users/${TEST_USERNAME}`, { body: { role: 'admin' } });
+
+    expect(result.statusCode).toBe(200);
+    expect(cognitoMock.commandCalls(AdminUpdateUserAttributesCommand)[0].args[0].input.UserAttributes).toEqual([
+      { Name: 'custom:role', Value: 'admin' }
+    ]);
+    expect(await isTokenRevoked(revocationStore, { sub: TEST_USERNAME, iat: Math.floor(Date.now() / 1000) - 60 })).toBe(true);
+    expect(auditStore.records[0]).toMatchObject({ action: 'admin.user.update', userId: TEST_USERNAME, details: { role: 'admin' } });
+  });
+
+  it("reports another company's user as unknown", async () => {
+    mockUser(TEST_USERNAME, { 'custom:company': 'Globex' });
+
+    const read = await invoke('GET', `/secure/admin/users/${TEST_USERNAME}`);
+    const update = await invoke('PATCH', `/secure/admin/users/${TEST_USERNAME}`, { body: { role: 'admin' } });
+    const disable = await invoke('POST', `/secure/admin/users/${TEST_USERNAME}/disable`);
+
+    expect([read.statusCode, update.statusCode, disable.statusCode]).toEqual([404, 404, 404]);
+    expect(parseBody(update).code).toBe('AUTH_USER_NOT_FOUND');
+    expect(cognitoMock.commandCalls(AdminUpdateUserAttributesCommand)).toHaveLength(0);
+    expect(cognitoMock.commandCalls(AdminDisableUserCommand)).toHaveLength(0);
+  });
+
+  it('does not move a user to another company', async () => {
+    mockUser();
+
+    const result = await invoke('PATCH', `/secure/admin/users/${TEST_USERNAME}`, { body: { company: 'Globex' } });
+
+    expect(result.statusCode).toBe(403);
+    expect(parseBody(result).code).toBe('ADMIN_CROSS_TENANT');
+    expect(cognitoMock.commandCalls(AdminUpdateUserAttributesCommand)).toHaveLength(0);
+  });
+
+  it('does not let admins change their own company', async () => {
+    mockUser(ADMIN_ID);
+
+    const result = await invoke('PATCH', `/secure/admin/users/${ADMIN_ID}`, { body: { company: 'Globex' } });
+
+    expect(result.statusCode).toBe(403);
+    expect(parseBody(result).code).toBe('ADMIN_CROSS_TENANT');
+    expect(cognitoMock.commandCalls(AdminUpdateUserAttributesCommand)).toHaveLength(0);
+  });
+
+  it('does not let an admin without a company manage users', async () => {
+    mockUser(TEST_USERNAME, { 'custom:company': '' });
+
+    const result = await invoke('PATCH', `/secure/admin/users/${TEST_USERNAME}`, {
+      authorizer: { ...ADMIN_CONTEXT, company: '' },
+      body: { company: 'Acme' }
+    });
+
+    expect(result.statusCode).toBe(404);
+    expect(cognitoMock.commandCalls(AdminUpdateUserAttributesCommand)).toHaveLength(0);
+  });
+
+  it('lets super-admins move users between companies', async () => {
+    mockUser(TEST_USERNAME, { 'custom:company': 'Globex' });
+    cognitoMock.on(AdminUpdateUserAttributesCommand).resolves(metadata);
+
+    const result = await invoke('PATCH', `/secure/admin/users/${TEST_USERNAME}`, {
+      authorizer: SUPER_ADMIN_CONTEXT,
+      body: { company: 'Acme' }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(cognitoMock.commandCalls(AdminUpdateUserAttributesCommand)[0].args[0].input.UserAttributes).toEqual([
+      { Name: 'custom:company', Value: 'Acme' }
+    ]);
+  });
+
+  it('rejects unknown attributes and roles', async () => {
+    const result = await invoke('PATCH', `/secure/admin/users/${TEST_USERNAME}`, { body: { role: 'root', phoneNumber: '+447400123456' } });
+
+    expect(result.statusCode).toBe(400);
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+
+  it('deletes the user and publishes user.deleted', async () => {
+    const publisher = new InMemoryUserEventPublisher();
+    setUserEventPublisher(publisher);
+    mockUser();
+    cognitoMock.on(AdminDeleteUserCommand).resolves(metadata);
+
+    const result = await invoke('DELETE', `/secure/admin/users/${TEST_USERNAME}`);
+
+    expect(result.statusCode).toBe(200);
+    expect(cognitoMock.commandCalls(AdminDeleteUserCommand)).toHaveLength(1);
+    expect(publisher.events).toEqual([expect.objectContaining({ eventType: 'user.deleted', userId: TEST_USERNAME })]);
+    expect(auditStore.records[0]).toMatchObject({ action: 'admin.user.delete', outcome: 'success' });
+  });
+
+  it('does not let admins disable or delete themselves', async () => {
+    mockUser(ADMIN_ID);
+
+    const disabled = await invoke('POST', `/secure/admin/users/${ADMIN_ID}/disable`);
+    const deleted = await invoke('DELETE', `/secure/admin/users/${ADMIN_ID}`);
+
+    expect(disabled.statusCode).toBe(409);
+    expect(parseBody(deleted).code).toBe('ADMIN_SELF_ACTION');
+    expect(cognitoMock.commandCalls(AdminDisableUserCommand)).toHaveLength(0);
+    expect(cognitoMock.commandCalls(AdminDeleteUserCommand)).toHaveLength(0);
+  });
+});
+
+describe('super-admin targets', () => {
+  // Every change to a user, with the Cognito command it would send
+  const mutations: Array<[string, string, string, Record<string, unknown> | undefined, { name: string }]> = [
+    ['demote', 'PATCH', '', { role: 'user' }, AdminUpdateUserAttributesCommand],
+    ['disable', 'POST', '/disable', undefined, AdminDisableUserCommand],
+    ['enable', 'POST', '/enable', undefined, AdminEnableUserCommand],
+    ['sign out', 'POST', '/sign-out', undefined, AdminUserGlobalSignOutCommand],
+    ['delete', 'DELETE', '', undefined, AdminDeleteUserCommand],
+    ['add a group to', 'POST', '/groups', { group: 'Users' }, AdminAddUserToGroupCommand],
+    ['remove a group from', 'DELETE', '/groups/super-admin', undefined, AdminRemoveUserFromGroupCommand]
+  ];
+
+  it.each(mutations)('does not let a company admin %s a super-admin by role in their company', async (_, method, suffix, body) => {
+    mockUser(TEST_USERNAME, { 'custom:role': 'super-admin' });
+
+    const result = await invoke(method, `/secure/admin/users/${TEST_USERNAME}${suffix}`, { body });
+
+    expect(result.statusCode).toBe(403);
+    expect(parseBody(result).code).toBe('ADMIN_CROSS_TENANT');
+    expect(cognitoMock.calls().map(call => call.args[0].constructor.name))
+      .toEqual(expect.not.arrayContaining(mutations.map(([, , , , command]) => command.name)));
+    expect(await isTokenRevoked(revocationStore, { sub: TEST_USERNAME, iat: Math.floor(Date.now() / 1000) - 60 })).toBe(false);
+  });
+
+  it.each(mutations)('does not let a company admin %s a member of the super-admin group', async (_, method, suffix, body) => {
+    mockUser();
+    cognitoMock.on(AdminListGroupsForUserCommand).resolves({ ...metadata, Groups: [{ GroupName: 'super-admin' }] });
+
+    const result = await invoke(method, `/secure/admin/users/${TEST_USERNAME}${suffix}`, { body });
+
+    expect(result.statusCode).toBe(403);
+    expect(parseBody(result).code).toBe('ADMIN_CROSS_TENANT');
+    expect(cognitoMock.calls().map(call => call.args[0].constructor.name))
+      .toEqual(expect.not.arrayContaining(mutations.map(([, , , , command]) => command.name)));
+  });
+
+  it.each(mutations)('lets a super-admin %s another super-admin', async (_, method, suffix, body, command) => {
+    mockUser(TEST_USERNAME, { 'custom:role': 'super-admin' });
+
+    const result = await invoke(method, `/secure/admin/users/${TEST_USERNAME}${suffix}`, { authorizer: SUPER_ADMIN_CONTEXT, body });
+
+    expect(result.statusCode).toBe(200);
+    expect(cognitoMock.calls().map(call => call.args[0].constructor.name)).toContain(command.name);
+  });
+
+  it('still lets a company admin read a super-admin in their company', async () => {
+    mockUser(TEST_USERNAME, { 'custom:role': 'super-admin' });
+
+    const result = await invoke('GET', `/secure/admin/users/${TEST_USERNAME}`);
+
+    expect(result.statusCode).toBe(200);
+  });
+});
+
+describe('/users/{username}/groups', () => {
+  it('audits a failed add to an unknown group', async () => {
+    mockUser();
+    cognitoMock.on(AdminAddUserToGroupCommand).rejects(new ResourceNotFoundException({ message: 'Group not found.', ...metadata }));
+
+    const result = await invoke('POST', `/secure/admin/users/${TEST_USERNAME}/groups`, { body: { group: 'Owners' } });
+
+    expect(result.statusCode).toBe(404);
+    expect(parseBody(result).code).toBe('ADMIN_GROUP_NOT_FOUND');
+    expect(auditStore.records).toEqual([
+      expect.objectContaining({ action: 'admin.group.add', outcome: 'failure', errorCode: 'ADMIN_GROUP_NOT_FOUND', details: { group: 'Owners' } })
+    ]);
+  });
+
+  it('only lets super-admins add users to the super-admin group', async () => {
+    mockUser();
+
+    const result = await invoke('POST', `/secure/admin/users/${TEST_USERNAME}/groups`, { body: { group: 'super-admin' } });
+
+    expect(result.statusCode).toBe(403);
+    expect(parseBody(result).code).toBe('ADMIN_CROSS_TENANT');
+    expect(cognitoMock.commandCalls(AdminAddUserToGroupCommand)).toHaveLength(0);
+  });
+
+  it('removes a group named in the path', async () => {
+    mockUser();
+
+    const result = await invoke('DELETE', `/secure/admin/users/${TEST_USERNAME}/groups/Admins`);
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toEqual({ success: true, groups: [] });
+    expect(auditStore.records[0]).toMatchObject({ action: 'admin.group.remove', details: { group: 'Admins' } });
+  });
+});
+
+describe('/invitations', () => {
+  const INVITED_ID = 'i1n2v3i4-0000-4000-8000-000000000002';
+  const INVITED_PHONE = '+447400654321';
+
+  let invitationStore: InMemoryInvitationStore;
+  let otps: CapturingOtpProvider;
+
+  beforeEach(() => {
+    invitationStore = new InMemoryInvitationStore();
+    setInvitationStore(invitationStore);
+    otps = captureOtps();
+    cognitoMock.on(AdminCreateUserCommand).resolves({ ...metadata, User: { Username: INVITED_ID } });
+  });
+
+  function pendingInvitation(inviteId: string, company = 'Acme') {
+    return newInvitation({ inviteId, username: INVITED_ID, phoneNumber: INVITED_PHONE, company, role: 'user', invitedBy: ADMIN_ID });
+  }
+
+  it('pre-creates a disabled user and sends the signed link', async () => {
+    const result = await invoke('POST', '/secure/admin/invitations', {
+      body: { phoneNumber: '07400 654321', company: 'Acme', role: 'admin' }
+    });
+    const { invitation } = parseBody(result);
+
+    expect(result.statusCode).toBe(201);
+    expect(invitation).toMatchObject({ userId: INVITED_ID, phoneNumber: INVITED_PHONE, company: 'Acme', role: 'admin', status: 'pending' });
+    expect(cognitoMock.commandCalls(AdminCreateUserCommand)[0].args[0].input).toMatchObject({
+      Username: INVITED_PHONE,
+      MessageAction: 'SUPPRESS',
+      UserAttributes: [
+        { Name: 'phone_number', Value: INVITED_PHONE },
+        { Name: 'custom:company', Value: 'Acme' },
+        { Name: 'custom:role', Value: 'admin' }
+      ]
+    });
+    expect(cognitoMock.commandCalls(AdminSetUserPasswordCommand)[0].args[0].input).toMatchObject({ Username: INVITED_ID, Permanent: true });
+    expect(cognitoMock.commandCalls(AdminDisableUserCommand)[0].args[0].input).toEqual({ UserPoolId: TEST_USER_POOL_ID, Username: INVITED_ID });
+    expect(otps.lastInvitationTokenFor(INVITED_PHONE)).toMatch(new RegExp(`^${invitation.inviteId}\\.`));
+    expect(auditStore.records[0]).toMatchObject({
+      action: 'admin.invitation.create',
+      userId: ADMIN_ID,
+      details: { inviteId: invitation.inviteId, phoneNumber: '***4321', company: 'Acme', role: 'admin' }
+    });
+  });
+
+  it('defaults to the admin company and requires one', async () => {
+    const own = await invoke('POST', '/secure/admin/invitations', {
+      authorizer: { ...ADMIN_CONTEXT, company: 'Globex' },
+      body: { phoneNumber: INVITED_PHONE }
+    });
+    const missing = await invoke('POST', '/secure/admin/invitations', {
+      authorizer: SUPER_ADMIN_CONTEXT,
+      body: { phoneNumber: INVITED_PHONE }
+    });
+
+    expect(parseBody(own).invitation).toMatchObject({ company: 'Globex', role: 'user' });
+    expect(missing.statusCode).toBe(400);
+    expect(parseBody(missing).fields).toEqual([expect.objectContaining({ field: 'company', code: 'required' })]);
+  });
+
+  it('returns 409 for a number that already has an account', async () => {
+    cognitoMock.on(AdminCreateUserCommand).rejects(new UsernameExistsException({ message: 'User account already exists', ...metadata }));
+
+    const result = await invoke('POST', '/secure/admin/invitations', { body: { phoneNumber: INVITED_PHONE, company: 'Acme' } });
+
+    expect(result.statusCode).toBe(409);
+    expect(parseBody(result).code).toBe('AUTH_USER_EXISTS');
+    expect(await invitationStore.list()).toHaveLength(0);
+  });
+
+  it('removes the user and revokes the invitation when it cannot be sent', async () => {
+    otps.failWith = new Error('SMS provider unavailable');
+
+    const result = await invoke('POST', '/secure/admin/invitations', { body: { phoneNumber: INVITED_PHONE, company: 'Acme' } });
+
+    expect(result.statusCode).toBe(502);
+    expect(parseBody(result).code).toBe('INVITATION_DELIVERY_FAILED');
+    expect(cognitoMock.commandCalls(AdminDeleteUserCommand)[0].args[0].input.Username).toBe(INVITED_ID);
+    expect(await invitationStore.list()).toEqual([expect.objectContaining({ status: 'revoked' })]);
+    expect(auditStore.records[0]).toMatchObject({ outcome: 'failure', errorCode: 'INVITATION_DELIVERY_FAILED' });
+  });
+
+  it('lists invitations by company and status', async () => {
+    await invitationStore.put(pendingInvitation('invite-1'));
+    await invitationStore.put({ ...pendingInvitation('invite-2'), expiresAt: Math.floor(Date.now() / 1000) - 1 });
+    await invitationStore.put(pendingInvitation('invite-3', 'Globex'));
+
+    const result = await invoke('GET', '/secure/admin/invitations', { query: { company: 'Acme', status: 'expired' } });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result).invitations).toEqual([expect.objectContaining({ inviteId: 'invite-2', status: 'expired' })]);
+  });
+
+  it('revokes a pending invitation and deletes the invited user', async () => {
+    await invitationStore.put(pendingInvitation('invite-1'));
+
+    const result = await invoke('DELETE', '/secure/admin/invitations/invite-1');
+    const again = await invoke('DELETE', '/secure/admin/invitations/invite-1');
+
+    expect(result.statusCode).toBe(200);
+    expect(cognitoMock.commandCalls(AdminDeleteUserCommand)).toHaveLength(1);
+    expect(await invitationStore.get('invite-1')).toMatchObject({ status: 'revoked' });
+    expect(again.statusCode).toBe(409);
+    expect(parseBody(again).code).toBe('INVITATION_NOT_PENDING');
+    expect(auditStore.records[0]).toMatchObject({ action: 'admin.invitation.revoke', userId: INVITED_ID, outcome: 'success' });
+  });
+
+  it('rejects invitations into another company', async () => {
+    const result = await invoke('POST', '/secure/admin/invitations', { body: { phoneNumber: INVITED_PHONE, company: 'Globex' } });
+
+    expect(result.statusCode).toBe(403);
+    expect(parseBody(result).code).toBe('ADMIN_CROSS_TENANT');
+    expect(cognitoMock.commandCalls(AdminCreateUserCommand)).toHaveLength(0);
+    expect(await invitationStore.list()).toHaveLength(0);
+  });
+
+  it('rejects invitations by an admin without a company', async () => {
+    const result = await invoke('POST', '/secure/admin/invitations', {
+      authorizer: { ...ADMIN_CONTEXT, company: '' },
+      body: { phoneNumber: INVITED_PHONE, company: 'Acme' }
+    });
+
+    expect(result.statusCode).toBe(403);
+    expect(parseBody(result).code).toBe('ADMIN_CROSS_TENANT');
+    expect(cognitoMock.commandCalls(AdminCreateUserCommand)).toHaveLength(0);
+  });
+
+  it('lets super-admins invite into any company', async () => {
+    const result = await invoke('POST', '/secure/admin/invitations', {
+      authorizer: SUPER_ADMIN_CONTEXT,
+      body: { phoneNumber: INVITED_PHONE, company: 'Globex' }
+    });
+
+    expect(result.statusCode).toBe(201);
+    expect(parseBody(result).invitation).toMatchObject({ company: 'Globex' });
+  });
+
+  it("only lists the admin's own company", async () => {
+    await invitationStore.put(pendingInvitation('invite-1'));
+    await invitationStore.put(pendingInvitation('invite-2', 'Globex'));
+
+    const own = await invoke('GET', '/secure/admin/invitations');
+    const other = await invoke('GET', '/secure/admin/invitations', { query: { company: 'Globex' } });
+    const all = await invoke('GET', '/secure/admin/invitations', { authorizer: SUPER_ADMIN_CONTEXT });
+
+    expect(parseBody(own).invitations).toEqual([expect.objectContaining({ inviteId: 'invite-1' })]);
+    expect(other.statusCode).toBe(403);
+    expect(parseBody(other).code).toBe('ADMIN_CROSS_TENANT');
+    expect(parseBody(all).invitations).toHaveLength(2);
+  });
+
+  it("does not revoke another company's invitation", async () => {
+    await invitationStore.put(pendingInvitation('invite-1', 'Globex'));
+
+    const result = await invoke('DELETE', '/secure/admin/invitations/invite-1');
+
+    expect(result.statusCode).toBe(404);
+    expect(parseBody(result).code).toBe('INVITATION_NOT_FOUND');
+    expect(cognitoMock.commandCalls(AdminDeleteUserCommand)).toHaveLength(0);
+    expect(await invitationStore.get('invite-1')).toMatchObject({ status: 'pending' });
+  });
+
+  it('returns 404 for an unknown invitation', async () => {
+    const result = await invoke('DELETE', '/secure/admin/invitations/nope');
+
+    expect(result.statusCode).toBe(404);
+    expect(parseBody(result).code).toBe('INVITATION_NOT_FOUND');
+  });
+});
+
+describe('GET /audit', () => {
+  it("returns a user's records in the time range and audits the query", async () => {
+    mockUser();
+    await auditStore.put({
+      action: 'auth.otp.verified',
+      userId: TEST_USERNAME,
+      outcome: 'success',
+      sourceIp: '198.51.100.7',
+      eventKey: '2026-03-01T10:00:00.000Z#event-1',
+      eventId: 'event-1',
+      timestamp: '2026-03-01T10:00:00.000Z',
+      expiresAt: 0
+    });
+
+    const result = await invoke('GET', '/secure/admin/audit', {
+      query: { userId: TEST_USERNAME, from: '2026-03-01T00:00:00Z', to: '2026-03-02T00:00:00Z' }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toEqual({
+      records: [{
+        action: 'auth.otp.verified',
+        userId: TEST_USERNAME,
+        outcome: 'success',
+        sourceIp: '198.51.100.7',
+        eventId: 'event-1',
+        timestamp: '2026-03-01T10:00:00.000Z'
+      }]
+    });
+    expect(auditStore.records[1]).toMatchObject({
+      action: 'admin.audit.query',
+      userId: TEST_USERNAME,
+      actorId: ADMIN_ID,
+      details: { from: '2026-03-01T00:00:00.000Z', to: '2026-03-02T00:00:00.000Z' }
+    });
+  });
+
+  it("hides another company's user without auditing", async () => {
+    mockUser(TEST_USERNAME, { 'custom:company': 'Globex' });
+    await auditStore.put({
+      action: 'auth.otp.verified',
+      userId: TEST_USERNAME,
+      outcome: 'success',
+      eventKey: '2026-03-01T10:00:00.000Z#event-1',
+      eventId: 'event-1',
+      timestamp: '2026-03-01T10:00:00.000Z',
+      expiresAt: 0
+    });
+
+    const result = await invoke('GET', '/secure/admin/audit', { query: { userId: TEST_USERNAME } });
+
+    expect(result.statusCode).toBe(404);
+    expect(parseBody(result).code).toBe('AUTH_USER_NOT_FOUND');
+    expect(auditStore.records).toHaveLength(1);
+  });
+
+  it("lets super-admins read any company's users, including deleted ones", async () => {
+    cognitoMock.on(AdminGetUserCommand).rejects(new UserNotFoundException({ message: 'User does not exist.', ...metadata }));
+
+    const result = await invoke('GET', '/secure/admin/audit', {
+      authorizer: SUPER_ADMIN_CONTEXT,
+      query: { userId: TEST_USERNAME }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(cognitoMock.commandCalls(AdminGetUserCommand)).toHaveLength(0);
+  });
+
+  it('requires a user ID', async () => {
+    const result = await invoke('GET', '/secure/admin/audit');
+
+    expect(result.statusCode).toBe(400);
+    expect(parseBody(result).fields).toEqual([expect.objectContaining({ field: 'userId' })]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Mapping of Cognito exceptions to catalogue error codes
+ */
+
+import { CognitoFlow, mapCognitoError } from '../../src/auth/cognito-errors';
+import { HttpError } from '../../src/auth/errors';
+
+function cognitoError(name: string, message = 'from cognito'): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+describe('mapCognitoError', () => {
+  it.each([
+    ['UsernameExistsException', 409, 'AUTH_USER_EXISTS'],
+    ['UserNotFoundException', 404, 'AUTH_USER_NOT_FOUND'],
+    ['UserNotConfirmedException', 403, 'AUTH_USER_NOT_CONFIRMED'],
+    ['CodeMismatchException', 401, 'AUTH_OTP_INVALID'],
+    ['ExpiredCodeException', 401, 'AUTH_OTP_EXPIRED'],
+    ['TooManyFailedAttemptsException', 401, 'AUTH_TOO_MANY_ATTEMPTS'],
+    ['LimitExceededException', 429, 'AUTH_RATE_LIMITED'],
+    ['TooManyRequestsException', 429, 'AUTH_RATE_LIMITED'],
+    ['UserLambdaValidationException', 502, 'AUTH_OTP_DELIVERY_FAILED'],
+    ['InternalErrorException', 503, 'SERVICE_UNAVAILABLE'],
+    ['InvalidParameterException', 500, 'INTERNAL_ERROR']
+  ])('maps %s to %i %s', (name, statusCode, code) => {
+    const error = mapCognitoError(cognitoError(name), 'send-otp');
+
+    expect(error.statusCode).toBe(statusCode);
+    expect(error.code).toBe(code);
+  });
+
+  it.each<[CognitoFlow, string, string]>([
+    ['verify-otp', 'Invalid session for the user, session is expired.', 'AUTH_OTP_EXPIRED'],
+    ['verify-otp', 'Invalid session for the user.', 'AUTH_OTP_EXPIRED'],
+    ['verify-otp', 'Incorrect username or password.', 'AUTH_TOO_MANY_ATTEMPTS'],
+    ['refresh', 'Invalid Refresh Token', 'AUTH_REFRESH_TOKEN_INVALID'],
+    ['me', 'Access Token has been revoked', 'AUTH_TOKEN_INVALID'],
+    ['send-otp', 'Incorrect username or password.', 'AUTH_SIGN_IN_FAILED'],
+    ['send-otp', 'User is disabled.', 'AUTH_USER_DISABLED'],
+    ['refresh', 'User is disabled.', 'AUTH_USER_DISABLED']
+  ])('maps NotAuthorizedException in %s with "%s" to %s', (flow, message, code) => {
+    expect(mapCognitoError(cognitoError('NotAuthorizedException', message), flow).code).toBe(code);
+  });
+
+  it('maps a send refused by create-auth-challenge to 429 with Retry-After', () => {
+    const error = mapCognitoError(
+      cognitoError('UserLambdaValidationException', 'CreateAuthChallenge failed with error OTP send limit reached, retry after 42s.'),
+      'send-otp'
+    );
+
+    expect(error.code).toBe('AUTH_RATE_LIMITED');
+    expect(error.headers).toEqual({ 'Retry-After': '42' });
+    expect(error.details).toEqual({ retryAfter: 42 });
+  });
+
+  it('does not carry the original message', () => {
+    const error = mapCognitoError(new Error('getaddrinfo ENOTFOUND cognito-idp'), 'refresh');
+
+    expect(error.code).toBe('INTERNAL_ERROR');
+    expect(error.message).toBe('Internal server error');
+  });
+
+  it('passes HttpErrors through unchanged', () => {
+    const original = new HttpError('AUTH_CSRF_FAILED');
+
+    expect(mapCognitoError(original, 'refresh')).toBe(original);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Decoy OTP sessions issued under user enumeration protection
+ */
+
+import {
+  answerDecoyChallenge,
+  createDecoyChallenge,
+  setEnumerationSettings
+} from '../../src/auth/enumeration';
+import { InMemoryDecoySessionStore, setDecoySessionStore } from '../../src/shared/decoy-sessions';
+import { TEST_PHONE_NUMBER } from '../harness/triggers';
+
+beforeEach(() => {
+  setEnumerationSettings({ enabled: true, decoySecret: 'test-secret' });
+  setDecoySessionStore(new InMemoryDecoySessionStore());
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  setEnumerationSettings({ enabled: false });
+});
+
+describe('decoy sessions', () => {
+  it('reports delivery on the channel a real send would use', () => {
+    expect(createDecoyChallenge(TEST_PHONE_NUMBER).delivery).toEqual({
+      channel: 'sink',
+      destination: '***3456'
+    });
+  });
+
+  it('reports a stable made-up address when email is the delivery channel', () => {
+    // OTP_DEFAULT_CHANNEL and OTP_EMAIL_FROM are read at import time
+    const env = { OTP_DEFAULT_CHANNEL: process.env.OTP_DEFAULT_CHANNEL, OTP_EMAIL_FROM: process.env.OTP_EMAIL_FROM };
+    Object.assign(process.env, { OTP_DEFAULT_CHANNEL: 'email', OTP_EMAIL_FROM: 'codes@example.com' });
+
+    try {
+      jest.isolateModules(() => {
+        const enumeration: typeof import('../../src/auth/enumeration') = require('../../src/auth/enumeration');
+        enumeration.setEnumerationSettings({ enabled: true, decoySecret: 'test-secret' });
+
+        const { delivery } = enumeration.createDecoyChallenge(TEST_PHONE_NUMBER);
+
+        expect(delivery).toEqual({ channel: 'email', destination: expect.stringMatching(/^[a-z]\*\*\*@[a-z]+\.com$/) });
+        expect(enumeration.createDecoyChallenge(TEST_PHONE_NUMBER).delivery).toEqual(delivery);
+      });
+    } finally {
+      for (const [name, value] of Object.entries(env)) {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      }
+    }
+  });
+
+  it('varies in content and length like Cognito sessions', () => {
+    const sessions = Array.from({ length: 5 }, () => createDecoyChallenge(TEST_PHONE_NUMBER).session!);
+
+    expect(new Set(sessions).size).toBe(5);
+    expect(sessions.every(session => /^[A-Za-z0-9+/]+=*$/.test(session))).toBe(true);
+  });
+
+  it('expires after three minutes', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const { session } = createDecoyChallenge(TEST_PHONE_NUMBER);
+
+    jest.setSystemTime(new Date('2026-01-01T00:03:01Z'));
+
+    await expect(answerDecoyChallenge(session!)).rejects.toMatchObject({ code: 'AUTH_OTP_EXPIRED' });
+  });
+
+  it('can be answered only once, like a Cognito session', async () => {
+    const { session } = createDecoyChallenge(TEST_PHONE_NUMBER);
+
+    const next = await answerDecoyChallenge(session!);
+
+    expect(next?.session).toBeDefined();
+    await expect(answerDecoyChallenge(session!)).rejects.toMatchObject({ code: 'AUTH_OTP_EXPIRED' });
+    await expect(answerDecoyChallenge(next!.session!)).resolves.toMatchObject({ challengeName: 'CUSTOM_CHALLENGE' });
+  });
+
+  it('is not recognised under another secret', async () => {
+    const { session } = createDecoyChallenge(TEST_PHONE_NUMBER);
+
+    setEnumerationSettings({ decoySecret: 'rotated-secret' });
+
+    await expect(answerDecoyChallenge(session!)).resolves.toBeNull();
+  });
+
+  it.each(['session-1', '', 'AYABeC1vZ2l0aXZlLXNlc3Npb24tdG9rZW4tZnJvbS1jb2duaXRv'])(
+    'ignores the non-decoy session %j',
+    async session => {
+      await expect(answerDecoyChallenge(session)).resolves.toBeNull();
+    }
+  );
+});
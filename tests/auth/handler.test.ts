@@ -0,0 +1,1812 @@
+/**
+ * Auth handler routes against a mocked Cognito client
+ * Tokens are signed by the local signer and its JWKS is served through a
+ * mocked axios, so the real token verifier runs unchanged
+ */
+
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  AdminDeleteUserCommand,
+  AdminEnableUserCommand,
+  AdminGetUserCommand,
+  AdminInitiateAuthCommand,
+  AdminListGroupsForUserCommand,
+  AdminListUserAuthEventsCommand,
+  AdminRespondToAuthChallengeCommand,
+  AdminUpdateUserAttributesCommand,
+  AdminUserGlobalSignOutCommand,
+  AliasExistsException,
+  CognitoIdentityProviderClient,
+  GetUserCommand,
+  GlobalSignOutCommand,
+  InitiateAuthCommand,
+  InternalErrorException,
+  LimitExceededException,
+  NotAuthorizedException,
+  RespondToAuthChallengeCommand,
+  RevokeTokenCommand,
+  SignUpCommand,
+  UserLambdaValidationException,
+  UserNotConfirmedException,
+  UserNotFoundException,
+  UserPoolAddOnNotEnabledException,
+  UsernameExistsException
+} from '@aws-sdk/client-cognito-identity-provider';
+import axios from 'axios';
+import { handler } from '../../src/auth/index';
+import { setEnumerationSettings } from '../../src/auth/enumeration';
+import { LocalJwtSigner } from '../../src/local/jwt-signer';
+import { AuditRecord, InMemoryAuditStore, setAuditStore } from '../../src/shared/audit-log';
+import { InMemoryDecoySessionStore, setDecoySessionStore } from '../../src/shared/decoy-sessions';
+import { createInvitationToken, InMemoryInvitationStore, newInvitation, setInvitationStore } from '../../src/shared/invitations';
+import { InMemoryOtpStore, setOtpStore, verifyOtp } from '../../src/shared/otp-store';
+import { InMemoryRateLimitStore, setRateLimitStore } from '../../src/shared/rate-limiter';
+import { InMemoryRevocationStore, isTokenRevoked, setRevocationStore } from '../../src/shared/revocation-store';
+import { findSignInAttempt, InMemorySignInAttemptStore, setSignInAttemptStore } from '../../src/shared/sign-in-attempts';
+import { InMemoryUserEventPublisher, setUserEventPublisher } from '../../src/shared/user-events';
+import {
+  TEST_CONTEXT,
+  apiEvent,
+  browserHeaders,
+  cookieHeaderFrom,
+  getSetCookies,
+  parseBody,
+  signTokens
+} from '../harness/api';
+import { TEST_CLIENT_ID, TEST_ISSUER, TEST_ORIGIN, TEST_USER_POOL_ID } from '../harness/env';
+import { captureOtps, CapturingOtpProvider, wrongCode } from '../harness/otp-capture';
+import { TEST_PHONE_NUMBER, TEST_USERNAME } from '../harness/triggers';
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { get: jest.fn() }
+}));
+
+const cognitoMock = mockClient(CognitoIdentityProviderClient);
+const signer = new LocalJwtSigner(TEST_ISSUER);
+const metadata = { $metadata: {} };
+
+let revocationStore: InMemoryRevocationStore;
+let auditStore: InMemoryAuditStore;
+let signInAttemptStore: InMemorySignInAttemptStore;
+
+beforeAll(() => {
+  jest.mocked(axios.get).mockResolvedValue({ data: signer.getJwks() });
+});
+
+beforeEach(() => {
+  cognitoMock.reset();
+  setRateLimitStore(new InMemoryRateLimitStore());
+  revocationStore = new InMemoryRevocationStore();
+  setRevocationStore(revocationStore);
+  auditStore = new InMemoryAuditStore();
+  setAuditStore(auditStore);
+  signInAttemptStore = new InMemorySignInAttemptStore();
+  setSignInAttemptStore(signInAttemptStore);
+});
+
+function invoke(...args: Parameters<typeof apiEvent>) {
+  return handler(apiEvent(...args), TEST_CONTEXT);
+}
+
+describe('CORS', () => {
+  it('answers preflight requests from allowlisted origins', async () => {
+    const result = await invoke('OPTIONS', '/secure/auth/refresh', { headers: { Origin: TEST_ORIGIN } });
+
+    expect(result.statusCode).toBe(204);
+    expect(result.headers).toMatchObject({
+      'Access-Control-Allow-Origin': TEST_ORIGIN,
+      'Access-Control-Allow-Credentials': 'true',
+      Vary: 'Origin'
+    });
+    expect(String(result.headers?.['Access-Control-Allow-Headers'])).toContain('X-CSRF-Token');
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+
+  it('omits CORS headers for other origins', async () => {
+    const result = await invoke('OPTIONS', '/secure/auth/refresh', { headers: { Origin: 'https://evil.example' } });
+
+    expect(result.statusCode).toBe(204);
+    expect(result.headers).toEqual({ Vary: 'Origin' });
+  });
+
+  it('echoes an allowlisted origin on route responses', async () => {
+    const result = await invoke('GET', '/secure/auth/me', { headers: { Origin: TEST_ORIGIN } });
+
+    expect(result.headers?.['Access-Control-Allow-Origin']).toBe(TEST_ORIGIN);
+  });
+});
+
+describe('routing', () => {
+  it.each([
+    ['GET', '/secure/auth/unknown'],
+    ['GET', '/secure/auth/me-anything'],
+    ['POST', '/foo/logout/bar'],
+    ['POST', '/secure/auth/register/extra'],
+    ['GET', '/me']
+  ])('returns 404 for %s %s', async (method, path) => {
+    const result = await invoke(method, path, { headers: { Origin: TEST_ORIGIN } });
+
+    expect(result.statusCode).toBe(404);
+    expect(result.headers?.['Access-Control-Allow-Origin']).toBe(TEST_ORIGIN);
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+
+  it.each([
+    ['GET', '/secure/auth/register', 'POST, OPTIONS'],
+    ['DELETE', '/secure/auth/logout', 'POST, OPTIONS'],
+    ['POST', '/secure/auth/me', 'GET, PATCH, DELETE, OPTIONS']
+  ])('returns 405 for %s %s', async (method, path, allow) => {
+    const result = await invoke(method, path);
+
+    expect(result.statusCode).toBe(405);
+    expect(result.headers?.Allow).toBe(allow);
+  });
+
+  it('ignores a trailing slash', async () => {
+    const result = await invoke('GET', '/secure/auth/me/');
+
+    expect(result.statusCode).toBe(401);
+  });
+
+  it.each(['{not json', '[1, 2]', 'null'])('returns 400 for the body %s', async body => {
+    const event = apiEvent('POST', '/secure/auth/send-otp');
+    event.body = body;
+
+    const result = await handler(event, TEST_CONTEXT);
+
+    expect(result.statusCode).toBe(400);
+    expect(parseBody(result).code).toBe('INVALID_JSON');
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+
+  it('adds CORS headers to error responses', async () => {
+    cognitoMock.on(RespondToAuthChallengeCommand).resolves({ AuthenticationResult: { IdToken: 'not-a-jwt', RefreshToken: 'r' } });
+
+    const result = await invoke('POST', '/secure/auth/verify-otp', {
+      body: { phoneNumber: TEST_PHONE_NUMBER, otp: '123456', session: 's' },
+      headers: { Origin: TEST_ORIGIN }
+    });
+
+    expect(result.statusCode).toBe(500);
+    expect(result.headers?.['Access-Control-Allow-Origin']).toBe(TEST_ORIGIN);
+  });
+});
+
+describe('POST /register', () => {
+  it('signs the user up and starts the OTP challenge', async () => {
+    cognitoMock.on(SignUpCommand).resolves({ UserSub: TEST_USERNAME, UserConfirmed: false });
+    cognitoMock.on(AdminInitiateAuthCommand).resolves({
+      ChallengeName: 'CUSTOM_CHALLENGE',
+      Session: 'session-1',
+      ChallengeParameters: { deliveryChannel: 'sms', destination: '***3456' }
+    });
+
+    const result = await invoke('POST', '/secure/auth/register', {
+      body: { phoneNumber: TEST_PHONE_NUMBER, name: 'Ada' }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toMatchObject({
+      session: 'session-1',
+      challengeName: 'CUSTOM_CHALLENGE',
+      delivery: { channel: 'sms', destination: '***3456' }
+    });
+
+    const signUp = cognitoMock.commandCalls(SignUpCommand)[0].args[0].input;
+    expect(signUp).toMatchObject({
+      ClientId: TEST_CLIENT_ID,
+      Username: TEST_PHONE_NUMBER,
+      UserAttributes: [{ Name: 'name', Value: 'Ada' }]
+    });
+
+    expect(cognitoMock.commandCalls(AdminInitiateAuthCommand)[0].args[0].input).toEqual({
+      AuthFlow: 'CUSTOM_AUTH',
+      UserPoolId: TEST_USER_POOL_ID,
+      ClientId: TEST_CLIENT_ID,
+      AuthParameters: { USERNAME: TEST_PHONE_NUMBER }
+    });
+    expect(auditStore.records).toEqual([
+      expect.objectContaining({ action: 'auth.register', userId: TEST_USERNAME, outcome: 'success', phoneNumber: '***3456' })
+    ]);
+  });
+
+  it('normalizes a national phone number to E.164', async () => {
+    cognitoMock.on(SignUpCommand).resolves({ UserSub: TEST_USERNAME, UserConfirmed: false });
+    cognitoMock.on(AdminInitiateAuthCommand).resolves({ ChallengeName: 'CUSTOM_CHALLENGE', Session: 'session-1' });
+
+    const result = await invoke('POST', '/secure/auth/register', { body: { phoneNumber: '07911 123456' } });
+
+    expect(result.statusCode).toBe(200);
+    expect(cognitoMock.commandCalls(SignUpCommand)[0].args[0].input.Username).toBe(TEST_PHONE_NUMBER);
+    expect(cognitoMock.commandCalls(AdminInitiateAuthCommand)[0].args[0].input.AuthParameters).toEqual({
+      USERNAME: TEST_PHONE_NUMBER
+    });
+  });
+
+  it.each([
+    [{}, 'phoneNumber', 'required'],
+    [{ phoneNumber: 12345 }, 'phoneNumber', 'invalid_type'],
+    [{ phoneNumber: '+1 555' }, 'phoneNumber', 'invalid_phone_number'],
+    [{ phoneNumber: '1-800-FLOWERS' }, 'phoneNumber', 'invalid_phone_number'],
+    [{ phoneNumber: TEST_PHONE_NUMBER, name: '   ' }, 'name', 'too_short']
+  ])('rejects %j with a field error', async (body, field, code) => {
+    const result = await invoke('POST', '/secure/auth/register', { body });
+
+    expect(result.statusCode).toBe(400);
+    expect(parseBody(result)).toEqual({
+      code: 'VALIDATION_FAILED',
+      messageKey: 'errors.validationFailed',
+      message: 'Request validation failed',
+      fields: [expect.objectContaining({ field, code })]
+    });
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+
+  it('returns 409 when the phone number is already registered', async () => {
+    cognitoMock.on(SignUpCommand).rejects(new UsernameExistsException({ message: 'exists', ...metadata }));
+
+    const result = await invoke('POST', '/secure/auth/register', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+
+    expect(result.statusCode).toBe(409);
+    expect(parseBody(result).code).toBe('AUTH_USER_EXISTS');
+    expect(cognitoMock.commandCalls(AdminInitiateAuthCommand)).toHaveLength(0);
+  });
+
+  it('returns 502 when the OTP cannot be delivered', async () => {
+    cognitoMock.on(SignUpCommand).resolves({ UserSub: TEST_USERNAME, UserConfirmed: false });
+    cognitoMock.on(AdminInitiateAuthCommand).rejects(
+      new UserLambdaValidationException({ message: 'CreateAuthChallenge failed', ...metadata })
+    );
+
+    const result = await invoke('POST', '/secure/auth/register', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+
+    expect(result.statusCode).toBe(502);
+  });
+
+  it('returns 429 once the per-phone limit is exceeded', async () => {
+    cognitoMock.on(SignUpCommand).rejects(new UsernameExistsException({ message: 'exists', ...metadata }));
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await invoke('POST', '/secure/auth/register', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+    }
+
+    const result = await invoke('POST', '/secure/auth/register', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+
+    expect(result.statusCode).toBe(429);
+    expect(Number(result.headers?.['Retry-After'])).toBeGreaterThan(0);
+    expect(parseBody(result)).toMatchObject({
+      code: 'AUTH_RATE_LIMITED',
+      details: { retryAfter: Number(result.headers?.['Retry-After']) }
+    });
+    expect(cognitoMock.commandCalls(SignUpCommand)).toHaveLength(5);
+  });
+});
+
+describe('POST /send-otp', () => {
+  it('starts custom auth and saves the requested channel and caller for the challenge triggers', async () => {
+    cognitoMock.on(AdminInitiateAuthCommand).resolves({
+      ChallengeName: 'CUSTOM_CHALLENGE',
+      Session: 'session-2',
+      ChallengeParameters: { deliveryChannel: 'whatsapp', destination: '***3456' }
+    });
+
+    const result = await invoke('POST', '/secure/auth/send-otp', {
+      body: { phoneNumber: TEST_PHONE_NUMBER, channel: 'whatsapp' }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toMatchObject({
+      message: 'OTP sent successfully',
+      session: 'session-2',
+      delivery: { channel: 'whatsapp', destination: '***3456' }
+    });
+    // AdminInitiateAuth ClientMetadata never reaches the challenge triggers
+    expect(cognitoMock.commandCalls(AdminInitiateAuthCommand)[0].args[0].input.ClientMetadata).toBeUndefined();
+    await expect(findSignInAttempt(signInAttemptStore, [TEST_PHONE_NUMBER])).resolves.toMatchObject({
+      username: TEST_PHONE_NUMBER,
+      channel: 'whatsapp',
+      sourceIp: '203.0.113.10'
+    });
+  });
+
+  it('replaces the channel of an earlier attempt when none is requested', async () => {
+    cognitoMock.on(AdminInitiateAuthCommand).resolves({ ChallengeName: 'CUSTOM_CHALLENGE', Session: 'session-2' });
+
+    await invoke('POST', '/secure/auth/send-otp', { body: { phoneNumber: TEST_PHONE_NUMBER, channel: 'whatsapp' } });
+    await invoke('POST', '/secure/auth/send-otp', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+
+    const attempt = await findSignInAttempt(signInAttemptStore, [TEST_PHONE_NUMBER]);
+    expect(attempt?.channel).toBeUndefined();
+  });
+
+  it.each(['pigeon', 'sink'])('rejects the channel %s', async channel => {
+    const result = await invoke('POST', '/secure/auth/send-otp', {
+      body: { phoneNumber: TEST_PHONE_NUMBER, channel }
+    });
+
+    expect(result.statusCode).toBe(400);
+    expect(parseBody(result).fields).toEqual([{
+      field: 'channel',
+      code: 'invalid_value',
+      message: 'Invalid channel. Use one of: sms, email, whatsapp'
+    }]);
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+
+  it('returns 404 for an unknown user', async () => {
+    cognitoMock.on(AdminInitiateAuthCommand).rejects(new UserNotFoundException({ message: 'missing', ...metadata }));
+
+    const result = await invoke('POST', '/secure/auth/send-otp', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+
+    expect(result.statusCode).toBe(404);
+    expect(parseBody(result).code).toBe('AUTH_USER_NOT_FOUND');
+  });
+
+  it.each([
+    [new LimitExceededException({ message: 'Attempt limit exceeded', ...metadata }), 429, 'AUTH_RATE_LIMITED'],
+    [new UserNotConfirmedException({ message: 'User is not confirmed.', ...metadata }), 403, 'AUTH_USER_NOT_CONFIRMED'],
+    [new NotAuthorizedException({ message: 'User is disabled.', ...metadata }), 403, 'AUTH_USER_DISABLED'],
+    [new InternalErrorException({ message: 'Internal error', ...metadata }), 503, 'SERVICE_UNAVAILABLE']
+  ])('maps %s to its error code', async (error, statusCode, code) => {
+    cognitoMock.on(AdminInitiateAuthCommand).rejects(error);
+
+    const result = await invoke('POST', '/secure/auth/send-otp', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+
+    expect(result.statusCode).toBe(statusCode);
+    expect(parseBody(result).code).toBe(code);
+  });
+
+  it('never returns the SDK error message', async () => {
+    cognitoMock.on(AdminInitiateAuthCommand).rejects(new Error('connect ECONNREFUSED 10.0.0.1:443'));
+
+    const result = await invoke('POST', '/secure/auth/send-otp', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+
+    expect(result.statusCode).toBe(500);
+    expect(parseBody(result)).toEqual({
+      code: 'INTERNAL_ERROR',
+      messageKey: 'errors.internal',
+      message: 'Internal server error'
+    });
+  });
+
+  it('returns 502 when the OTP cannot be delivered', async () => {
+    cognitoMock.on(AdminInitiateAuthCommand).rejects(
+      new UserLambdaValidationException({ message: 'CreateAuthChallenge failed', ...metadata })
+    );
+
+    const result = await invoke('POST', '/secure/auth/send-otp', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+
+    expect(result.statusCode).toBe(502);
+  });
+});
+
+describe('POST /resend-otp', () => {
+  it('starts a new challenge', async () => {
+    cognitoMock.on(AdminInitiateAuthCommand).resolves({
+      ChallengeName: 'CUSTOM_CHALLENGE',
+      Session: 'session-7',
+      ChallengeParameters: { deliveryChannel: 'sms', destination: '***3456' }
+    });
+
+    const result = await invoke('POST', '/secure/auth/resend-otp', {
+      body: { phoneNumber: TEST_PHONE_NUMBER, channel: 'sms' }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toEqual({
+      message: 'OTP resent successfully',
+      session: 'session-7',
+      challengeName: 'CUSTOM_CHALLENGE',
+      delivery: { channel: 'sms', destination: '***3456' }
+    });
+    expect(cognitoMock.commandCalls(AdminInitiateAuthCommand)[0].args[0].input).toMatchObject({
+      AuthFlow: 'CUSTOM_AUTH',
+      AuthParameters: { USERNAME: TEST_PHONE_NUMBER }
+    });
+    await expect(findSignInAttempt(signInAttemptStore, [TEST_PHONE_NUMBER])).resolves.toMatchObject({ channel: 'sms' });
+  });
+
+  it('enforces the cooldown per phone number', async () => {
+    cognitoMock.on(AdminInitiateAuthCommand).resolves({ ChallengeName: 'CUSTOM_CHALLENGE', Session: 'session-8' });
+
+    await invoke('POST', '/secure/auth/resend-otp', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+    const result = await invoke('POST', '/secure/auth/resend-otp', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+
+    expect(result.statusCode).toBe(429);
+    expect(parseBody(result).code).toBe('AUTH_RESEND_COOLDOWN');
+    expect(Number(result.headers?.['Retry-After'])).toBeGreaterThan(0);
+    expect(cognitoMock.commandCalls(AdminInitiateAuthCommand)).toHaveLength(1);
+
+    const other = await invoke('POST', '/secure/auth/resend-otp', { body: { phoneNumber: '+447400123456' } });
+    expect(other.statusCode).toBe(200);
+  });
+
+  it('returns 404 for an unknown user', async () => {
+    cognitoMock.on(AdminInitiateAuthCommand).rejects(new UserNotFoundException({ message: 'missing', ...metadata }));
+
+    const result = await invoke('POST', '/secure/auth/resend-otp', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+
+    expect(result.statusCode).toBe(404);
+  });
+});
+
+describe('POST /verify-otp', () => {
+  const body = { phoneNumber: TEST_PHONE_NUMBER, otp: '123456', session: 'session-3' };
+
+  it('sets HttpOnly token cookies and a readable CSRF cookie', async () => {
+    const tokens = signTokens(signer, { attributes: { name: 'Ada' } });
+    cognitoMock.on(RespondToAuthChallengeCommand).resolves({ AuthenticationResult: tokens });
+
+    const result = await invoke('POST', '/secure/auth/verify-otp', { body });
+    const responseBody = parseBody(result);
+    const cookies = getSetCookies(result);
+
+    expect(result.statusCode).toBe(200);
+    expect(responseBody.user).toMatchObject({
+      userId: TEST_USERNAME,
+      phoneNumber: TEST_PHONE_NUMBER,
+      name: 'Ada',
+      phoneVerified: true
+    });
+    expect(responseBody.tokens).toBeUndefined();
+
+    expect(cookies).toHaveLength(3);
+    expect(cookies[0]).toMatch(/^idToken=.+; Max-Age=3600;.*HttpOnly/);
+    expect(cookies[1]).toMatch(/^refreshToken=refresh-.+; Max-Age=604800;.*HttpOnly/);
+    expect(cookies[2]).toContain(`csrfToken=${responseBody.csrfToken}`);
+    expect(cookies[2]).not.toContain('HttpOnly');
+
+    expect(cognitoMock.commandCalls(RespondToAuthChallengeCommand)[0].args[0].input).toEqual({
+      ChallengeName: 'CUSTOM_CHALLENGE',
+      ClientId: TEST_CLIENT_ID,
+      Session: 'session-3',
+      ChallengeResponses: { USERNAME: TEST_PHONE_NUMBER, ANSWER: '123456' },
+      ClientMetadata: { sourceIp: '203.0.113.10' }
+    });
+  });
+
+  it('returns tokens in the body with tokenMode=body', async () => {
+    const tokens = signTokens(signer);
+    cognitoMock.on(RespondToAuthChallengeCommand).resolves({ AuthenticationResult: tokens });
+
+    const result = await invoke('POST', '/secure/auth/verify-otp', { body, query: { tokenMode: 'body' } });
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers?.['Cache-Control']).toBe('no-store');
+    expect(result.multiValueHeaders).toBeUndefined();
+    expect(parseBody(result).tokens).toEqual({
+      idToken: tokens.IdToken,
+      accessToken: tokens.AccessToken,
+      refreshToken: tokens.RefreshToken,
+      expiresIn: 3600,
+      tokenType: 'Bearer'
+    });
+  });
+
+  it('passes on a further challenge after a wrong code', async () => {
+    cognitoMock.on(RespondToAuthChallengeCommand).resolves({
+      ChallengeName: 'CUSTOM_CHALLENGE',
+      Session: 'session-4'
+    });
+
+    const result = await invoke('POST', '/secure/auth/verify-otp', { body });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toMatchObject({
+      message: 'Additional challenge required',
+      session: 'session-4',
+      challengeName: 'CUSTOM_CHALLENGE'
+    });
+    expect(getSetCookies(result)).toHaveLength(0);
+  });
+
+  it('returns 401 once Cognito fails the session after the last wrong code', async () => {
+    cognitoMock.on(RespondToAuthChallengeCommand).rejects(
+      new NotAuthorizedException({ message: 'Incorrect username or password.', ...metadata })
+    );
+
+    const result = await invoke('POST', '/secure/auth/verify-otp', { body });
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result)).toEqual({
+      code: 'AUTH_TOO_MANY_ATTEMPTS',
+      messageKey: 'errors.auth.tooManyAttempts',
+      message: 'Too many incorrect codes. Request a new code.'
+    });
+  });
+
+  it('returns 401 for an expired session', async () => {
+    cognitoMock.on(RespondToAuthChallengeCommand).rejects(
+      new NotAuthorizedException({ message: 'Invalid session for the user, session is expired.', ...metadata })
+    );
+
+    const result = await invoke('POST', '/secure/auth/verify-otp', { body });
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result).code).toBe('AUTH_OTP_EXPIRED');
+  });
+
+  it('requires phone number, OTP and session', async () => {
+    const result = await invoke('POST', '/secure/auth/verify-otp', { body: {} });
+
+    expect(result.statusCode).toBe(400);
+    expect(parseBody(result).fields).toEqual([
+      { field: 'phoneNumber', code: 'required', message: 'Phone number is required' },
+      { field: 'otp', code: 'required', message: 'OTP is required' },
+      { field: 'session', code: 'required', message: 'Session is required' }
+    ]);
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+
+  it.each(['12345', '1234567', '12a456'])('rejects the OTP %s', async otp => {
+    const result = await invoke('POST', '/secure/auth/verify-otp', { body: { ...body, otp } });
+
+    expect(result.statusCode).toBe(400);
+    expect(parseBody(result).fields).toEqual([{ field: 'otp', code: 'invalid_format', message: 'OTP must be 6 digits' }]);
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+});
+
+describe('POST /refresh', () => {
+  it('refreshes a cookie session that passes CSRF checks', async () => {
+    const tokens = signTokens(signer);
+    cognitoMock.on(InitiateAuthCommand).resolves({ AuthenticationResult: { ...tokens, RefreshToken: undefined } });
+
+    const result = await invoke('POST', '/secure/auth/refresh', {
+      headers: browserHeaders({ refreshToken: 'refresh-cookie', csrfToken: 'csrf-1' }, 'csrf-1')
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result).csrfToken).toBe('csrf-1');
+    expect(cookieHeaderFrom(getSetCookies(result))).toBe(
+      `idToken=${tokens.IdToken}; refreshToken=refresh-cookie; csrfToken=csrf-1`
+    );
+    expect(cognitoMock.commandCalls(InitiateAuthCommand)[0].args[0].input).toEqual({
+      AuthFlow: 'REFRESH_TOKEN_AUTH',
+      ClientId: TEST_CLIENT_ID,
+      AuthParameters: { REFRESH_TOKEN: 'refresh-cookie' }
+    });
+  });
+
+  it.each([
+    ['missing_token', browserHeaders({ refreshToken: 'refresh-cookie', csrfToken: 'csrf-1' })],
+    ['token_mismatch', browserHeaders({ refreshToken: 'refresh-cookie', csrfToken: 'csrf-1' }, 'csrf-2')],
+    ['origin_not_allowed', {
+      ...browserHeaders({ refreshToken: 'refresh-cookie', csrfToken: 'csrf-1' }, 'csrf-1'),
+      Origin: 'https://evil.example'
+    }]
+  ])('rejects a cookie refresh with %s', async (reason, headers) => {
+    const result = await invoke('POST', '/secure/auth/refresh', { headers });
+
+    expect(result.statusCode).toBe(403);
+    expect(parseBody(result)).toMatchObject({ code: 'AUTH_CSRF_FAILED', details: { reason } });
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+
+  it('audits the refresh with the caller details', async () => {
+    const tokens = signTokens(signer);
+    cognitoMock.on(InitiateAuthCommand).resolves({ AuthenticationResult: { ...tokens, RefreshToken: undefined } });
+
+    await invoke('POST', '/secure/auth/refresh', {
+      body: { refreshToken: 'refresh-body' },
+      headers: { 'User-Agent': 'TestAgent/1.0' }
+    });
+
+    expect(auditStore.records).toEqual([
+      expect.objectContaining({
+        action: 'auth.refresh',
+        userId: TEST_USERNAME,
+        outcome: 'success',
+        phoneNumber: '***3456',
+        sourceIp: '203.0.113.10',
+        userAgent: 'TestAgent/1.0'
+      })
+    ]);
+  });
+
+  it('refreshes a native client session from the body without CSRF checks', async () => {
+    const tokens = signTokens(signer);
+    cognitoMock.on(InitiateAuthCommand).resolves({ AuthenticationResult: { ...tokens, RefreshToken: undefined } });
+
+    const result = await invoke('POST', '/secure/auth/refresh', {
+      body: { refreshToken: 'refresh-body' },
+      query: { tokenMode: 'body' }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result).tokens).toMatchObject({
+      idToken: tokens.IdToken,
+      refreshToken: 'refresh-body'
+    });
+  });
+
+  it('returns 401 without a refresh token', async () => {
+    const result = await invoke('POST', '/secure/auth/refresh');
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result)).toMatchObject({ code: 'AUTH_NOT_AUTHENTICATED', message: 'No refresh token provided' });
+  });
+
+  it('returns 401 when Cognito rejects the refresh token', async () => {
+    cognitoMock.on(InitiateAuthCommand).rejects(new NotAuthorizedException({ message: 'Invalid Refresh Token', ...metadata }));
+
+    const result = await invoke('POST', '/secure/auth/refresh', { body: { refreshToken: 'revoked' } });
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result).code).toBe('AUTH_REFRESH_TOKEN_INVALID');
+  });
+});
+
+describe('POST /logout', () => {
+  const now = () => Math.floor(Date.now() / 1000);
+
+  it('revokes the refresh token and the tokens minted from it', async () => {
+    const tokens = signTokens(signer);
+    cognitoMock.on(InitiateAuthCommand).resolves({ AuthenticationResult: tokens });
+    cognitoMock.on(RevokeTokenCommand).resolves({});
+
+    const result = await invoke('POST', '/secure/auth/logout', {
+      headers: browserHeaders({ idToken: tokens.IdToken!, refreshToken: tokens.RefreshToken!, csrfToken: 'csrf-1' }, 'csrf-1')
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toMatchObject({ success: true, revoked: true });
+    expect(cognitoMock.commandCalls(RevokeTokenCommand)[0].args[0].input).toEqual({
+      ClientId: TEST_CLIENT_ID,
+      Token: tokens.RefreshToken
+    });
+
+    await expect(isTokenRevoked(revocationStore, {
+      sub: TEST_USERNAME,
+      iat: now(),
+      origin_jti: tokens.OriginJti
+    })).resolves.toBe(true);
+
+    const cleared = getSetCookies(result);
+    expect(cleared).toHaveLength(3);
+    cleared.forEach(cookie => expect(cookie).toContain('Max-Age=0'));
+
+    expect(auditStore.records).toEqual([
+      expect.objectContaining({ action: 'auth.logout', userId: TEST_USERNAME, outcome: 'success', details: { allDevices: false } })
+    ]);
+  });
+
+  describe('session token', () => {
+    const logoutWith = (refreshTokens: ReturnType<typeof signTokens>, sessionToken: string) => {
+      cognitoMock.on(InitiateAuthCommand).resolves({ AuthenticationResult: refreshTokens });
+      cognitoMock.on(RevokeTokenCommand).resolves({});
+
+      return invoke('POST', '/secure/auth/logout', {
+        headers: { Authorization: `Bearer ${sessionToken}` },
+        body: { refreshToken: refreshTokens.RefreshToken }
+      });
+    };
+
+    it.each([
+      ['another user', () => signTokens(signer, { sub: 'someone-else' })],
+      ['another session of the same user', () => signTokens(signer)]
+    ])('does not revoke the session of a token from %s', async (_, otherTokens) => {
+      const tokens = signTokens(signer);
+      const other = otherTokens();
+
+      const result = await logoutWith(tokens, other.AccessToken!);
+
+      expect(parseBody(result).revoked).toBe(true);
+      for (const token of [tokens, other]) {
+        await expect(isTokenRevoked(revocationStore, {
+          sub: TEST_USERNAME,
+          iat: now(),
+          origin_jti: token.OriginJti
+        })).resolves.toBe(false);
+      }
+      expect(auditStore.records).toEqual([expect.objectContaining({ action: 'auth.logout', userId: TEST_USERNAME })]);
+    });
+
+    it('reports the revocation and audits it when the session token fails verification', async () => {
+      const result = await logoutWith(signTokens(signer), 'not-a-jwt');
+
+      expect(parseBody(result).revoked).toBe(true);
+      expect(auditStore.records).toEqual([expect.objectContaining({ action: 'auth.logout', userId: TEST_USERNAME })]);
+    });
+  });
+
+  it('signs out every device with all=true', async () => {
+    const tokens = signTokens(signer);
+    cognitoMock.on(InitiateAuthCommand).resolves({ AuthenticationResult: tokens });
+    cognitoMock.on(GlobalSignOutCommand).resolves({});
+
+    const result = await invoke('POST', '/secure/auth/logout', {
+      body: { refreshToken: 'refresh-body' },
+      query: { all: 'true' }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toMatchObject({ message: 'Logged out from all devices', revoked: true });
+    expect(cognitoMock.commandCalls(GlobalSignOutCommand)[0].args[0].input).toEqual({
+      AccessToken: tokens.AccessToken
+    });
+    await expect(isTokenRevoked(revocationStore, { sub: TEST_USERNAME, iat: now() })).resolves.toBe(true);
+    expect(auditStore.records[0]).toMatchObject({ action: 'auth.logout', userId: TEST_USERNAME, details: { allDevices: true } });
+  });
+
+  it('rejects a cookie logout that fails CSRF checks', async () => {
+    const result = await invoke('POST', '/secure/auth/logout', {
+      headers: browserHeaders({ refreshToken: 'refresh-cookie', csrfToken: 'csrf-1' })
+    });
+
+    expect(result.statusCode).toBe(403);
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+
+  it('still clears cookies when the refresh token is already invalid', async () => {
+    cognitoMock.on(RevokeTokenCommand).rejects(new NotAuthorizedException({ message: 'Invalid token', ...metadata }));
+
+    const result = await invoke('POST', '/secure/auth/logout', { body: { refreshToken: 'stale' } });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result).revoked).toBe(false);
+    expect(getSetCookies(result)).toHaveLength(3);
+    expect(auditStore.records).toHaveLength(0);
+  });
+
+  it('succeeds without a refresh token', async () => {
+    const result = await invoke('POST', '/secure/auth/logout');
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result).revoked).toBe(false);
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+});
+
+describe('GET /me', () => {
+  it('reads the user from the ID token cookie', async () => {
+    const tokens = signTokens(signer, { attributes: { email: 'ada@example.com', 'custom:role': 'admin' } });
+
+    const result = await invoke('GET', '/secure/auth/me', { headers: { Cookie: `idToken=${tokens.IdToken}` } });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result).user).toEqual({
+      userId: TEST_USERNAME,
+      phoneNumber: TEST_PHONE_NUMBER,
+      email: 'ada@example.com',
+      name: '',
+      emailVerified: false,
+      phoneVerified: true,
+      role: 'admin',
+      company: ''
+    });
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+
+  it('loads the user from Cognito for a Bearer access token', async () => {
+    const tokens = signTokens(signer);
+    cognitoMock.on(GetUserCommand).resolves({
+      Username: TEST_USERNAME,
+      UserAttributes: [
+        { Name: 'sub', Value: TEST_USERNAME },
+        { Name: 'phone_number', Value: TEST_PHONE_NUMBER },
+        { Name: 'phone_number_verified', Value: 'true' }
+      ]
+    });
+
+    const result = await invoke('GET', '/secure/auth/me', {
+      headers: { Authorization: `Bearer ${tokens.AccessToken}` }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result).user).toMatchObject({ userId: TEST_USERNAME, phoneVerified: true });
+    expect(cognitoMock.commandCalls(GetUserCommand)[0].args[0].input).toEqual({ AccessToken: tokens.AccessToken });
+  });
+
+  it('returns 401 without a token', async () => {
+    const result = await invoke('GET', '/secure/auth/me');
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result).code).toBe('AUTH_NOT_AUTHENTICATED');
+  });
+
+  it('returns 401 for an expired token', async () => {
+    const tokens = signTokens(signer, { expiresInSeconds: -60 });
+
+    const result = await invoke('GET', '/secure/auth/me', { headers: { Authorization: `Bearer ${tokens.IdToken}` } });
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result)).toEqual({
+      code: 'AUTH_TOKEN_EXPIRED',
+      messageKey: 'errors.auth.tokenExpired',
+      message: 'Token expired',
+      details: { reason: 'expired' }
+    });
+  });
+
+  it('returns 401 for a token signed by another key', async () => {
+    const tokens = signTokens(new LocalJwtSigner(TEST_ISSUER));
+
+    const result = await invoke('GET', '/secure/auth/me', { headers: { Authorization: `Bearer ${tokens.IdToken}` } });
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result)).toMatchObject({ code: 'AUTH_TOKEN_INVALID', details: { reason: 'unknown_key' } });
+  });
+});
+
+describe('PATCH /me', () => {
+  const storedUser = (attributes: Record<string, string> = {}) => ({
+    Username: TEST_USERNAME,
+    UserAttributes: Object.entries({ sub: TEST_USERNAME, phone_number: TEST_PHONE_NUMBER, ...attributes })
+      .map(([Name, Value]) => ({ Name, Value }))
+  });
+
+  let otps: CapturingOtpProvider;
+
+  beforeEach(() => {
+    otps = captureOtps();
+    setOtpStore(new InMemoryOtpStore());
+  });
+
+  it('updates the name and reissues the cookie session with the new claims', async () => {
+    const session = signTokens(signer);
+    const refreshed = signTokens(signer, { attributes: { name: 'Ada Lovelace' } });
+    cognitoMock.on(AdminGetUserCommand).resolves(storedUser({ name: 'Ada' }));
+    cognitoMock.on(AdminUpdateUserAttributesCommand).resolves({});
+    cognitoMock.on(InitiateAuthCommand).resolves({ AuthenticationResult: { ...refreshed, RefreshToken: undefined } });
+
+    const result = await invoke('PATCH', '/secure/auth/me', {
+      headers: browserHeaders({ idToken: session.IdToken!, refreshToken: 'refresh-cookie', csrfToken: 'csrf-1' }, 'csrf-1'),
+      body: { name: '  Ada Lovelace ' }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toMatchObject({ message: 'Profile updated', user: { name: 'Ada Lovelace' }, csrfToken: 'csrf-1' });
+    expect(cookieHeaderFrom(getSetCookies(result))).toBe(
+      `idToken=${refreshed.IdToken}; refreshToken=refresh-cookie; csrfToken=csrf-1`
+    );
+    expect(cognitoMock.commandCalls(AdminUpdateUserAttributesCommand)[0].args[0].input).toEqual({
+      UserPoolId: TEST_USER_POOL_ID,
+      Username: TEST_USERNAME,
+      UserAttributes: [{ Name: 'name', Value: 'Ada Lovelace' }]
+    });
+    expect(otps.delivered).toHaveLength(0);
+  });
+
+  it('rejects attributes users may not change themselves', async () => {
+    const session = signTokens(signer);
+
+    const result = await invoke('PATCH', '/secure/auth/me', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { name: 'Ada', role: 'admin', company: 'Acme' }
+    });
+
+    expect(result.statusCode).toBe(400);
+    expect(parseBody(result).fields).toEqual([
+      { field: 'role', code: 'not_editable', message: 'role cannot be changed' },
+      { field: 'company', code: 'not_editable', message: 'company cannot be changed' }
+    ]);
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+
+  it('stores a new email unverified and emails it a code', async () => {
+    const session = signTokens(signer);
+    cognitoMock.on(AdminGetUserCommand).resolves(storedUser({ email: 'old@example.com', email_verified: 'true' }));
+    cognitoMock.on(AdminUpdateUserAttributesCommand).resolves({});
+
+    const result = await invoke('PATCH', '/secure/auth/me', {
+      headers: { Authorization: `Bearer ${session.AccessToken}` },
+      body: { email: 'Ada@Example.com' }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toMatchObject({
+      user: { userId: TEST_USERNAME },
+      emailVerification: { channel: 'sink' }
+    });
+    expect(cognitoMock.commandCalls(AdminUpdateUserAttributesCommand)[0].args[0].input.UserAttributes).toEqual([
+      { Name: 'email', Value: 'ada@example.com' },
+      { Name: 'email_verified', Value: 'false' }
+    ]);
+    expect(otps.delivered).toEqual([expect.objectContaining({ recipient: { email: 'ada@example.com', verifiesEmail: true } })]);
+  });
+
+  it('sends a new code for the current unverified email without changing it', async () => {
+    const session = signTokens(signer);
+    cognitoMock.on(AdminGetUserCommand).resolves(storedUser({ email: 'ada@example.com', email_verified: 'false' }));
+
+    const result = await invoke('PATCH', '/secure/auth/me', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { email: 'ada@example.com' }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(cognitoMock.commandCalls(AdminUpdateUserAttributesCommand)).toHaveLength(0);
+    expect(otps.delivered).toHaveLength(1);
+  });
+
+  it('rejects a refresh token issued to another user', async () => {
+    const session = signTokens(signer);
+    cognitoMock.on(AdminGetUserCommand).resolves(storedUser());
+    cognitoMock.on(AdminUpdateUserAttributesCommand).resolves({});
+    cognitoMock.on(InitiateAuthCommand).resolves({
+      AuthenticationResult: { ...signTokens(signer, { sub: 'someone-else' }), RefreshToken: undefined }
+    });
+
+    const result = await invoke('PATCH', '/secure/auth/me', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { name: 'Ada', refreshToken: 'refresh-of-someone-else' }
+    });
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result).code).toBe('AUTH_REFRESH_TOKEN_INVALID');
+  });
+
+  it.each(['phoneNumber', 'phone_number'])('does not change the number through %s', async field => {
+    const result = await invoke('PATCH', '/secure/auth/me', {
+      headers: { Authorization: `Bearer ${signTokens(signer).IdToken}` },
+      body: { name: 'Ada', [field]: '+447700900123' }
+    });
+
+    expect(result.statusCode).toBe(400);
+    expect(cognitoMock.commandCalls(AdminUpdateUserAttributesCommand)).toHaveLength(0);
+  });
+
+  it('returns 401 without a token', async () => {
+    const result = await invoke('PATCH', '/secure/auth/me', { body: { name: 'Ada' } });
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result).code).toBe('AUTH_NOT_AUTHENTICATED');
+  });
+});
+
+describe('POST /me/email/verify', () => {
+  let otps: CapturingOtpProvider;
+
+  beforeEach(() => {
+    otps = captureOtps();
+    setOtpStore(new InMemoryOtpStore());
+    cognitoMock.on(AdminGetUserCommand).resolves({
+      Username: TEST_USERNAME,
+      UserAttributes: [{ Name: 'sub', Value: TEST_USERNAME }, { Name: 'email', Value: 'old@example.com' }]
+    });
+    cognitoMock.on(AdminUpdateUserAttributesCommand).resolves({});
+  });
+
+  function currentEmail(email: string): void {
+    cognitoMock.on(AdminGetUserCommand).resolves({
+      Username: TEST_USERNAME,
+      UserAttributes: [{ Name: 'sub', Value: TEST_USERNAME }, { Name: 'email', Value: email }]
+    });
+  }
+
+  async function changeEmail(idToken: string, email = 'ada@example.com'): Promise<string> {
+    await invoke('PATCH', '/secure/auth/me', {
+      headers: { Authorization: `Bearer ${idToken}` },
+      body: { email }
+    });
+    currentEmail(email);
+    return otps.delivered[otps.delivered.length - 1].code;
+  }
+
+  it('marks the email verified and returns refreshed tokens', async () => {
+    const session = signTokens(signer);
+    const refreshed = signTokens(signer, { attributes: { email: 'ada@example.com', email_verified: true } });
+    cognitoMock.on(InitiateAuthCommand).resolves({ AuthenticationResult: { ...refreshed, RefreshToken: undefined } });
+    const code = await changeEmail(session.IdToken!);
+
+    const result = await invoke('POST', '/secure/auth/me/email/verify', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { otp: code, refreshToken: 'refresh-body' },
+      query: { tokenMode: 'body' }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toMatchObject({
+      message: 'Email verified',
+      user: { email: 'ada@example.com', emailVerified: true },
+      tokens: { idToken: refreshed.IdToken, refreshToken: 'refresh-body' }
+    });
+    expect(cognitoMock.commandCalls(AdminUpdateUserAttributesCommand)[1].args[0].input.UserAttributes).toEqual([
+      { Name: 'email', Value: 'ada@example.com' },
+      { Name: 'email_verified', Value: 'true' }
+    ]);
+  });
+
+  it('does not verify an address the code was not sent to', async () => {
+    const session = signTokens(signer);
+    const code = await changeEmail(session.IdToken!, 'mine@example.com');
+
+    // The email changed since without a new code (e.g. the send for it failed)
+    currentEmail('victim@example.com');
+
+    const result = await invoke('POST', '/secure/auth/me/email/verify', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { otp: code }
+    });
+
+    expect(result.statusCode).toBe(409);
+    expect(parseBody(result).code).toBe('PROFILE_EMAIL_NOT_PENDING');
+    expect(cognitoMock.commandCalls(AdminUpdateUserAttributesCommand)).toHaveLength(1);
+  });
+
+  it('rejects a wrong code', async () => {
+    const session = signTokens(signer);
+    const code = await changeEmail(session.IdToken!);
+
+    const result = await invoke('POST', '/secure/auth/me/email/verify', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { otp: wrongCode(code) }
+    });
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result).code).toBe('AUTH_OTP_INVALID');
+    expect(cognitoMock.commandCalls(AdminUpdateUserAttributesCommand)).toHaveLength(1);
+  });
+
+  it('only accepts the code sent for the latest email change', async () => {
+    const session = signTokens(signer);
+    const firstCode = await changeEmail(session.IdToken!);
+    const secondCode = await changeEmail(session.IdToken!);
+
+    const result = await invoke('POST', '/secure/auth/me/email/verify', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { otp: firstCode === secondCode ? wrongCode(secondCode) : firstCode }
+    });
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result).code).toBe('AUTH_OTP_INVALID');
+  });
+
+  it('returns 409 when no email change is pending', async () => {
+    const session = signTokens(signer);
+
+    const result = await invoke('POST', '/secure/auth/me/email/verify', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { otp: '123456' }
+    });
+
+    expect(result.statusCode).toBe(409);
+    expect(parseBody(result).code).toBe('PROFILE_EMAIL_NOT_PENDING');
+  });
+});
+
+describe('/me/phone', () => {
+  const NEW_PHONE_NUMBER = '+447400123456';
+  const now = () => Math.floor(Date.now() / 1000);
+
+  let otps: CapturingOtpProvider;
+
+  beforeEach(() => {
+    otps = captureOtps();
+    setOtpStore(new InMemoryOtpStore());
+    cognitoMock.on(AdminGetUserCommand).resolves({
+      Username: TEST_USERNAME,
+      UserAttributes: [{ Name: 'sub', Value: TEST_USERNAME }, { Name: 'phone_number', Value: TEST_PHONE_NUMBER }]
+    });
+    cognitoMock.on(AdminInitiateAuthCommand).resolves({
+      ChallengeName: 'CUSTOM_CHALLENGE',
+      Session: 'current-session-1',
+      ChallengeParameters: { deliveryChannel: 'sms', destination: '***3456' }
+    });
+    cognitoMock.on(AdminUpdateUserAttributesCommand).resolves({});
+    cognitoMock.on(AdminUserGlobalSignOutCommand).resolves({});
+  });
+
+  async function startChange(idToken: string) {
+    const result = await invoke('POST', '/secure/auth/me/phone', {
+      headers: { Authorization: `Bearer ${idToken}` },
+      body: { phoneNumber: '07400 123456' }
+    });
+    return { result, code: otps.lastCodeFor(NEW_PHONE_NUMBER) };
+  }
+
+  it('texts the new number and challenges the current one', async () => {
+    const session = signTokens(signer);
+
+    const { result } = await startChange(session.IdToken!);
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toMatchObject({
+      delivery: { channel: 'sink', destination: '***3456' },
+      currentNumber: { session: 'current-session-1', challengeName: 'CUSTOM_CHALLENGE' }
+    });
+    expect(cognitoMock.commandCalls(AdminInitiateAuthCommand)[0].args[0].input.AuthParameters).toEqual({
+      USERNAME: TEST_USERNAME
+    });
+    // create-auth-challenge reads the channel from here - SMS, not the user's otp_channel
+    expect(await findSignInAttempt(signInAttemptStore, [TEST_USERNAME])).toMatchObject({
+      reason: 'phone-change',
+      channel: 'sms'
+    });
+    expect(cognitoMock.commandCalls(AdminUpdateUserAttributesCommand)).toHaveLength(0);
+  });
+
+  it('returns 409 for the current number', async () => {
+    const session = signTokens(signer);
+
+    const result = await invoke('POST', '/secure/auth/me/phone', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { phoneNumber: TEST_PHONE_NUMBER }
+    });
+
+    expect(result.statusCode).toBe(409);
+    expect(parseBody(result).code).toBe('PROFILE_PHONE_UNCHANGED');
+    expect(otps.delivered).toHaveLength(0);
+  });
+
+  it('moves the number and signs the user out everywhere once both codes match', async () => {
+    const session = signTokens(signer);
+    cognitoMock.on(RespondToAuthChallengeCommand).resolves({ AuthenticationResult: signTokens(signer) });
+    const { code } = await startChange(session.IdToken!);
+
+    const result = await invoke('POST', '/secure/auth/me/phone/verify', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { otp: code, currentOtp: '123456', session: 'current-session-1' }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toMatchObject({ success: true, phoneNumber: NEW_PHONE_NUMBER });
+    expect(cognitoMock.commandCalls(RespondToAuthChallengeCommand)[0].args[0].input).toMatchObject({
+      Session: 'current-session-1',
+      ChallengeResponses: { USERNAME: TEST_USERNAME, ANSWER: '123456' }
+    });
+    expect(cognitoMock.commandCalls(AdminUpdateUserAttributesCommand)[0].args[0].input).toEqual({
+      UserPoolId: TEST_USER_POOL_ID,
+      Username: TEST_USERNAME,
+      UserAttributes: [
+        { Name: 'phone_number', Value: NEW_PHONE_NUMBER },
+        { Name: 'phone_number_verified', Value: 'true' }
+      ]
+    });
+    expect(cognitoMock.commandCalls(AdminUserGlobalSignOutCommand)[0].args[0].input).toEqual({
+      UserPoolId: TEST_USER_POOL_ID,
+      Username: TEST_USERNAME
+    });
+    await expect(isTokenRevoked(revocationStore, { sub: TEST_USERNAME, iat: now() })).resolves.toBe(true);
+    getSetCookies(result).forEach(cookie => expect(cookie).toContain('Max-Age=0'));
+  });
+
+  it('keeps the new number code valid after a wrong code for the current number', async () => {
+    const session = signTokens(signer);
+    cognitoMock.on(RespondToAuthChallengeCommand)
+      .resolvesOnce({ ChallengeName: 'CUSTOM_CHALLENGE', Session: 'current-session-2' })
+      .resolves({ AuthenticationResult: signTokens(signer) });
+    const { code } = await startChange(session.IdToken!);
+
+    const wrong = await invoke('POST', '/secure/auth/me/phone/verify', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { otp: code, currentOtp: '000000', session: 'current-session-1' }
+    });
+
+    expect(wrong.statusCode).toBe(401);
+    expect(parseBody(wrong)).toMatchObject({ code: 'AUTH_OTP_INVALID', details: { session: 'current-session-2' } });
+
+    const retry = await invoke('POST', '/secure/auth/me/phone/verify', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { otp: code, currentOtp: '123456', session: 'current-session-2' }
+    });
+
+    expect(retry.statusCode).toBe(200);
+  });
+
+  it('rejects a wrong code for the new number before asking Cognito', async () => {
+    const session = signTokens(signer);
+    const { code } = await startChange(session.IdToken!);
+
+    const result = await invoke('POST', '/secure/auth/me/phone/verify', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { otp: wrongCode(code), currentOtp: '123456', session: 'current-session-1' }
+    });
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result).code).toBe('AUTH_OTP_INVALID');
+    expect(cognitoMock.commandCalls(RespondToAuthChallengeCommand)).toHaveLength(0);
+  });
+
+  it('requires the current number code', async () => {
+    const session = signTokens(signer);
+    const { code } = await startChange(session.IdToken!);
+
+    const result = await invoke('POST', '/secure/auth/me/phone/verify', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { otp: code }
+    });
+
+    expect(result.statusCode).toBe(400);
+    expect(parseBody(result).fields.map((field: { field: string }) => field.field)).toEqual(['currentOtp', 'session']);
+  });
+
+  it('returns 409 when the new number belongs to another user', async () => {
+    const session = signTokens(signer);
+    cognitoMock.on(RespondToAuthChallengeCommand).resolves({ AuthenticationResult: signTokens(signer) });
+    cognitoMock.on(AdminUpdateUserAttributesCommand).rejects(
+      new AliasExistsException({ message: 'An account with the given phone_number already exists.', ...metadata })
+    );
+    const { code } = await startChange(session.IdToken!);
+
+    const result = await invoke('POST', '/secure/auth/me/phone/verify', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { otp: code, currentOtp: '123456', session: 'current-session-1' }
+    });
+
+    expect(result.statusCode).toBe(409);
+    expect(parseBody(result).code).toBe('AUTH_USER_EXISTS');
+    expect(cognitoMock.commandCalls(AdminUserGlobalSignOutCommand)).toHaveLength(0);
+    await expect(isTokenRevoked(revocationStore, { sub: TEST_USERNAME, iat: now() })).resolves.toBe(false);
+  });
+
+  it('keeps the change pending when the number is taken', async () => {
+    const session = signTokens(signer);
+    cognitoMock.on(RespondToAuthChallengeCommand).resolves({ AuthenticationResult: signTokens(signer) });
+    cognitoMock.on(AdminUpdateUserAttributesCommand)
+      .rejectsOnce(new AliasExistsException({ message: 'An account with the given phone_number already exists.', ...metadata }))
+      .resolves({});
+    const { code } = await startChange(session.IdToken!);
+    const verify = () => invoke('POST', '/secure/auth/me/phone/verify', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { otp: code, currentOtp: '123456', session: 'current-session-1' }
+    });
+
+    expect((await verify()).statusCode).toBe(409);
+
+    // Once the other account gives the number up, the same code completes the change
+    const retry = await verify();
+
+    expect(retry.statusCode).toBe(200);
+    expect(parseBody(retry)).toMatchObject({ success: true, phoneNumber: NEW_PHONE_NUMBER });
+  });
+});
+
+describe('DELETE /me', () => {
+  let events: InMemoryUserEventPublisher;
+
+  beforeEach(() => {
+    captureOtps();
+    events = new InMemoryUserEventPublisher();
+    setUserEventPublisher(events);
+    cognitoMock.on(AdminGetUserCommand).resolves({
+      Username: TEST_USERNAME,
+      UserAttributes: [{ Name: 'sub', Value: TEST_USERNAME }, { Name: 'phone_number', Value: TEST_PHONE_NUMBER }]
+    });
+    cognitoMock.on(AdminInitiateAuthCommand).resolves({
+      ChallengeName: 'CUSTOM_CHALLENGE',
+      Session: 'step-up-session-1',
+      ChallengeParameters: { deliveryChannel: 'sms', destination: '***3456' }
+    });
+    cognitoMock.on(AdminDeleteUserCommand).resolves({});
+  });
+
+  it('sends a step-up code to the caller\'s own number', async () => {
+    const session = signTokens(signer);
+
+    const result = await invoke('POST', '/secure/auth/me/step-up', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: {}
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toMatchObject({ session: 'step-up-session-1', challengeName: 'CUSTOM_CHALLENGE' });
+    expect(cognitoMock.commandCalls(AdminInitiateAuthCommand)[0].args[0].input.AuthParameters).toEqual({
+      USERNAME: TEST_USERNAME
+    });
+  });
+
+  it('deletes the user, revokes tokens and publishes user.deleted', async () => {
+    const session = signTokens(signer);
+    cognitoMock.on(RespondToAuthChallengeCommand).resolves({ AuthenticationResult: signTokens(signer) });
+
+    const result = await invoke('DELETE', '/secure/auth/me', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { otp: '123456', session: 'step-up-session-1' }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(cognitoMock.commandCalls(RespondToAuthChallengeCommand)[0].args[0].input).toMatchObject({
+      Session: 'step-up-session-1',
+      ChallengeResponses: { USERNAME: TEST_USERNAME, ANSWER: '123456' }
+    });
+    expect(cognitoMock.commandCalls(AdminDeleteUserCommand)[0].args[0].input).toEqual({
+      UserPoolId: TEST_USER_POOL_ID,
+      Username: TEST_USERNAME
+    });
+    await expect(isTokenRevoked(revocationStore, { sub: TEST_USERNAME, iat: Math.floor(Date.now() / 1000) })).resolves.toBe(true);
+    expect(events.events).toEqual([
+      expect.objectContaining({ eventType: 'user.deleted', userId: TEST_USERNAME, environment: 'dev' })
+    ]);
+    getSetCookies(result).forEach(cookie => expect(cookie).toContain('Max-Age=0'));
+  });
+
+  it('keeps the account after a wrong step-up code', async () => {
+    const session = signTokens(signer);
+    cognitoMock.on(RespondToAuthChallengeCommand).resolves({ ChallengeName: 'CUSTOM_CHALLENGE', Session: 'step-up-session-2' });
+
+    const result = await invoke('DELETE', '/secure/auth/me', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { otp: '000000', session: 'step-up-session-1' }
+    });
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result)).toMatchObject({ code: 'AUTH_OTP_INVALID', details: { session: 'step-up-session-2' } });
+    expect(cognitoMock.commandCalls(AdminDeleteUserCommand)).toHaveLength(0);
+    expect(events.events).toHaveLength(0);
+  });
+
+  it('rejects a step-up session started for another user', async () => {
+    const session = signTokens(signer);
+    cognitoMock.on(RespondToAuthChallengeCommand).resolves({ AuthenticationResult: signTokens(signer, { sub: 'someone-else' }) });
+
+    const result = await invoke('DELETE', '/secure/auth/me', {
+      headers: { Authorization: `Bearer ${session.IdToken}` },
+      body: { otp: '123456', session: 'other-session' }
+    });
+
+    expect(result.statusCode).toBe(401);
+    expect(cognitoMock.commandCalls(AdminDeleteUserCommand)).toHaveLength(0);
+  });
+
+  it('requires the step-up code', async () => {
+    const session = signTokens(signer);
+
+    const result = await invoke('DELETE', '/secure/auth/me', {
+      headers: { Authorization: `Bearer ${session.IdToken}` }
+    });
+
+    expect(result.statusCode).toBe(400);
+    expect(parseBody(result).fields.map((field: { field: string }) => field.field)).toEqual(['otp', 'session']);
+    expect(cognitoMock.commandCalls(RespondToAuthChallengeCommand)).toHaveLength(0);
+  });
+});
+
+describe('GET /me/export', () => {
+  beforeEach(() => {
+    cognitoMock.on(AdminGetUserCommand).resolves({
+      Username: TEST_USERNAME,
+      UserStatus: 'CONFIRMED',
+      Enabled: true,
+      UserCreateDate: new Date('2026-01-02T03:04:05Z'),
+      UserAttributes: [
+        { Name: 'sub', Value: TEST_USERNAME },
+        { Name: 'phone_number', Value: TEST_PHONE_NUMBER },
+        { Name: 'custom:company', Value: 'Acme' }
+      ]
+    });
+    cognitoMock.on(AdminListGroupsForUserCommand).resolves({ Groups: [{ GroupName: 'Users', Description: 'Standard users' }] });
+  });
+
+  it('returns attributes, groups and auth events as a download', async () => {
+    const session = signTokens(signer);
+    cognitoMock.on(AdminListUserAuthEventsCommand)
+      .resolvesOnce({
+        AuthEvents: [{
+          EventId: 'event-1',
+          EventType: 'SignIn',
+          EventResponse: 'Pass',
+          CreationDate: new Date('2026-02-03T04:05:06Z'),
+          EventContextData: { IpAddress: '203.0.113.7', Country: 'United Kingdom' }
+        }],
+        NextToken: 'page-2'
+      })
+      .resolves({ AuthEvents: [{ EventId: 'event-2', EventType: 'SignIn', EventResponse: 'Fail' }] });
+
+    const result = await invoke('GET', '/secure/auth/me/export', {
+      headers: { Authorization: `Bearer ${session.IdToken}` }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers).toMatchObject({
+      'Cache-Control': 'no-store',
+      'Content-Disposition': 'attachment; filename="account-export.json"'
+    });
+    expect(parseBody(result)).toMatchObject({
+      user: {
+        username: TEST_USERNAME,
+        status: 'CONFIRMED',
+        enabled: true,
+        createdAt: '2026-01-02T03:04:05.000Z',
+        attributes: { sub: TEST_USERNAME, phone_number: TEST_PHONE_NUMBER, 'custom:company': 'Acme' }
+      },
+      groups: [{ name: 'Users', description: 'Standard users' }],
+      authEvents: [
+        { eventId: 'event-1', eventType: 'SignIn', response: 'Pass', createdAt: '2026-02-03T04:05:06.000Z', ipAddress: '203.0.113.7', country: 'United Kingdom' },
+        { eventId: 'event-2', response: 'Fail' }
+      ]
+    });
+    expect(cognitoMock.commandCalls(AdminListUserAuthEventsCommand)[1].args[0].input.NextToken).toBe('page-2');
+  });
+
+  it('returns null auth events when the pool does not record them', async () => {
+    const session = signTokens(signer);
+    cognitoMock.on(AdminListUserAuthEventsCommand).rejects(
+      new UserPoolAddOnNotEnabledException({ message: 'Advanced security features are not enabled', ...metadata })
+    );
+
+    const result = await invoke('GET', '/secure/auth/me/export', {
+      headers: { Authorization: `Bearer ${session.IdToken}` }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result).authEvents).toBeNull();
+  });
+
+  it('requires authentication', async () => {
+    const result = await invoke('GET', '/secure/auth/me/export');
+
+    expect(result.statusCode).toBe(401);
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+});
+
+describe('GET /me/activity', () => {
+  function auditRecord(userId: string, timestamp: string, action: string): AuditRecord {
+    const eventId = `${action}-${timestamp}`;
+    return {
+      action,
+      userId,
+      outcome: 'success',
+      eventKey: `${timestamp}#${eventId}`,
+      eventId,
+      timestamp,
+      expiresAt: 0
+    };
+  }
+
+  beforeEach(async () => {
+    await auditStore.put(auditRecord(TEST_USERNAME, '2026-03-01T10:00:00.000Z', 'auth.otp.sent'));
+    await auditStore.put(auditRecord(TEST_USERNAME, '2026-03-02T10:00:00.000Z', 'auth.otp.verified'));
+    await auditStore.put({ ...auditRecord(TEST_USERNAME, '2026-03-03T10:00:00.000Z', 'admin.user.update'), actorId: 'admin-sub' });
+    await auditStore.put(auditRecord('someone-else', '2026-03-02T12:00:00.000Z', 'auth.refresh'));
+  });
+
+  function getActivity(query?: Record<string, string>) {
+    const session = signTokens(signer);
+    return invoke('GET', '/secure/auth/me/activity', { headers: { Authorization: `Bearer ${session.IdToken}` }, query });
+  }
+
+  it("returns the caller's records newest first without storage keys or the admin's identity", async () => {
+    const result = await getActivity();
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers).toMatchObject({ 'Cache-Control': 'no-store' });
+
+    const { activity, nextToken } = parseBody(result);
+    expect(activity.map((entry: AuditRecord) => entry.action)).toEqual(['admin.user.update', 'auth.otp.verified', 'auth.otp.sent']);
+    expect(activity[0]).not.toHaveProperty('actorId');
+    expect(activity[0]).not.toHaveProperty('eventKey');
+    expect(activity[0]).not.toHaveProperty('expiresAt');
+    expect(nextToken).toBeUndefined();
+  });
+
+  it('filters by an inclusive time range', async () => {
+    const result = await getActivity({ from: '2026-03-02T10:00:00Z', to: '2026-03-03T10:00:00+00:00' });
+
+    expect(parseBody(result).activity.map((entry: AuditRecord) => entry.action)).toEqual(['admin.user.update', 'auth.otp.verified']);
+  });
+
+  it('pages with nextToken', async () => {
+    const first = parseBody(await getActivity({ limit: '2' }));
+    const second = parseBody(await getActivity({ limit: '2', nextToken: first.nextToken }));
+
+    expect(first.activity).toHaveLength(2);
+    expect(first.nextToken).toEqual(expect.any(String));
+    expect(second.activity.map((entry: AuditRecord) => entry.action)).toEqual(['auth.otp.sent']);
+    expect(second.nextToken).toBeUndefined();
+  });
+
+  it('rejects an invalid time range or limit', async () => {
+    const result = await getActivity({ from: 'yesterday', limit: '500' });
+
+    expect(result.statusCode).toBe(400);
+    expect(parseBody(result).fields.map((field: { field: string }) => field.field)).toEqual(['from', 'limit']);
+  });
+
+  it('requires authentication', async () => {
+    const result = await invoke('GET', '/secure/auth/me/activity');
+
+    expect(result.statusCode).toBe(401);
+  });
+});
+
+describe('/invitations', () => {
+  let invitationStore: InMemoryInvitationStore;
+  let otpStore: InMemoryOtpStore;
+  let otps: CapturingOtpProvider;
+  let token: string;
+
+  beforeEach(async () => {
+    otps = captureOtps();
+    otpStore = new InMemoryOtpStore();
+    setOtpStore(otpStore);
+    invitationStore = new InMemoryInvitationStore();
+    setInvitationStore(invitationStore);
+    await invitationStore.put(newInvitation({
+      inviteId: 'invite-1',
+      username: TEST_USERNAME,
+      phoneNumber: TEST_PHONE_NUMBER,
+      company: 'Acme',
+      role: 'admin',
+      invitedBy: 'admin-1'
+    }));
+    token = createInvitationToken('invite-1');
+    cognitoMock.on(AdminEnableUserCommand).resolves({});
+    cognitoMock.on(AdminInitiateAuthCommand).resolves({ ChallengeName: 'CUSTOM_CHALLENGE', Session: 'invite-session-1' });
+    cognitoMock.on(AdminRespondToAuthChallengeCommand).resolves({ AuthenticationResult: signTokens(signer) });
+  });
+
+  async function acceptAndGetCode(): Promise<string> {
+    await invoke('POST', '/secure/auth/invitations/accept', { body: { token } });
+    return otps.lastCodeFor(TEST_PHONE_NUMBER);
+  }
+
+  it('texts an OTP to the invited number without enabling the user', async () => {
+    const result = await invoke('POST', '/secure/auth/invitations/accept', { body: { token } });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toEqual({
+      message: 'OTP sent successfully',
+      invitation: { company: 'Acme', role: 'admin' },
+      delivery: { channel: 'sink', destination: '***3456' }
+    });
+    expect(otps.delivered).toEqual([expect.objectContaining({ recipient: { phoneNumber: TEST_PHONE_NUMBER } })]);
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+
+  it('rejects a link with a bad signature', async () => {
+    const result = await invoke('POST', '/secure/auth/invitations/accept', { body: { token: 'invite-1.forged' } });
+
+    expect(result.statusCode).toBe(400);
+    expect(parseBody(result).code).toBe('INVITATION_INVALID');
+    expect(otps.delivered).toHaveLength(0);
+  });
+
+  it('returns 410 for an expired invitation', async () => {
+    const invitation = await invitationStore.get('invite-1');
+    await invitationStore.put({ ...invitation!, expiresAt: Math.floor(Date.now() / 1000) - 1 });
+
+    const result = await invoke('POST', '/secure/auth/invitations/accept', { body: { token } });
+
+    expect(result.statusCode).toBe(410);
+    expect(parseBody(result).code).toBe('INVITATION_EXPIRED');
+  });
+
+  it('enables the user, signs them in and accepts the invitation once', async () => {
+    const code = await acceptAndGetCode();
+    const body = { token, otp: code };
+
+    const result = await invoke('POST', '/secure/auth/invitations/verify', { body, query: { tokenMode: 'body' } });
+    const reused = await invoke('POST', '/secure/auth/invitations/verify', { body });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toMatchObject({ message: 'Invitation accepted', user: { userId: TEST_USERNAME } });
+    expect(parseBody(result).tokens.idToken).toBeDefined();
+    expect(await invitationStore.get('invite-1')).toMatchObject({ status: 'accepted' });
+    expect(cognitoMock.commandCalls(AdminEnableUserCommand)[0].args[0].input).toEqual({
+      UserPoolId: TEST_USER_POOL_ID,
+      Username: TEST_USERNAME
+    });
+    expect(reused.statusCode).toBe(409);
+    expect(parseBody(reused).code).toBe('INVITATION_NOT_PENDING');
+  });
+
+  it('answers a challenge it issued itself without sending a second code', async () => {
+    const code = await acceptAndGetCode();
+
+    await invoke('POST', '/secure/auth/invitations/verify', { body: { token, otp: code } });
+
+    expect(cognitoMock.commandCalls(AdminInitiateAuthCommand)[0].args[0].input.AuthParameters).toEqual({
+      USERNAME: TEST_USERNAME
+    });
+    const { input } = cognitoMock.commandCalls(AdminRespondToAuthChallengeCommand)[0].args[0];
+    expect(input).toMatchObject({ Session: 'invite-session-1', ChallengeResponses: { USERNAME: TEST_USERNAME } });
+
+    // create-auth-challenge takes the challenge from the attempt; verify-auth-challenge accepts the answer
+    const attempt = await findSignInAttempt(signInAttemptStore, [TEST_USERNAME]);
+    expect(attempt?.challengeId).toBeDefined();
+    await expect(verifyOtp(otpStore, TEST_USERNAME, attempt!.challengeId!, input.ChallengeResponses!.ANSWER))
+      .resolves.toBe('valid');
+    expect(otps.delivered).toHaveLength(1);
+  });
+
+  it('keeps the user disabled and the invitation pending after a wrong code', async () => {
+    const code = await acceptAndGetCode();
+
+    const result = await invoke('POST', '/secure/auth/invitations/verify', { body: { token, otp: wrongCode(code) } });
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result).code).toBe('AUTH_OTP_INVALID');
+    expect(await invitationStore.get('invite-1')).toMatchObject({ status: 'pending' });
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+
+  it('requires a code sent for the invitation', async () => {
+    const result = await invoke('POST', '/secure/auth/invitations/verify', { body: { token, otp: '123456' } });
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result).code).toBe('AUTH_OTP_EXPIRED');
+    expect(cognitoMock.calls()).toHaveLength(0);
+  });
+});
+
+describe('user enumeration protection', () => {
+  const unknownUser = () => new UserNotFoundException({ message: 'User does not exist.', ...metadata });
+
+  beforeEach(() => {
+    setEnumerationSettings({ enabled: true, minResponseMs: 0 });
+    setDecoySessionStore(new InMemoryDecoySessionStore());
+  });
+
+  afterEach(() => {
+    setEnumerationSettings({ enabled: false });
+  });
+
+  it('answers /send-otp for an unknown number like a real send', async () => {
+    cognitoMock.on(AdminInitiateAuthCommand).rejects(unknownUser());
+
+    const result = await invoke('POST', '/secure/auth/send-otp', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+
+    expect(result.statusCode).toBe(200);
+    const body = parseBody(result);
+    expect(Object.keys(body)).toEqual(['message', 'session', 'challengeName', 'delivery']);
+    expect(body).toMatchObject({
+      message: 'OTP sent successfully',
+      challengeName: 'CUSTOM_CHALLENGE',
+      delivery: { channel: 'sink', destination: '***3456' }
+    });
+    expect(body.session.length).toBeGreaterThan(800);
+  });
+
+  it('answers channel=email the same for an unknown and a registered number', async () => {
+    const body = { phoneNumber: TEST_PHONE_NUMBER, channel: 'email' };
+
+    cognitoMock.on(AdminInitiateAuthCommand).rejects(unknownUser());
+    const unknown = await invoke('POST', '/secure/auth/send-otp', { body });
+
+    // The requested channel is dropped, so create-auth-challenge sends on the default one
+    cognitoMock.on(AdminInitiateAuthCommand).resolves({
+      ChallengeName: 'CUSTOM_CHALLENGE',
+      Session: 'session-7',
+      ChallengeParameters: { deliveryChannel: 'sink', destination: '***3456' }
+    });
+    const registered = await invoke('POST', '/secure/auth/send-otp', { body });
+
+    expect(unknown.statusCode).toBe(200);
+    expect(registered.statusCode).toBe(200);
+    expect(parseBody(unknown).delivery).toEqual(parseBody(registered).delivery);
+    expect((await findSignInAttempt(signInAttemptStore, [TEST_PHONE_NUMBER]))?.channel).toBeUndefined();
+  });
+
+  it('issues a decoy for a disabled user', async () => {
+    cognitoMock.on(AdminInitiateAuthCommand).rejects(new NotAuthorizedException({ message: 'User is disabled.', ...metadata }));
+
+    const result = await invoke('POST', '/secure/auth/send-otp', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+
+    expect(result.statusCode).toBe(200);
+  });
+
+  it('treats every answer to a decoy session as a wrong code', async () => {
+    cognitoMock.on(AdminInitiateAuthCommand).rejects(unknownUser());
+    const sent = await invoke('POST', '/secure/auth/send-otp', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+    let session = parseBody(sent).session;
+
+    for (let attempt = 1; attempt < 3; attempt++) {
+      const result = await invoke('POST', '/secure/auth/verify-otp', {
+        body: { phoneNumber: TEST_PHONE_NUMBER, otp: '123456', session }
+      });
+
+      expect(result.statusCode).toBe(200);
+      expect(parseBody(result)).toMatchObject({ message: 'Additional challenge required', challengeName: 'CUSTOM_CHALLENGE' });
+      expect(parseBody(result).session).not.toBe(session);
+      session = parseBody(result).session;
+    }
+
+    const result = await invoke('POST', '/secure/auth/verify-otp', {
+      body: { phoneNumber: TEST_PHONE_NUMBER, otp: '123456', session }
+    });
+
+    expect(result.statusCode).toBe(401);
+    expect(parseBody(result).code).toBe('AUTH_TOO_MANY_ATTEMPTS');
+    expect(cognitoMock.commandCalls(RespondToAuthChallengeCommand)).toHaveLength(0);
+  });
+
+  it('refuses a replayed session after a wrong answer the same way for a real and a decoy session', async () => {
+    const replay = async (session: string) => {
+      const answer = () => invoke('POST', '/secure/auth/verify-otp', {
+        body: { phoneNumber: TEST_PHONE_NUMBER, otp: '123456', session }
+      });
+
+      expect((await answer()).statusCode).toBe(200);
+      return answer();
+    };
+
+    // Cognito sessions are single use - the answered one is no longer valid
+    cognitoMock.on(RespondToAuthChallengeCommand)
+      .resolvesOnce({ ChallengeName: 'CUSTOM_CHALLENGE', Session: 'session-8' })
+      .rejects(new NotAuthorizedException({ message: 'Invalid session for the user, session is expired.', ...metadata }));
+    const real = await replay('AYABeC1vZ2l0aXZlLXNlc3Npb24tdG9rZW4tZnJvbS1jb2duaXRv');
+
+    cognitoMock.on(AdminInitiateAuthCommand).rejects(unknownUser());
+    const sent = await invoke('POST', '/secure/auth/send-otp', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+    const decoy = await replay(parseBody(sent).session);
+
+    expect(real.statusCode).toBe(401);
+    expect(parseBody(real).code).toBe('AUTH_OTP_EXPIRED');
+    expect(decoy.statusCode).toBe(real.statusCode);
+    expect(parseBody(decoy)).toEqual(parseBody(real));
+    expect(cognitoMock.commandCalls(RespondToAuthChallengeCommand)).toHaveLength(2);
+  });
+
+  it('passes real sessions on to Cognito', async () => {
+    cognitoMock.on(RespondToAuthChallengeCommand).resolves({ ChallengeName: 'CUSTOM_CHALLENGE', Session: 'session-5' });
+
+    const result = await invoke('POST', '/secure/auth/verify-otp', {
+      body: { phoneNumber: TEST_PHONE_NUMBER, otp: '123456', session: 'AYABeC1vZ2l0aXZlLXNlc3Npb24tdG9rZW4tZnJvbS1jb2duaXRv' }
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result).session).toBe('session-5');
+  });
+
+  it('sends a login OTP when /register is called for an existing number', async () => {
+    cognitoMock.on(SignUpCommand).rejects(new UsernameExistsException({ message: 'exists', ...metadata }));
+    cognitoMock.on(AdminInitiateAuthCommand).resolves({ ChallengeName: 'CUSTOM_CHALLENGE', Session: 'session-6' });
+
+    const result = await invoke('POST', '/secure/auth/register', { body: { phoneNumber: TEST_PHONE_NUMBER, name: 'Ada' } });
+
+    expect(result.statusCode).toBe(200);
+    expect(parseBody(result)).toMatchObject({
+      message: expect.stringContaining('Registration initiated'),
+      session: 'session-6'
+    });
+    expect(cognitoMock.commandCalls(AdminInitiateAuthCommand)[0].args[0].input.AuthParameters).toEqual({
+      USERNAME: TEST_PHONE_NUMBER
+    });
+  });
+
+  it('answers two /send-otp calls in a row the same for a registered and an unknown number', async () => {
+    const sendTwice = async () => {
+      const send = () => invoke('POST', '/secure/auth/send-otp', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+      return [await send(), await send()];
+    };
+    const shape = (result: Awaited<ReturnType<typeof invoke>>) => {
+      const { session, ...body } = parseBody(result);
+      return { statusCode: result.statusCode, retryAfter: result.headers?.['Retry-After'], body, hasSession: Boolean(session) };
+    };
+
+    // create-auth-challenge refuses the second send within its interval - it only runs for users
+    cognitoMock.on(AdminInitiateAuthCommand)
+      .resolvesOnce({
+        ChallengeName: 'CUSTOM_CHALLENGE',
+        Session: 'session-9',
+        ChallengeParameters: { deliveryChannel: 'sink', destination: '***3456' }
+      })
+      .rejects(new UserLambdaValidationException({
+        message: 'CreateAuthChallenge failed with error OTP send limit reached, retry after 30s.',
+        ...metadata
+      }));
+    const registered = await sendTwice();
+
+    cognitoMock.reset();
+    setRateLimitStore(new InMemoryRateLimitStore());
+    cognitoMock.on(AdminInitiateAuthCommand).rejects(unknownUser());
+    const unknown = await sendTwice();
+
+    expect(registered.map(shape)).toEqual(unknown.map(shape));
+    expect(shape(registered[1])).toMatchObject({ statusCode: 200, retryAfter: undefined, hasSession: true });
+  });
+
+  it('still reports errors that do not reveal the user', async () => {
+    cognitoMock.on(AdminInitiateAuthCommand).rejects(
+      new UserLambdaValidationException({ message: 'CreateAuthChallenge failed', ...metadata })
+    );
+
+    const result = await invoke('POST', '/secure/auth/send-otp', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+
+    expect(result.statusCode).toBe(502);
+  });
+
+  it('holds responses for the minimum response time', async () => {
+    setEnumerationSettings({ minResponseMs: 150 });
+    cognitoMock.on(AdminInitiateAuthCommand).rejects(unknownUser());
+
+    const startedAt = Date.now();
+    await invoke('POST', '/secure/auth/send-otp', { body: { phoneNumber: TEST_PHONE_NUMBER } });
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(145);
+  });
+});
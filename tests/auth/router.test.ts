@@ -0,0 +1,122 @@
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { Router } from '../../src/auth/router';
+import { HttpError } from '../../src/auth/errors';
+import { mapErrors } from '../../src/auth/middleware';
+import { apiEvent } from '../harness/api';
+
+function ok(body: unknown): APIGatewayProxyResult {
+  return { statusCode: 200, body: JSON.stringify(body) };
+}
+
+describe('Router', () => {
+  it('matches method and path exactly under the base path', async () => {
+    const router = new Router('/api')
+      .get('/items', async () => ok('list'))
+      .post('/items', async () => ok('create'));
+
+    await expect(router.handle(apiEvent('GET', '/api/items'))).resolves.toMatchObject({ body: '"list"' });
+    await expect(router.handle(apiEvent('POST', '/api//items/'))).resolves.toMatchObject({ body: '"create"' });
+    await expect(router.handle(apiEvent('GET', '/items'))).resolves.toMatchObject({ statusCode: 404 });
+  });
+
+  it('passes {name} segments as params and prefers exact paths', async () => {
+    const router = new Router('/api')
+      .get('/items/{itemId}/tags/{tag}', async ({ params }) => ok(params))
+      .get('/items/{itemId}', async ({ params }) => ok(params))
+      .get('/items/export', async () => ok('export'));
+
+    const tagged = await router.handle(apiEvent('GET', '/api/items/a%2Fb/tags/red'));
+
+    expect(JSON.parse(tagged.body)).toEqual({ itemId: 'a/b', tag: 'red' });
+    await expect(router.handle(apiEvent('GET', '/api/items/42'))).resolves.toMatchObject({ body: '{"itemId":"42"}' });
+    await expect(router.handle(apiEvent('GET', '/api/items/export'))).resolves.toMatchObject({ body: '"export"' });
+    await expect(router.handle(apiEvent('GET', '/api/items/42/tags'))).resolves.toMatchObject({ statusCode: 404 });
+  });
+
+  it('lists the registered methods in the Allow header of a 405', async () => {
+    const router = new Router()
+      .get('/items', async () => ok('list'))
+      .delete('/items', async () => ok('clear'));
+
+    const result = await router.handle(apiEvent('PUT', '/items'));
+
+    expect(result.statusCode).toBe(405);
+    expect(result.headers?.Allow).toBe('GET, DELETE, OPTIONS');
+  });
+
+  it('runs middleware in registration order around the route', async () => {
+    const calls: string[] = [];
+    const router = new Router()
+      .use(async (request, next) => {
+        calls.push('outer:before');
+        const response = await next();
+        calls.push('outer:after');
+        return response;
+      })
+      .use(async (request, next) => {
+        calls.push('inner');
+        request.body = { injected: true };
+        return next();
+      })
+      .post('/items', async request => {
+        calls.push('route');
+        return ok(request.body);
+      });
+
+    const result = await router.handle(apiEvent('POST', '/items'));
+
+    expect(calls).toEqual(['outer:before', 'inner', 'route', 'outer:after']);
+    expect(JSON.parse(result.body)).toEqual({ injected: true });
+  });
+
+  it('passes typed query, body and source IP to handlers', async () => {
+    const router = new Router().post<{ name: string }>('/items', async ({ body, query, sourceIp }) =>
+      ok({ name: body.name, mode: query.mode, sourceIp })
+    );
+    const event = apiEvent('POST', '/items', { query: { mode: 'fast' }, sourceIp: '198.51.100.7' });
+
+    const result = await router.use(async (request, next) => {
+      request.body = { name: 'widget' };
+      return next();
+    }).handle(event);
+
+    expect(JSON.parse(result.body)).toEqual({ name: 'widget', mode: 'fast', sourceIp: '198.51.100.7' });
+  });
+
+  it('hides internal errors behind a generic 500', async () => {
+    const router = new Router().use(mapErrors).get('/items', async () => {
+      throw new Error('DynamoDB table wyzesecure-otp not found');
+    });
+
+    const result = await router.handle(apiEvent('GET', '/items'));
+
+    expect(result.statusCode).toBe(500);
+    expect(JSON.parse(result.body)).toEqual({
+      code: 'INTERNAL_ERROR',
+      messageKey: 'errors.internal',
+      message: 'Internal server error'
+    });
+  });
+
+  it('turns an HttpError into its catalogue status code with error mapping', async () => {
+    const router = new Router().use(mapErrors).get('/items', async () => {
+      throw new HttpError('AUTH_USER_EXISTS', { message: 'Conflict', details: { hint: 'send-otp' } });
+    });
+
+    const result = await router.handle(apiEvent('GET', '/items'));
+
+    expect(result.statusCode).toBe(409);
+    expect(JSON.parse(result.body)).toEqual({
+      code: 'AUTH_USER_EXISTS',
+      messageKey: 'errors.auth.userExists',
+      message: 'Conflict',
+      details: { hint: 'send-otp' }
+    });
+  });
+
+  it('refuses to register the same route twice', () => {
+    const router = new Router().get('/items', async () => ok('list'));
+
+    expect(() => router.get('/items/', async () => ok('again'))).toThrow('Route GET /items is already registered');
+  });
+});
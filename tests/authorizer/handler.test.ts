@@ -0,0 +1,292 @@
+/**
+ * Authorizer policies - route permissions, revocation, CSRF and tenant isolation
+ * Tokens are signed by the local signer and its JWKS is served through a
+ * mocked axios, as in the auth handler tests
+ */
+
+import { randomUUID } from 'crypto';
+import { APIGatewayAuthorizerResult, APIGatewayRequestAuthorizerEvent } from 'aws-lambda';
+import axios from 'axios';
+import { handler } from '../../src/authorizer/index';
+import { getRequestedTenant, resolveTenant } from '../../src/authorizer/tenancy';
+import { LocalJwtSigner } from '../../src/local/jwt-signer';
+import { InMemoryRevocationStore, revokeOriginTokens, revokeUserTokens, setRevocationStore } from '../../src/shared/revocation-store';
+import { TEST_CONTEXT, browserHeaders, signTokens } from '../harness/api';
+import { TEST_CLIENT_ID, TEST_ISSUER } from '../harness/env';
+import { TEST_USERNAME } from '../harness/triggers';
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { get: jest.fn() }
+}));
+
+const signer = new LocalJwtSigner(TEST_ISSUER);
+const API_ARN = 'arn:aws:execute-api:eu-west-1:000000000000:api123/dev';
+
+let revocationStore: InMemoryRevocationStore;
+
+beforeAll(() => {
+  jest.mocked(axios.get).mockResolvedValue({ data: signer.getJwks() });
+});
+
+beforeEach(() => {
+  revocationStore = new InMemoryRevocationStore();
+  setRevocationStore(revocationStore);
+});
+
+function invokeAuthorizer(method: string, path: string, headers: Record<string, string>): Promise<APIGatewayAuthorizerResult> {
+  return handler({
+    type: 'REQUEST',
+    methodArn: `${API_ARN}/${method}${path}`,
+    path,
+    httpMethod: method,
+    headers
+  } as unknown as APIGatewayRequestAuthorizerEvent, TEST_CONTEXT);
+}
+
+function authorize(path: string, attributes: Record<string, unknown> = {}): Promise<APIGatewayAuthorizerResult> {
+  const { IdToken } = signTokens(signer, { attributes });
+
+  return invokeAuthorizer('GET', path, { Authorization: `Bearer ${IdToken}` });
+}
+
+/**
+ * Access token as Cognito issues it - groups and scopes, no profile claims
+ */
+function signAccessToken(claims: { scope?: string; groups?: string[] }): string {
+  return signer.sign({
+    sub: TEST_USERNAME,
+    client_id: TEST_CLIENT_ID,
+    origin_jti: randomUUID(),
+    token_use: 'access',
+    username: TEST_USERNAME,
+    ...(claims.scope !== undefined && { scope: claims.scope }),
+    ...(claims.groups && { 'cognito:groups': claims.groups })
+  }, 3600);
+}
+
+function isDenied(result: APIGatewayAuthorizerResult): boolean {
+  return result.policyDocument.Statement.length === 1 && result.policyDocument.Statement[0].Effect === 'Deny';
+}
+
+/**
+ * Evaluate the policy the way API Gateway does: an explicit Deny wins over any Allow
+ */
+function permits(result: APIGatewayAuthorizerResult, method: string, path: string): boolean {
+  const arn = `${API_ARN}/${method}${path}`;
+  const matching = result.policyDocument.Statement.filter(statement => {
+    const resources = ([] as string[]).concat((statement as { Resource: string | string[] }).Resource);
+    return resources.some(resource => matchesArn(resource, arn));
+  });
+
+  return matching.some(statement => statement.Effect === 'Allow') && !matching.some(statement => statement.Effect === 'Deny');
+}
+
+function matchesArn(pattern: string, arn: string): boolean {
+  const regex = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\/]/g, '\\$&')).join('.*');
+  return new RegExp(`^${regex}$`).test(arn);
+}
+
+describe('route permissions', () => {
+  it.each([
+    ['no role', {}],
+    ['role user', { 'custom:role': 'user' }],
+    ['an unknown role', { 'custom:role': 'guest' }],
+    ['group Users', { 'cognito:groups': ['Users'] }]
+  ])('keeps callers with %s out of admin routes', async (_, attributes) => {
+    const result = await authorize('/secure/auth/me', attributes);
+
+    expect(permits(result, 'GET', '/secure/auth/me')).toBe(true);
+    expect(permits(result, 'PATCH', '/secure/auth/me')).toBe(true);
+    expect(permits(result, 'GET', '/secure/admin/users')).toBe(false);
+    expect(permits(result, 'DELETE', '/secure/admin/users/user-1')).toBe(false);
+  });
+
+  it.each([
+    ['role admin', { 'custom:role': 'admin' }],
+    ['role super-admin', { 'custom:role': 'super-admin' }],
+    ['group Admins', { 'cognito:groups': ['Admins'] }]
+  ])('lets callers with %s use admin routes', async (_, attributes) => {
+    const result = await authorize('/secure/admin/users', attributes);
+
+    expect(permits(result, 'GET', '/secure/admin/users')).toBe(true);
+    expect(permits(result, 'POST', '/secure/admin/users/user-1/groups')).toBe(true);
+    expect(permits(result, 'GET', '/secure/auth/me')).toBe(true);
+  });
+
+  it.each([
+    ['role user in group Admins', { 'custom:role': 'user', 'cognito:groups': ['Admins'] }],
+    ['role admin in group Users', { 'custom:role': 'admin', 'cognito:groups': ['Users'] }]
+  ])('lifts the admin-route deny for %s', async (_, attributes) => {
+    const result = await authorize('/secure/admin/users', attributes);
+
+    expect(permits(result, 'GET', '/secure/admin/users')).toBe(true);
+    expect(result.policyDocument.Statement.filter(statement => statement.Effect === 'Deny')).toHaveLength(0);
+  });
+
+  it('passes role, groups and token use on to the backend', async () => {
+    const result = await authorize('/secure/auth/me', { 'custom:role': 'admin', 'cognito:groups': ['Admins', 'Users'] });
+
+    expect(result.principalId).toBe(TEST_USERNAME);
+    expect(result.context).toMatchObject({ userId: TEST_USERNAME, role: 'admin', groups: 'Admins,Users', tokenUse: 'id', scopes: '' });
+  });
+
+  describe('access tokens', () => {
+    const authorizeAccess = (token: string) =>
+      invokeAuthorizer('GET', '/secure/admin/users', { Authorization: `Bearer ${token}` });
+
+    it('applies the group permissions of a token with the sign-in scope', async () => {
+      const user = await authorizeAccess(signAccessToken({ scope: 'aws.cognito.signin.user.admin' }));
+      const admin = await authorizeAccess(signAccessToken({ scope: 'aws.cognito.signin.user.admin', groups: ['Admins'] }));
+
+      expect(permits(user, 'GET', '/secure/auth/me')).toBe(true);
+      expect(permits(user, 'GET', '/secure/admin/users')).toBe(false);
+      expect(permits(admin, 'GET', '/secure/admin/users')).toBe(true);
+      expect(admin.context).toMatchObject({ tokenUse: 'access', scopes: 'aws.cognito.signin.user.admin' });
+    });
+
+    it.each([
+      ['other scopes', 'api/read api/write'],
+      ['no scope', undefined]
+    ])('denies every route to a token with %s', async (_, scope) => {
+      const result = await authorizeAccess(signAccessToken({ scope, groups: ['Admins'] }));
+
+      expect(isDenied(result)).toBe(true);
+      expect(permits(result, 'GET', '/secure/auth/me')).toBe(false);
+      expect(permits(result, 'GET', '/secure/admin/users')).toBe(false);
+    });
+  });
+});
+
+describe('revoked tokens', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('rejects tokens issued before the user signed out everywhere', async () => {
+    const { IdToken } = signTokens(signer);
+    await revokeUserTokens(revocationStore, TEST_USERNAME);
+
+    await expect(invokeAuthorizer('GET', '/secure/auth/me', { Authorization: `Bearer ${IdToken}` })).rejects.toThrow('Unauthorized');
+  });
+
+  it('accepts tokens issued after the user signed out everywhere', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    await revokeUserTokens(revocationStore, TEST_USERNAME);
+    jest.setSystemTime(new Date('2026-01-01T00:00:05Z'));
+    const { IdToken } = signTokens(signer);
+
+    const result = await invokeAuthorizer('GET', '/secure/auth/me', { Authorization: `Bearer ${IdToken}` });
+
+    expect(permits(result, 'GET', '/secure/auth/me')).toBe(true);
+  });
+
+  it('rejects every token minted from a revoked refresh token, and only those', async () => {
+    const revoked = signTokens(signer);
+    const other = signTokens(signer);
+    await revokeOriginTokens(revocationStore, revoked.OriginJti);
+
+    for (const token of [revoked.IdToken!, revoked.AccessToken!]) {
+      await expect(invokeAuthorizer('GET', '/secure/auth/me', { Authorization: `Bearer ${token}` })).rejects.toThrow('Unauthorized');
+    }
+    const result = await invokeAuthorizer('GET', '/secure/auth/me', { Authorization: `Bearer ${other.IdToken}` });
+    expect(permits(result, 'GET', '/secure/auth/me')).toBe(true);
+  });
+});
+
+describe('cookie CSRF checks', () => {
+  const cookieRequest = (method: string, csrfHeader?: string) => {
+    const { IdToken } = signTokens(signer);
+    return invokeAuthorizer(method, '/secure/auth/me', browserHeaders({ idToken: IdToken!, csrfToken: 'csrf-1' }, csrfHeader));
+  };
+
+  it.each([
+    ['without the CSRF header', undefined],
+    ['with a mismatched CSRF header', 'csrf-2']
+  ])('denies a mutating cookie request %s', async (_, csrfHeader) => {
+    const result = await cookieRequest('PATCH', csrfHeader);
+
+    expect(isDenied(result)).toBe(true);
+    expect(result.policyDocument.Statement[0]).toMatchObject({ Resource: `${API_ARN}/PATCH/secure/auth/me` });
+    expect(result.context).toBeUndefined();
+  });
+
+  it('denies a mutating cookie request from an origin outside the allowlist', async () => {
+    const { IdToken } = signTokens(signer);
+    const headers = { ...browserHeaders({ idToken: IdToken!, csrfToken: 'csrf-1' }, 'csrf-1'), Origin: 'https://evil.example.com' };
+
+    expect(isDenied(await invokeAuthorizer('POST', '/secure/auth/me', headers))).toBe(true);
+  });
+
+  it('allows a mutating cookie request with a matching CSRF header', async () => {
+    expect(permits(await cookieRequest('PATCH', 'csrf-1'), 'PATCH', '/secure/auth/me')).toBe(true);
+  });
+
+  it('does not check safe methods or Bearer requests', async () => {
+    const { IdToken } = signTokens(signer);
+
+    expect(permits(await cookieRequest('GET'), 'GET', '/secure/auth/me')).toBe(true);
+    expect(permits(
+      await invokeAuthorizer('PATCH', '/secure/auth/me', { Authorization: `Bearer ${IdToken}` }),
+      'PATCH',
+      '/secure/auth/me'
+    )).toBe(true);
+  });
+});
+
+describe('company-scoped routes', () => {
+  it('allows the caller\'s own company and passes it on as the tenant', async () => {
+    const result = await authorize('/secure/companies/Acme/projects', { 'custom:company': 'Acme' });
+
+    expect(isDenied(result)).toBe(false);
+    expect(result.context).toMatchObject({ company: 'Acme', tenantId: 'Acme' });
+  });
+
+  it('denies another company', async () => {
+    const result = await authorize('/secure/companies/Globex/projects', { 'custom:company': 'Acme' });
+
+    expect(isDenied(result)).toBe(true);
+    expect(result.context).toBeUndefined();
+  });
+
+  it('denies callers without a company', async () => {
+    expect(isDenied(await authorize('/secure/companies/Acme'))).toBe(true);
+  });
+
+  it('does not let admins cross tenants', async () => {
+    const result = await authorize('/secure/companies/Globex/users', { 'custom:company': 'Acme', 'custom:role': 'admin' });
+
+    expect(isDenied(result)).toBe(true);
+  });
+
+  it('lets super-admins act on any company', async () => {
+    const result = await authorize('/secure/companies/Globex/users', { 'custom:company': 'Acme', 'custom:role': 'super-admin' });
+
+    expect(isDenied(result)).toBe(false);
+    expect(result.context).toMatchObject({ company: 'Acme', tenantId: 'Globex' });
+  });
+
+  it('uses the caller\'s company as the tenant on other routes', async () => {
+    const result = await authorize('/secure/auth/me', { 'custom:company': 'Acme' });
+
+    expect(isDenied(result)).toBe(false);
+    expect(result.context?.tenantId).toBe('Acme');
+  });
+});
+
+describe('getRequestedTenant', () => {
+  it.each([
+    ['/secure/companies/Acme', 'Acme'],
+    ['/secure/companies/Acme/', 'Acme'],
+    ['/secure/companies/Acme%20Corp/projects/1', 'Acme Corp'],
+    ['/secure/companies', null],
+    ['/secure/companiesx/Acme', null],
+    ['/secure/auth/me', null]
+  ])('reads %s as %j', (path, expected) => {
+    expect(getRequestedTenant(path)).toBe(expected);
+  });
+
+  it('compares tenants exactly', () => {
+    expect(resolveTenant('/secure/companies/acme', 'Acme', ['user'])).toEqual({ allowed: false, tenantId: '', reason: 'cross_tenant' });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Scheduled cleanup of users who never finished registration or never
+ * claimed an invitation
+ */
+
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  AdminDeleteUserCommand,
+  AdminGetUserCommand,
+  CognitoIdentityProviderClient,
+  ListUsersCommand,
+  UserNotFoundException,
+  UserType
+} from '@aws-sdk/client-cognito-identity-provider';
+import { handler } from '../../src/cleanup-unconfirmed/index';
+import { InMemoryInvitationStore, newInvitation, setInvitationStore } from '../../src/shared/invitations';
+import { TEST_USER_POOL_ID } from '../harness/env';
+
+const cognitoMock = mockClient(CognitoIdentityProviderClient);
+const HOUR = 3600 * 1000;
+
+function unconfirmedUser(username: string, ageHours: number): UserType {
+  return {
+    Username: username,
+    UserStatus: 'UNCONFIRMED',
+    UserCreateDate: new Date(Date.now() - ageHours * HOUR)
+  };
+}
+
+let invitationStore: InMemoryInvitationStore;
+
+beforeEach(() => {
+  cognitoMock.reset();
+  cognitoMock.on(ListUsersCommand).resolves({ Users: [] });
+  invitationStore = new InMemoryInvitationStore();
+  setInvitationStore(invitationStore);
+});
+
+async function putInvitation(inviteId: string, username: string, expired: boolean): Promise<void> {
+  const invitation = newInvitation({
+    inviteId,
+    username,
+    phoneNumber: '+447700900123',
+    company: 'Acme',
+    role: 'user',
+    invitedBy: 'admin-1'
+  });
+  await invitationStore.put(expired ? { ...invitation, expiresAt: Math.floor(Date.now() / 1000) - 1 } : invitation);
+}
+
+describe('cleanup-unconfirmed', () => {
+  it('deletes unconfirmed users older than the max age', async () => {
+    cognitoMock.on(ListUsersCommand).resolves({
+      Users: [unconfirmedUser('stale', 48), unconfirmedUser('fresh', 1)]
+    });
+
+    const result = await handler();
+
+    expect(result).toEqual({ unconfirmed: 2, expired: 1, invitees: 0, deleted: 1, failed: 0, dryRun: false });
+    expect(cognitoMock.commandCalls(ListUsersCommand)[0].args[0].input).toMatchObject({
+      UserPoolId: TEST_USER_POOL_ID,
+      Filter: 'cognito:user_status = "UNCONFIRMED"'
+    });
+    expect(cognitoMock.commandCalls(AdminDeleteUserCommand).map(call => call.args[0].input)).toEqual([
+      { UserPoolId: TEST_USER_POOL_ID, Username: 'stale' }
+    ]);
+  });
+
+  it('pages through every unconfirmed user before deleting', async () => {
+    cognitoMock
+      .on(ListUsersCommand, { PaginationToken: undefined })
+      .resolves({ Users: [unconfirmedUser('first', 30)], PaginationToken: 'page-2' })
+      .on(ListUsersCommand, { PaginationToken: 'page-2' })
+      .resolves({ Users: [unconfirmedUser('second', 30)] });
+
+    const result = await handler();
+
+    expect(result.deleted).toBe(2);
+    expect(cognitoMock.commandCalls(ListUsersCommand)).toHaveLength(2);
+  });
+
+  it('keeps going when a delete fails', async () => {
+    cognitoMock.on(ListUsersCommand).resolves({
+      Users: [unconfirmedUser('broken', 30), unconfirmedUser('stale', 30)]
+    });
+    cognitoMock
+      .on(AdminDeleteUserCommand, { Username: 'broken' })
+      .rejects(new Error('throttled'))
+      .on(AdminDeleteUserCommand, { Username: 'stale' })
+      .resolves({});
+
+    const result = await handler();
+
+    expect(result).toMatchObject({ deleted: 1, failed: 1 });
+  });
+
+  it('deletes the still-disabled users of expired invitations', async () => {
+    await putInvitation('expired-1', 'unclaimed', true);
+    await putInvitation('pending-1', 'invited', false);
+    cognitoMock.on(AdminGetUserCommand, { Username: 'unclaimed' }).resolves({ Username: 'unclaimed', Enabled: false });
+
+    const result = await handler();
+
+    expect(result).toMatchObject({ invitees: 1, deleted: 1, failed: 0 });
+    expect(cognitoMock.commandCalls(AdminGetUserCommand).map(call => call.args[0].input.Username)).toEqual(['unclaimed']);
+    expect(cognitoMock.commandCalls(AdminDeleteUserCommand).map(call => call.args[0].input)).toEqual([
+      { UserPoolId: TEST_USER_POOL_ID, Username: 'unclaimed' }
+    ]);
+  });
+
+  it('skips expired invitations whose user is enabled or already deleted', async () => {
+    await putInvitation('expired-1', 'enabled', true);
+    await putInvitation('expired-2', 'deleted', true);
+    cognitoMock
+      .on(AdminGetUserCommand, { Username: 'enabled' })
+      .resolves({ Username: 'enabled', Enabled: true })
+      .on(AdminGetUserCommand, { Username: 'deleted' })
+      .rejects(new UserNotFoundException({ message: 'User does not exist.', $metadata: {} }));
+
+    const result = await handler();
+
+    expect(result).toMatchObject({ invitees: 0, deleted: 0, failed: 0 });
+    expect(cognitoMock.commandCalls(AdminDeleteUserCommand)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,264 @@
+import { handler } from '../../src/cognito-triggers/create-auth-challenge/index';
+import { InMemoryOtpStore, setOtpStore, verifyOtp } from '../../src/shared/otp-store';
+import { OtpDeliveryError } from '../../src/shared/otp-delivery';
+import { OtpSendLimitError } from '../../src/shared/otp-send-limits';
+import { InMemoryAuditStore, setAuditStore } from '../../src/shared/audit-log';
+import { InMemoryRateLimitStore, setRateLimitStore } from '../../src/shared/rate-limiter';
+import { InMemorySignInAttemptStore, saveSignInAttempt, setSignInAttemptStore } from '../../src/shared/sign-in-attempts';
+import { CapturingOtpProvider, captureOtps } from '../harness/otp-capture';
+import {
+  TEST_PHONE_NUMBER,
+  TEST_USERNAME,
+  createAuthChallengeEvent,
+  invokeTrigger,
+  sessionWith
+} from '../harness/triggers';
+
+describe('create-auth-challenge', () => {
+  let otps: CapturingOtpProvider;
+  let store: InMemoryOtpStore;
+  let auditStore: InMemoryAuditStore;
+  let attemptStore: InMemorySignInAttemptStore;
+
+  beforeEach(() => {
+    otps = captureOtps();
+    store = new InMemoryOtpStore();
+    setOtpStore(store);
+    auditStore = new InMemoryAuditStore();
+    setAuditStore(auditStore);
+    attemptStore = new InMemorySignInAttemptStore();
+    setSignInAttemptStore(attemptStore);
+    setRateLimitStore(new InMemoryRateLimitStore());
+  });
+
+  it('issues and delivers a new code on the first attempt', async () => {
+    const { response } = await invokeTrigger(handler, createAuthChallengeEvent([]));
+    const challengeId = response.privateChallengeParameters.challengeId;
+
+    expect(challengeId).toMatch(/^[0-9a-f]{32}$/);
+    expect(response.challengeMetadata).toBe(challengeId);
+    expect(response.publicChallengeParameters).toEqual({
+      deliveryChannel: 'sink',
+      destination: '***3456'
+    });
+
+    expect(otps.delivered).toHaveLength(1);
+    expect(otps.delivered[0].recipient.phoneNumber).toBe(TEST_PHONE_NUMBER);
+
+    // Only the hash is stored - the delivered code verifies against it
+    const code = otps.lastCodeFor(TEST_PHONE_NUMBER);
+    await expect(verifyOtp(store, TEST_USERNAME, challengeId, code)).resolves.toBe('valid');
+  });
+
+  it('invalidates earlier codes when a new one is issued', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const first = await invokeTrigger(handler, createAuthChallengeEvent([]));
+    const firstCode = otps.lastCodeFor(TEST_PHONE_NUMBER);
+
+    // Past the resend cooldown, so the second send is not refused
+    jest.advanceTimersByTime(60_000);
+    await invokeTrigger(handler, createAuthChallengeEvent([]));
+    jest.useRealTimers();
+
+    await expect(
+      verifyOtp(store, TEST_USERNAME, first.response.privateChallengeParameters.challengeId, firstCode)
+    ).resolves.toBe('consumed');
+    await expect(store.listUnconsumed(TEST_USERNAME)).resolves.toHaveLength(1);
+  });
+
+  it.each([
+    ['true', true],
+    ['false', false],
+    [undefined, false]
+  ])('passes email_verified=%s on to delivery', async (emailVerified, expected) => {
+    const attributes = { email: 'ada@example.com', ...(emailVerified && { email_verified: emailVerified }) };
+    await invokeTrigger(handler, createAuthChallengeEvent([], { attributes }));
+
+    expect(otps.delivered[0].recipient).toMatchObject({ email: 'ada@example.com', emailVerified: expected });
+  });
+
+  it('leaves the email out of a current-number challenge for a phone change', async () => {
+    await saveSignInAttempt(attemptStore, TEST_USERNAME, { reason: 'phone-change' });
+    const attributes = { email: 'ada@example.com', email_verified: 'true' };
+
+    await invokeTrigger(handler, createAuthChallengeEvent([], { attributes }));
+
+    expect(otps.delivered[0].recipient).toEqual({ phoneNumber: TEST_PHONE_NUMBER });
+  });
+
+  it('never exposes the code in challenge parameters', async () => {
+    const { response } = await invokeTrigger(handler, createAuthChallengeEvent([]));
+    const code = otps.lastCodeFor(TEST_PHONE_NUMBER);
+
+    expect(JSON.stringify(response)).not.toContain(code);
+  });
+
+  it('reuses the previous challenge on a retry without sending another code', async () => {
+    const session = sessionWith(1, false, 'previous-challenge-id');
+    const { response } = await invokeTrigger(handler, createAuthChallengeEvent(session));
+
+    expect(response.privateChallengeParameters).toEqual({ challengeId: 'previous-challenge-id' });
+    expect(response.challengeMetadata).toBe('previous-challenge-id');
+    expect(otps.delivered).toHaveLength(0);
+  });
+
+  it('uses a challenge the auth lambda issued without sending a code', async () => {
+    await saveSignInAttempt(attemptStore, TEST_USERNAME, { challengeId: 'issued-challenge-id' });
+    const { response } = await invokeTrigger(handler, createAuthChallengeEvent([]));
+
+    expect(response.privateChallengeParameters).toEqual({ challengeId: 'issued-challenge-id' });
+    expect(response.challengeMetadata).toBe('issued-challenge-id');
+    expect(otps.delivered).toHaveLength(0);
+    expect(auditStore.records).toHaveLength(0);
+  });
+
+  it('issues a new code on a retry when the session carries no challenge', async () => {
+    const { response } = await invokeTrigger(handler, createAuthChallengeEvent(sessionWith(1)));
+
+    expect(response.challengeMetadata).toBe(response.privateChallengeParameters.challengeId);
+    expect(otps.delivered).toHaveLength(1);
+  });
+
+  it('throws when the code cannot be delivered', async () => {
+    otps.failWith = new Error('provider down');
+
+    await expect(invokeTrigger(handler, createAuthChallengeEvent([]))).rejects.toBeInstanceOf(OtpDeliveryError);
+  });
+
+  it('audits each code sent with the channel and the caller details of the sign-in attempt', async () => {
+    await saveSignInAttempt(attemptStore, TEST_PHONE_NUMBER, { sourceIp: '198.51.100.7', userAgent: 'TestAgent/1.0' });
+    await invokeTrigger(handler, createAuthChallengeEvent([]));
+    await invokeTrigger(handler, createAuthChallengeEvent(sessionWith(1, false, 'previous-challenge-id')));
+
+    expect(auditStore.records).toEqual([
+      expect.objectContaining({
+        action: 'auth.otp.sent',
+        userId: TEST_USERNAME,
+        outcome: 'success',
+        phoneNumber: '***3456',
+        sourceIp: '198.51.100.7',
+        userAgent: 'TestAgent/1.0',
+        details: { channel: 'sink' }
+      })
+    ]);
+  });
+
+  it('audits a failed delivery', async () => {
+    otps.failWith = new Error('provider down');
+
+    await expect(invokeTrigger(handler, createAuthChallengeEvent([]))).rejects.toThrow();
+    expect(auditStore.records).toEqual([
+      expect.objectContaining({ action: 'auth.otp.sent', outcome: 'failure', errorCode: 'AUTH_OTP_DELIVERY_FAILED' })
+    ]);
+  });
+
+  describe('send limits', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('refuses a second send to the number within the interval and keeps the first code valid', async () => {
+      const first = await invokeTrigger(handler, createAuthChallengeEvent([]));
+      const firstCode = otps.lastCodeFor(TEST_PHONE_NUMBER);
+
+      await expect(invokeTrigger(handler, createAuthChallengeEvent([]))).rejects.toBeInstanceOf(OtpSendLimitError);
+
+      expect(otps.delivered).toHaveLength(1);
+      await expect(
+        verifyOtp(store, TEST_USERNAME, first.response.privateChallengeParameters.challengeId, firstCode)
+      ).resolves.toBe('valid');
+    });
+
+    it.each(['step-up', 'phone-change'] as const)('sends a %s code right after a sign-in code', async reason => {
+      await saveSignInAttempt(attemptStore, TEST_PHONE_NUMBER, { reason: 'send-otp' });
+      await invokeTrigger(handler, createAuthChallengeEvent([]));
+
+      jest.advanceTimersByTime(5_000);
+      await saveSignInAttempt(attemptStore, TEST_USERNAME, { reason });
+      await invokeTrigger(handler, createAuthChallengeEvent([]));
+
+      expect(otps.delivered).toHaveLength(2);
+    });
+
+    it('counts step-up codes against the per-number window', async () => {
+      await saveSignInAttempt(attemptStore, TEST_USERNAME, { reason: 'step-up' });
+      for (let send = 0; send < 5; send++) {
+        await invokeTrigger(handler, createAuthChallengeEvent([]));
+      }
+
+      await expect(invokeTrigger(handler, createAuthChallengeEvent([]))).rejects.toBeInstanceOf(OtpSendLimitError);
+      expect(otps.delivered).toHaveLength(5);
+    });
+
+    it('refuses sends past the per-number window even when they are spaced out', async () => {
+      for (let send = 0; send < 5; send++) {
+        await invokeTrigger(handler, createAuthChallengeEvent([]));
+        jest.advanceTimersByTime(60_000);
+      }
+
+      await expect(invokeTrigger(handler, createAuthChallengeEvent([]))).rejects.toMatchObject({
+        name: 'OtpSendLimitError',
+        message: expect.stringMatching(/^OTP send limit reached, retry after \d+s$/)
+      });
+      expect(otps.delivered).toHaveLength(5);
+    });
+
+    it('audits a refused send', async () => {
+      await invokeTrigger(handler, createAuthChallengeEvent([]));
+      await expect(invokeTrigger(handler, createAuthChallengeEvent([]))).rejects.toThrow();
+
+      expect(auditStore.records[1]).toMatchObject({
+        action: 'auth.otp.sent',
+        outcome: 'failure',
+        errorCode: 'AUTH_RATE_LIMITED',
+        details: { retryAfter: expect.any(Number) }
+      });
+    });
+
+    it('does not count retries that reuse the delivered code', async () => {
+      await invokeTrigger(handler, createAuthChallengeEvent([]));
+      await invokeTrigger(handler, createAuthChallengeEvent(sessionWith(1, false, 'previous-challenge-id')));
+
+      expect(otps.delivered).toHaveLength(1);
+    });
+  });
+
+  it.each([
+    ['phone number', TEST_PHONE_NUMBER],
+    ['Cognito username', TEST_USERNAME]
+  ])('delivers on the channel the auth lambda saved under the %s', async (_, username) => {
+    await saveSignInAttempt(attemptStore, username, { channel: 'whatsapp' });
+
+    // WhatsApp is not configured in tests - the failure shows which channel was tried
+    await expect(invokeTrigger(handler, createAuthChallengeEvent([]))).rejects.toMatchObject({
+      failures: [{ channel: 'whatsapp', reason: 'not available for recipient' }]
+    });
+  });
+
+  it('audits a code issued on a retry with the caller details from clientMetadata', async () => {
+    await saveSignInAttempt(attemptStore, TEST_PHONE_NUMBER, { sourceIp: '198.51.100.7', userAgent: 'TestAgent/1.0' });
+    const clientMetadata = { sourceIp: '203.0.113.9', userAgent: 'OtherAgent/2.0' };
+    await invokeTrigger(handler, createAuthChallengeEvent(sessionWith(1), {}, clientMetadata));
+
+    expect(auditStore.records).toEqual([
+      expect.objectContaining({ action: 'auth.otp.sent', sourceIp: '203.0.113.9', userAgent: 'OtherAgent/2.0' })
+    ]);
+  });
+
+  it('ignores a channel in clientMetadata', async () => {
+    const { response } = await invokeTrigger(handler, createAuthChallengeEvent(sessionWith(1), {}, { channel: 'whatsapp' }));
+
+    expect(response.publicChallengeParameters.deliveryChannel).toBe('sink');
+  });
+
+  it('falls back to the default channel without a saved attempt', async () => {
+    await saveSignInAttempt(attemptStore, '+447911999999', { channel: 'whatsapp' });
+    const { response } = await invokeTrigger(handler, createAuthChallengeEvent([]));
+
+    expect(response.publicChallengeParameters.deliveryChannel).toBe('sink');
+  });
+});
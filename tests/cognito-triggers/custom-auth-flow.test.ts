@@ -0,0 +1,304 @@
+/**
+ * Custom auth state machine end to end: the four triggers run inside the
+ * local Cognito emulator, which carries the session array between calls
+ */
+
+import { createDecoyChallenge, setEnumerationSettings } from '../../src/auth/enumeration';
+import { handler as preAuthentication } from '../../src/cognito-triggers/pre-authentication/index';
+import { InMemoryAuditStore, setAuditStore } from '../../src/shared/audit-log';
+import { ChallengeStep, CognitoHarness, createCognitoHarness } from '../harness/cognito';
+import { TEST_CLIENT_ID, TEST_USER_POOL_ID } from '../harness/env';
+import { wrongCode } from '../harness/otp-capture';
+import { invokeTrigger, preAuthenticationEvent } from '../harness/triggers';
+
+const PHONE_NUMBER = '+447400123456';
+
+// create-auth-challenge refuses a second send to a number within half the
+// resend cooldown, and its sliding window always clears after the full cooldown
+const RESEND_COOLDOWN_MS = 60_000;
+
+describe('custom auth flow', () => {
+  let cognito: CognitoHarness;
+
+  beforeEach(() => {
+    cognito = createCognitoHarness();
+  });
+
+  describe('registration', () => {
+    it.each(['email', 'custom:otp_channel', 'custom:role'])('does not let SignUp write %s', async attribute => {
+      await expect(cognito.emulator.dispatch('SignUp', {
+        ClientId: TEST_CLIENT_ID,
+        Username: PHONE_NUMBER,
+        Password: 'Aa1!not-used',
+        UserAttributes: [{ Name: attribute, Value: 'whatsapp' }]
+      })).rejects.toMatchObject({ name: 'NotAuthorizedException' });
+      expect(cognito.emulator.findUser(PHONE_NUMBER)).toBeUndefined();
+    });
+
+    it('confirms an unconfirmed user once the OTP is answered', async () => {
+      const sub = await cognito.signUp(PHONE_NUMBER, 'Ada');
+      expect(cognito.emulator.findUser(sub)?.status).toBe('UNCONFIRMED');
+
+      const challenge = await cognito.startAuth(PHONE_NUMBER);
+      expect(challenge.ChallengeName).toBe('CUSTOM_CHALLENGE');
+      expect(challenge.ChallengeParameters).toMatchObject({ deliveryChannel: 'sink', destination: '***3456' });
+
+      const result = await cognito.answer(PHONE_NUMBER, challenge.Session!, cognito.otps.lastCodeFor(PHONE_NUMBER));
+      expect(result.AuthenticationResult?.IdToken).toBeDefined();
+      expect(result.AuthenticationResult?.RefreshToken).toBeDefined();
+
+      const user = cognito.emulator.findUser(sub);
+      expect(user?.status).toBe('CONFIRMED');
+      expect(user?.attributes.phone_number_verified).toBe('true');
+
+      const claims = cognito.signer.verify(result.AuthenticationResult!.IdToken!);
+      expect(claims).toMatchObject({
+        sub,
+        name: 'Ada',
+        phone_number: PHONE_NUMBER,
+        phone_number_verified: true,
+        token_use: 'id'
+      });
+    });
+
+    it('leaves the user unconfirmed when the OTP is never answered correctly', async () => {
+      const sub = await cognito.signUp(PHONE_NUMBER);
+      await lockOut(cognito);
+
+      expect(cognito.emulator.findUser(sub)?.status).toBe('UNCONFIRMED');
+    });
+
+    it('rejects a second registration for the same phone number', async () => {
+      await cognito.signUp(PHONE_NUMBER);
+
+      await expect(cognito.signUp(PHONE_NUMBER)).rejects.toMatchObject({ name: 'UsernameExistsException' });
+    });
+  });
+
+  describe('sign-in', () => {
+    beforeEach(async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      await cognito.signUp(PHONE_NUMBER);
+      const challenge = await cognito.startAuth(PHONE_NUMBER);
+      await cognito.answer(PHONE_NUMBER, challenge.Session!, cognito.otps.lastCodeFor(PHONE_NUMBER));
+      cognito.otps.delivered.length = 0;
+      jest.advanceTimersByTime(RESEND_COOLDOWN_MS);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('issues tokens for the correct code on the first attempt', async () => {
+      const challenge = await cognito.startAuth(PHONE_NUMBER);
+      const result = await cognito.answer(PHONE_NUMBER, challenge.Session!, cognito.otps.lastCodeFor(PHONE_NUMBER));
+
+      expect(result.AuthenticationResult).toMatchObject({ TokenType: 'Bearer', ExpiresIn: 3600 });
+      expect(cognito.otps.delivered).toHaveLength(1);
+    });
+
+    it.each([1, 2])('accepts the same code after %i wrong answer(s) without sending a new one', async wrongAnswers => {
+      const challenge = await cognito.startAuth(PHONE_NUMBER);
+      const code = cognito.otps.lastCodeFor(PHONE_NUMBER);
+      let session = challenge.Session!;
+
+      for (let attempt = 0; attempt < wrongAnswers; attempt++) {
+        const retry = await cognito.answer(PHONE_NUMBER, session, wrongCode(code));
+
+        expect(retry.ChallengeName).toBe('CUSTOM_CHALLENGE');
+        expect(retry.AuthenticationResult).toBeUndefined();
+        expect(retry.Session).not.toBe(session);
+        session = retry.Session!;
+      }
+
+      const result = await cognito.answer(PHONE_NUMBER, session, code);
+
+      expect(result.AuthenticationResult?.IdToken).toBeDefined();
+      expect(cognito.otps.delivered).toHaveLength(1);
+    });
+
+    it('locks the session out after the third wrong answer', async () => {
+      const challenge = await cognito.startAuth(PHONE_NUMBER);
+      const code = cognito.otps.lastCodeFor(PHONE_NUMBER);
+
+      const first = await cognito.answer(PHONE_NUMBER, challenge.Session!, wrongCode(code));
+      const second = await cognito.answer(PHONE_NUMBER, first.Session!, wrongCode(code));
+
+      await expect(cognito.answer(PHONE_NUMBER, second.Session!, wrongCode(code)))
+        .rejects.toMatchObject({ name: 'NotAuthorizedException' });
+
+      // The locked-out session is gone, even with the right code
+      await expect(cognito.answer(PHONE_NUMBER, second.Session!, code))
+        .rejects.toMatchObject({ name: 'NotAuthorizedException' });
+    });
+
+    it('sends a fresh code when a new sign-in starts after a lockout', async () => {
+      await lockOut(cognito);
+      jest.advanceTimersByTime(RESEND_COOLDOWN_MS);
+
+      const challenge = await cognito.startAuth(PHONE_NUMBER);
+      expect(cognito.otps.delivered).toHaveLength(2);
+
+      const result = await cognito.answer(PHONE_NUMBER, challenge.Session!, cognito.otps.lastCodeFor(PHONE_NUMBER));
+      expect(result.AuthenticationResult).toBeDefined();
+    });
+
+    it('only accepts the latest code after a resend', async () => {
+      const first = await cognito.startAuth(PHONE_NUMBER);
+      const firstCode = cognito.otps.lastCodeFor(PHONE_NUMBER);
+      jest.advanceTimersByTime(RESEND_COOLDOWN_MS);
+
+      const second = await cognito.startAuth(PHONE_NUMBER);
+      const secondCode = cognito.otps.lastCodeFor(PHONE_NUMBER);
+
+      const retry = await cognito.answer(PHONE_NUMBER, first.Session!, firstCode);
+      expect(retry.AuthenticationResult).toBeUndefined();
+
+      const result = await cognito.answer(PHONE_NUMBER, second.Session!, secondCode);
+      expect(result.AuthenticationResult).toBeDefined();
+    });
+
+    it('refuses repeated sign-ins started straight against Cognito without sending more codes', async () => {
+      const initiateAuth = () => cognito.emulator.dispatch('InitiateAuth', {
+        AuthFlow: 'CUSTOM_AUTH',
+        ClientId: TEST_CLIENT_ID,
+        AuthParameters: { USERNAME: PHONE_NUMBER }
+      });
+
+      await initiateAuth();
+      await expect(initiateAuth()).rejects.toMatchObject({
+        name: 'UserLambdaValidationException',
+        message: expect.stringContaining('OTP send limit reached')
+      });
+      expect(cognito.otps.delivered).toHaveLength(1);
+    });
+
+    it('does not accept a session twice', async () => {
+      const challenge = await cognito.startAuth(PHONE_NUMBER);
+      const code = cognito.otps.lastCodeFor(PHONE_NUMBER);
+
+      await cognito.answer(PHONE_NUMBER, challenge.Session!, code);
+
+      await expect(cognito.answer(PHONE_NUMBER, challenge.Session!, code))
+        .rejects.toMatchObject({ name: 'NotAuthorizedException' });
+    });
+
+    it('fails the call when the code cannot be delivered', async () => {
+      cognito.otps.failWith = new Error('provider down');
+
+      await expect(cognito.startAuth(PHONE_NUMBER)).rejects.toMatchObject({ name: 'UserLambdaValidationException' });
+    });
+  });
+
+  describe('delivery channel', () => {
+    it('uses the channel saved with the sign-in attempt', async () => {
+      await cognito.signUp(PHONE_NUMBER);
+
+      // WhatsApp is not configured in tests - the failed send shows the channel reached the trigger
+      await expect(cognito.startAuth(PHONE_NUMBER, { channel: 'whatsapp' }))
+        .rejects.toMatchObject({ name: 'UserLambdaValidationException' });
+      expect(cognito.otps.delivered).toHaveLength(0);
+    });
+
+    it('never passes AdminInitiateAuth ClientMetadata to the challenge triggers', async () => {
+      await cognito.signUp(PHONE_NUMBER);
+
+      const challenge = await cognito.emulator.dispatch('AdminInitiateAuth', {
+        AuthFlow: 'CUSTOM_AUTH',
+        UserPoolId: TEST_USER_POOL_ID,
+        ClientId: TEST_CLIENT_ID,
+        AuthParameters: { USERNAME: PHONE_NUMBER },
+        ClientMetadata: { channel: 'whatsapp' }
+      }) as ChallengeStep;
+
+      expect(challenge.ChallengeParameters).toMatchObject({ deliveryChannel: 'sink' });
+    });
+  });
+
+  describe('decoy delivery', () => {
+    beforeEach(() => {
+      setEnumerationSettings({ enabled: true, decoySecret: 'test-secret' });
+    });
+
+    afterEach(() => {
+      setEnumerationSettings({ enabled: false });
+    });
+
+    it.each([
+      ['without an email', {}],
+      ['with a verified email', { email: 'ada@example.com', email_verified: 'true' }]
+    ])('matches the delivery reported for a real user %s', async (_, attributes: Record<string, string>) => {
+      const sub = await cognito.signUp(PHONE_NUMBER);
+      Object.assign(cognito.emulator.findUser(sub)!.attributes, attributes);
+
+      const { deliveryChannel, destination } = (await cognito.startAuth(PHONE_NUMBER)).ChallengeParameters || {};
+
+      expect(createDecoyChallenge(PHONE_NUMBER).delivery).toEqual({ channel: deliveryChannel, destination });
+    });
+  });
+
+  describe('audit caller details', () => {
+    let auditStore: InMemoryAuditStore;
+
+    beforeEach(async () => {
+      auditStore = new InMemoryAuditStore();
+      setAuditStore(auditStore);
+      await cognito.signUp(PHONE_NUMBER);
+    });
+
+    it('records the caller of the sign-in attempt on the code sent', async () => {
+      await cognito.startAuth(PHONE_NUMBER, { sourceIp: '198.51.100.7', userAgent: 'TestAgent/1.0' });
+
+      expect(auditStore.records).toEqual([
+        expect.objectContaining({ action: 'auth.otp.sent', sourceIp: '198.51.100.7', userAgent: 'TestAgent/1.0' })
+      ]);
+    });
+
+    it('records the caller of the last answer on a lockout', async () => {
+      const challenge = await cognito.startAuth(PHONE_NUMBER, { sourceIp: '198.51.100.7' });
+      const code = wrongCode(cognito.otps.lastCodeFor(PHONE_NUMBER));
+      const client = { sourceIp: '203.0.113.9', userAgent: 'OtherAgent/2.0' };
+
+      const first = await cognito.answer(PHONE_NUMBER, challenge.Session!, code, client);
+      const second = await cognito.answer(PHONE_NUMBER, first.Session!, code, client);
+      await expect(cognito.answer(PHONE_NUMBER, second.Session!, code, client)).rejects.toThrow();
+
+      expect(auditStore.records.filter(record => record.action === 'auth.lockout')).toEqual([
+        expect.objectContaining({ sourceIp: '203.0.113.9', userAgent: 'OtherAgent/2.0' })
+      ]);
+    });
+  });
+
+  it('rejects sign-in for an unknown phone number', async () => {
+    await expect(cognito.startAuth('+447911123999')).rejects.toMatchObject({ name: 'UserNotFoundException' });
+    expect(cognito.otps.delivered).toHaveLength(0);
+  });
+});
+
+describe('pre-authentication', () => {
+  it.each(['UNCONFIRMED', 'CONFIRMED'])('lets %s users start custom auth', async status => {
+    const event = preAuthenticationEvent({ attributes: { 'cognito:user_status': status } });
+
+    await expect(invokeTrigger(preAuthentication, event)).resolves.toBe(event);
+  });
+
+  it('does not fail for an unknown user', async () => {
+    const event = preAuthenticationEvent({}, true);
+
+    await expect(invokeTrigger(preAuthentication, event)).resolves.toBe(event);
+  });
+});
+
+/**
+ * Start a sign-in and answer wrongly until the session is locked out
+ */
+async function lockOut(cognito: CognitoHarness): Promise<void> {
+  const challenge = await cognito.startAuth(PHONE_NUMBER);
+  const code = cognito.otps.lastCodeFor(PHONE_NUMBER);
+
+  const first = await cognito.answer(PHONE_NUMBER, challenge.Session!, wrongCode(code));
+  const second = await cognito.answer(PHONE_NUMBER, first.Session!, wrongCode(code));
+
+  await expect(cognito.answer(PHONE_NUMBER, second.Session!, wrongCode(code)))
+    .rejects.toMatchObject({ name: 'NotAuthorizedException' });
+}
@@ -0,0 +1,99 @@
+import { handler } from '../../src/cognito-triggers/define-auth-challenge/index';
+import { InMemoryAuditStore, setAuditStore } from '../../src/shared/audit-log';
+import { InMemorySignInAttemptStore, saveSignInAttempt, setSignInAttemptStore } from '../../src/shared/sign-in-attempts';
+import { TEST_PHONE_NUMBER, TEST_USERNAME, challengeResult, defineAuthChallengeEvent, invokeTrigger, sessionWith } from '../harness/triggers';
+
+describe('define-auth-challenge', () => {
+  let auditStore: InMemoryAuditStore;
+  let attemptStore: InMemorySignInAttemptStore;
+
+  beforeEach(() => {
+    auditStore = new InMemoryAuditStore();
+    setAuditStore(auditStore);
+    attemptStore = new InMemorySignInAttemptStore();
+    setSignInAttemptStore(attemptStore);
+  });
+
+  it('issues a custom challenge when the session is empty', async () => {
+    const { response } = await invokeTrigger(handler, defineAuthChallengeEvent([]));
+
+    expect(response).toEqual({
+      challengeName: 'CUSTOM_CHALLENGE',
+      issueTokens: false,
+      failAuthentication: false
+    });
+  });
+
+  it('issues tokens after a correct answer', async () => {
+    const { response } = await invokeTrigger(handler, defineAuthChallengeEvent(sessionWith(0, true)));
+
+    expect(response.issueTokens).toBe(true);
+    expect(response.failAuthentication).toBe(false);
+  });
+
+  it('issues tokens when the last of several attempts is correct', async () => {
+    const { response } = await invokeTrigger(handler, defineAuthChallengeEvent(sessionWith(2, true)));
+
+    expect(response.issueTokens).toBe(true);
+    expect(response.failAuthentication).toBe(false);
+  });
+
+  it.each([1, 2])('retries the challenge after %i wrong answer(s)', async wrongAnswers => {
+    const { response } = await invokeTrigger(handler, defineAuthChallengeEvent(sessionWith(wrongAnswers)));
+
+    expect(response).toEqual({
+      challengeName: 'CUSTOM_CHALLENGE',
+      issueTokens: false,
+      failAuthentication: false
+    });
+  });
+
+  it('fails authentication after the third wrong answer', async () => {
+    const { response } = await invokeTrigger(handler, defineAuthChallengeEvent(sessionWith(3)));
+
+    expect(response.issueTokens).toBe(false);
+    expect(response.failAuthentication).toBe(true);
+  });
+
+  it('audits the lockout with the caller details from the client metadata', async () => {
+    const clientMetadata = { sourceIp: '198.51.100.7', userAgent: 'TestAgent/1.0' };
+    await invokeTrigger(handler, defineAuthChallengeEvent(sessionWith(3), {}, clientMetadata));
+
+    expect(auditStore.records).toEqual([
+      expect.objectContaining({
+        action: 'auth.lockout',
+        userId: TEST_USERNAME,
+        outcome: 'failure',
+        errorCode: 'AUTH_TOO_MANY_ATTEMPTS',
+        phoneNumber: '***3456',
+        sourceIp: '198.51.100.7',
+        userAgent: 'TestAgent/1.0',
+        details: { attempts: 3 }
+      })
+    ]);
+  });
+
+  it('audits the lockout with the caller details of the sign-in attempt without client metadata', async () => {
+    await saveSignInAttempt(attemptStore, TEST_PHONE_NUMBER, { sourceIp: '198.51.100.7', userAgent: 'TestAgent/1.0' });
+    await invokeTrigger(handler, defineAuthChallengeEvent(sessionWith(3)));
+
+    expect(auditStore.records).toEqual([
+      expect.objectContaining({ action: 'auth.lockout', sourceIp: '198.51.100.7', userAgent: 'TestAgent/1.0' })
+    ]);
+  });
+
+  it('does not audit challenges that can still be answered', async () => {
+    await invokeTrigger(handler, defineAuthChallengeEvent(sessionWith(2)));
+    await invokeTrigger(handler, defineAuthChallengeEvent(sessionWith(1, true)));
+
+    expect(auditStore.records).toHaveLength(0);
+  });
+
+  it('only looks at the latest answer', async () => {
+    const session = [challengeResult(true), challengeResult(false)];
+    const { response } = await invokeTrigger(handler, defineAuthChallengeEvent(session));
+
+    expect(response.issueTokens).toBe(false);
+    expect(response.challengeName).toBe('CUSTOM_CHALLENGE');
+  });
+});
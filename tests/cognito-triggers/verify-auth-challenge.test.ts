@@ -0,0 +1,104 @@
+import { handler } from '../../src/cognito-triggers/verify-auth-challenge/index';
+import { InMemoryOtpStore, issueOtp, setOtpStore } from '../../src/shared/otp-store';
+import { InMemoryAuditStore, setAuditStore } from '../../src/shared/audit-log';
+import { wrongCode } from '../harness/otp-capture';
+import { TEST_USERNAME, invokeTrigger, verifyAuthChallengeEvent } from '../harness/triggers';
+
+describe('verify-auth-challenge', () => {
+  let store: InMemoryOtpStore;
+  let auditStore: InMemoryAuditStore;
+
+  beforeEach(() => {
+    store = new InMemoryOtpStore();
+    setOtpStore(store);
+    auditStore = new InMemoryAuditStore();
+    setAuditStore(auditStore);
+  });
+
+  it('accepts the issued code', async () => {
+    const otp = await issueOtp(store, TEST_USERNAME);
+    const { response } = await invokeTrigger(handler, verifyAuthChallengeEvent(otp.code, { challengeId: otp.challengeId }));
+
+    expect(response.answerCorrect).toBe(true);
+  });
+
+  it('rejects a wrong code', async () => {
+    const otp = await issueOtp(store, TEST_USERNAME);
+    const { response } = await invokeTrigger(
+      handler,
+      verifyAuthChallengeEvent(wrongCode(otp.code), { challengeId: otp.challengeId })
+    );
+
+    expect(response.answerCorrect).toBe(false);
+  });
+
+  it('rejects a code that was already used', async () => {
+    const otp = await issueOtp(store, TEST_USERNAME);
+    const event = () => verifyAuthChallengeEvent(otp.code, { challengeId: otp.challengeId });
+
+    await invokeTrigger(handler, event());
+    const { response } = await invokeTrigger(handler, event());
+
+    expect(response.answerCorrect).toBe(false);
+  });
+
+  it('rejects an expired code', async () => {
+    const otp = await issueOtp(store, TEST_USERNAME, 0);
+    const { response } = await invokeTrigger(handler, verifyAuthChallengeEvent(otp.code, { challengeId: otp.challengeId }));
+
+    expect(response.answerCorrect).toBe(false);
+  });
+
+  it('rejects a code issued to another user', async () => {
+    const otp = await issueOtp(store, 'someone-else');
+    const { response } = await invokeTrigger(handler, verifyAuthChallengeEvent(otp.code, { challengeId: otp.challengeId }));
+
+    expect(response.answerCorrect).toBe(false);
+  });
+
+  it('audits a correct answer with the caller details from the client metadata', async () => {
+    const otp = await issueOtp(store, TEST_USERNAME);
+    const clientMetadata = { sourceIp: '198.51.100.7', userAgent: 'TestAgent/1.0' };
+    await invokeTrigger(handler, verifyAuthChallengeEvent(otp.code, { challengeId: otp.challengeId }, {}, clientMetadata));
+
+    expect(auditStore.records).toEqual([
+      expect.objectContaining({
+        action: 'auth.otp.verified',
+        userId: TEST_USERNAME,
+        outcome: 'success',
+        phoneNumber: '***3456',
+        sourceIp: '198.51.100.7',
+        userAgent: 'TestAgent/1.0'
+      })
+    ]);
+  });
+
+  it('audits a failed answer with the reason and never the code', async () => {
+    const otp = await issueOtp(store, TEST_USERNAME);
+    const answer = wrongCode(otp.code);
+    await invokeTrigger(handler, verifyAuthChallengeEvent(answer, { challengeId: otp.challengeId }));
+
+    expect(auditStore.records).toEqual([
+      expect.objectContaining({ action: 'auth.otp.failed', outcome: 'failure', details: { reason: 'invalid' } })
+    ]);
+    expect(JSON.stringify(auditStore.records)).not.toContain(answer);
+  });
+
+  it('logs the outcome but never the answer', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    log.mockClear();
+
+    const otp = await issueOtp(store, TEST_USERNAME);
+    await invokeTrigger(handler, verifyAuthChallengeEvent(otp.code, { challengeId: otp.challengeId }));
+
+    const output = log.mock.calls.map(args => args.join(' ')).join('\n');
+    expect(output).toContain('OTP verification succeeded');
+    expect(output).not.toContain(otp.code);
+  });
+
+  it('rejects any answer without a challenge ID', async () => {
+    const { response } = await invokeTrigger(handler, verifyAuthChallengeEvent('123456', {}));
+
+    expect(response.answerCorrect).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * API Harness
+ * REST API proxy events for the auth and admin handlers, Cognito-style tokens signed by
+ * the local signer and helpers for reading responses and cookies
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { AuthenticationResultType } from '@aws-sdk/client-cognito-identity-provider';
+import { randomUUID } from 'crypto';
+import { LocalJwtSigner } from '../../src/local/jwt-signer';
+import { TEST_CLIENT_ID, TEST_ORIGIN } from './env';
+import { TEST_PHONE_NUMBER, TEST_USERNAME } from './triggers';
+
+export const TEST_CONTEXT = {
+  functionName: 'test',
+  awsRequestId: 'test'
+} as Context;
+
+export interface ApiRequest {
+  body?: unknown;
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+  sourceIp?: string;
+  authorizer?: Record<string, string>;   // Authorizer context, as passed on by API Gateway
+}
+
+export interface TestTokenOptions {
+  sub?: string;
+  phoneNumber?: string;
+  attributes?: Record<string, unknown>;
+  expiresInSeconds?: number;
+}
+
+/**
+ * REST API (v1) proxy event for a request under /secure/auth or /secure/admin
+ */
+export function apiEvent(method: string, path: string, request: ApiRequest = {}): APIGatewayProxyEvent {
+  const headers = request.headers || {};
+
+  return {
+    resource: path,
+    path,
+    httpMethod: method,
+    headers,
+    multiValueHeaders: Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, [value]])),
+    queryStringParameters: request.query || null,
+    multiValueQueryStringParameters: null,
+    pathParameters: null,
+    stageVariables: null,
+    body: request.body === undefined ? null : JSON.stringify(request.body),
+    isBase64Encoded: false,
+    requestContext: {
+      accountId: '000000000000',
+      apiId: 'test',
+      authorizer: request.authorizer || null,
+      httpMethod: method,
+      identity: {
+        sourceIp: request.sourceIp || '203.0.113.10',
+        userAgent: 'jest'
+      },
+      path: `/dev${path}`,
+      protocol: 'HTTP/1.1',
+      requestId: randomUUID(),
+      requestTimeEpoch: Date.now(),
+      resourceId: 'test',
+      resourcePath: path,
+      stage: 'dev'
+    }
+  } as APIGatewayProxyEvent;
+}
+
+/**
+ * Tokens shaped like a Cognito AuthenticationResult, sharing one origin_jti
+ */
+export function signTokens(signer: LocalJwtSigner, options: TestTokenOptions = {}): AuthenticationResultType & { OriginJti: string } {
+  const sub = options.sub || TEST_USERNAME;
+  const expiresIn = options.expiresInSeconds ?? 3600;
+  const originJti = randomUUID();
+
+  const idToken = signer.sign({
+    sub,
+    phone_number: options.phoneNumber || TEST_PHONE_NUMBER,
+    phone_number_verified: true,
+    'cognito:username': sub,
+    aud: TEST_CLIENT_ID,
+    origin_jti: originJti,
+    token_use: 'id',
+    ...options.attributes
+  }, expiresIn);
+
+  const accessToken = signer.sign({
+    sub,
+    client_id: TEST_CLIENT_ID,
+    origin_jti: originJti,
+    token_use: 'access',
+    scope: 'aws.cognito.signin.user.admin',
+    username: sub
+  }, expiresIn);
+
+  return {
+    IdToken: idToken,
+    AccessToken: accessToken,
+    RefreshToken: `refresh-${randomUUID()}`,
+    ExpiresIn: expiresIn,
+    TokenType: 'Bearer',
+    OriginJti: originJti
+  };
+}
+
+export function parseBody<T = Record<string, any>>(result: APIGatewayProxyResult): T {
+  return JSON.parse(result.body) as T;
+}
+
+/**
+ * Set-Cookie headers of a response (sent as multiValueHeaders)
+ */
+export function getSetCookies(result: APIGatewayProxyResult): string[] {
+  return (result.multiValueHeaders?.['Set-Cookie'] || []).map(String);
+}
+
+/**
+ * Cookie request header a browser would send back after a response
+ */
+export function cookieHeaderFrom(setCookies: string[]): string {
+  return setCookies.map(header => header.split(';')[0]).join('; ');
+}
+
+/**
+ * Headers of a cookie-authenticated browser request that passes CSRF checks
+ */
+export function browserHeaders(cookies: Record<string, string>, csrfToken?: string): Record<string, string> {
+  return {
+    Origin: TEST_ORIGIN,
+    Cookie: Object.entries(cookies).map(([name, value]) => `${name}=${value}`).join('; '),
+    ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {})
+  };
+}
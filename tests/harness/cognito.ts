@@ -0,0 +1,107 @@
+/**
+ * Cognito Harness
+ * Wires the real triggers into the local Cognito emulator (src/local), which
+ * keeps the session array between calls the way Cognito does, so whole
+ * sign-in flows can be driven without AWS
+ */
+
+import { RespondToAuthChallengeCommandOutput, InitiateAuthCommandOutput } from '@aws-sdk/client-cognito-identity-provider';
+import { CognitoEmulator } from '../../src/local/cognito-emulator';
+import { LocalJwtSigner } from '../../src/local/jwt-signer';
+import { InMemoryOtpStore, setOtpStore } from '../../src/shared/otp-store';
+import { InMemoryRateLimitStore, setRateLimitStore } from '../../src/shared/rate-limiter';
+import { InMemorySignInAttemptStore, saveSignInAttempt, setSignInAttemptStore, SignInAttempt } from '../../src/shared/sign-in-attempts';
+import { handler as defineAuthChallenge } from '../../src/cognito-triggers/define-auth-challenge/index';
+import { handler as createAuthChallenge } from '../../src/cognito-triggers/create-auth-challenge/index';
+import { handler as verifyAuthChallenge } from '../../src/cognito-triggers/verify-auth-challenge/index';
+import { handler as preAuthentication } from '../../src/cognito-triggers/pre-authentication/index';
+import { TEST_CLIENT_ID, TEST_ISSUER, TEST_REGION, TEST_USER_POOL_ID } from './env';
+import { CapturingOtpProvider, captureOtps } from './otp-capture';
+
+export type ChallengeStep = Pick<InitiateAuthCommandOutput, 'ChallengeName' | 'Session' | 'ChallengeParameters' | 'AuthenticationResult'>;
+
+export interface CognitoHarness {
+  emulator: CognitoEmulator;
+  signer: LocalJwtSigner;
+  otps: CapturingOtpProvider;
+  otpStore: InMemoryOtpStore;
+  signInAttempts: InMemorySignInAttemptStore;
+  rateLimits: InMemoryRateLimitStore;
+  signUp(phoneNumber: string, name?: string): Promise<string>;
+  // Saves the attempt and starts custom auth the way the auth lambda does
+  startAuth(phoneNumber: string, attempt?: Pick<SignInAttempt, 'channel' | 'sourceIp' | 'userAgent'>): Promise<ChallengeStep>;
+  answer(phoneNumber: string, session: string, code: string, clientMetadata?: Record<string, string>): Promise<ChallengeStep>;
+}
+
+export interface HarnessOptions {
+  signer?: LocalJwtSigner;
+  withPreAuthentication?: boolean;
+}
+
+/**
+ * Fresh emulator, OTP and rate limit stores and captured deliveries for one test
+ */
+export function createCognitoHarness(options: HarnessOptions = {}): CognitoHarness {
+  const signer = options.signer || new LocalJwtSigner(TEST_ISSUER);
+  const otps = captureOtps();
+  const otpStore = new InMemoryOtpStore();
+  setOtpStore(otpStore);
+  const signInAttempts = new InMemorySignInAttemptStore();
+  setSignInAttemptStore(signInAttempts);
+  const rateLimits = new InMemoryRateLimitStore();
+  setRateLimitStore(rateLimits);
+
+  const emulator = new CognitoEmulator({
+    region: TEST_REGION,
+    userPoolId: TEST_USER_POOL_ID,
+    clientId: TEST_CLIENT_ID,
+    signer,
+    triggers: {
+      preAuthentication: options.withPreAuthentication === false ? undefined : preAuthentication,
+      defineAuthChallenge,
+      createAuthChallenge,
+      verifyAuthChallenge
+    }
+  });
+
+  return {
+    emulator,
+    signer,
+    otps,
+    otpStore,
+    signInAttempts,
+    rateLimits,
+
+    async signUp(phoneNumber: string, name?: string): Promise<string> {
+      const output = await emulator.dispatch('SignUp', {
+        ClientId: TEST_CLIENT_ID,
+        Username: phoneNumber,
+        Password: 'Aa1!not-used',
+        UserAttributes: name ? [{ Name: 'name', Value: name }] : []
+      }) as { UserSub: string };
+
+      return output.UserSub;
+    },
+
+    async startAuth(phoneNumber: string, attempt: Pick<SignInAttempt, 'channel' | 'sourceIp' | 'userAgent'> = {}): Promise<ChallengeStep> {
+      await saveSignInAttempt(signInAttempts, phoneNumber, attempt);
+
+      return await emulator.dispatch('AdminInitiateAuth', {
+        AuthFlow: 'CUSTOM_AUTH',
+        UserPoolId: TEST_USER_POOL_ID,
+        ClientId: TEST_CLIENT_ID,
+        AuthParameters: { USERNAME: phoneNumber }
+      }) as ChallengeStep;
+    },
+
+    async answer(phoneNumber: string, session: string, code: string, clientMetadata?: Record<string, string>): Promise<ChallengeStep> {
+      return await emulator.dispatch('RespondToAuthChallenge', {
+        ChallengeName: 'CUSTOM_CHALLENGE',
+        ClientId: TEST_CLIENT_ID,
+        Session: session,
+        ChallengeResponses: { USERNAME: phoneNumber, ANSWER: code },
+        ClientMetadata: clientMetadata
+      }) as RespondToAuthChallengeCommandOutput;
+    }
+  };
+}
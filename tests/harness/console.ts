@@ -0,0 +1,10 @@
+/**
+ * The handlers log every event - keep test output readable
+ * Set TEST_VERBOSE=true to see the logs
+ */
+
+if (process.env.TEST_VERBOSE !== 'true') {
+  for (const method of ['log', 'info', 'warn', 'error'] as const) {
+    jest.spyOn(console, method).mockImplementation(() => undefined);
+  }
+}
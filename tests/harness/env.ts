@@ -0,0 +1,31 @@
+/**
+ * Test Environment
+ * Handlers read their configuration from process.env at import time, so it
+ * is set here (jest setupFiles) before any test file loads them
+ */
+
+export const TEST_REGION = 'eu-west-1';
+export const TEST_USER_POOL_ID = 'eu-west-1_test';
+export const TEST_CLIENT_ID = 'testclient';
+export const TEST_ISSUER = `http://localhost/test-cognito/${TEST_USER_POOL_ID}`;
+export const TEST_ORIGIN = 'https://app.example.com';
+
+Object.assign(process.env, {
+  ENVIRONMENT: 'dev',
+  AWS_REGION: TEST_REGION,
+  AWS_ACCESS_KEY_ID: 'test',
+  AWS_SECRET_ACCESS_KEY: 'test',
+  COGNITO_USER_POOL_ID: TEST_USER_POOL_ID,
+  COGNITO_CLIENT_ID: TEST_CLIENT_ID,
+  COGNITO_ISSUER: TEST_ISSUER,
+  ALLOWED_ORIGINS: TEST_ORIGIN,
+  DEFAULT_PHONE_REGION: 'GB',
+  OTP_SINK_ENABLED: 'true',
+  OTP_DEFAULT_CHANNEL: 'sink',
+  OTP_FALLBACK_CHANNEL: ''
+});
+
+// Every store runs in memory - never talk to a real table from a test
+for (const name of ['OTP_TABLE_NAME', 'RATE_LIMIT_TABLE_NAME', 'REVOCATION_TABLE_NAME', 'AUDIT_TABLE_NAME', 'INVITATION_TABLE_NAME', 'SIGN_IN_ATTEMPT_TABLE_NAME', 'DECOY_SESSION_TABLE_NAME', 'OTP_SINK_FILE']) {
+  delete process.env[name];
+}
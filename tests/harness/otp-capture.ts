@@ -0,0 +1,85 @@
+/**
+ * OTP Capture
+ * Stands in for the sink channel and records every code (and invitation
+ * link) that would have been delivered, so tests can answer challenges
+ * with the real code
+ */
+
+import {
+  OtpDeliveryProvider,
+  OtpMessage,
+  OtpRecipient,
+  maskPhoneNumber,
+  setOtpDeliveryProvider
+} from '../../src/shared/otp-delivery';
+
+export interface DeliveredOtp {
+  recipient: OtpRecipient;
+  code: string;
+  ttlSeconds: number;
+  invitation?: OtpMessage['invitation'];
+}
+
+export class CapturingOtpProvider implements OtpDeliveryProvider {
+  readonly channel = 'sink' as const;
+  readonly delivered: DeliveredOtp[] = [];
+  failWith: Error | null = null;
+
+  canDeliver(recipient: OtpRecipient): boolean {
+    return Boolean(recipient.phoneNumber || recipient.email);
+  }
+
+  async send(recipient: OtpRecipient, message: OtpMessage): Promise<void> {
+    if (this.failWith) {
+      throw this.failWith;
+    }
+
+    this.delivered.push({ recipient, code: message.code, ttlSeconds: message.ttlSeconds, invitation: message.invitation });
+  }
+
+  mask(recipient: OtpRecipient): string {
+    return maskPhoneNumber(recipient.phoneNumber || '');
+  }
+
+  /**
+   * Code most recently delivered to a phone number
+   */
+  lastCodeFor(phoneNumber: string): string {
+    const match = [...this.delivered].reverse().find(otp => otp.recipient.phoneNumber === phoneNumber);
+
+    if (!match) {
+      throw new Error(`No OTP delivered to ${phoneNumber}`);
+    }
+
+    return match.code;
+  }
+
+  /**
+   * Link token of the invitation most recently delivered to a phone number
+   */
+  lastInvitationTokenFor(phoneNumber: string): string {
+    const match = [...this.delivered].reverse().find(otp => otp.recipient.phoneNumber === phoneNumber && otp.invitation);
+
+    if (!match) {
+      throw new Error(`No invitation delivered to ${phoneNumber}`);
+    }
+
+    return new URL(match.invitation!.url).searchParams.get('token') || '';
+  }
+}
+
+/**
+ * Install a fresh capturing provider for the sink channel (OTP_DEFAULT_CHANNEL in tests)
+ */
+export function captureOtps(): CapturingOtpProvider {
+  const provider = new CapturingOtpProvider();
+  setOtpDeliveryProvider(provider);
+  return provider;
+}
+
+/**
+ * A code guaranteed not to match the delivered one
+ */
+export function wrongCode(code: string): string {
+  return code === '000000' ? '111111' : '000000';
+}
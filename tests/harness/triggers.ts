@@ -0,0 +1,167 @@
+/**
+ * Trigger Harness
+ * Builds Cognito custom auth trigger events and the session array Cognito
+ * passes between them, so each trigger can be driven on its own
+ */
+
+import {
+  Context,
+  CreateAuthChallengeTriggerEvent,
+  DefineAuthChallengeTriggerEvent,
+  Handler,
+  PreAuthenticationTriggerEvent,
+  VerifyAuthChallengeResponseTriggerEvent
+} from 'aws-lambda';
+import { TEST_CLIENT_ID, TEST_REGION, TEST_USER_POOL_ID } from './env';
+
+export const TEST_USERNAME = '6f0c2a4e-1d3b-4c5a-9e8f-7a6b5c4d3e2f';
+export const TEST_PHONE_NUMBER = '+447911123456';
+
+// One answered challenge, as Cognito records it in request.session
+export type SessionEntry = DefineAuthChallengeTriggerEvent['request']['session'][number];
+
+export interface TriggerUser {
+  userName?: string;
+  attributes?: Record<string, string>;
+}
+
+const TRIGGER_CONTEXT = {
+  functionName: 'test',
+  awsRequestId: 'test'
+} as Context;
+
+/**
+ * Run a trigger handler and return the event it hands back to Cognito
+ */
+export async function invokeTrigger<E>(handler: Handler<E, E>, event: E): Promise<E> {
+  const result = await handler(event, TRIGGER_CONTEXT, () => undefined);
+  return result || event;
+}
+
+/**
+ * One entry of the session array - the outcome of an answered challenge
+ */
+export function challengeResult(correct: boolean, challengeMetadata?: string): SessionEntry {
+  return {
+    challengeName: 'CUSTOM_CHALLENGE',
+    challengeResult: correct,
+    ...(challengeMetadata ? { challengeMetadata } : {})
+  };
+}
+
+/**
+ * Session array after a number of wrong answers (and optionally a final correct one)
+ */
+export function sessionWith(wrongAnswers: number, answeredCorrectly = false, challengeMetadata?: string): SessionEntry[] {
+  const session = Array.from({ length: wrongAnswers }, () => challengeResult(false, challengeMetadata));
+  return answeredCorrectly ? [...session, challengeResult(true, challengeMetadata)] : session;
+}
+
+export function defineAuthChallengeEvent(
+  session: SessionEntry[],
+  user: TriggerUser = {},
+  clientMetadata?: Record<string, string>
+): DefineAuthChallengeTriggerEvent {
+  return {
+    ...baseEvent('DefineAuthChallenge_Authentication', user),
+    request: {
+      userAttributes: userAttributes(user),
+      session,
+      clientMetadata: respondMetadata(session, clientMetadata),
+      userNotFound: false
+    },
+    response: {
+      failAuthentication: false,
+      issueTokens: false
+    }
+  };
+}
+
+export function createAuthChallengeEvent(
+  session: SessionEntry[],
+  user: TriggerUser = {},
+  clientMetadata?: Record<string, string>
+): CreateAuthChallengeTriggerEvent {
+  return {
+    ...baseEvent('CreateAuthChallenge_Authentication', user),
+    request: {
+      userAttributes: userAttributes(user),
+      challengeName: 'CUSTOM_CHALLENGE',
+      session,
+      clientMetadata: respondMetadata(session, clientMetadata),
+      userNotFound: false
+    },
+    response: {
+      publicChallengeParameters: {},
+      privateChallengeParameters: {},
+      challengeMetadata: ''
+    }
+  };
+}
+
+export function verifyAuthChallengeEvent(
+  challengeAnswer: string,
+  privateChallengeParameters: Record<string, string>,
+  user: TriggerUser = {},
+  clientMetadata?: Record<string, string>
+): VerifyAuthChallengeResponseTriggerEvent {
+  return {
+    ...baseEvent('VerifyAuthChallengeResponse_Authentication', user),
+    request: {
+      userAttributes: userAttributes(user),
+      privateChallengeParameters,
+      challengeAnswer,
+      clientMetadata,
+      userNotFound: false
+    },
+    response: {
+      answerCorrect: false
+    }
+  };
+}
+
+export function preAuthenticationEvent(user: TriggerUser = {}, userNotFound = false): PreAuthenticationTriggerEvent {
+  return {
+    ...baseEvent('PreAuthentication_Authentication', user),
+    request: {
+      userAttributes: userAttributes(user),
+      userNotFound
+    },
+    response: {}
+  };
+}
+
+/**
+ * An empty session means the trigger runs for AdminInitiateAuth, whose
+ * ClientMetadata Cognito never forwards to the challenge triggers
+ */
+function respondMetadata(session: SessionEntry[], clientMetadata?: Record<string, string>): Record<string, string> | undefined {
+  if (clientMetadata && session.length === 0) {
+    throw new Error('Cognito only passes clientMetadata to the challenge triggers on RespondToAuthChallenge');
+  }
+
+  return clientMetadata;
+}
+
+function baseEvent<T extends string>(triggerSource: T, user: TriggerUser) {
+  return {
+    version: '1',
+    region: TEST_REGION,
+    userPoolId: TEST_USER_POOL_ID,
+    triggerSource,
+    userName: user.userName || TEST_USERNAME,
+    callerContext: {
+      awsSdkVersion: 'test',
+      clientId: TEST_CLIENT_ID
+    }
+  };
+}
+
+function userAttributes(user: TriggerUser): Record<string, string> {
+  return {
+    sub: user.userName || TEST_USERNAME,
+    phone_number: TEST_PHONE_NUMBER,
+    'cognito:user_status': 'CONFIRMED',
+    ...user.attributes
+  };
+}
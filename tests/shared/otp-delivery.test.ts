@@ -0,0 +1,69 @@
+import { canEmail, SinkProvider } from '../../src/shared/otp-delivery';
+
+const EMAIL = 'ada@example.com';
+
+describe('canEmail', () => {
+  it('accepts a verified address', () => {
+    expect(canEmail({ email: EMAIL, emailVerified: true })).toBe(true);
+  });
+
+  it('accepts the address a verification code is sent to', () => {
+    expect(canEmail({ email: EMAIL, verifiesEmail: true })).toBe(true);
+  });
+
+  it.each([
+    ['an unverified address', { email: EMAIL, emailVerified: false }],
+    ['an address without verification status', { email: EMAIL }],
+    ['no address', { emailVerified: true }]
+  ])('rejects %s', (_, recipient) => {
+    expect(canEmail(recipient)).toBe(false);
+  });
+});
+
+describe('SesEmailProvider', () => {
+  // OTP_EMAIL_FROM is read at import time
+  function loadProvider() {
+    process.env.OTP_EMAIL_FROM = 'codes@example.com';
+    let provider: import('../../src/shared/otp-delivery').SesEmailProvider | undefined;
+
+    jest.isolateModules(() => {
+      const { SesEmailProvider } = require('../../src/shared/otp-delivery');
+      provider = new SesEmailProvider();
+    });
+
+    delete process.env.OTP_EMAIL_FROM;
+    return provider!;
+  }
+
+  it('delivers to a verified address', () => {
+    expect(loadProvider().canDeliver({ phoneNumber: '+447911123456', email: EMAIL, emailVerified: true })).toBe(true);
+  });
+
+  it('never delivers sign-in codes to an unverified address', () => {
+    expect(loadProvider().canDeliver({ phoneNumber: '+447911123456', email: EMAIL, emailVerified: false })).toBe(false);
+  });
+});
+
+describe('SinkProvider', () => {
+  it('is unavailable unless the local server enables it', () => {
+    // OTP_SINK_ENABLED is read at import time
+    delete process.env.OTP_SINK_ENABLED;
+
+    try {
+      jest.isolateModules(() => {
+        const { SinkProvider: UnconfiguredSink } = require('../../src/shared/otp-delivery');
+        expect(new UnconfiguredSink().canDeliver({ phoneNumber: '+447911123456' })).toBe(false);
+      });
+    } finally {
+      process.env.OTP_SINK_ENABLED = 'true';
+    }
+  });
+
+  it('needs a phone number or a verified address', () => {
+    const sink = new SinkProvider();
+
+    expect(sink.canDeliver({ email: EMAIL, emailVerified: false })).toBe(false);
+    expect(sink.canDeliver({ email: EMAIL, emailVerified: true })).toBe(true);
+    expect(sink.canDeliver({ phoneNumber: '+447911123456', email: EMAIL })).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Attempt limits in the shared OTP store
+ * Guesses made in parallel must not get past the limit between the read and
+ * the increment
+ */
+
+import { UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { getDocumentClient } from '../../src/shared/dynamo';
+import { DynamoOtpStore, InMemoryOtpStore, issueOtp, verifyOtp } from '../../src/shared/otp-store';
+import { wrongCode } from '../harness/otp-capture';
+
+const USER = 'otp-store-user';
+
+describe('verifyOtp attempt limit', () => {
+  let store: InMemoryOtpStore;
+
+  beforeEach(() => {
+    store = new InMemoryOtpStore();
+  });
+
+  it('counts no more than the maximum when wrong guesses run concurrently', async () => {
+    const otp = await issueOtp(store, USER);
+    const guess = wrongCode(otp.code);
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => verifyOtp(store, USER, otp.challengeId, guess, 3))
+    );
+
+    expect(results.filter(result => result === 'invalid')).toHaveLength(3);
+    expect(results.filter(result => result === 'too_many_attempts')).toHaveLength(7);
+    expect((await store.get(USER, otp.challengeId))!.attempts).toBe(3);
+  });
+
+  it('rejects the right code once the attempts are used up', async () => {
+    const otp = await issueOtp(store, USER);
+    const guess = wrongCode(otp.code);
+
+    await Promise.all(Array.from({ length: 5 }, () => verifyOtp(store, USER, otp.challengeId, guess, 3)));
+
+    await expect(verifyOtp(store, USER, otp.challengeId, otp.code, 3)).resolves.toBe('too_many_attempts');
+  });
+
+  it('treats a failed DynamoDB condition on the increment as too many attempts', async () => {
+    const dynamoStore = new DynamoOtpStore('otp-table');
+    const otp = await issueOtp(store, USER);
+    const record = (await store.get(USER, otp.challengeId))!;
+    jest.spyOn(dynamoStore, 'get').mockResolvedValue(record);
+    const send = jest.spyOn(getDocumentClient(), 'send').mockImplementation(async () => {
+      throw Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' });
+    });
+
+    try {
+      await expect(verifyOtp(dynamoStore, USER, otp.challengeId, otp.code, 3)).resolves.toBe('too_many_attempts');
+
+      const update = send.mock.calls[0][0] as UpdateCommand;
+      expect(update.input.ConditionExpression).toContain('attempts < :max AND consumed = :false');
+      expect(update.input.ExpressionAttributeValues).toMatchObject({ ':max': 3, ':false': false });
+    } finally {
+      send.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,26 @@
+import { normalizePhoneNumber } from '../../src/shared/phone';
+
+describe('normalizePhoneNumber', () => {
+  it.each([
+    ['+447911123456', '+447911123456'],
+    ['+44 7911 123456', '+447911123456'],
+    ['+44 (0)7911 123456', '+447911123456'],
+    ['07911 123456', '+447911123456'],
+    ['07911-123-456', '+447911123456'],
+    [' 07911123456 ', '+447911123456']
+  ])('reads %s in the default region (GB in tests)', (input, expected) => {
+    expect(normalizePhoneNumber(input)).toBe(expected);
+  });
+
+  it('uses the region passed in for national numbers', () => {
+    expect(normalizePhoneNumber('(202) 555-0123', 'US')).toBe('+12025550123');
+  });
+
+  it('keeps international numbers from other regions', () => {
+    expect(normalizePhoneNumber('+1 202-555-0123')).toBe('+12025550123');
+  });
+
+  it.each(['', '   ', '12', '+1 555', '07911', '1-800-FLOWERS', '+44 7911 12345678901'])('rejects %j', input => {
+    expect(normalizePhoneNumber(input)).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * JWKS fetching for the shared token verifier
+ * Each test loads a fresh verifier so the JWKS cache starts empty
+ */
+
+import axios from 'axios';
+import { LocalJwtSigner } from '../../src/local/jwt-signer';
+import type { TokenVerificationError } from '../../src/shared/token-verifier';
+import { signTokens } from '../harness/api';
+import { TEST_ISSUER } from '../harness/env';
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { get: jest.fn() }
+}));
+
+const signer = new LocalJwtSigner(TEST_ISSUER);
+const rotatedSigner = new LocalJwtSigner(TEST_ISSUER);
+
+let verifyCognitoToken: typeof import('../../src/shared/token-verifier').verifyCognitoToken;
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+  jest.mocked(axios.get).mockReset().mockResolvedValue({ data: signer.getJwks() });
+
+  jest.isolateModules(() => {
+    ({ verifyCognitoToken } = require('../../src/shared/token-verifier'));
+  });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+function tokenFrom(tokenSigner: LocalJwtSigner): string {
+  return signTokens(tokenSigner).IdToken!;
+}
+
+async function rejectionReason(token: string): Promise<string> {
+  // The freshly loaded verifier has its own TokenVerificationError class
+  const error: TokenVerificationError = await verifyCognitoToken(token).catch(caught => caught);
+  return error.reason;
+}
+
+describe('JWKS fetching', () => {
+  it('fetches the JWKS once for known keys', async () => {
+    await verifyCognitoToken(tokenFrom(signer));
+    await verifyCognitoToken(tokenFrom(signer));
+
+    expect(axios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects an unknown key without refetching a JWKS fetched moments ago', async () => {
+    await verifyCognitoToken(tokenFrom(signer));
+
+    expect(await rejectionReason(tokenFrom(rotatedSigner))).toBe('unknown_key');
+    expect(axios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches at most once a minute for unknown keys', async () => {
+    await verifyCognitoToken(tokenFrom(signer));
+    jest.advanceTimersByTime(60000);
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect(await rejectionReason(tokenFrom(rotatedSigner))).toBe('unknown_key');
+    }
+
+    expect(axios.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one refetch between concurrent unknown keys', async () => {
+    await verifyCognitoToken(tokenFrom(signer));
+    jest.advanceTimersByTime(60000);
+
+    const reasons = await Promise.all(Array.from({ length: 5 }, () => rejectionReason(tokenFrom(rotatedSigner))));
+
+    expect(reasons).toEqual(Array(5).fill('unknown_key'));
+    expect(axios.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('picks up a rotated key once the refetch interval has passed', async () => {
+    await verifyCognitoToken(tokenFrom(signer));
+    jest.mocked(axios.get).mockResolvedValue({
+      data: { keys: [...signer.getJwks().keys, ...rotatedSigner.getJwks().keys] }
+    });
+    jest.advanceTimersByTime(60000);
+
+    await expect(verifyCognitoToken(tokenFrom(rotatedSigner))).resolves.toMatchObject({ token_use: 'id' });
+    expect(axios.get).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('app client allowlist', () => {
+  it('rejects every token when no app client is configured', async () => {
+    const env = { COGNITO_CLIENT_ID: process.env.COGNITO_CLIENT_ID, COGNITO_ADDITIONAL_CLIENT_IDS: process.env.COGNITO_ADDITIONAL_CLIENT_IDS };
+    delete process.env.COGNITO_CLIENT_ID;
+    delete process.env.COGNITO_ADDITIONAL_CLIENT_IDS;
+
+    try {
+      jest.isolateModules(() => {
+        ({ verifyCognitoToken } = require('../../src/shared/token-verifier'));
+      });
+    } finally {
+      for (const [name, value] of Object.entries(env)) {
+        if (value !== undefined) {
+          process.env[name] = value;
+        }
+      }
+    }
+
+    expect(await rejectionReason(tokenFrom(signer))).toBe('wrong_audience');
+  });
+});